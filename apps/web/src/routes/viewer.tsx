@@ -1,7 +1,10 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { useState, useEffect, useCallback, useRef } from 'react'
 import {
-  parse,
+  parseMermaidWithDiagnostics,
+  layoutGraph,
+  formatDiagnostic,
+  hasErrors,
   render,
   createInitialNavState,
   toggleFold,
@@ -16,9 +19,12 @@ import type {
   InteractionMode,
   EditingState,
   DragState,
+  ParseDiagnostic,
 } from 'isomaid'
 import { createEmptyEditingState } from 'isomaid'
 import { screenToGraph, findNearestSegment, constrainToPerpendicular, closestPointOnSegment } from '../utils/coords'
+import { buildHighlightSegments } from '../utils/diagnostics'
+import { findNodeAtOffset, offsetFromPoint, selectSourceRange } from '../utils/source'
 
 export const Route = createFileRoute('/viewer')({ component: DiagramViewer })
 
@@ -166,6 +172,12 @@ function DiagramViewer() {
   const [pendingError, setPendingError] = useState<string | null>(null)
   // Visible error - shown when user clicks Check
   const [visibleError, setVisibleError] = useState<string | null>(null)
+  // Parse diagnostics - underlined in the editor as you type
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([])
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const highlightRef = useRef<HTMLDivElement>(null)
+  // Node whose source is under the mouse in the editor - highlighted in the diagram
+  const [sourceHoverNodeId, setSourceHoverNodeId] = useState<string | null>(null)
   // Collision test results
   const [collisionResult, setCollisionResult] = useState<CollisionTestResult | null>(null)
   const [showCollisions, setShowCollisions] = useState(false)
@@ -312,7 +324,21 @@ function DiagramViewer() {
   const parseDiagram = useCallback(async (mermaidSource: string) => {
     try {
       setLoading(true)
-      const parsedGraph = await parse(mermaidSource, { viewMode })
+      // The editor checks against Mermaid itself so diagrams stay portable
+      const result = await parseMermaidWithDiagnostics(mermaidSource, { validate: true })
+      setDiagnostics(result.diagnostics)
+      if (hasErrors(result.diagnostics)) {
+        setPendingError(
+          result.diagnostics
+            .filter(d => d.severity === 'error')
+            .map(formatDiagnostic)
+            .join('\n')
+        )
+        return
+      }
+
+      const parsedGraph = result.graph
+      await layoutGraph(parsedGraph, { viewMode })
       setGraph(parsedGraph)
       setNavState(createInitialNavState()) // Reset navigation on new diagram
       setPendingError(null)
@@ -543,6 +569,28 @@ function DiagramViewer() {
     renderCurrentView()
   }, [renderCurrentView])
 
+  // Select a diagnostic's range in the editor
+  const handleDiagnosticClick = useCallback((diagnostic: ParseDiagnostic) => {
+    if (textareaRef.current) {
+      selectSourceRange(textareaRef.current, diagnostic.range)
+    }
+  }, [])
+
+  // Track which node's source is under the mouse in the editor
+  const handleEditorMouseMove = useCallback((e: React.MouseEvent<HTMLTextAreaElement>) => {
+    if (!graph || !highlightRef.current) return
+    const offset = offsetFromPoint(highlightRef.current, e.currentTarget, e.clientX, e.clientY)
+    setSourceHoverNodeId(offset === null ? null : findNodeAtOffset(graph, offset))
+  }, [graph])
+
+  // Keep the underline overlay scrolled with the editor
+  const handleEditorScroll = useCallback((e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = e.currentTarget.scrollTop
+      highlightRef.current.scrollLeft = e.currentTarget.scrollLeft
+    }
+  }, [])
+
   // Handle Check button - show pending error if any
   const handleCheck = useCallback(() => {
     if (pendingError) {
@@ -624,7 +672,16 @@ function DiagramViewer() {
       }
       element = element.parentElement as SVGElement | null
     }
-  }, [graph, handleToggleFold])
+
+    // In view mode, clicking a node jumps the editor to its definition
+    if (interactionMode !== 'view') return
+    const nodeElement = target.closest?.('.node[data-id]')
+    const nodeId = nodeElement?.getAttribute('data-id')
+    const range = nodeId ? graph.nodes.get(nodeId)?.sourceRange : undefined
+    if (range && textareaRef.current) {
+      selectSourceRange(textareaRef.current, range)
+    }
+  }, [graph, handleToggleFold, interactionMode])
 
   // Handle click on diagram canvas to show coordinates (only in coord mode)
   const handleCanvasClick = useCallback((e: React.MouseEvent) => {
@@ -1244,6 +1301,18 @@ function DiagramViewer() {
     }
   }, [svg])
 
+  // Outline the node whose source is hovered in the editor
+  useEffect(() => {
+    const container = svgContainerRef.current
+    if (!container || !sourceHoverNodeId) return
+    const element = container.querySelector<SVGGElement>(`.node[data-id="${CSS.escape(sourceHoverNodeId)}"]`)
+    if (!element) return
+    element.style.filter = 'drop-shadow(0 0 6px rgb(34 211 238))'
+    return () => {
+      element.style.filter = ''
+    }
+  }, [sourceHoverNodeId, svg])
+
   // DEBUG: Global mousemove listener to track position
   // Skip updates while dragging to avoid React re-renders that would reset DOM transforms
   useEffect(() => {
@@ -1617,17 +1686,61 @@ function DiagramViewer() {
           </div>
 
           {/* Editor Content */}
-          <div className="flex-1 relative min-h-0">
+          <div className="flex-1 relative min-h-0 bg-slate-900">
+            {/* Underline overlay - mirrors the textarea text, transparent except for underlines */}
+            <div
+              ref={highlightRef}
+              aria-hidden
+              className="absolute inset-0 p-4 font-mono text-sm whitespace-pre-wrap break-words overflow-hidden text-transparent pointer-events-none"
+            >
+              {buildHighlightSegments(source, diagnostics).map((segment, i) =>
+                segment.severity ? (
+                  <span
+                    key={i}
+                    className={`underline decoration-wavy underline-offset-4 ${
+                      segment.severity === 'error' ? 'decoration-red-500' : 'decoration-amber-400'
+                    }`}
+                  >
+                    {segment.text}
+                  </span>
+                ) : (
+                  <span key={i}>{segment.text}</span>
+                )
+              )}
+            </div>
             <textarea
+              ref={textareaRef}
               value={source}
               onChange={(e) => setSource(e.target.value)}
               onKeyDown={handleKeyDown}
-              className="absolute inset-0 w-full h-full p-4 bg-slate-900 text-gray-100 font-mono text-sm resize-none focus:outline-none focus:ring-1 focus:ring-cyan-500/50"
+              onScroll={handleEditorScroll}
+              onMouseMove={handleEditorMouseMove}
+              onMouseLeave={() => setSourceHoverNodeId(null)}
+              className="absolute inset-0 w-full h-full p-4 bg-transparent text-gray-100 font-mono text-sm resize-none focus:outline-none focus:ring-1 focus:ring-cyan-500/50"
               spellCheck={false}
               placeholder="Enter Mermaid diagram code..."
             />
           </div>
 
+          {/* Diagnostics list - click to select the offending source */}
+          {diagnostics.length > 0 && (
+            <div className="shrink-0 max-h-40 overflow-auto border-t border-slate-700 bg-slate-800 text-xs font-mono">
+              {diagnostics.map((diagnostic, i) => (
+                <button
+                  key={i}
+                  onClick={() => handleDiagnosticClick(diagnostic)}
+                  className="w-full text-left px-4 py-1 flex gap-2 hover:bg-slate-700"
+                >
+                  <span className={diagnostic.severity === 'error' ? 'text-red-400' : 'text-amber-400'}>
+                    {diagnostic.range.start.line}:{diagnostic.range.start.column}
+                  </span>
+                  <span className="text-gray-300 truncate">{diagnostic.message}</span>
+                  <span className="text-gray-500 ml-auto">{diagnostic.code}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
         </div>
 
         {/* Resize Handle */}
@@ -0,0 +1,41 @@
+/**
+ * Helpers for showing parse diagnostics in the source editor.
+ */
+
+import type { DiagnosticSeverity, ParseDiagnostic } from 'isomaid'
+
+/** A run of source text with the most severe diagnostic covering it */
+export interface HighlightSegment {
+  text: string
+  severity: DiagnosticSeverity | null
+}
+
+/**
+ * Split source text into runs for the underline overlay.
+ * Errors win over warnings where ranges overlap; empty ranges mark one character.
+ */
+export function buildHighlightSegments(
+  source: string,
+  diagnostics: ParseDiagnostic[]
+): HighlightSegment[] {
+  const marks: Array<DiagnosticSeverity | null> = new Array(source.length).fill(null)
+
+  for (const { severity, range } of diagnostics) {
+    const start = Math.min(range.start.offset, Math.max(source.length - 1, 0))
+    const end = Math.min(Math.max(range.end.offset, start + 1), source.length)
+    for (let i = start; i < end; i++) {
+      if (marks[i] !== 'error') marks[i] = severity
+    }
+  }
+
+  const segments: HighlightSegment[] = []
+  for (let i = 0; i < source.length; i++) {
+    const last = segments[segments.length - 1]
+    if (last && last.severity === marks[i]) {
+      last.text += source[i]
+    } else {
+      segments.push({ text: source[i], severity: marks[i] })
+    }
+  }
+  return segments
+}
@@ -0,0 +1,90 @@
+/**
+ * Links between the source editor and the rendered diagram, using the
+ * source ranges the parser attaches to nodes.
+ */
+
+import type { Graph, SourceRange } from 'isomaid'
+
+/**
+ * Find the node declared at a source offset. Nested ranges (a node inside a
+ * subgraph block) resolve to the innermost, i.e. shortest, one.
+ */
+export function findNodeAtOffset(graph: Graph, offset: number): string | null {
+  let best: { id: string; length: number } | null = null
+
+  for (const node of graph.nodes.values()) {
+    const range = node.sourceRange
+    if (!range || offset < range.start.offset || offset > range.end.offset) continue
+
+    const length = range.end.offset - range.start.offset
+    if (!best || length < best.length) {
+      best = { id: node.id, length }
+    }
+  }
+
+  return best?.id ?? null
+}
+
+/**
+ * Select a source range in the editor and scroll it into view
+ */
+export function selectSourceRange(textarea: HTMLTextAreaElement, range: SourceRange): void {
+  textarea.focus()
+  textarea.setSelectionRange(range.start.offset, range.end.offset)
+
+  // setSelectionRange doesn't scroll on every browser; approximate from the line height
+  const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20
+  const top = (range.start.line - 1) * lineHeight
+  if (top < textarea.scrollTop || top > textarea.scrollTop + textarea.clientHeight - lineHeight) {
+    textarea.scrollTop = Math.max(0, top - textarea.clientHeight / 3)
+  }
+}
+
+/**
+ * Map a mouse position over the editor to a source offset, using the mirror
+ * element that renders the same text underneath the textarea.
+ * Returns null if the point isn't over text.
+ */
+export function offsetFromPoint(
+  mirror: HTMLElement,
+  textarea: HTMLTextAreaElement,
+  x: number,
+  y: number
+): number | null {
+  // The textarea covers the mirror, so let hit testing fall through to it briefly
+  const previous = textarea.style.pointerEvents
+  const previousMirror = mirror.style.pointerEvents
+  textarea.style.pointerEvents = 'none'
+  mirror.style.pointerEvents = 'auto'
+
+  let container: Node | null = null
+  let offset = 0
+  try {
+    const doc = document as Document & {
+      caretPositionFromPoint?: (x: number, y: number) => { offsetNode: Node; offset: number } | null
+    }
+    if (doc.caretPositionFromPoint) {
+      const position = doc.caretPositionFromPoint(x, y)
+      container = position?.offsetNode ?? null
+      offset = position?.offset ?? 0
+    } else if (document.caretRangeFromPoint) {
+      const range = document.caretRangeFromPoint(x, y)
+      container = range?.startContainer ?? null
+      offset = range?.startOffset ?? 0
+    }
+  } finally {
+    textarea.style.pointerEvents = previous
+    mirror.style.pointerEvents = previousMirror
+  }
+
+  if (!container || !mirror.contains(container)) return null
+
+  // Add up the text before the hit text node
+  const walker = document.createTreeWalker(mirror, NodeFilter.SHOW_TEXT)
+  let total = 0
+  for (let text = walker.nextNode(); text; text = walker.nextNode()) {
+    if (text === container) return total + offset
+    total += text.textContent?.length ?? 0
+  }
+  return null
+}
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest'
+import { loadArchWorkspace, mergeArchViews, parseArchWorkspace, type ArchFile } from './arch'
+import { validateGraph } from '../model/validate'
+
+const FILES: ArchFile[] = [
+  {
+    path: 'docs/auth.arch.md',
+    content: `---
+id: auth
+status: active
+owner: identity
+tags: [security]
+---
+# [[Auth]]
+
+Authentication service handling
+login and sessions.
+
+#service #critical
+
+## Connections
+- → [[API Gateway]]: all requests route through gateway
+- ← [[Frontend Web]]: initiates login flows
+
+## Architecture
+\`\`\`mermaid
+flowchart TD
+    Login[Login Handler] --> [[User DB]]
+    Login --> Tokens
+\`\`\`
+`,
+  },
+  {
+    path: 'docs/gateway.arch.md',
+    content: `---
+aliases: [gw]
+---
+# API Gateway
+
+Routes traffic to [[auth]].
+
+## Views
+### Routing
+\`\`\`mermaid
+flowchart LR
+    Router -->|/login| [[Auth]]
+\`\`\`
+\`\`\`mermaid
+sequenceDiagram
+    [[gw]]->>Auth: forward
+\`\`\`
+`,
+  },
+]
+
+describe('parseArchWorkspace', () => {
+  it('reads components, connections and views', async () => {
+    const workspace = await parseArchWorkspace(FILES)
+
+    expect(workspace.diagnostics).toEqual([])
+    expect(workspace.components.get('auth')).toMatchObject({
+      label: 'Auth',
+      file: 'docs/auth.arch.md',
+      description: 'Authentication service handling login and sessions.',
+      status: 'active',
+      owner: 'identity',
+      tags: ['security', 'service', 'critical'],
+      connections: [
+        { target: 'api-gateway', direction: 'outgoing', label: 'all requests route through gateway', line: 15 },
+        { target: 'frontend-web', direction: 'incoming', label: 'initiates login flows', line: 16 },
+      ],
+    })
+    // Linked to but without a file of their own
+    expect(workspace.components.get('frontend-web')).toEqual({
+      id: 'frontend-web', label: 'Frontend Web', tags: [], connections: [], views: [],
+    })
+
+    const [architecture] = workspace.components.get('auth')!.views
+    expect(architecture).toMatchObject({ kind: 'flowchart', section: 'Architecture', line: 20, links: ['user-db'] })
+    expect(architecture.graph!.nodes.get('user-db')).toMatchObject({ label: 'User DB', metadata: { component: 'user-db' } })
+    expect(architecture.graph!.edges.map(edge => [edge.from, edge.to])).toEqual([['Login', 'user-db'], ['Login', 'Tokens']])
+
+    const [routing, sequence] = workspace.components.get('api-gateway')!.views
+    expect(routing).toMatchObject({ section: 'Views', name: 'Routing', links: ['auth'] })
+    expect(sequence).toMatchObject({ kind: 'sequenceDiagram', links: ['api-gateway'] })
+    expect(sequence.graph).toBeUndefined()
+  })
+
+  it('lists backlinks from text and views', async () => {
+    const workspace = await parseArchWorkspace(FILES)
+
+    expect(workspace.backlinks.get('auth')).toEqual([
+      { from: 'api-gateway', file: 'docs/gateway.arch.md', line: 6, context: 'Routes traffic to [[auth]].' },
+      { from: 'api-gateway', file: 'docs/gateway.arch.md', line: 12, context: 'Router -->|/login| [[Auth]]', view: 0 },
+    ])
+    expect(workspace.backlinks.get('user-db')).toEqual([
+      { from: 'auth', file: 'docs/auth.arch.md', line: 21, context: 'Login[Login Handler] --> [[User DB]]', view: 0 },
+    ])
+    expect(workspace.backlinks.get('frontend-web')).toHaveLength(1)
+  })
+
+  it('reports duplicate ids and view errors in file coordinates', async () => {
+    const workspace = await parseArchWorkspace([
+      { path: 'a.arch.md', content: '# Cache\n' },
+      { path: 'b.arch.md', content: '# Cache\n\n```mermaid\nflowchart LR\n    A --> B[oops\n```\n' },
+    ])
+
+    expect([...workspace.components.keys()]).toEqual(['cache', 'cache-2'])
+    expect(workspace.diagnostics.map(d => [d.file, d.code, d.range.start.line])).toEqual([
+      ['b.arch.md', 'duplicate-id', 1],
+      ['b.arch.md', expect.any(String), 5],
+    ])
+  })
+})
+
+describe('mergeArchViews', () => {
+  it('joins components by connections and views', async () => {
+    const graph = mergeArchViews(await parseArchWorkspace(FILES))
+
+    expect(graph.rootNodes).toEqual(['auth', 'api-gateway', 'frontend-web', 'user-db'])
+    expect(graph.nodes.get('auth')?.metadata).toEqual({
+      kind: 'component', file: 'docs/auth.arch.md', status: 'active', owner: 'identity', tags: 'security, service, critical',
+    })
+    expect(graph.edges.map(edge => [edge.from, edge.to, edge.label])).toEqual([
+      ['auth', 'api-gateway', 'all requests route through gateway'],
+      ['frontend-web', 'auth', 'initiates login flows'],
+      ['auth', 'user-db', undefined],
+      ['api-gateway', 'auth', undefined],
+    ])
+    expect(validateGraph(graph)).toEqual([])
+  })
+
+  it('brings in local nodes with details', async () => {
+    const graph = mergeArchViews(await parseArchWorkspace(FILES), { details: true })
+
+    expect(graph.nodes.get('auth')).toMatchObject({ isSubgraph: true, children: ['auth/Login', 'auth/Tokens'] })
+    expect(graph.nodes.get('auth/Login')).toMatchObject({ label: 'Login Handler', parent: 'auth' })
+    expect(graph.edges.map(edge => [edge.from, edge.to, edge.label])).toContainEqual(['api-gateway/Router', 'auth', '/login'])
+    expect(validateGraph(graph)).toEqual([])
+  })
+})
+
+describe('loadArchWorkspace', () => {
+  it('reads .arch.md files through a host, skipping hidden directories', async () => {
+    const files: Record<string, string> = {
+      'docs/auth.arch.md': '# Auth\n',
+      'docs/readme.md': '# Not a component\n',
+      '.cache/old.arch.md': '# Old\n',
+    }
+    const workspace = await loadArchWorkspace({
+      async readFile(path) {
+        return files[path]
+      },
+      async readDirectory(path) {
+        if (path === '') return [{ name: 'docs', directory: true }, { name: '.cache', directory: true }]
+        return Object.keys(files).filter(file => file.startsWith(`${path}/`))
+          .map(file => ({ name: file.slice(path.length + 1), directory: false }))
+      },
+    })
+
+    expect([...workspace.components.keys()]).toEqual(['auth'])
+  })
+})
@@ -0,0 +1,575 @@
+/**
+ * .arch.md workspace to Graph
+ *
+ * Each component is a Markdown file with embedded Mermaid views:
+ *
+ *   ---
+ *   id: auth
+ *   status: active
+ *   ---
+ *   # [[Auth]]
+ *
+ *   Authentication service handling login and sessions.
+ *
+ *   #service #critical
+ *
+ *   ## Connections
+ *   - → [[API Gateway]]: all requests route through gateway
+ *   - ← [[Frontend Web]]: initiates login flows
+ *
+ *   ## Architecture
+ *   ```mermaid
+ *   flowchart TD
+ *       Login[Login Handler] --> [[User DB]]
+ *   ```
+ *
+ * parseArchWorkspace reads a set of these. A `[[wikilink]]` names the same
+ * component wherever it appears (matched on id, title, file name or alias),
+ * flowchart views are parsed with linked nodes under their component ids,
+ * and every component gets the list of places that link to it (backlinks).
+ * mergeArchViews combines the lot into one Graph for the overview.
+ */
+
+import type { Graph, Node, EdgeStyle } from '../model/types'
+import { GraphBuilder } from '../model/builder'
+import type { ParseDiagnostic } from '../parser/diagnostics'
+import { parseMermaidWithDiagnostics } from '../parser/mermaid'
+import { extractWikilinks, replaceWikilinks } from '../parser/wikilinks'
+import { json5ToValue } from '../parser/json5'
+import { parseYaml, YamlSyntaxError } from '../parser/yaml'
+import { lineStarts, rangeAt } from '../parser/tokenizer'
+import type { WorkspaceHost } from './workspace'
+
+/** A component file, e.g. one read from disk */
+export interface ArchFile {
+  path: string
+  content: string
+}
+
+export interface ArchComponent {
+  id: string              // Frontmatter `id`, or made from the title or file name
+  label: string           // Title, without its brackets (`# [[Auth]]` → Auth)
+  file?: string           // Unset for components that are linked to but have no file yet
+  description?: string    // First paragraph after the title
+  status?: string
+  owner?: string
+  tags: string[]          // `#tags` in the text and frontmatter `tags`, without the `#`
+  connections: ArchConnection[]
+  views: ArchView[]
+}
+
+/** A link listed under `## Connections` */
+export interface ArchConnection {
+  target: string  // Component id
+  direction: 'outgoing' | 'incoming'  // `→` / `->` (the default) or `←` / `<-`
+  label?: string  // Text after the link
+  line: number
+}
+
+/** A ```mermaid block */
+export interface ArchView {
+  kind: string      // Diagram keyword: flowchart, sequenceDiagram, ...
+  section?: string  // The `##` heading it sits under
+  name?: string     // The nearest heading
+  source: string    // As written, wikilinks included
+  line: number      // File line of its first line
+  links: string[]   // Components it links to
+  graph?: Graph     // Flowchart and architecture-beta views, linked nodes under their component ids
+}
+
+/** A place some other component links to this one */
+export interface ArchBacklink {
+  from: string     // Component whose file has the link
+  file: string
+  line: number
+  context: string  // The line, trimmed
+  view?: number    // Index into the linking component's `views`, for links inside one
+}
+
+/** A problem in one of the files */
+export interface ArchDiagnostic extends ParseDiagnostic {
+  file: string
+}
+
+export interface ArchWorkspace {
+  components: Map<string, ArchComponent>
+  backlinks: Map<string, ArchBacklink[]>  // Component id -> links to it, for every component
+  diagnostics: ArchDiagnostic[]           // Including those of views that failed to parse
+}
+
+export interface ArchMergeOptions {
+  details?: boolean  // Also bring in views' local nodes, inside their component (default false)
+}
+
+const DEFAULT_MERGE_OPTIONS: Required<ArchMergeOptions> = {
+  details: false,
+}
+
+const ARCH_FILE = /\.arch\.md$/
+
+// View kinds the Graph parser reads
+const GRAPH_VIEW_KINDS = new Set(['flowchart', 'graph', 'architecture-beta'])
+
+/** What reading one file finds, before links are resolved */
+interface ArchDocument {
+  file: ArchFile
+  frontmatter: Record<string, unknown>
+  title?: string
+  description?: string
+  tags: string[]
+  connections: Array<{ target: string; direction: ArchConnection['direction']; label?: string; line: number }>
+  blocks: Array<{ source: string; line: number; offset: number; section?: string; name?: string }>
+  mentions: Array<{ target: string; line: number; context: string; block?: number }>
+}
+
+/**
+ * Read every `.arch.md` file under `dir` of a workspace
+ */
+export async function loadArchWorkspace(host: WorkspaceHost, dir = ''): Promise<ArchWorkspace> {
+  const files: ArchFile[] = []
+  const walk = async (path: string): Promise<void> => {
+    for (const entry of await host.readDirectory(path)) {
+      const child = path ? `${path}/${entry.name}` : entry.name
+      if (entry.directory) {
+        if (!entry.name.startsWith('.') && entry.name !== 'node_modules') await walk(child)
+      } else if (ARCH_FILE.test(entry.name)) {
+        const content = await host.readFile(child)
+        if (content !== undefined) files.push({ path: child, content })
+      }
+    }
+  }
+  await walk(dir)
+  return parseArchWorkspace(files.sort((a, b) => a.path.localeCompare(b.path)))
+}
+
+/**
+ * Read a set of `.arch.md` files into components, resolving wikilinks
+ * across them
+ */
+export async function parseArchWorkspace(files: ArchFile[]): Promise<ArchWorkspace> {
+  const workspace: ArchWorkspace = { components: new Map(), backlinks: new Map(), diagnostics: [] }
+  const documents = files.map(file => readDocument(file, workspace.diagnostics))
+
+  // Names a link may use -> component id
+  const names = new Map<string, string>()
+  const owners = new Map<ArchDocument, ArchComponent>()
+  for (const document of documents) {
+    const { file, frontmatter } = document
+    const stem = file.path.slice(file.path.lastIndexOf('/') + 1).replace(ARCH_FILE, '')
+    const label = document.title ?? stringValue(frontmatter.title) ?? stem
+    let id = stringValue(frontmatter.id) ?? (nameKey(label) || nameKey(stem))
+    if (workspace.components.get(id)?.file) {
+      workspace.diagnostics.push({
+        file: file.path,
+        severity: 'warning',
+        code: 'duplicate-id',
+        message: `Component id "${id}" is already used by ${workspace.components.get(id)!.file}`,
+        range: rangeAt(lineStarts(file.content), 0, 0),
+      })
+      let n = 2
+      while (workspace.components.has(`${id}-${n}`)) n++
+      id = `${id}-${n}`
+    }
+
+    const component: ArchComponent = {
+      id,
+      label,
+      file: file.path,
+      tags: document.tags,
+      connections: [],
+      views: [],
+    }
+    if (document.description) component.description = document.description
+    const status = stringValue(frontmatter.status)
+    if (status) component.status = status
+    const owner = stringValue(frontmatter.owner)
+    if (owner) component.owner = owner
+
+    workspace.components.set(id, component)
+    owners.set(document, component)
+    // The first file to claim a name keeps it
+    const aliases = Array.isArray(frontmatter.aliases) ? frontmatter.aliases.map(stringValue) : []
+    for (const name of [id, label, stem, ...aliases]) {
+      if (name && !names.has(nameKey(name))) names.set(nameKey(name), id)
+    }
+  }
+
+  // Links to names no file claims get a component of their own, without a file
+  const resolve = (name: string): string => {
+    const key = nameKey(name) || name
+    const id = names.get(key)
+    if (id) return id
+    names.set(key, key)
+    workspace.components.set(key, { id: key, label: name, tags: [], connections: [], views: [] })
+    return key
+  }
+
+  for (const document of documents) {
+    const component = owners.get(document)!
+    component.connections = document.connections.map(c => ({ ...c, target: resolve(c.target) }))
+
+    for (const block of document.blocks) {
+      const view: ArchView = { kind: diagramKind(block.source), source: block.source, line: block.line, links: [] }
+      if (block.section) view.section = block.section
+      if (block.name) view.name = block.name
+      for (const link of extractWikilinks(block.source, true)) {
+        const id = resolve(link.target)
+        if (!view.links.includes(id)) view.links.push(id)
+      }
+      if (GRAPH_VIEW_KINDS.has(view.kind)) {
+        view.graph = await parseView(document, block, resolve, workspace.diagnostics)
+      }
+      component.views.push(view)
+    }
+  }
+
+  for (const component of workspace.components.values()) {
+    workspace.backlinks.set(component.id, [])
+  }
+  for (const document of documents) {
+    const from = owners.get(document)!.id
+    for (const mention of document.mentions) {
+      const target = resolve(mention.target)
+      if (target === from) continue
+      const backlinks = workspace.backlinks.get(target) ?? []
+      const backlink: ArchBacklink = { from, file: document.file.path, line: mention.line, context: mention.context }
+      if (mention.block !== undefined) backlink.view = mention.block
+      backlinks.push(backlink)
+      workspace.backlinks.set(target, backlinks)
+    }
+  }
+
+  return workspace
+}
+
+/**
+ * One Graph of every component, with edges from declared connections and
+ * from the views (a link between local nodes and other components counts as
+ * one from the component whose file the view is in)
+ */
+export function mergeArchViews(workspace: ArchWorkspace, options: ArchMergeOptions = {}): Graph {
+  const opts = { ...DEFAULT_MERGE_OPTIONS, ...options }
+  const builder = new GraphBuilder()
+  const graph = builder.build()
+
+  const isLocal = (node: Node) => !node.metadata?.component
+  for (const component of workspace.components.values()) {
+    const hasDetails = opts.details && component.views.some(view =>
+      [...view.graph?.nodes.values() ?? []].some(isLocal))
+    const metadata: Record<string, string> = { kind: 'component' }
+    if (component.file) metadata.file = component.file
+    if (component.status) metadata.status = component.status
+    if (component.owner) metadata.owner = component.owner
+    if (component.tags.length > 0) metadata.tags = component.tags.join(', ')
+    if (hasDetails) {
+      builder.subgraph(component.id, { label: component.label, metadata })
+    } else {
+      builder.node(component.id, { label: component.label, metadata })
+    }
+  }
+
+  // Local nodes, under their component, with ids made unique across files
+  const localId = (component: ArchComponent, id: string) => `${component.id}/${id}`
+  if (opts.details) {
+    for (const component of workspace.components.values()) {
+      for (const view of component.views) {
+        const nodes = view.graph?.nodes ?? new Map<string, Node>()
+        // Parents first; a local subgraph inside a linked one goes straight under the component
+        const addLocal = (node: Node): void => {
+          const id = localId(component, node.id)
+          if (graph.nodes.has(id)) return
+          const parent = node.parent ? nodes.get(node.parent) : undefined
+          if (parent && isLocal(parent)) addLocal(parent)
+          const scope = builder.within(parent && isLocal(parent) ? localId(component, parent.id) : component.id)
+          if (node.isSubgraph) {
+            scope.subgraph(id, { label: node.label, metadata: node.metadata })
+          } else {
+            scope.node(id, { label: node.label, shape: node.shape, metadata: node.metadata })
+          }
+        }
+        for (const node of nodes.values()) {
+          if (isLocal(node)) addLocal(node)
+        }
+      }
+    }
+  }
+
+  for (const component of workspace.components.values()) {
+    for (const connection of component.connections) {
+      const [from, to] = connection.direction === 'outgoing'
+        ? [component.id, connection.target]
+        : [connection.target, component.id]
+      addEdge(builder, from, to, connection.label, 'solid')
+    }
+  }
+
+  for (const component of workspace.components.values()) {
+    for (const view of component.views) {
+      if (!view.graph) continue
+      const endpoint = (id: string) => {
+        const node = view.graph!.nodes.get(id)!
+        if (!isLocal(node)) return node.id
+        return opts.details ? localId(component, id) : component.id
+      }
+      for (const edge of view.graph.edges) {
+        // Component to component, a view's labels and styles would be one of many
+        const label = opts.details ? edge.label : undefined
+        addEdge(builder, endpoint(edge.from), endpoint(edge.to), label, opts.details ? edge.style : 'solid')
+      }
+    }
+  }
+
+  return graph
+}
+
+// ============ Reading files ============
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})\s*([\w-]*)/
+const TAG_PATTERN = /(?:^|\s)#([A-Za-z][\w/-]*)/g
+const CONNECTION_PATTERN = /^\s*[-*+]\s+(→|->|←|<-)?\s*\[\[/
+
+/**
+ * Pick a file apart: frontmatter, title, description, tags, connections,
+ * Mermaid blocks and every wikilink outside other code blocks
+ */
+function readDocument(file: ArchFile, diagnostics: ArchDiagnostic[]): ArchDocument {
+  const text = file.content
+  const starts = lineStarts(text)
+  const lines = text.split('\n').map(line => line.replace(/\r$/, ''))
+  const document: ArchDocument = { file, frontmatter: {}, tags: [], connections: [], blocks: [], mentions: [] }
+
+  let first = 0
+  if (lines[0]?.trim() === '---') {
+    const close = lines.findIndex((line, i) => i > 0 && line.trim() === '---')
+    if (close > 0) {
+      first = close + 1
+      try {
+        const value = json5ToValue(parseYaml(text, starts[1], starts[close]))
+        if (value && typeof value === 'object' && !Array.isArray(value)) {
+          document.frontmatter = value as Record<string, unknown>
+        }
+      } catch (error) {
+        if (!(error instanceof YamlSyntaxError)) throw error
+        diagnostics.push({
+          file: file.path,
+          severity: 'warning',
+          code: 'invalid-frontmatter',
+          message: `Failed to parse frontmatter: ${error.message}`,
+          range: rangeAt(starts, error.offset, error.offset + 1),
+        })
+      }
+    }
+  }
+  const addTag = (tag: string) => {
+    if (!document.tags.includes(tag)) document.tags.push(tag)
+  }
+  const frontmatterTags = document.frontmatter.tags
+  for (const tag of Array.isArray(frontmatterTags) ? frontmatterTags : []) {
+    if (typeof tag === 'string') addTag(tag.replace(/^#/, ''))
+  }
+
+  let fence: { marker: string; block?: { lines: string[]; line: number; offset: number; section?: string; name?: string } } | undefined
+  let section: string | undefined
+  let heading: string | undefined
+  let description: string[] | undefined  // Set once the title is seen; frozen after its first paragraph
+
+  for (let i = first; i < lines.length; i++) {
+    const line = lines[i]
+    const fenceMatch = line.match(FENCE_PATTERN)
+
+    if (fence) {
+      const closes = fenceMatch && !fenceMatch[2] &&
+        fenceMatch[1][0] === fence.marker[0] && fenceMatch[1].length >= fence.marker.length
+      if (closes) {
+        const { block } = fence
+        if (block) {
+          document.blocks.push({ ...block, source: block.lines.join('\n') })
+        }
+        fence = undefined
+      } else if (fence.block) {
+        fence.block.lines.push(line)
+        for (const link of extractWikilinks(line, true)) {
+          document.mentions.push({ target: link.target, line: i + 1, context: line.trim(), block: document.blocks.length })
+        }
+      }
+      continue
+    }
+
+    if (fenceMatch) {
+      const mermaid = fenceMatch[2].toLowerCase() === 'mermaid'
+      fence = { marker: fenceMatch[1] }
+      if (mermaid) fence.block = { lines: [], line: i + 2, offset: starts[i + 1] ?? text.length, section, name: heading }
+      if (description?.length) description.push('')
+      continue
+    }
+
+    for (const link of extractWikilinks(line)) {
+      document.mentions.push({ target: link.target, line: i + 1, context: line.trim() })
+    }
+
+    const headingMatch = line.match(HEADING_PATTERN)
+    if (headingMatch) {
+      const title = plainText(headingMatch[2])
+      if (headingMatch[1].length === 1 && document.title === undefined) {
+        document.title = title
+        description = []
+      } else if (headingMatch[1].length <= 2) {
+        section = title
+        heading = title
+      } else {
+        heading = title
+      }
+      if (description?.length) description.push('')
+      continue
+    }
+
+    if (!line.trim()) {
+      if (description?.length) description.push('')
+      continue
+    }
+
+    for (const match of line.matchAll(TAG_PATTERN)) addTag(match[1])
+    const tagsOnly = !line.replace(TAG_PATTERN, '').trim()
+
+    const connection = section && /^connections$/i.test(section) ? line.match(CONNECTION_PATTERN) : null
+    if (connection) {
+      const link = extractWikilinks(line)[0]
+      const label = line.slice(link.end).replace(/^\s*[:—–-]?\s*/, '').trim()
+      document.connections.push({
+        target: link.target,
+        direction: connection[1] === '←' || connection[1] === '<-' ? 'incoming' : 'outgoing',
+        ...(label ? { label } : {}),
+        line: i + 1,
+      })
+      continue
+    }
+
+    // The description is the first paragraph under the title, before any section
+    if (description && !tagsOnly && section === undefined && !description.includes('')) {
+      description.push(plainText(line.trim()))
+    }
+  }
+
+  const paragraph = description?.slice(0, description.includes('') ? description.indexOf('') : undefined)
+  if (paragraph?.length) document.description = paragraph.join(' ')
+  return document
+}
+
+/**
+ * Parse a flowchart or architecture-beta view, with linked nodes renamed
+ * to their component ids and diagnostics moved to their place in the file
+ */
+async function parseView(
+  document: ArchDocument,
+  block: ArchDocument['blocks'][number],
+  resolve: (name: string) => string,
+  diagnostics: ArchDiagnostic[]
+): Promise<Graph> {
+  const replaced = replaceWikilinks(block.source, link => resolve(link.target))
+  const result = await parseMermaidWithDiagnostics(replaced.source)
+  for (const diagnostic of result.diagnostics) {
+    const { start, end } = diagnostic.range
+    diagnostics.push({
+      ...diagnostic,
+      // Statements quoted in messages should read as written
+      message: diagnostic.message.replace(/__link\d+/g, id => {
+        const link = replaced.links.get(id)?.link
+        return link ? `[[${link.target}]]` : id
+      }),
+      file: document.file.path,
+      range: {
+        start: { offset: start.offset + block.offset, line: start.line + block.line - 1, column: start.column },
+        end: { offset: end.offset + block.offset, line: end.line + block.line - 1, column: end.column },
+      },
+    })
+  }
+
+  const { graph } = result
+  // Local nodes that happen to share a component's id make way for it
+  for (const { identity } of replaced.links.values()) {
+    if (!graph.nodes.has(identity)) continue
+    let n = 2
+    while (graph.nodes.has(`${identity}_${n}`)) n++
+    renameNode(graph, identity, `${identity}_${n}`)
+  }
+  for (const [id, { identity, link }] of replaced.links) {
+    const node = graph.nodes.get(id)
+    if (!node) continue
+    if (node.label === id) node.label = link.label ?? link.target
+    node.metadata = { ...node.metadata, component: identity }
+    renameNode(graph, id, identity)
+  }
+  return graph
+}
+
+/**
+ * Change a node's id everywhere the graph refers to it, keeping node order
+ */
+function renameNode(graph: Graph, from: string, to: string): void {
+  const swap = (id: string) => id === from ? to : id
+  graph.nodes = new Map([...graph.nodes].map(([id, node]) => [swap(id), node]))
+  for (const node of graph.nodes.values()) {
+    if (node.id === from) node.id = to
+    if (node.parent === from) node.parent = to
+    if (node.children) node.children = node.children.map(swap)
+    if (node.gridPos?.layer === from) node.gridPos.layer = to
+  }
+  graph.rootNodes = graph.rootNodes.map(swap)
+  for (const edge of graph.edges) {
+    edge.from = swap(edge.from)
+    edge.to = swap(edge.to)
+  }
+  graph.layers = new Map([...graph.layers].map(([id, layer]) => [swap(id), layer]))
+  for (const layer of graph.layers.values()) {
+    if (layer.id === from) layer.id = to
+    if (layer.parentId === from) layer.parentId = to
+    if (layer.bounds.min.layer === from) layer.bounds.min.layer = to
+    if (layer.bounds.max.layer === from) layer.bounds.max.layer = to
+  }
+}
+
+/**
+ * The diagram keyword a Mermaid block starts with, past any frontmatter and comments
+ */
+function diagramKind(source: string): string {
+  const body = source.replace(/^\s*---[ \t]*\r?\n[\s\S]*?\n---[ \t]*(?:\r?\n|$)/, '')
+  for (const line of body.split('\n')) {
+    const text = line.trim()
+    if (text && !text.startsWith('%%')) return text.split(/\s+/)[0]
+  }
+  return ''
+}
+
+/**
+ * Text with wikilinks replaced by what they display
+ */
+function plainText(text: string): string {
+  let result = ''
+  let last = 0
+  for (const link of extractWikilinks(text)) {
+    result += text.slice(last, link.start) + (link.label ?? link.target)
+    last = link.end
+  }
+  return result + text.slice(last)
+}
+
+/**
+ * The form names are matched in: `API Gateway`, `api-gateway` and `api_gateway` are one
+ */
+function nameKey(name: string): string {
+  return name.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '')
+}
+
+function stringValue(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.trim()) return value.trim()
+  if (typeof value === 'number') return String(value)
+  return undefined
+}
+
+// ============ Graph building ============
+
+function addEdge(builder: GraphBuilder, from: string, to: string, label: string | undefined, style: EdgeStyle = 'solid'): void {
+  if (from === to || builder.build().edges.some(e => e.from === from && e.to === to)) return
+  builder.edge(from, to, { label: label || undefined, style, fromArrow: 'none', toArrow: 'arrow' })
+}
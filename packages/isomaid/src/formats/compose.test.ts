@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { ComposeParseError, parseCompose } from './compose'
+
+const services = (entries: Record<string, string>) =>
+  `services:\n${Object.entries(entries).map(([name, image]) => `  ${name}:\n    image: ${image}\n`).join('')}`
+
+describe('parseCompose', () => {
+  it('reads services, networks and dependencies', () => {
+    const graph = parseCompose(`name: shop
+services:
+  api:
+    build: .
+    depends_on: [db]
+    links: ["db:database"]
+    networks: [backend, frontend]
+  db:
+    image: postgres:16
+    ports: ["5432:5432"]
+    networks: [backend]
+networks:
+  backend:
+  frontend:
+    name: public
+`)
+    expect(graph.title).toBe('shop')
+    expect(graph.nodes.get('backend')).toMatchObject({ isSubgraph: true, children: ['api', 'db'] })
+    expect(graph.nodes.has('frontend')).toBe(false)
+    expect(graph.nodes.get('api')?.metadata).toEqual({ kind: 'service', networks: 'backend, frontend' })
+    expect(graph.nodes.get('db')).toMatchObject({
+      shape: 'cylinder',
+      metadata: { kind: 'service', image: 'postgres:16', ports: '5432:5432' },
+    })
+    expect(graph.edges).toHaveLength(1)
+    expect(graph.edges[0]).toMatchObject({ from: 'api', to: 'db', label: '5432' })
+  })
+
+  it('draws database images as cylinders by repository name', () => {
+    const graph = parseCompose(services({
+      a: 'postgres',
+      b: 'bitnami/postgresql:16',
+      c: 'registry.example.com:5000/team/redis:7-alpine',
+      d: 'mongo@sha256:0123abcd',
+      e: 'prom/mysql-exporter',
+      f: 'ghcr.io/acme/postgres-backup:2',
+      g: 'redis-commander',
+      h: 'nginx',
+    }))
+    const shapes = Object.fromEntries([...graph.nodes.values()].map(node => [node.id, node.shape]))
+    expect(shapes).toEqual({
+      a: 'cylinder', b: 'cylinder', c: 'cylinder', d: 'cylinder',
+      e: 'rect', f: 'rect', g: 'rect', h: 'rect',
+    })
+  })
+
+  it('keeps services on the default network ungrouped', () => {
+    const graph = parseCompose('services:\n  web:\n    image: nginx\n  worker:\n    image: busybox\n')
+    expect(graph.rootNodes).toEqual(['web', 'worker'])
+  })
+
+  it('rejects unknown dependencies with their range', () => {
+    expect.assertions(3)
+    try {
+      parseCompose('services:\n  api:\n    depends_on: [cache]\n')
+    } catch (error) {
+      expect(error).toBeInstanceOf(ComposeParseError)
+      expect((error as ComposeParseError).message).toMatch(/unknown service "cache"/)
+      expect((error as ComposeParseError).range.start.line).toBe(3)
+    }
+  })
+})
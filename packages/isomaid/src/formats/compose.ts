@@ -0,0 +1,273 @@
+/**
+ * Docker Compose to Graph
+ *
+ * parseCompose reads a docker-compose.yml into a Graph:
+ *
+ *   services:
+ *     api:
+ *       build: .
+ *       depends_on: [db]
+ *       networks: [backend]
+ *     db:
+ *       image: postgres:16
+ *       ports: ["5432:5432"]
+ *       networks: [backend]
+ *   networks:
+ *     backend:
+ *
+ * Services become nodes (database images as cylinders), networks become
+ * subgraphs, and `depends_on`/`links` become edges from the service to what
+ * it needs, labelled with the container ports that service listens on.
+ */
+
+import type { Graph, ShapeType, SourceRange } from '../model/types'
+import { GraphBuilder } from '../model/builder'
+import type { Json5Node } from '../parser/json5'
+import { parseYaml, YamlSyntaxError } from '../parser/yaml'
+import { lineStarts, rangeAt } from '../parser/tokenizer'
+
+/**
+ * Thrown for files that aren't valid YAML or aren't shaped like a Compose file,
+ * with the range of the offending text
+ */
+export class ComposeParseError extends Error {
+  readonly range: SourceRange
+
+  constructor(message: string, range: SourceRange) {
+    super(`${range.start.line}:${range.start.column} ${message}`)
+    this.name = 'ComposeParseError'
+    this.range = range
+  }
+}
+
+type ObjectNode = Extract<Json5Node, { type: 'object' }>
+
+/**
+ * Repository names (the last part of an image name) whose services are
+ * drawn as data stores: `postgres:16`, `bitnami/postgresql`, `ghcr.io/x/redis`
+ */
+const DATABASE_REPOSITORIES = new Set([
+  'postgres', 'postgresql', 'postgis', 'mysql', 'mariadb', 'redis', 'valkey', 'keydb', 'mongo', 'mongodb',
+])
+
+// Compose's implicit network for services that don't list any
+const DEFAULT_NETWORK = 'default'
+
+/**
+ * Parse a docker-compose.yml into a Graph
+ */
+export function parseCompose(source: string): Graph {
+  const starts = lineStarts(source)
+  const fail = (message: string, node: { start: number; end: number }): never => {
+    throw new ComposeParseError(message, rangeAt(starts, node.start, node.end))
+  }
+
+  let document: Json5Node
+  try {
+    document = parseYaml(source)
+  } catch (error) {
+    if (!(error instanceof YamlSyntaxError)) throw error
+    return fail(error.message, { start: error.offset, end: error.offset })
+  }
+
+  if (document.type !== 'object') return fail('Expected a mapping with `services`', document)
+  const services = property(document, 'services')
+  if (!services || services.type !== 'object') {
+    return fail('Expected a `services` mapping', services ?? document)
+  }
+
+  const builder = new GraphBuilder()
+  const graph = builder.build()
+  const name = property(document, 'name')
+  if (name?.type === 'string') graph.title = name.value
+
+  // Service name -> its networks, in the order listed
+  const serviceNetworks = new Map<string, string[]>()
+  for (const service of services.properties) {
+    const definition = service.value.type === 'object'
+      ? service.value
+      : fail(`Service "${service.key}" should be a mapping`, service.value)
+    serviceNetworks.set(service.key, readNetworks(definition, fail))
+  }
+
+  // Networks only become subgraphs when the file actually separates services
+  const declared = property(document, 'networks')
+  const networkNames = new Map<string, string>()  // Network key -> display name
+  if (declared?.type === 'object') {
+    for (const network of declared.properties) {
+      const customName = network.value.type === 'object' ? property(network.value, 'name') : undefined
+      networkNames.set(network.key, customName?.type === 'string' ? customName.value : network.key)
+    }
+  }
+  const used = new Set([...serviceNetworks.values()].map(networks => networks[0]).filter(Boolean))
+  const grouped = used.size > 1 || (used.size === 1 && !used.has(DEFAULT_NETWORK))
+
+  const networkIds = new Map<string, string>()
+  if (grouped) {
+    for (const network of [...networkNames.keys(), DEFAULT_NETWORK]) {
+      if (!used.has(network) || networkIds.has(network)) continue
+      // Networks and services share one id space; services keep their names
+      const id = services.properties.some(s => s.key === network) ? `${network}_network` : network
+      networkIds.set(network, id)
+      builder.subgraph(id, { label: networkNames.get(network) ?? network, metadata: { kind: 'network' } })
+    }
+  }
+
+  for (const service of services.properties) {
+    const definition = service.value as ObjectNode
+    const networks = serviceNetworks.get(service.key)!
+    const parent = grouped && networks[0] ? networkIds.get(networks[0]) : undefined
+    addService(builder.within(parent ?? null), service.key, definition, networks, starts)
+  }
+
+  for (const service of services.properties) {
+    const definition = service.value as ObjectNode
+    for (const { target, node } of readDependencies(definition, fail)) {
+      if (!graph.nodes.has(target) || graph.nodes.get(target)!.isSubgraph) {
+        fail(`Service "${service.key}" depends on unknown service "${target}"`, node)
+      }
+      // depends_on and links often name the same service
+      if (graph.edges.some(e => e.from === service.key && e.to === target)) continue
+
+      const ports = containerPorts(services.properties.find(s => s.key === target)!.value as ObjectNode)
+      builder.edge(service.key, target, {
+        label: ports.length > 0 ? ports.join(', ') : undefined,
+        style: 'solid',
+        fromArrow: 'none',
+        toArrow: 'arrow',
+        sourceRange: rangeAt(starts, node.start, node.end),
+      })
+    }
+  }
+
+  return graph
+}
+
+/**
+ * Add a service as a node in the builder's scope (its first network, or the root)
+ */
+function addService(
+  builder: GraphBuilder,
+  name: string,
+  definition: ObjectNode,
+  networks: string[],
+  starts: number[]
+): void {
+  const image = property(definition, 'image')
+  const imageName = image?.type === 'string' ? image.value : undefined
+  const metadata: Record<string, string> = { kind: 'service' }
+  if (imageName) metadata.image = imageName
+  const ports = publishedPorts(definition)
+  if (ports.length > 0) metadata.ports = ports.join(', ')
+  if (networks.length > 1) metadata.networks = networks.join(', ')
+
+  const shape: ShapeType = imageName && DATABASE_REPOSITORIES.has(imageRepository(imageName)) ? 'cylinder' : 'rect'
+  builder.node(name, { shape, metadata, sourceRange: rangeAt(starts, definition.start, definition.end) })
+}
+
+/**
+ * The repository name of an image reference, without registry, namespace,
+ * tag or digest: `registry:5000/team/mysql-exporter:1.2@sha256:...` -> `mysql-exporter`
+ */
+function imageRepository(image: string): string {
+  const path = image.split('@')[0]
+  const name = path.slice(path.lastIndexOf('/') + 1)
+  return name.split(':')[0].toLowerCase()
+}
+
+/**
+ * Networks a service joins (`networks: [a]` or `networks: {a: {...}}`);
+ * none for `network_mode`, the default network otherwise
+ */
+function readNetworks(definition: ObjectNode, fail: (message: string, node: Json5Node) => never): string[] {
+  if (property(definition, 'network_mode')) return []
+  const networks = property(definition, 'networks')
+  if (!networks) return [DEFAULT_NETWORK]
+  if (networks.type === 'array') {
+    return networks.items.map(item => item.type === 'string' ? item.value : fail('Expected a network name', item))
+  }
+  if (networks.type === 'object') return networks.properties.map(p => p.key)
+  return fail('`networks` should be a list or a mapping', networks)
+}
+
+/**
+ * Services named by `depends_on` (list or mapping) and `links` (`service` or `service:alias`)
+ */
+function readDependencies(
+  definition: ObjectNode,
+  fail: (message: string, node: Json5Node) => never
+): Array<{ target: string; node: Json5Node }> {
+  const dependencies: Array<{ target: string; node: Json5Node }> = []
+
+  const dependsOn = property(definition, 'depends_on')
+  if (dependsOn?.type === 'array') {
+    for (const item of dependsOn.items) {
+      const target = item.type === 'string' ? item.value : fail('Expected a service name', item)
+      dependencies.push({ target, node: item })
+    }
+  } else if (dependsOn?.type === 'object') {
+    for (const p of dependsOn.properties) {
+      dependencies.push({ target: p.key, node: { type: 'string', value: p.key, start: p.keyStart, end: p.keyEnd } })
+    }
+  } else if (dependsOn) {
+    fail('`depends_on` should be a list or a mapping', dependsOn)
+  }
+
+  const links = property(definition, 'links')
+  if (links?.type === 'array') {
+    for (const item of links.items) {
+      const link = item.type === 'string' ? item.value : fail('Expected `service` or `service:alias`', item)
+      dependencies.push({ target: link.split(':')[0], node: item })
+    }
+  } else if (links) {
+    fail('`links` should be a list', links)
+  }
+
+  return dependencies
+}
+
+/**
+ * Ports a service listens on inside the network: the container side of
+ * `ports` entries ("8080:80" -> 80), plus `expose`
+ */
+function containerPorts(definition: ObjectNode): string[] {
+  const ports: string[] = []
+  for (const entry of portEntries(definition, 'ports')) {
+    const port = entry.type === 'object'
+      ? scalarText(property(entry, 'target'))
+      : scalarText(entry)?.split('/')[0].split(':').pop()
+    if (port && !ports.includes(port)) ports.push(port)
+  }
+  for (const entry of portEntries(definition, 'expose')) {
+    const port = scalarText(entry)?.split('/')[0]
+    if (port && !ports.includes(port)) ports.push(port)
+  }
+  return ports
+}
+
+/**
+ * `ports` entries as written, for node metadata
+ */
+function publishedPorts(definition: ObjectNode): string[] {
+  return portEntries(definition, 'ports').map(entry => {
+    if (entry.type !== 'object') return scalarText(entry) ?? ''
+    const published = scalarText(property(entry, 'published'))
+    const target = scalarText(property(entry, 'target')) ?? ''
+    return published ? `${published}:${target}` : target
+  }).filter(Boolean)
+}
+
+function portEntries(definition: ObjectNode, key: string): Json5Node[] {
+  const entries = property(definition, key)
+  return entries?.type === 'array' ? entries.items : []
+}
+
+function property(node: ObjectNode, key: string): Json5Node | undefined {
+  return node.properties.find(p => p.key === key)?.value
+}
+
+function scalarText(node: Json5Node | undefined): string | undefined {
+  if (node?.type === 'string') return node.value
+  if (node?.type === 'number') return String(node.value)
+  return undefined
+}
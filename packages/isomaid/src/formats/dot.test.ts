@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { DotSyntaxError, parseDot, printDot } from './dot'
+import { validateGraph } from '../model/validate'
+
+describe('parseDot', () => {
+  it('reads nodes, clusters and edge attributes', () => {
+    const graph = parseDot(`digraph {
+      rankdir=LR
+      subgraph cluster_backend {
+        label="Backend"
+        api [shape=box, label="API"]
+        db [shape=cylinder, style=filled, fillcolor="#eeeeff"]
+      }
+      api -> db [style=dashed, arrowhead=empty]
+    }`)
+
+    expect(graph.config.direction).toBe('LR')
+    expect(graph.nodes.get('backend')).toMatchObject({ isSubgraph: true, label: 'Backend', children: ['api', 'db'] })
+    expect(graph.nodes.get('api')).toMatchObject({ label: 'API', shape: 'rect', parent: 'backend' })
+    expect(graph.nodes.get('db')).toMatchObject({ shape: 'cylinder', style: { fill: '#eeeeff' } })
+    expect(graph.edges).toMatchObject([{ from: 'api', to: 'db', style: 'dashed', toArrow: 'open' }])
+    expect(validateGraph(graph)).toEqual([])
+  })
+
+  it('keeps the cluster prefix when a node inside has the stripped name', () => {
+    const graph = parseDot(`digraph {
+      subgraph cluster_db { db [shape=cylinder label="Postgres"] }
+      api -> db
+    }`)
+
+    expect(graph.nodes.get('cluster_db')).toMatchObject({ isSubgraph: true, children: ['db'] })
+    expect(graph.nodes.get('db')).toMatchObject({ isSubgraph: false, shape: 'cylinder', label: 'Postgres', parent: 'cluster_db' })
+    expect(graph.edges).toMatchObject([{ from: 'api', to: 'db' }])
+    expect(validateGraph(graph)).toEqual([])
+  })
+
+  it('keeps the cluster prefix when a node declared later has the stripped name', () => {
+    const graph = parseDot(`digraph {
+      subgraph cluster_cache { redis }
+      cache -> redis
+    }`)
+
+    expect(graph.nodes.get('cluster_cache')?.isSubgraph).toBe(true)
+    expect(graph.nodes.get('cache')?.isSubgraph).toBe(false)
+  })
+
+  it('does not count attribute values, ports or subgraph names as nodes', () => {
+    const graph = parseDot(`digraph {
+      subgraph cluster_web { label=api; ui [label=web] }
+      subgraph cluster_api { server }
+      ui:e -> server [lhead=cluster_api]
+    }`)
+
+    expect(graph.nodes.get('web')?.isSubgraph).toBe(true)
+    expect(graph.nodes.get('api')?.isSubgraph).toBe(true)
+    expect(graph.edges).toMatchObject([{ from: 'ui', to: 'api', fromPortConstraint: { side: 'R' } }])
+  })
+
+  it('reports syntax errors with a position', () => {
+    expect(() => parseDot('digraph {\n  a -> \n}')).toThrow(DotSyntaxError)
+    try {
+      parseDot('digraph {\n  a -> \n}')
+    } catch (error) {
+      expect((error as DotSyntaxError).range.start.line).toBe(3)
+    }
+  })
+})
+
+describe('printDot', () => {
+  it('round-trips nodes, clusters and edges', () => {
+    const source = `digraph {
+      subgraph cluster_db { db [shape=cylinder label="Postgres"] }
+      api [label="API"]
+      api -> db [label="reads"]
+    }`
+    const graph = parseDot(printDot(parseDot(source)))
+
+    expect(graph.nodes.get('db')).toMatchObject({ shape: 'cylinder', label: 'Postgres' })
+    expect(graph.nodes.get('api')).toMatchObject({ label: 'API' })
+    expect(graph.edges).toMatchObject([{ from: 'api', to: 'db', label: 'reads' }])
+    expect([...graph.nodes.values()].filter(node => node.isSubgraph)).toHaveLength(1)
+  })
+
+  it('clips edges to a cluster at a node inside it', () => {
+    const graph = parseDot(`digraph {
+      subgraph cluster_backend { api }
+      client -> api [lhead=cluster_backend]
+    }`)
+    const dot = printDot(graph)
+
+    expect(dot).toContain('compound=true')
+    expect(dot).toMatch(/client -> api \[.*lhead=cluster_backend/)
+  })
+})
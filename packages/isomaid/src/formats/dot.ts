@@ -0,0 +1,899 @@
+/**
+ * Graphviz DOT import and export
+ *
+ * parseDot reads `graph`/`digraph` sources into a Graph:
+ *
+ *   digraph {
+ *     rankdir=LR
+ *     subgraph cluster_backend {
+ *       label="Backend"
+ *       api [shape=box, label="API"]
+ *       db [shape=cylinder, style=filled, fillcolor="#eeeeff"]
+ *     }
+ *     api -> db [style=dashed, arrowhead=empty]
+ *   }
+ *
+ * `cluster*` subgraphs become subgraph nodes (other subgraphs only scope
+ * defaults), compass ports (`api:e`, `tailport=e`) become port constraints,
+ * and `lhead`/`ltail` on compound edges point the edge at the cluster.
+ *
+ * printDot writes a Graph back out; once laid out, positions are included as
+ * `pos` attributes in points, y up, so `neato -n` reproduces the layout.
+ */
+
+import type {
+  Graph, Node, Edge, NodeStyle, EdgeLineStyle, EdgeStyle, ArrowType, ShapeType, PortSide, PortConstraint,
+  SourceRange,
+} from '../model/types'
+import { GraphBuilder } from '../model/builder'
+import { getGraphBounds } from '../layout'
+import { lineStarts, rangeAt } from '../parser/tokenizer'
+
+/**
+ * Thrown for DOT that can't be read, with the range of the offending token
+ */
+export class DotSyntaxError extends Error {
+  readonly range: SourceRange
+
+  constructor(message: string, range: SourceRange) {
+    super(`${range.start.line}:${range.start.column} ${message}`)
+    this.name = 'DotSyntaxError'
+    this.range = range
+  }
+}
+
+export interface DotPrintOptions {
+  indent?: string      // Indentation per nesting level (default 2 spaces)
+  positions?: boolean  // Write pos/width/height/bb when the graph is laid out (default true)
+}
+
+const DEFAULT_PRINT_OPTIONS: Required<DotPrintOptions> = {
+  indent: '  ',
+  positions: true,
+}
+
+type Attributes = Record<string, string>
+
+/** Graphviz shapes and the closest ShapeType */
+const DOT_SHAPES: Record<string, ShapeType> = {
+  box: 'rect',
+  rect: 'rect',
+  rectangle: 'rect',
+  square: 'rect',
+  record: 'rect',
+  plaintext: 'rect',
+  plain: 'rect',
+  none: 'rect',
+  note: 'rect',
+  tab: 'rect',
+  folder: 'rect',
+  Mrecord: 'round',
+  ellipse: 'stadium',
+  oval: 'stadium',
+  circle: 'circle',
+  doublecircle: 'circle',
+  point: 'circle',
+  diamond: 'diamond',
+  Mdiamond: 'diamond',
+  hexagon: 'hexagon',
+  cylinder: 'cylinder',
+  parallelogram: 'parallelogram',
+  trapezium: 'trapezoid',
+  invtrapezium: 'trapezoid',
+  component: 'subroutine',
+  box3d: 'subroutine',
+}
+
+/** ShapeType written for each shape (round is a box with style=rounded) */
+const SHAPE_TO_DOT: Record<ShapeType, string> = {
+  rect: 'box',
+  round: 'box',
+  stadium: 'ellipse',
+  cylinder: 'cylinder',
+  circle: 'circle',
+  diamond: 'diamond',
+  hexagon: 'hexagon',
+  parallelogram: 'parallelogram',
+  trapezoid: 'trapezium',
+  subroutine: 'component',
+}
+
+/** Graphviz arrow shapes and the closest ArrowType */
+const DOT_ARROWS: Record<string, ArrowType> = {
+  normal: 'arrow',
+  vee: 'arrow',
+  inv: 'arrow',
+  crow: 'arrow',
+  empty: 'open',
+  onormal: 'open',
+  ovee: 'open',
+  invempty: 'open',
+  dot: 'circle',
+  odot: 'circle',
+  tee: 'cross',
+  box: 'cross',
+  obox: 'cross',
+  none: 'none',
+}
+
+const ARROW_TO_DOT: Record<ArrowType, string> = {
+  arrow: 'normal',
+  open: 'empty',
+  circle: 'dot',
+  cross: 'tee',
+  none: 'none',
+}
+
+const COMPASS_SIDES: Record<string, PortSide> = {
+  n: 'T', ne: 'T', nw: 'T',
+  s: 'B', se: 'B', sw: 'B',
+  e: 'R',
+  w: 'L',
+}
+
+const SIDE_TO_COMPASS: Record<PortSide, string> = { T: 'n', R: 'e', B: 's', L: 'w' }
+
+const KEYWORDS = new Set(['strict', 'graph', 'digraph', 'subgraph', 'node', 'edge'])
+
+// Graphviz measures sizes in inches and positions in points
+const POINTS_PER_INCH = 72
+
+// ============ Import ============
+
+/**
+ * Parse a DOT graph into a Graph
+ */
+export function parseDot(source: string): Graph {
+  const starts = lineStarts(source)
+  const tokens = tokenize(source, starts)
+  return new DotReader(source, starts, tokens).read()
+}
+
+interface Token {
+  type: 'id' | 'punct' | 'edgeop' | 'eof'
+  value: string
+  start: number
+  end: number
+  html?: boolean
+}
+
+/** Defaults and cluster in effect inside a `{ ... }` block */
+interface Scope {
+  nodeAttrs: Attributes
+  edgeAttrs: Attributes
+  cluster: string | null
+}
+
+/** One operand of an edge statement: a node (with port) or the nodes of a subgraph */
+interface Operand {
+  ids: string[]
+  port?: PortConstraint
+}
+
+/** Reads tokens into a Graph, collecting raw attributes before converting them */
+class DotReader {
+  private index = 0
+  private directed = true
+  private strict = false
+  private graphName = ''
+  private readonly builder = new GraphBuilder()
+  private readonly graph = this.builder.build()
+  private readonly nodeAttrs = new Map<string, Attributes>()
+  private readonly clusterAttrs = new Map<string, Attributes>()
+  private readonly clusterIds = new Map<string, string>()  // DOT cluster name -> subgraph node id
+  private readonly nodeNames: Set<string>                  // Every node the source names, wherever
+
+  constructor(
+    private readonly source: string,
+    private readonly starts: number[],
+    private readonly tokens: Token[]
+  ) {
+    this.nodeNames = nodeNames(source, tokens)
+  }
+
+  read(): Graph {
+    if (this.acceptKeyword('strict')) this.strict = true
+    const kind = this.peek()
+    if (!this.acceptKeyword('digraph') && !this.acceptKeyword('graph')) {
+      this.fail('Expected `graph` or `digraph`', kind)
+    }
+    this.directed = kind.value.toLowerCase() === 'digraph'
+    if (this.peek().type === 'id') this.graphName = this.next().value
+
+    this.expect('{')
+    const rootAttrs: Attributes = {}
+    this.readStatements({ nodeAttrs: {}, edgeAttrs: {}, cluster: null }, rootAttrs)
+    this.expect('}')
+    if (this.peek().type !== 'eof') this.fail('Unexpected text after the graph', this.peek())
+
+    this.applyGraphAttributes(rootAttrs)
+    this.finishNodes()
+    return this.graph
+  }
+
+  // ---- Statements ----
+
+  /**
+   * Read statements up to the closing `}`. Graph attributes set in this
+   * block (`label=x`, `graph [label=x]`) are collected into `graphAttrs`.
+   * Returns the ids of every node mentioned, for edges to a subgraph.
+   */
+  private readStatements(scope: Scope, graphAttrs: Attributes): string[] {
+    const mentioned: string[] = []
+
+    while (!this.check('}') && this.peek().type !== 'eof') {
+      const token = this.peek()
+      const keyword = token.type === 'id' && !this.isQuoted(token) ? token.value.toLowerCase() : ''
+
+      if ((keyword === 'graph' || keyword === 'node' || keyword === 'edge') && this.peekAt(1).value === '[') {
+        this.next()
+        const attrs = this.readAttrList()
+        if (keyword === 'graph') Object.assign(graphAttrs, attrs)
+        else if (keyword === 'node') scope.nodeAttrs = { ...scope.nodeAttrs, ...attrs }
+        else scope.edgeAttrs = { ...scope.edgeAttrs, ...attrs }
+      } else if (token.type === 'id' && this.peekAt(1).value === '=') {
+        this.next()
+        this.next()
+        graphAttrs[token.value] = this.expectValue()
+      } else {
+        const operand = this.readOperand(scope)
+        mentioned.push(...operand.ids)
+        if (this.peek().type === 'edgeop') {
+          mentioned.push(...this.readEdges(scope, operand))
+        } else if (this.check('[')) {
+          const attrs = this.readAttrList()
+          for (const id of operand.ids) {
+            this.nodeAttrs.set(id, { ...this.nodeAttrs.get(id), ...attrs })
+          }
+        }
+      }
+
+      this.accept(';') || this.accept(',')
+    }
+
+    return mentioned
+  }
+
+  /**
+   * Read a node id (with optional `:port:compass`) or a subgraph
+   */
+  private readOperand(scope: Scope): Operand {
+    const token = this.peek()
+    const isSubgraph = token.value === '{' || (token.type === 'id' && !this.isQuoted(token) && token.value.toLowerCase() === 'subgraph')
+    if (isSubgraph) {
+      return { ids: this.readSubgraph(scope) }
+    }
+
+    const id = this.expectId().value
+    let port: PortConstraint | undefined
+    // node:port, node:compass or node:port:compass - only the compass point maps onto a side
+    while (this.accept(':')) {
+      const side = COMPASS_SIDES[this.expectId().value.toLowerCase()]
+      port = side ? { side } : undefined
+    }
+
+    this.declareNode(id, scope)
+    return { ids: [id], port }
+  }
+
+  /**
+   * Read `subgraph name { ... }` or `{ ... }`. Clusters become subgraph nodes.
+   */
+  private readSubgraph(scope: Scope): string[] {
+    let name = ''
+    if (this.acceptKeyword('subgraph') && this.peek().type === 'id') {
+      name = this.next().value
+    }
+
+    let cluster = scope.cluster
+    if (/^cluster/.test(name)) {
+      cluster = this.declareCluster(name, scope.cluster)
+    }
+
+    this.expect('{')
+    const attrs: Attributes = {}
+    const ids = this.readStatements({ nodeAttrs: { ...scope.nodeAttrs }, edgeAttrs: { ...scope.edgeAttrs }, cluster }, attrs)
+    this.expect('}')
+
+    if (cluster && cluster !== scope.cluster) {
+      this.clusterAttrs.set(cluster, { ...this.clusterAttrs.get(cluster), ...attrs })
+    }
+    return ids
+  }
+
+  /**
+   * Read `-> b -> c [attrs]` after the first operand, adding an edge for every
+   * pair of nodes across each link. Returns the node ids mentioned.
+   */
+  private readEdges(scope: Scope, first: Operand): string[] {
+    const operands = [first]
+    const mentioned: string[] = []
+    while (this.peek().type === 'edgeop') {
+      const op = this.next()
+      if ((op.value === '->') !== this.directed) {
+        this.fail(this.directed ? 'Use `->` in a digraph' : 'Use `--` in a graph', op)
+      }
+      const operand = this.readOperand(scope)
+      operands.push(operand)
+      mentioned.push(...operand.ids)
+    }
+
+    const attrs = { ...scope.edgeAttrs, ...(this.check('[') ? this.readAttrList() : {}) }
+    if (attrs.style === 'invis') return mentioned
+
+    for (let i = 0; i < operands.length - 1; i++) {
+      for (const from of operands[i].ids) {
+        for (const to of operands[i + 1].ids) {
+          this.addEdge(from, to, attrs, operands[i].port, operands[i + 1].port)
+        }
+      }
+    }
+    return mentioned
+  }
+
+  /**
+   * Read one or more `[a=b, c=d; e=f]` lists
+   */
+  private readAttrList(): Attributes {
+    const attrs: Attributes = {}
+    while (this.accept('[')) {
+      while (!this.check(']')) {
+        const key = this.expectId().value
+        this.expect('=')
+        attrs[key] = this.expectValue()
+        this.accept(',') || this.accept(';')
+      }
+      this.expect(']')
+    }
+    return attrs
+  }
+
+  // ---- Graph building ----
+
+  private declareNode(id: string, scope: Scope): void {
+    const existing = this.graph.nodes.get(id)
+    if (existing) {
+      // A node first mentioned outside any cluster joins the first cluster that lists it
+      if (!existing.parent && scope.cluster && !existing.isSubgraph) {
+        this.builder.within(scope.cluster).move(id)
+      }
+      return
+    }
+
+    // Graphviz default is an ellipse
+    this.builder.within(scope.cluster).node(id, { shape: 'stadium' })
+    this.nodeAttrs.set(id, { ...scope.nodeAttrs })
+  }
+
+  private declareCluster(name: string, parent: string | null): string {
+    const existing = this.clusterIds.get(name)
+    if (existing) return existing
+
+    // cluster_backend -> backend, unless a node has that name, even one declared later
+    const stripped = name.replace(/^cluster_?/, '')
+    const id = stripped && !this.nodeNames.has(stripped) && !this.graph.nodes.has(stripped) ? stripped : name
+    this.clusterIds.set(name, id)
+
+    this.builder.within(parent).subgraph(id, { label: stripped || name })
+    return id
+  }
+
+  private addEdge(from: string, to: string, attrs: Attributes, fromPort?: PortConstraint, toPort?: PortConstraint): void {
+    // Compound edges clipped at a cluster connect to the cluster itself
+    const source = (attrs.ltail && this.clusterIds.get(attrs.ltail)) || from
+    const target = (attrs.lhead && this.clusterIds.get(attrs.lhead)) || to
+    if (this.strict && this.graph.edges.some(e => e.from === source && e.to === target)) return
+
+    const dir = attrs.dir ?? (this.directed ? 'forward' : 'none')
+    const label = attrs.label !== undefined ? labelText(attrs.label, '', this.graphName) : ''
+
+    const lineStyle: EdgeLineStyle = {}
+    const stroke = dotColor(attrs.color)
+    if (stroke) lineStyle.stroke = stroke
+    const color = dotColor(attrs.fontcolor)
+    if (color) lineStyle.color = color
+    const width = attrs.penwidth !== undefined ? Number(attrs.penwidth) : NaN
+    if (Number.isFinite(width)) lineStyle.strokeWidth = width
+
+    this.builder.edge(source, target, {
+      label: label || undefined,
+      style: edgeStyle(attrs.style),
+      fromArrow: dir === 'back' || dir === 'both' ? DOT_ARROWS[attrs.arrowtail ?? 'normal'] ?? 'arrow' : 'none',
+      toArrow: dir === 'forward' || dir === 'both' ? DOT_ARROWS[attrs.arrowhead ?? 'normal'] ?? 'arrow' : 'none',
+      fromPortConstraint: fromPort ?? compassConstraint(attrs.tailport),
+      toPortConstraint: toPort ?? compassConstraint(attrs.headport),
+      lineStyle: Object.keys(lineStyle).length > 0 ? lineStyle : undefined,
+    })
+  }
+
+  private applyGraphAttributes(attrs: Attributes): void {
+    const { config } = this.graph
+    const direction = attrs.rankdir?.toUpperCase()
+    if (direction === 'TB' || direction === 'BT' || direction === 'LR' || direction === 'RL') {
+      config.direction = direction
+    }
+    if (attrs.label) this.graph.title = labelText(attrs.label, '', this.graphName)
+
+    const layout: NonNullable<typeof config.layout> = {}
+    const nodeSpacing = Number(attrs.nodesep)
+    const layerSpacing = Number(attrs.ranksep?.split(/\s/)[0])
+    if (attrs.nodesep && Number.isFinite(nodeSpacing)) layout.nodeSpacing = Math.round(nodeSpacing * POINTS_PER_INCH)
+    if (attrs.ranksep && Number.isFinite(layerSpacing)) layout.layerSpacing = Math.round(layerSpacing * POINTS_PER_INCH)
+    if (Object.keys(layout).length > 0) config.layout = layout
+  }
+
+  /** Convert the collected attributes into labels, shapes and styles */
+  private finishNodes(): void {
+    for (const node of this.graph.nodes.values()) {
+      const attrs = node.isSubgraph ? this.clusterAttrs.get(node.id) : this.nodeAttrs.get(node.id)
+      if (!attrs) continue
+
+      if (attrs.label !== undefined) {
+        node.label = labelText(attrs.label, node.id, this.graphName)
+      }
+      if (!node.isSubgraph) {
+        node.shape = nodeShape(attrs)
+      }
+      const style = nodeStyle(attrs)
+      if (style) node.style = style
+    }
+  }
+
+  // ---- Tokens ----
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private peekAt(ahead: number): Token {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]
+    if (token.type !== 'eof') this.index++
+    return token
+  }
+
+  private check(punct: string): boolean {
+    const token = this.peek()
+    return token.type === 'punct' && token.value === punct
+  }
+
+  private accept(punct: string): boolean {
+    if (!this.check(punct)) return false
+    this.next()
+    return true
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek()
+    if (token.type !== 'id' || this.isQuoted(token) || token.value.toLowerCase() !== keyword) return false
+    this.next()
+    return true
+  }
+
+  private expect(punct: string): Token {
+    if (!this.check(punct)) this.fail(`Expected "${punct}"`, this.peek())
+    return this.next()
+  }
+
+  private expectId(): Token {
+    const token = this.peek()
+    if (token.type !== 'id') this.fail('Expected an id', token)
+    if (!this.isQuoted(token) && !token.html && KEYWORDS.has(token.value.toLowerCase())) {
+      this.fail(`"${token.value}" is a keyword; quote it to use it as an id`, token)
+    }
+    return this.next()
+  }
+
+  /** An attribute value, with HTML labels reduced to their text */
+  private expectValue(): string {
+    const token = this.expectId()
+    return token.html ? htmlText(token.value) : token.value
+  }
+
+  private isQuoted(token: Token): boolean {
+    return this.source[token.start] === '"'
+  }
+
+  private fail(message: string, token: Token): never {
+    const found = token.type === 'eof' ? 'end of input' : `"${this.source.slice(token.start, token.end)}"`
+    throw new DotSyntaxError(`${message}, found ${found}`, rangeAt(this.starts, token.start, token.end))
+  }
+}
+
+/**
+ * Split DOT source into tokens. Quoted strings are unescaped (`\"` only;
+ * other escapes are label syntax) and joined across `+`.
+ */
+function tokenize(source: string, starts: number[]): Token[] {
+  const tokens: Token[] = []
+  let pos = 0
+
+  const fail = (message: string, start: number): never => {
+    throw new DotSyntaxError(message, rangeAt(starts, start, Math.min(start + 1, source.length)))
+  }
+
+  while (pos < source.length) {
+    const ch = source[pos]
+    const rest = source.slice(pos, pos + 2)
+
+    if (/\s/.test(ch)) {
+      pos++
+    } else if (rest === '//' || (ch === '#' && (pos === 0 || source[pos - 1] === '\n'))) {
+      // Line comment, or a C preprocessor line
+      const newline = source.indexOf('\n', pos)
+      pos = newline < 0 ? source.length : newline
+    } else if (rest === '/*') {
+      const close = source.indexOf('*/', pos + 2)
+      if (close < 0) fail('Unterminated comment', pos)
+      pos = close + 2
+    } else if (rest === '->' || rest === '--') {
+      tokens.push({ type: 'edgeop', value: rest, start: pos, end: pos + 2 })
+      pos += 2
+    } else if ('{}[]=;,:'.includes(ch)) {
+      tokens.push({ type: 'punct', value: ch, start: pos, end: pos + 1 })
+      pos++
+    } else if (ch === '"') {
+      const start = pos
+      let value = ''
+      // "a" + "b" concatenates
+      for (;;) {
+        const string = readQuoted(source, pos)
+        if (!string) fail('Unterminated string', pos)
+        value += string!.value
+        pos = string!.end
+        const plus = /^\s*\+\s*"/.exec(source.slice(pos))
+        if (!plus) break
+        pos += plus[0].length - 1
+      }
+      tokens.push({ type: 'id', value, start, end: pos })
+    } else if (ch === '<') {
+      const start = pos
+      let depth = 0
+      do {
+        if (source[pos] === '<') depth++
+        else if (source[pos] === '>') depth--
+        pos++
+      } while (depth > 0 && pos < source.length)
+      if (depth > 0) fail('Unterminated HTML string', start)
+      tokens.push({ type: 'id', value: source.slice(start + 1, pos - 1), start, end: pos, html: true })
+    } else {
+      const match = /^(?:-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-￿][\w\u0080-￿]*)/.exec(source.slice(pos))
+      if (!match) fail(`Unexpected "${ch}"`, pos)
+      tokens.push({ type: 'id', value: match![0], start: pos, end: pos + match![0].length })
+      pos += match![0].length
+    }
+  }
+
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length })
+  return tokens
+}
+
+/**
+ * Names of every node mentioned in the graph body: ids outside attribute
+ * lists that aren't keywords, subgraph names, ports or `a=b` settings
+ */
+function nodeNames(source: string, tokens: Token[]): Set<string> {
+  const names = new Set<string>()
+  const body = tokens.findIndex(token => token.value === '{')
+  let attrDepth = 0
+
+  for (let i = body + 1; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (token.value === '[' && token.type === 'punct') attrDepth++
+    else if (token.value === ']' && token.type === 'punct') attrDepth = Math.max(0, attrDepth - 1)
+    if (token.type !== 'id' || attrDepth > 0) continue
+
+    const quoted = source[token.start] === '"' || token.html
+    const keyword = !quoted && KEYWORDS.has(token.value.toLowerCase())
+    const previous = tokens[i - 1]
+    const afterSubgraph = previous.type === 'id' && source[previous.start] !== '"' && previous.value.toLowerCase() === 'subgraph'
+    if (keyword || afterSubgraph || previous.value === '=' || previous.value === ':' || tokens[i + 1].value === '=') continue
+    names.add(token.value)
+  }
+  return names
+}
+
+function readQuoted(source: string, start: number): { value: string; end: number } | null {
+  let value = ''
+  for (let i = start + 1; i < source.length; i++) {
+    const ch = source[i]
+    if (ch === '"') return { value, end: i + 1 }
+    if (ch === '\\' && source[i + 1] === '"') {
+      value += '"'
+      i++
+    } else if (ch === '\\' && source[i + 1] === '\n') {
+      i++  // Line continuation
+    } else {
+      value += ch
+    }
+  }
+  return null
+}
+
+/**
+ * Resolve label escapes: `\N` node name, `\G` graph name, and the `\n`,
+ * `\l`, `\r` line breaks, which become spaces
+ */
+function labelText(label: string, nodeId: string, graphName: string): string {
+  const text = label.replace(/\\([NGnlr\\])/g, (_, escape: string) => {
+    switch (escape) {
+      case 'N': return nodeId
+      case 'G': return graphName
+      case '\\': return '\\'
+      default: return ' '
+    }
+  })
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Plain text of an HTML-like `<...>` label
+ */
+function htmlText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&')
+}
+
+function nodeShape(attrs: Attributes): ShapeType {
+  const shape = DOT_SHAPES[attrs.shape ?? 'ellipse'] ?? DOT_SHAPES[(attrs.shape ?? '').toLowerCase()] ?? 'rect'
+  if (shape === 'rect' && styleList(attrs.style).includes('rounded')) return 'round'
+  return shape
+}
+
+function nodeStyle(attrs: Attributes): NodeStyle | undefined {
+  const style: NodeStyle = {}
+  const styles = styleList(attrs.style)
+
+  const stroke = dotColor(attrs.color)
+  if (stroke) style.stroke = stroke
+  if (styles.includes('filled')) {
+    const fill = dotColor(attrs.fillcolor) ?? stroke
+    if (fill) style.fill = fill
+  }
+  const color = dotColor(attrs.fontcolor)
+  if (color) style.color = color
+  const width = attrs.penwidth !== undefined ? Number(attrs.penwidth) : NaN
+  if (Number.isFinite(width)) style.strokeWidth = width
+  if (styles.includes('dashed')) style.strokeDasharray = '5,5'
+  if (styles.includes('dotted')) style.strokeDasharray = '2,2'
+
+  return Object.keys(style).length > 0 ? style : undefined
+}
+
+function edgeStyle(style: string | undefined): EdgeStyle {
+  const styles = styleList(style)
+  if (styles.includes('dashed')) return 'dashed'
+  if (styles.includes('dotted')) return 'dotted'
+  if (styles.includes('bold')) return 'thick'
+  return 'solid'
+}
+
+function styleList(style: string | undefined): string[] {
+  return (style ?? '').split(',').map(s => s.trim().toLowerCase()).filter(Boolean)
+}
+
+function compassConstraint(port: string | undefined): PortConstraint | undefined {
+  const side = port ? COMPASS_SIDES[port.split(':').pop()!.toLowerCase()] : undefined
+  return side ? { side } : undefined
+}
+
+/**
+ * Convert a Graphviz color (name, #rgb[a], "h,s,v" or a `:` separated list) to CSS
+ */
+function dotColor(color: string | undefined): string | undefined {
+  const first = color?.split(':')[0].split(';')[0].trim()
+  if (!first) return undefined
+  if (/^#[0-9a-f]{6}([0-9a-f]{2})?$/i.test(first) || /^[a-z]+$/i.test(first)) return first
+
+  const hsv = first.split(/[\s,]+/).map(Number)
+  if (hsv.length === 3 && hsv.every(v => Number.isFinite(v) && v >= 0 && v <= 1)) {
+    return hsvToHex(hsv[0], hsv[1], hsv[2])
+  }
+  return undefined
+}
+
+function hsvToHex(h: number, s: number, v: number): string {
+  const i = Math.floor(h * 6) % 6
+  const f = h * 6 - Math.floor(h * 6)
+  const p = v * (1 - s)
+  const q = v * (1 - f * s)
+  const t = v * (1 - (1 - f) * s)
+  const [r, g, b] = [[v, t, p], [q, v, p], [p, v, t], [p, q, v], [t, p, v], [v, p, q]][i]
+  return '#' + [r, g, b].map(c => Math.round(c * 255).toString(16).padStart(2, '0')).join('')
+}
+
+// ============ Export ============
+
+/**
+ * Print a Graph as a DOT digraph
+ */
+export function printDot(graph: Graph, options: DotPrintOptions = {}): string {
+  const { indent, positions } = { ...DEFAULT_PRINT_OPTIONS, ...options }
+  const laidOut = positions && [...graph.nodes.values()].some(n => n.x !== undefined && n.y !== undefined)
+  const bounds = laidOut ? getGraphBounds(graph) : null
+
+  // Graphviz has y pointing up, from the bottom-left corner
+  const dotX = (x: number) => round(x - bounds!.x)
+  const dotY = (y: number) => round(bounds!.y + bounds!.height - y)
+  const point = (x: number, y: number) => `${dotX(x)},${dotY(y)}`
+
+  const lines: string[] = ['digraph {']
+  const graphAttrs: Attributes = {}
+  if (graph.config.direction) graphAttrs.rankdir = graph.config.direction
+  if (graph.title) graphAttrs.label = graph.title
+  if (bounds) graphAttrs.bb = `0,0,${round(bounds.width)},${round(bounds.height)}`
+  if (graph.edges.some(e => graph.nodes.get(e.from)?.isSubgraph || graph.nodes.get(e.to)?.isSubgraph)) {
+    graphAttrs.compound = 'true'
+  }
+  if (Object.keys(graphAttrs).length > 0) lines.push(`${indent}graph ${printAttrs(graphAttrs)}`)
+
+  // Node attributes, nested under their clusters
+  const printed = new Set<string>()
+  const printNode = (id: string, depth: number) => {
+    const node = graph.nodes.get(id)
+    if (!node || printed.has(id)) return
+    printed.add(id)
+    const pad = indent.repeat(depth)
+
+    if (!node.isSubgraph) {
+      const attrs = dotNodeAttributes(node)
+      if (bounds && node.x !== undefined && node.y !== undefined) {
+        attrs.pos = point(node.x, node.y)
+        if (node.width) attrs.width = String(round(node.width / POINTS_PER_INCH, 4))
+        if (node.height) attrs.height = String(round(node.height / POINTS_PER_INCH, 4))
+      }
+      lines.push(`${pad}${dotId(id)} ${printAttrs(attrs)}`)
+      return
+    }
+
+    lines.push(`${pad}subgraph ${dotId(clusterName(id))} {`)
+    const attrs: Attributes = { label: node.label }
+    Object.assign(attrs, styleAttributes(node.style))
+    if (bounds && node.x !== undefined && node.y !== undefined && node.width && node.height) {
+      const left = dotX(node.x - node.width / 2)
+      const right = dotX(node.x + node.width / 2)
+      attrs.bb = `${left},${dotY(node.y + node.height / 2)},${right},${dotY(node.y - node.height / 2)}`
+    }
+    lines.push(`${pad}${indent}graph ${printAttrs(attrs)}`)
+    const children = node.children ?? []
+    for (const childId of children) {
+      printNode(childId, depth + 1)
+    }
+    // An empty cluster still needs a node to exist, and edges to it need something to clip at
+    if (!children.some(childId => graph.nodes.has(childId))) {
+      lines.push(`${pad}${indent}${dotId(anchorName(id))} [shape=point, style=invis]`)
+    }
+    lines.push(`${pad}}`)
+  }
+
+  for (const id of graph.rootNodes) printNode(id, 1)
+  for (const node of graph.nodes.values()) {
+    if (!node.parent) printNode(node.id, 1)
+  }
+
+  for (const edge of graph.edges) {
+    const attrs = dotEdgeAttributes(edge)
+    const from = endpoint(graph, edge.from)
+    const to = endpoint(graph, edge.to)
+    if (from.cluster) attrs.ltail = from.cluster
+    if (to.cluster) attrs.lhead = to.cluster
+    const spline = bounds && edge.points ? splinePoints(edge.points) : []
+    if (spline.length > 1) attrs.pos = spline.map(p => point(p.x, p.y)).join(' ')
+    lines.push(`${indent}${dotId(from.id)} -> ${dotId(to.id)}${Object.keys(attrs).length > 0 ? ' ' + printAttrs(attrs) : ''}`)
+  }
+
+  lines.push('}')
+  return lines.join('\n') + '\n'
+}
+
+function dotNodeAttributes(node: Node): Attributes {
+  const attrs: Attributes = { label: node.label, shape: SHAPE_TO_DOT[node.shape] ?? 'box' }
+  Object.assign(attrs, styleAttributes(node.style))
+  if (node.shape === 'round') {
+    attrs.style = attrs.style ? `rounded,${attrs.style}` : 'rounded'
+  }
+  return attrs
+}
+
+function styleAttributes(style: NodeStyle | undefined): Attributes {
+  const attrs: Attributes = {}
+  if (!style) return attrs
+  const styles: string[] = []
+  if (style.fill) {
+    styles.push('filled')
+    attrs.fillcolor = style.fill
+  }
+  if (style.strokeDasharray) styles.push('dashed')
+  if (style.stroke) attrs.color = style.stroke
+  if (style.color) attrs.fontcolor = style.color
+  if (style.strokeWidth !== undefined) attrs.penwidth = String(style.strokeWidth)
+  if (styles.length > 0) attrs.style = styles.join(',')
+  return attrs
+}
+
+function dotEdgeAttributes(edge: Edge): Attributes {
+  const attrs: Attributes = {}
+  if (edge.label) attrs.label = edge.label
+
+  const style = edge.style ?? 'solid'
+  if (style !== 'solid') attrs.style = style === 'thick' ? 'bold' : style
+
+  const head = edge.toArrow ?? 'arrow'
+  const tail = edge.fromArrow ?? 'none'
+  if (head === 'none' && tail === 'none') attrs.dir = 'none'
+  else if (head === 'none') attrs.dir = 'back'
+  else if (tail !== 'none') attrs.dir = 'both'
+  if (head !== 'none' && head !== 'arrow') attrs.arrowhead = ARROW_TO_DOT[head]
+  if (tail !== 'none' && tail !== 'arrow') attrs.arrowtail = ARROW_TO_DOT[tail]
+
+  if (edge.fromPortConstraint) attrs.tailport = SIDE_TO_COMPASS[edge.fromPortConstraint.side]
+  if (edge.toPortConstraint) attrs.headport = SIDE_TO_COMPASS[edge.toPortConstraint.side]
+
+  if (edge.lineStyle?.stroke) attrs.color = edge.lineStyle.stroke
+  if (edge.lineStyle?.color) attrs.fontcolor = edge.lineStyle.color
+  if (edge.lineStyle?.strokeWidth !== undefined) attrs.penwidth = String(edge.lineStyle.strokeWidth)
+  return attrs
+}
+
+/**
+ * DOT edges can't end at a cluster, so an edge to a subgraph goes to a node
+ * inside it and is clipped at the cluster with lhead/ltail
+ */
+function endpoint(graph: Graph, id: string): { id: string; cluster?: string } {
+  const node = graph.nodes.get(id)
+  if (!node?.isSubgraph) return { id }
+
+  const stack = [...(node.children ?? [])]
+  while (stack.length > 0) {
+    const child = graph.nodes.get(stack.shift()!)
+    if (!child) continue
+    if (!child.isSubgraph) return { id: child.id, cluster: clusterName(id) }
+    stack.push(...(child.children ?? []))
+  }
+  return { id: anchorName(id), cluster: clusterName(id) }
+}
+
+function clusterName(id: string): string {
+  return `cluster_${id}`
+}
+
+function anchorName(id: string): string {
+  return `${clusterName(id)}_anchor`
+}
+
+/**
+ * Express a polyline as the cubic B-spline control points Graphviz expects:
+ * each segment becomes a curve whose control points sit on the segment
+ */
+function splinePoints(points: Array<{ x: number; y: number }>): Array<{ x: number; y: number }> {
+  const corners = points.filter((p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y)
+  if (corners.length < 2) return []
+  const spline = [corners[0]]
+  for (let i = 1; i < corners.length; i++) {
+    spline.push(corners[i - 1], corners[i], corners[i])
+  }
+  return spline
+}
+
+function printAttrs(attrs: Attributes): string {
+  return `[${Object.entries(attrs).map(([key, value]) => `${key}=${dotId(value)}`).join(', ')}]`
+}
+
+/**
+ * Quote an id unless it is a plain identifier or number (and not a keyword)
+ */
+function dotId(id: string): string {
+  if (/^[A-Za-z_][\w]*$/.test(id) && !KEYWORDS.has(id.toLowerCase())) return id
+  if (/^-?(?:\.\d+|\d+(?:\.\d*)?)$/.test(id)) return id
+  return `"${id.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { DrawioParseError, parseDrawio, printDrawio } from './drawio'
+import { parseMermaid } from '../parser'
+import { layoutGraph } from '../layout'
+import { validateGraph } from '../model/validate'
+
+const MODEL = `<mxGraphModel><root>
+  <mxCell id="0"/>
+  <mxCell id="1" parent="0"/>
+  <mxCell id="backend" value="Backend" style="swimlane;" vertex="1" parent="1">
+    <mxGeometry x="20" y="20" width="300" height="200" as="geometry"/>
+  </mxCell>
+  <UserObject id="api" label="API" owner="payments">
+    <mxCell style="rounded=1;fillColor=#dae8fc;" vertex="1" parent="backend">
+      <mxGeometry x="40" y="40" width="120" height="60" as="geometry"/>
+    </mxCell>
+  </UserObject>
+  <mxCell id="db" value="&lt;b&gt;Orders&lt;/b&gt;" style="shape=cylinder3;html=1;" vertex="1" parent="1">
+    <mxGeometry x="400" y="60" width="80" height="80" as="geometry"/>
+  </mxCell>
+  <mxCell id="note" value="Free text" style="text;" vertex="1" parent="1">
+    <mxGeometry x="0" y="300" width="80" height="20" as="geometry"/>
+  </mxCell>
+  <mxCell id="e1" value="reads" style="dashed=1;endArrow=open;strokeColor=#ff0000;" edge="1" parent="1" source="api" target="db">
+    <mxGeometry relative="1" as="geometry"/>
+  </mxCell>
+  <mxCell id="e1-label" value="SQL" style="edgeLabel;" vertex="1" connectable="0" parent="e1">
+    <mxGeometry relative="1" as="geometry"/>
+  </mxCell>
+</root></mxGraphModel>`
+
+async function compress(xml: string): Promise<string> {
+  const stream = new Blob([encodeURIComponent(xml)]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer())
+  return btoa(String.fromCharCode(...bytes))
+}
+
+describe('parseDrawio', () => {
+  it('reads containers, shapes, geometry and edges', async () => {
+    const graph = await parseDrawio(MODEL)
+
+    expect(graph.nodes.get('backend')).toMatchObject({ isSubgraph: true, label: 'Backend', children: ['api'] })
+    expect(graph.nodes.get('api')).toMatchObject({
+      label: 'API',
+      shape: 'round',
+      parent: 'backend',
+      style: { fill: '#dae8fc' },
+      metadata: { owner: 'payments' },
+      // Centered, and absolute rather than relative to the swimlane
+      x: 120, y: 90, width: 120, height: 60,
+    })
+    expect(graph.nodes.get('db')).toMatchObject({ label: 'Orders', shape: 'cylinder' })
+    expect(graph.nodes.has('note')).toBe(false)
+    expect(graph.edges).toMatchObject([{
+      id: 'e1', from: 'api', to: 'db', label: 'reads SQL', style: 'dashed', toArrow: 'open',
+      lineStyle: { stroke: '#ff0000' },
+    }])
+    expect(validateGraph(graph)).toEqual([])
+  })
+
+  it('reads compressed pages and picks pages by index or name', async () => {
+    const other = '<mxGraphModel><root><mxCell id="0"/><mxCell id="1" parent="0"/></root></mxGraphModel>'
+    const file = `<mxfile>
+      <diagram name="Empty">${other}</diagram>
+      <diagram name="Main">${await compress(MODEL)}</diagram>
+    </mxfile>`
+
+    expect((await parseDrawio(file)).nodes.size).toBe(0)
+    expect((await parseDrawio(file, { page: 1 })).nodes.has('api')).toBe(true)
+    expect((await parseDrawio(file, { page: 'Main' })).nodes.has('api')).toBe(true)
+    await expect(parseDrawio(file, { page: 'Missing' })).rejects.toThrow(/pages: "Empty", "Main"/)
+  })
+
+  it('keeps character references beyond Unicode as written', async () => {
+    const xml = MODEL.replace('value="reads"', 'value="&#99999999; &#x110000; &#x263a;"')
+    const graph = await parseDrawio(xml)
+    expect(graph.edges[0].label).toBe('&#99999999; &#x110000; \u263a SQL')
+  })
+
+  it('rejects files that are not draw.io XML', async () => {
+    await expect(parseDrawio('<svg/>')).rejects.toBeInstanceOf(DrawioParseError)
+    await expect(parseDrawio('<mxfile><diagram name="x">not base64!</diagram></mxfile>')).rejects.toThrow(/neither XML nor base64/)
+  })
+})
+
+describe('printDrawio', () => {
+  // Layout logs its progress
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('writes a laid-out graph that parses back the same', async () => {
+    const graph = await layoutGraph(await parseMermaid([
+      'flowchart LR',
+      '  subgraph S["Services"]',
+      '    a(["Web & API"]) -.->|"calls <b>"| b[(DB)]',
+      '  end',
+      '  b ==> c{Check}',
+      '  style a fill:#f9f',
+    ].join('\n')))
+
+    const xml = printDrawio(graph, { name: 'Arch view' })
+    expect(xml).toContain('<diagram id="Arch-view" name="Arch view">')
+    expect(xml).toContain('value="Web &amp; API"')
+
+    const reparsed = await parseDrawio(xml)
+    for (const node of graph.nodes.values()) {
+      const copy = reparsed.nodes.get(node.id)!
+      expect(copy).toMatchObject({ label: node.label, shape: node.shape, isSubgraph: node.isSubgraph, parent: node.parent })
+      expect(copy.x).toBeCloseTo(node.x!, 1)
+      expect(copy.y).toBeCloseTo(node.y!, 1)
+    }
+    expect(reparsed.nodes.get('a')?.style).toEqual({ fill: '#f9f' })
+    expect(reparsed.edges.map(edge => [edge.from, edge.to, edge.label, edge.style])).toEqual([
+      ['a', 'b', 'calls <b>', 'dotted'],
+      ['b', 'c', undefined, 'thick'],
+    ])
+    expect(reparsed.edges[1].lineStyle).toEqual({ strokeWidth: 3 })
+  })
+})
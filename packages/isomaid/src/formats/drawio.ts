@@ -0,0 +1,705 @@
+/**
+ * draw.io / diagrams.net import and export
+ *
+ * parseDrawio reads the mxGraph XML in a `.drawio` file (plain or with the
+ * compressed pages draw.io saves by default) into a Graph:
+ *
+ *   <mxCell id="api" value="API" style="rounded=1;" vertex="1" parent="backend">
+ *     <mxGeometry x="40" y="40" width="120" height="60" as="geometry"/>
+ *   </mxCell>
+ *
+ * Containers (swimlanes, groups, `container=1`, or anything other shapes sit
+ * in) become subgraphs, shapes map to the closest ShapeType, and geometry is
+ * kept as node x/y/width/height (centers, absolute) so `layoutGraph` with
+ * `keepPositions` can reuse it.
+ *
+ * printDrawio writes a laid-out Graph back out, with routed edge points as
+ * waypoints, so a diagram can be polished by hand in draw.io.
+ */
+
+import type {
+  Graph, Node, Edge, NodeStyle, EdgeLineStyle, EdgeStyle, ArrowType, ShapeType, PortConstraint,
+} from '../model/types'
+import type { EdgeOptions } from '../model/builder'
+import { GraphBuilder } from '../model/builder'
+
+/**
+ * Thrown for files that aren't draw.io XML or can't be decoded
+ */
+export class DrawioParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DrawioParseError'
+  }
+}
+
+export interface DrawioParseOptions {
+  page?: number | string  // Page index or name, for files with several pages (default: the first)
+}
+
+export interface DrawioPrintOptions {
+  name?: string  // Page name (default 'Page-1')
+}
+
+/** A parsed XML element */
+interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlElement[]
+  text: string
+}
+
+/** An mxCell, with the attributes of a wrapping UserObject/object merged in */
+interface Cell {
+  id: string
+  value: string
+  style: Record<string, string>
+  shape: string
+  vertex: boolean
+  edge: boolean
+  parent?: string
+  source?: string
+  target?: string
+  geometry: { x: number; y: number; width: number; height: number }
+  metadata?: Record<string, string>
+}
+
+/** Stencil names (or parts of them) and the closest ShapeType */
+const SHAPE_PATTERNS: Array<[RegExp, ShapeType]> = [
+  [/cylinder|datastore|database|disk/i, 'cylinder'],
+  [/rhombus|diamond|decision/i, 'diamond'],
+  [/hexagon/i, 'hexagon'],
+  [/parallelogram|data$/i, 'parallelogram'],
+  [/trapezoid/i, 'trapezoid'],
+  [/process|subroutine|predefined/i, 'subroutine'],
+]
+
+/** Style written for each shape */
+const SHAPE_STYLES: Record<ShapeType, string> = {
+  rect: 'rounded=0;whiteSpace=wrap;',
+  round: 'rounded=1;whiteSpace=wrap;',
+  stadium: 'rounded=1;arcSize=50;whiteSpace=wrap;',
+  cylinder: 'shape=cylinder3;boundedLbl=1;backgroundOutline=1;size=15;whiteSpace=wrap;',
+  circle: 'ellipse;aspect=fixed;whiteSpace=wrap;',
+  diamond: 'rhombus;whiteSpace=wrap;',
+  hexagon: 'shape=hexagon;perimeter=hexagonPerimeter2;fixedSize=1;whiteSpace=wrap;',
+  parallelogram: 'shape=parallelogram;perimeter=parallelogramPerimeter;fixedSize=1;whiteSpace=wrap;',
+  trapezoid: 'shape=trapezoid;perimeter=trapezoidPerimeter;fixedSize=1;whiteSpace=wrap;',
+  subroutine: 'shape=process;backgroundOutline=1;whiteSpace=wrap;',
+}
+
+const SUBGRAPH_STYLE = 'swimlane;startSize=24;container=1;collapsible=0;'
+
+/** draw.io arrow names and the closest ArrowType (filled/unfilled is `endFill`/`startFill`) */
+const DRAWIO_ARROWS: Record<string, ArrowType> = {
+  classic: 'arrow',
+  classicThin: 'arrow',
+  block: 'arrow',
+  blockThin: 'arrow',
+  open: 'open',
+  openThin: 'open',
+  openAsync: 'open',
+  async: 'arrow',
+  oval: 'circle',
+  circle: 'circle',
+  circlePlus: 'circle',
+  cross: 'cross',
+  dash: 'cross',
+  none: 'none',
+}
+
+const ARROW_STYLES: Record<ArrowType, string> = {
+  arrow: 'classic',
+  open: 'open',
+  circle: 'oval',
+  cross: 'cross',
+  none: 'none',
+}
+
+// Wrappers that carry a cell's id, label and custom properties
+const WRAPPER_ELEMENTS = new Set(['UserObject', 'object'])
+
+// ============ Import ============
+
+/**
+ * Parse a `.drawio` file (or bare `<mxGraphModel>`) into a Graph
+ */
+export async function parseDrawio(source: string, options: DrawioParseOptions = {}): Promise<Graph> {
+  const document = parseXml(source)
+  const model = await findGraphModel(document, options.page ?? 0)
+  const root = model.children.find(child => child.name === 'root')
+  if (!root) throw new DrawioParseError('<mxGraphModel> has no <root>')
+
+  return buildGraph(root.children.map(readCell).filter((cell): cell is Cell => cell !== null))
+}
+
+/**
+ * The mxGraphModel of the requested page, inflating compressed pages
+ */
+async function findGraphModel(document: XmlElement, page: number | string): Promise<XmlElement> {
+  if (document.name === 'mxGraphModel') return document
+
+  const diagrams = document.name === 'mxfile'
+    ? document.children.filter(child => child.name === 'diagram')
+    : document.name === 'diagram' ? [document] : []
+  if (diagrams.length === 0) {
+    throw new DrawioParseError(`Expected <mxfile> or <mxGraphModel>, found <${document.name}>`)
+  }
+
+  const diagram = typeof page === 'number'
+    ? diagrams[page]
+    : diagrams.find(d => d.attributes.name === page)
+  if (!diagram) {
+    const names = diagrams.map(d => `"${d.attributes.name ?? ''}"`).join(', ')
+    throw new DrawioParseError(`No page ${typeof page === 'number' ? page : `"${page}"`} (pages: ${names})`)
+  }
+
+  const inline = diagram.children.find(child => child.name === 'mxGraphModel')
+  if (inline) return inline
+
+  const text = diagram.text.trim()
+  if (!text) throw new DrawioParseError(`Page "${diagram.attributes.name ?? ''}" is empty`)
+  const xml = text.startsWith('<') ? text : await inflate(text)
+  const model = parseXml(xml)
+  if (model.name !== 'mxGraphModel') {
+    throw new DrawioParseError(`Expected <mxGraphModel> in page, found <${model.name}>`)
+  }
+  return model
+}
+
+/**
+ * Decode a compressed page: base64, raw deflate, then URI encoding
+ */
+async function inflate(text: string): Promise<string> {
+  let bytes: Uint8Array<ArrayBuffer>
+  try {
+    bytes = Uint8Array.from(atob(text), c => c.charCodeAt(0))
+  } catch {
+    throw new DrawioParseError('Page content is neither XML nor base64')
+  }
+
+  try {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+    return decodeURIComponent(await new Response(stream).text())
+  } catch {
+    throw new DrawioParseError('Could not decompress page content')
+  }
+}
+
+/**
+ * Read an mxCell (or a UserObject/object wrapping one)
+ */
+function readCell(element: XmlElement): Cell | null {
+  let cellElement = element
+  let metadata: Record<string, string> | undefined
+  const id = element.attributes.id
+  let value = element.attributes.value ?? ''
+
+  if (WRAPPER_ELEMENTS.has(element.name)) {
+    const inner = element.children.find(child => child.name === 'mxCell')
+    if (!inner) return null
+    cellElement = inner
+    value = element.attributes.label ?? ''
+    // Custom properties set in draw.io's Edit Data dialog
+    for (const [key, attrValue] of Object.entries(element.attributes)) {
+      if (key === 'id' || key === 'label' || key === 'placeholders') continue
+      metadata = { ...metadata, [key]: attrValue }
+    }
+  } else if (element.name !== 'mxCell') {
+    return null
+  }
+  if (id === undefined) return null
+
+  const { attributes } = cellElement
+  const { style, shape } = parseStyle(attributes.style ?? '')
+  const geometry = cellElement.children.find(child => child.name === 'mxGeometry')?.attributes ?? {}
+
+  return {
+    id,
+    value: style.html === '1' ? htmlText(value) : value,
+    style,
+    shape,
+    vertex: attributes.vertex === '1',
+    edge: attributes.edge === '1',
+    parent: attributes.parent,
+    source: attributes.source,
+    target: attributes.target,
+    geometry: {
+      x: Number(geometry.x ?? 0) || 0,
+      y: Number(geometry.y ?? 0) || 0,
+      width: Number(geometry.width ?? 0) || 0,
+      height: Number(geometry.height ?? 0) || 0,
+    },
+    metadata,
+  }
+}
+
+/**
+ * Split `ellipse;whiteSpace=wrap;fillColor=#fff` into key/values plus the
+ * shape, which is either `shape=` or a bare leading style name
+ */
+function parseStyle(text: string): { style: Record<string, string>; shape: string } {
+  const style: Record<string, string> = {}
+  let shape = ''
+  for (const part of text.split(';')) {
+    const eq = part.indexOf('=')
+    if (eq < 0) {
+      if (part && !shape) shape = part
+    } else {
+      style[part.slice(0, eq)] = part.slice(eq + 1)
+    }
+  }
+  return { style, shape: style.shape ?? shape }
+}
+
+/**
+ * Turn cells into nodes, subgraphs and edges
+ */
+function buildGraph(cells: Cell[]): Graph {
+  const builder = new GraphBuilder()
+  const graph = builder.build()
+  const byId = new Map(cells.map(cell => [cell.id, cell]))
+
+  // The root cell has no parent and layers sit directly under it; neither is drawn
+  const hidden = new Set<string>()
+  for (const cell of cells) {
+    if (!cell.parent || !byId.has(cell.parent)) hidden.add(cell.id)
+  }
+  for (const cell of cells) {
+    if (cell.parent && hidden.has(cell.parent) && !byId.get(cell.parent)!.parent && !cell.vertex && !cell.edge) {
+      hidden.add(cell.id)
+    }
+  }
+
+  // Labels placed on an edge are vertices parented to it
+  const edgeLabels = new Map<string, string[]>()
+  const connected = new Set<string>()
+  const containers = new Set<string>()
+  for (const cell of cells) {
+    const parent = cell.parent ? byId.get(cell.parent) : undefined
+    if (cell.vertex && parent?.edge) {
+      if (cell.value) edgeLabels.set(parent.id, [...(edgeLabels.get(parent.id) ?? []), cell.value])
+    } else if (cell.vertex && parent?.vertex) {
+      containers.add(parent.id)
+    }
+    if (cell.edge) {
+      if (cell.source) connected.add(cell.source)
+      if (cell.target) connected.add(cell.target)
+    }
+  }
+
+  const isNode = (cell: Cell) => {
+    if (!cell.vertex || hidden.has(cell.id)) return false
+    const parent = cell.parent ? byId.get(cell.parent) : undefined
+    if (parent?.edge) return false
+    // Free-standing text is annotation, not architecture
+    return cell.shape !== 'text' || connected.has(cell.id) || containers.has(cell.id)
+  }
+
+  // Geometry is relative to the parent shape
+  const origin = (cell: Cell): { x: number; y: number } => {
+    const parent = cell.parent ? byId.get(cell.parent) : undefined
+    if (!parent?.vertex) return { x: cell.geometry.x, y: cell.geometry.y }
+    const parentOrigin = origin(parent)
+    return { x: parentOrigin.x + cell.geometry.x, y: parentOrigin.y + cell.geometry.y }
+  }
+
+  for (const cell of cells) {
+    if (!isNode(cell)) continue
+
+    const isSubgraph = containers.has(cell.id) || cell.style.container === '1'
+      || cell.shape === 'swimlane' || cell.shape === 'group'
+    const options = { label: cell.value.trim(), style: nodeStyle(cell.style), metadata: cell.metadata }
+    if (isSubgraph) {
+      builder.subgraph(cell.id, options)
+    } else {
+      builder.node(cell.id, { ...options, shape: nodeShape(cell) })
+    }
+
+    const node = graph.nodes.get(cell.id)!
+    const { width, height } = cell.geometry
+    if (width > 0 && height > 0) {
+      const { x, y } = origin(cell)
+      node.x = x + width / 2
+      node.y = y + height / 2
+      node.width = width
+      node.height = height
+    }
+  }
+
+  // Into their containers in document order, now that every container exists
+  for (const cell of cells) {
+    const parentCell = cell.parent ? byId.get(cell.parent) : undefined
+    if (isNode(cell) && parentCell && isNode(parentCell)) builder.within(parentCell.id).move(cell.id)
+  }
+
+  for (const cell of cells) {
+    // Dangling edges (drawn to a point rather than a shape) have nothing to connect
+    if (!cell.edge || !cell.source || !cell.target) continue
+    if (!graph.nodes.has(cell.source) || !graph.nodes.has(cell.target)) continue
+    builder.edge(cell.source, cell.target, edgeOptions(cell, edgeLabels.get(cell.id) ?? []))
+  }
+
+  return graph
+}
+
+function edgeOptions(cell: Cell, labels: string[]): EdgeOptions {
+  const { style } = cell
+  const edge: EdgeOptions = {
+    id: cell.id,
+    style: edgeStyle(style),
+    fromArrow: arrowType(style.startArrow ?? 'none', style.startFill),
+    toArrow: arrowType(style.endArrow ?? 'classic', style.endFill),
+  }
+
+  const label = [cell.value, ...labels].map(text => text.trim()).filter(Boolean).join(' ')
+  if (label) edge.label = label
+
+  const from = portConstraint(style.exitX, style.exitY)
+  const to = portConstraint(style.entryX, style.entryY)
+  if (from) edge.fromPortConstraint = from
+  if (to) edge.toPortConstraint = to
+
+  const lineStyle: EdgeLineStyle = {}
+  if (isColor(style.strokeColor)) lineStyle.stroke = style.strokeColor
+  if (isColor(style.fontColor)) lineStyle.color = style.fontColor
+  if (style.strokeWidth !== undefined && Number.isFinite(Number(style.strokeWidth))) {
+    lineStyle.strokeWidth = Number(style.strokeWidth)
+  }
+  if (style.opacity !== undefined && Number.isFinite(Number(style.opacity))) {
+    lineStyle.opacity = Number(style.opacity) / 100
+  }
+  if (Object.keys(lineStyle).length > 0) edge.lineStyle = lineStyle
+
+  return edge
+}
+
+function nodeShape(cell: Cell): ShapeType {
+  const { shape, style, geometry } = cell
+  if (/ellipse/i.test(shape)) {
+    // Circles are ellipses with a fixed aspect ratio
+    return style.aspect === 'fixed' || geometry.width === geometry.height ? 'circle' : 'stadium'
+  }
+  for (const [pattern, shapeType] of SHAPE_PATTERNS) {
+    if (pattern.test(shape)) return shapeType
+  }
+  if (style.rounded === '1') {
+    return Number(style.arcSize ?? 0) >= 50 ? 'stadium' : 'round'
+  }
+  return 'rect'
+}
+
+function nodeStyle(style: Record<string, string>): NodeStyle | undefined {
+  const result: NodeStyle = {}
+  if (isColor(style.fillColor)) result.fill = style.fillColor
+  if (isColor(style.strokeColor)) result.stroke = style.strokeColor
+  if (isColor(style.fontColor)) result.color = style.fontColor
+  if (style.strokeWidth !== undefined && Number.isFinite(Number(style.strokeWidth))) {
+    result.strokeWidth = Number(style.strokeWidth)
+  }
+  if (style.opacity !== undefined && Number.isFinite(Number(style.opacity))) {
+    result.opacity = Number(style.opacity) / 100
+  }
+  if (style.dashed === '1') {
+    result.strokeDasharray = style.dashPattern ? style.dashPattern.trim().replace(/\s+/g, ',') : '5,5'
+  }
+  return Object.keys(result).length > 0 ? result : undefined
+}
+
+function edgeStyle(style: Record<string, string>): EdgeStyle {
+  if (style.dashed === '1') {
+    // Dash patterns starting with a 1px dash read as dots
+    return /^1(\s|$)/.test(style.dashPattern ?? '') ? 'dotted' : 'dashed'
+  }
+  return Number(style.strokeWidth ?? 1) >= 3 ? 'thick' : 'solid'
+}
+
+function arrowType(name: string, fill: string | undefined): ArrowType {
+  const arrow = DRAWIO_ARROWS[name] ?? 'arrow'
+  // An unfilled triangle is the closest we have to an open arrowhead
+  return arrow === 'arrow' && fill === '0' ? 'open' : arrow
+}
+
+/**
+ * Side from an `exitX`/`exitY` (or `entryX`/`entryY`) connection point
+ */
+function portConstraint(x: string | undefined, y: string | undefined): PortConstraint | undefined {
+  if (x === undefined || y === undefined) return undefined
+  const px = Number(x)
+  const py = Number(y)
+  if (py === 0) return { side: 'T' }
+  if (py === 1) return { side: 'B' }
+  if (px === 0) return { side: 'L' }
+  if (px === 1) return { side: 'R' }
+  return undefined
+}
+
+function isColor(value: string | undefined): value is string {
+  return !!value && value !== 'none' && value !== 'default' && value !== 'inherit'
+}
+
+/**
+ * Plain text of an `html=1` label
+ */
+function htmlText(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>|<\/(?:div|p|li)>/gi, ' ').replace(/<[^>]*>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// ============ XML ============
+
+/**
+ * Minimal XML reader: elements, attributes and text. Comments, processing
+ * instructions and doctypes are skipped; CDATA is kept as text.
+ */
+function parseXml(source: string): XmlElement {
+  const document: XmlElement = { name: '#document', attributes: {}, children: [], text: '' }
+  const stack = [document]
+  let pos = 0
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos)
+    const textEnd = lt < 0 ? source.length : lt
+    if (textEnd > pos) stack[stack.length - 1].text += decodeEntities(source.slice(pos, textEnd))
+    if (lt < 0) break
+
+    if (source.startsWith('<!--', lt)) {
+      pos = skipTo(source, '-->', lt)
+    } else if (source.startsWith('<![CDATA[', lt)) {
+      const end = skipTo(source, ']]>', lt)
+      stack[stack.length - 1].text += source.slice(lt + 9, end - 3)
+      pos = end
+    } else if (source.startsWith('<?', lt)) {
+      pos = skipTo(source, '?>', lt)
+    } else if (source.startsWith('<!', lt)) {
+      pos = skipTo(source, '>', lt)
+    } else if (source.startsWith('</', lt)) {
+      const end = skipTo(source, '>', lt)
+      const name = source.slice(lt + 2, end - 1).trim()
+      const open = stack.pop()
+      if (!open || open === document || open.name !== name) {
+        throw new DrawioParseError(`Unexpected </${name}>`)
+      }
+      pos = end
+    } else {
+      const match = /^<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(source.slice(lt))
+      if (!match) throw new DrawioParseError(`Malformed tag at offset ${lt}`)
+      const [tag, name, attributeText, selfClosing] = match
+
+      const element: XmlElement = { name, attributes: {}, children: [], text: '' }
+      for (const attr of attributeText.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        element.attributes[attr[1]] = decodeEntities(attr[2] ?? attr[3])
+      }
+      stack[stack.length - 1].children.push(element)
+      if (!selfClosing) stack.push(element)
+      pos = lt + tag.length
+    }
+  }
+
+  if (stack.length > 1) throw new DrawioParseError(`<${stack[stack.length - 1].name}> is never closed`)
+  const root = document.children[0]
+  if (!root) throw new DrawioParseError('No XML element found')
+  return root
+}
+
+function skipTo(source: string, terminator: string, from: number): number {
+  const index = source.indexOf(terminator, from)
+  if (index < 0) throw new DrawioParseError(`Expected "${terminator}" after offset ${from}`)
+  return index + terminator.length
+}
+
+const NAMED_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'", nbsp: ' ' }
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return point <= 0x10ffff ? String.fromCodePoint(point) : entity
+    }
+    return NAMED_ENTITIES[code] ?? entity
+  })
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;')
+}
+
+// ============ Export ============
+
+/**
+ * Print a laid-out Graph as an uncompressed `.drawio` file. Nodes without
+ * positions are written at the origin, so run layoutGraph first.
+ */
+export function printDrawio(graph: Graph, options: DrawioPrintOptions = {}): string {
+  const name = options.name ?? 'Page-1'
+
+  // Cell ids "0" and "1" are the root and its layer; anything else keeps its id where possible
+  const used = new Set(['0', '1'])
+  const cellIds = new Map<string, string>()
+  const cellId = (id: string, fallback: string): string => {
+    let candidate = used.has(id) ? fallback : id
+    for (let i = 2; used.has(candidate); i++) candidate = `${fallback}-${i}`
+    used.add(candidate)
+    return candidate
+  }
+  for (const node of graph.nodes.values()) cellIds.set(node.id, cellId(node.id, `node-${node.id}`))
+  const edgeIds = graph.edges.map((edge, index) => cellId(edge.id, `edge-${index}`))
+
+  const lines: string[] = [
+    '<mxfile host="isomaid">',
+    `  <diagram id="${escapeXml(slug(name))}" name="${escapeXml(name)}">`,
+    '    <mxGraphModel grid="1" gridSize="10" guides="1" connect="1" arrows="1" page="0">',
+    '      <root>',
+    '        <mxCell id="0"/>',
+    '        <mxCell id="1" parent="0"/>',
+  ]
+
+  // Parents must come before their children
+  const printed = new Set<string>()
+  const printNode = (id: string) => {
+    const node = graph.nodes.get(id)
+    if (!node || printed.has(id)) return
+    printed.add(id)
+
+    const parent = node.parent && graph.nodes.has(node.parent) ? graph.nodes.get(node.parent)! : undefined
+    const box = nodeBox(node)
+    const parentBox = parent ? nodeBox(parent) : { x: 0, y: 0 }
+    const style = (node.isSubgraph ? SUBGRAPH_STYLE : SHAPE_STYLES[node.shape] ?? SHAPE_STYLES.rect)
+      + styleDeclarations(node.style)
+
+    lines.push(
+      `        <mxCell id="${escapeXml(cellIds.get(id)!)}" value="${escapeXml(node.label)}" style="${escapeXml(style)}" vertex="1" parent="${escapeXml(parent ? cellIds.get(parent.id)! : '1')}">`,
+      `          <mxGeometry x="${round(box.x - parentBox.x)}" y="${round(box.y - parentBox.y)}" width="${round(box.width)}" height="${round(box.height)}" as="geometry"/>`,
+      '        </mxCell>'
+    )
+    for (const childId of node.children ?? []) printNode(childId)
+  }
+  for (const id of graph.rootNodes) printNode(id)
+  for (const node of graph.nodes.values()) {
+    if (!node.parent) printNode(node.id)
+  }
+
+  graph.edges.forEach((edge, index) => {
+    const from = graph.nodes.get(edge.from)
+    const to = graph.nodes.get(edge.to)
+    if (!from || !to) return
+
+    const points = edge.points ?? []
+    const style = 'edgeStyle=orthogonalEdgeStyle;rounded=0;html=0;'
+      + edgeStyleDeclarations(edge)
+      + connectionPoint('exit', from, points[0], edge.fromPort ?? edge.fromPortConstraint?.side)
+      + connectionPoint('entry', to, points[points.length - 1], edge.toPort ?? edge.toPortConstraint?.side)
+
+    lines.push(`        <mxCell id="${escapeXml(edgeIds[index])}" value="${escapeXml(edge.label ?? '')}" style="${escapeXml(style)}" edge="1" parent="1" source="${escapeXml(cellIds.get(from.id)!)}" target="${escapeXml(cellIds.get(to.id)!)}">`)
+    // The ends are drawn from the exit/entry points, so only the bends are waypoints
+    const waypoints = points.slice(1, -1)
+    if (waypoints.length > 0) {
+      lines.push(
+        '          <mxGeometry relative="1" as="geometry">',
+        '            <Array as="points">',
+        ...waypoints.map(p => `              <mxPoint x="${round(p.x)}" y="${round(p.y)}"/>`),
+        '            </Array>',
+        '          </mxGeometry>'
+      )
+    } else {
+      lines.push('          <mxGeometry relative="1" as="geometry"/>')
+    }
+    lines.push('        </mxCell>')
+  })
+
+  lines.push('      </root>', '    </mxGraphModel>', '  </diagram>', '</mxfile>')
+  return lines.join('\n') + '\n'
+}
+
+/** Top-left corner and size of a node, with defaults for nodes that were never laid out */
+function nodeBox(node: Node): { x: number; y: number; width: number; height: number } {
+  const width = node.width ?? 120
+  const height = node.height ?? 60
+  return { x: (node.x ?? width / 2) - width / 2, y: (node.y ?? height / 2) - height / 2, width, height }
+}
+
+function styleDeclarations(style: NodeStyle | undefined): string {
+  if (!style) return ''
+  let text = ''
+  if (style.fill) text += `fillColor=${style.fill};`
+  if (style.stroke) text += `strokeColor=${style.stroke};`
+  if (style.color) text += `fontColor=${style.color};`
+  if (style.strokeWidth !== undefined) text += `strokeWidth=${style.strokeWidth};`
+  if (style.opacity !== undefined) text += `opacity=${round(style.opacity * 100)};`
+  if (style.strokeDasharray) text += `dashed=1;dashPattern=${style.strokeDasharray.replace(/[,\s]+/g, ' ')};`
+  return text
+}
+
+function edgeStyleDeclarations(edge: Edge): string {
+  let text = ''
+  const style = edge.style ?? 'solid'
+  if (style === 'dashed') text += 'dashed=1;'
+  if (style === 'dotted') text += 'dashed=1;dashPattern=1 4;'
+
+  text += arrowDeclarations('end', edge.toArrow ?? 'arrow')
+  text += arrowDeclarations('start', edge.fromArrow ?? 'none')
+
+  const { lineStyle } = edge
+  if (lineStyle?.stroke) text += `strokeColor=${lineStyle.stroke};`
+  if (lineStyle?.color) text += `fontColor=${lineStyle.color};`
+  const width = lineStyle?.strokeWidth ?? (style === 'thick' ? 3 : undefined)
+  if (width !== undefined) text += `strokeWidth=${width};`
+  if (lineStyle?.opacity !== undefined) text += `opacity=${round(lineStyle.opacity * 100)};`
+  return text
+}
+
+function arrowDeclarations(end: 'start' | 'end', arrow: ArrowType): string {
+  const fill = arrow === 'arrow' || arrow === 'circle' ? 1 : 0
+  return `${end}Arrow=${ARROW_STYLES[arrow]};${end}Fill=${fill};`
+}
+
+/**
+ * Pin an edge end where the routed path touches the node, so draw.io
+ * draws the same route; falls back to the middle of the chosen side
+ */
+function connectionPoint(
+  end: 'exit' | 'entry',
+  node: Node,
+  point: { x: number; y: number } | undefined,
+  side: string | undefined
+): string {
+  const box = nodeBox(node)
+  let x: number
+  let y: number
+  if (point && node.x !== undefined && node.y !== undefined) {
+    x = clamp((point.x - box.x) / box.width)
+    y = clamp((point.y - box.y) / box.height)
+    // Snap to the nearest side; route ends sit a few pixels off the shape
+    const distances = [y, 1 - x, 1 - y, x]
+    const nearest = distances.indexOf(Math.min(...distances))
+    if (nearest === 0) y = 0
+    else if (nearest === 1) x = 1
+    else if (nearest === 2) y = 1
+    else x = 0
+  } else if (side) {
+    x = side === 'L' ? 0 : side === 'R' ? 1 : 0.5
+    y = side === 'T' ? 0 : side === 'B' ? 1 : 0.5
+  } else {
+    return ''
+  }
+  return `${end}X=${round(x, 4)};${end}Y=${round(y, 4)};${end}Dx=0;${end}Dy=0;`
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value))
+}
+
+function slug(text: string): string {
+  return text.replace(/[^\w-]+/g, '-') || 'page'
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits
+  return Math.round(value * factor) / factor
+}
@@ -0,0 +1,19 @@
+export {
+  serializeGraph, deserializeGraph, GraphJsonError, GRAPH_JSON_VERSION,
+  type SerializedGraph, type SerializedEdge, type SerializedPortRef,
+} from './json'
+export { parseDot, printDot, DotSyntaxError, type DotPrintOptions } from './dot'
+export {
+  parseDrawio, printDrawio, DrawioParseError, type DrawioParseOptions, type DrawioPrintOptions,
+} from './drawio'
+export { parseCompose, ComposeParseError } from './compose'
+export { parseKubernetes, KubernetesParseError, type KubernetesFile } from './kubernetes'
+export { parseTerraform, TerraformParseError, type TerraformParseOptions } from './terraform'
+export {
+  scanWorkspace, WorkspaceScanError, type WorkspaceHost, type WorkspaceEntry, type WorkspaceScanOptions,
+} from './workspace'
+export {
+  parseArchWorkspace, loadArchWorkspace, mergeArchViews,
+  type ArchFile, type ArchComponent, type ArchConnection, type ArchView, type ArchBacklink,
+  type ArchDiagnostic, type ArchWorkspace, type ArchMergeOptions,
+} from './arch'
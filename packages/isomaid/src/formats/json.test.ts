@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { deserializeGraph, GRAPH_JSON_VERSION, GraphJsonError, serializeGraph, type SerializedGraph } from './json'
+import { parseMermaid } from '../parser'
+import { layoutGraph } from '../layout'
+import { renderToSvg } from '../render/svg'
+import type { Graph } from '../model/types'
+
+const SOURCE = [
+  '---',
+  'title: Shop',
+  '---',
+  'flowchart LR',
+  '  classDef hot fill:#f00',
+  '  subgraph S["Services"]',
+  '    api([API]):::hot --> db[(DB)]',
+  '  end',
+  '  web -->|calls| api',
+].join('\n')
+
+async function laidOut(): Promise<Graph> {
+  return layoutGraph(await parseMermaid(SOURCE))
+}
+
+/** Run `check` and return the GraphJsonError it throws */
+function jsonError(check: () => unknown): GraphJsonError {
+  try {
+    check()
+  } catch (error) {
+    if (error instanceof GraphJsonError) return error
+    throw error
+  }
+  throw new Error('Expected a GraphJsonError')
+}
+
+describe('serializeGraph', () => {
+  // Layout and rendering log their progress
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('round-trips a laid-out graph through JSON text', async () => {
+    const graph = await laidOut()
+    const copy = deserializeGraph(JSON.stringify(serializeGraph(graph)))
+
+    expect(copy.title).toBe('Shop')
+    expect([...copy.nodes.keys()]).toEqual([...graph.nodes.keys()])
+    expect(copy.nodes.get('api')).toEqual(graph.nodes.get('api'))
+    expect(copy.layers).toEqual(graph.layers)
+    expect(copy.classDefs).toEqual(graph.classDefs)
+    expect(copy.edges).toEqual(graph.edges)
+    expect(renderToSvg(copy)).toBe(renderToSvg(graph))
+  })
+
+  it('writes edge ports as references and restores the same objects', async () => {
+    const graph = await laidOut()
+    const serialized = serializeGraph(graph)
+    const edge = graph.edges[0]
+
+    expect(edge.sourcePort).toBeDefined()
+    expect(serialized.edges[0].sourcePort).toEqual({
+      node: edge.from,
+      index: graph.nodes.get(edge.from)!.ports!.indexOf(edge.sourcePort!),
+    })
+
+    const copy = deserializeGraph(serialized)
+    const copied = copy.edges[0]
+    expect(copied.sourcePort).toBe(copy.nodes.get(copied.from)!.ports![serialized.edges[0].sourcePort!.index])
+    expect(copied.targetPort).toBe(copy.nodes.get(copied.to)!.ports![serialized.edges[0].targetPort!.index])
+  })
+
+  it('shares nothing with the graph', async () => {
+    const graph = await parseMermaid(SOURCE)
+    const serialized = serializeGraph(graph)
+    serialized.nodes[0].label = 'changed'
+    serialized.classDefs.hot.fill = '#000'
+
+    expect(graph.nodes.get(serialized.nodes[0].id)!.label).not.toBe('changed')
+    expect(graph.classDefs.get('hot')).toEqual({ fill: '#f00' })
+  })
+})
+
+describe('deserializeGraph', () => {
+  const valid = async (): Promise<SerializedGraph> => serializeGraph(await parseMermaid('flowchart LR\n  a --> b'))
+
+  it('rejects data that is not a serialized graph', () => {
+    expect(jsonError(() => deserializeGraph('{')).message).toMatch(/^Invalid JSON/)
+    expect(jsonError(() => deserializeGraph('[]')).message).toMatch(/"format": "isomaid-graph"/)
+  })
+
+  it('rejects newer versions', async () => {
+    const data = { ...await valid(), version: GRAPH_JSON_VERSION + 1 } as unknown as SerializedGraph
+    expect(jsonError(() => deserializeGraph(data))).toMatchObject({ path: 'version' })
+  })
+
+  it('names where malformed data is', async () => {
+    const data = await valid()
+
+    const duplicate = { ...data, nodes: [...data.nodes, data.nodes[0]] }
+    expect(jsonError(() => deserializeGraph(duplicate)).path).toBe('nodes[2].id')
+
+    const badPort = { ...data, edges: [{ ...data.edges[0], sourcePort: { node: 'a', index: 99 } }] }
+    expect(jsonError(() => deserializeGraph(badPort)).message).toBe('edges[0].sourcePort: No port 99 on node "a"')
+
+    const noRoot = { ...data, layers: data.layers.filter(layer => layer.id !== 'root') }
+    expect(jsonError(() => deserializeGraph(noRoot)).path).toBe('layers')
+
+    const badEdge = { ...data, edges: [{ ...data.edges[0], to: 3 }] } as unknown as SerializedGraph
+    expect(jsonError(() => deserializeGraph(badEdge)).path).toBe('edges[0].to')
+  })
+})
@@ -0,0 +1,208 @@
+/**
+ * Graph to JSON and back
+ *
+ * serializeGraph turns a Graph, laid out or not, into plain JSON data;
+ * deserializeGraph rebuilds the Graph from it. Everything layout and routing
+ * wrote is kept (positions, grid coordinates, ports, routed points and
+ * crossings), so a laid-out graph can be cached or shipped and rendered
+ * without laying it out again.
+ *
+ *   {
+ *     "format": "isomaid-graph",
+ *     "version": 1,
+ *     "config": {...},
+ *     "nodes": [{"id": "api", "ports": [...], ...}],
+ *     "edges": [{"id": "api-db-0", "sourcePort": {"node": "api", "index": 7}, ...}],
+ *     "rootNodes": ["api"],
+ *     "layers": [{"id": "root", ...}],
+ *     "classDefs": {"hot": {"fill": "#f00"}}
+ *   }
+ *
+ * Maps become arrays (nodes, layers) or objects (classDefs). An edge's
+ * `sourcePort`/`targetPort` is the very Port object in its node's `ports`,
+ * so it's written as that node and index and restored to the same object.
+ */
+
+import type { Edge, Graph, GraphConfig, LayerInfo, Node, NodeStyle, Port } from '../model/types'
+
+/** The schema version written by serializeGraph */
+export const GRAPH_JSON_VERSION = 1
+
+/** A port of some node, by position in its `ports` */
+export interface SerializedPortRef {
+  node: string
+  index: number
+}
+
+export interface SerializedEdge extends Omit<Edge, 'sourcePort' | 'targetPort'> {
+  sourcePort?: SerializedPortRef
+  targetPort?: SerializedPortRef
+}
+
+/** A Graph as JSON data (version 1) */
+export interface SerializedGraph {
+  format: 'isomaid-graph'
+  version: typeof GRAPH_JSON_VERSION
+  title?: string
+  description?: string
+  config: GraphConfig
+  nodes: Node[]                         // In the graph's node order
+  edges: SerializedEdge[]
+  rootNodes: string[]
+  layers: LayerInfo[]                   // Root layer included
+  classDefs: Record<string, NodeStyle>
+}
+
+/**
+ * Thrown for data that isn't a serialized graph, or is one from a newer
+ * version, with where in the data the problem is (`edges[2].sourcePort`)
+ */
+export class GraphJsonError extends Error {
+  readonly path: string
+
+  constructor(message: string, path = '') {
+    super(path ? `${path}: ${message}` : message)
+    this.name = 'GraphJsonError'
+    this.path = path
+  }
+}
+
+/**
+ * Write a graph as JSON data, ready for JSON.stringify. Shares nothing
+ * with the graph, so either can change afterwards.
+ */
+export function serializeGraph(graph: Graph): SerializedGraph {
+  const portRef = (port: Port | undefined, edge: Edge, end: 'from' | 'to'): SerializedPortRef | undefined => {
+    if (!port) return undefined
+    // The port normally belongs to the edge's own end, but trust its nodeId if not
+    for (const node of [edge[end], port.nodeId]) {
+      const index = graph.nodes.get(node)?.ports?.indexOf(port) ?? -1
+      if (index >= 0) return { node, index }
+    }
+    return undefined
+  }
+
+  const edges = graph.edges.map(edge => {
+    const { sourcePort, targetPort, ...rest } = edge
+    const serialized: SerializedEdge = structuredClone(rest)
+    const source = portRef(sourcePort, edge, 'from')
+    const target = portRef(targetPort, edge, 'to')
+    if (source) serialized.sourcePort = source
+    if (target) serialized.targetPort = target
+    return serialized
+  })
+
+  const serialized: SerializedGraph = {
+    format: 'isomaid-graph',
+    version: GRAPH_JSON_VERSION,
+    config: structuredClone(graph.config),
+    nodes: [...graph.nodes.values()].map(node => structuredClone(node)),
+    edges,
+    rootNodes: [...graph.rootNodes],
+    layers: [...graph.layers.values()].map(layer => structuredClone(layer)),
+    classDefs: Object.fromEntries([...graph.classDefs].map(([name, style]) => [name, { ...style }])),
+  }
+  if (graph.title !== undefined) serialized.title = graph.title
+  if (graph.description !== undefined) serialized.description = graph.description
+  return serialized
+}
+
+/**
+ * Rebuild a graph from serializeGraph's output, or the JSON text of it.
+ * Throws a GraphJsonError if the data isn't a serialized graph this
+ * version can read.
+ */
+export function deserializeGraph(input: string | SerializedGraph): Graph {
+  let data: unknown = input
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input)
+    } catch (error) {
+      throw new GraphJsonError(`Invalid JSON: ${(error as Error).message}`)
+    }
+  }
+
+  if (!isObject(data) || data.format !== 'isomaid-graph') {
+    throw new GraphJsonError('Not a serialized graph (expected "format": "isomaid-graph")')
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new GraphJsonError('"version" must be a positive integer', 'version')
+  }
+  if (data.version > GRAPH_JSON_VERSION) {
+    throw new GraphJsonError(`Written by a newer version (${data.version}); this one reads up to ${GRAPH_JSON_VERSION}`, 'version')
+  }
+
+  const config = expectObject(data.config, 'config')
+  const nodeList = expectArray(data.nodes, 'nodes')
+  const edgeList = expectArray(data.edges, 'edges')
+  const rootNodes = expectArray(data.rootNodes, 'rootNodes')
+  const layerList = expectArray(data.layers, 'layers')
+  const classDefs = data.classDefs === undefined ? {} : expectObject(data.classDefs, 'classDefs')
+
+  const graph: Graph = {
+    config: structuredClone(config) as unknown as GraphConfig,
+    nodes: new Map(),
+    edges: [],
+    rootNodes: rootNodes.map((id, i) => expectString(id, `rootNodes[${i}]`)),
+    layers: new Map(),
+    classDefs: new Map(Object.entries(structuredClone(classDefs)) as Array<[string, NodeStyle]>),
+  }
+  if (typeof data.title === 'string') graph.title = data.title
+  if (typeof data.description === 'string') graph.description = data.description
+
+  nodeList.forEach((value, i) => {
+    const node = expectObject(value, `nodes[${i}]`)
+    const id = expectString(node.id, `nodes[${i}].id`)
+    if (graph.nodes.has(id)) throw new GraphJsonError(`Duplicate node id "${id}"`, `nodes[${i}].id`)
+    if (node.ports !== undefined) expectArray(node.ports, `nodes[${i}].ports`)
+    graph.nodes.set(id, structuredClone(node) as unknown as Node)
+  })
+
+  layerList.forEach((value, i) => {
+    const layer = expectObject(value, `layers[${i}]`)
+    const id = expectString(layer.id, `layers[${i}].id`)
+    graph.layers.set(id, structuredClone(layer) as unknown as LayerInfo)
+  })
+
+  if (!graph.layers.has('root')) throw new GraphJsonError('Missing the "root" layer', 'layers')
+
+  const resolvePort = (value: unknown, path: string): Port => {
+    const ref = expectObject(value, path)
+    const nodeId = expectString(ref.node, `${path}.node`)
+    const port = typeof ref.index === 'number' ? graph.nodes.get(nodeId)?.ports?.[ref.index] : undefined
+    if (!port) throw new GraphJsonError(`No port ${String(ref.index)} on node "${nodeId}"`, path)
+    return port
+  }
+
+  edgeList.forEach((value, i) => {
+    const { sourcePort, targetPort, ...rest } = expectObject(value, `edges[${i}]`)
+    expectString(rest.id, `edges[${i}].id`)
+    expectString(rest.from, `edges[${i}].from`)
+    expectString(rest.to, `edges[${i}].to`)
+    const edge = structuredClone(rest) as unknown as Edge
+    if (sourcePort !== undefined) edge.sourcePort = resolvePort(sourcePort, `edges[${i}].sourcePort`)
+    if (targetPort !== undefined) edge.targetPort = resolvePort(targetPort, `edges[${i}].targetPort`)
+    graph.edges.push(edge)
+  })
+
+  return graph
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (!isObject(value)) throw new GraphJsonError('Expected an object', path)
+  return value
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new GraphJsonError('Expected an array', path)
+  return value
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== 'string') throw new GraphJsonError('Expected a string', path)
+  return value
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import { KubernetesParseError, parseKubernetes } from './kubernetes'
+import { validateGraph } from '../model/validate'
+
+const APP = `apiVersion: v1
+kind: Namespace
+metadata:
+  name: shop
+  labels:
+    team: payments
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+  namespace: shop
+spec:
+  replicas: 3
+  template:
+    metadata:
+      labels: {app: api, tier: web}
+    spec:
+      containers:
+        - name: api
+          image: shop/api:1.4
+          envFrom:
+            - configMapRef: {name: api-config}
+      volumes:
+        - name: settings
+          configMap: {name: api-config}
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: api
+  namespace: shop
+spec:
+  selector: {app: api}
+  ports:
+    - port: 80
+      targetPort: 8080
+---
+apiVersion: networking.k8s.io/v1
+kind: Ingress
+metadata:
+  name: public
+  namespace: shop
+spec:
+  rules:
+    - host: shop.example.com
+      http:
+        paths:
+          - path: /api
+            backend: {service: {name: api, port: {number: 80}}}
+          - path: /v1
+            backend: {service: {name: api, port: {number: 80}}}
+---
+apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: api-config
+  namespace: shop
+---
+apiVersion: v1
+kind: Secret
+metadata:
+  name: ignored
+  namespace: shop
+`
+
+describe('parseKubernetes', () => {
+  it('links ingresses, services, workloads and config maps', () => {
+    const graph = parseKubernetes(APP)
+
+    expect(graph.nodes.get('shop')).toMatchObject({
+      isSubgraph: true,
+      metadata: { kind: 'Namespace', 'label.team': 'payments' },
+      children: ['shop/deployment/api', 'shop/service/api', 'shop/ingress/public', 'shop/configmap/api-config'],
+    })
+    expect(graph.nodes.get('shop/deployment/api')).toMatchObject({
+      label: 'api',
+      shape: 'rect',
+      metadata: { kind: 'Deployment', namespace: 'shop', image: 'shop/api:1.4', replicas: '3' },
+    })
+    expect(graph.nodes.get('shop/ingress/public')?.shape).toBe('hexagon')
+    expect(graph.edges.map(edge => [edge.from, edge.to, edge.label, edge.style])).toEqual([
+      ['shop/deployment/api', 'shop/configmap/api-config', undefined, 'dashed'],
+      ['shop/service/api', 'shop/deployment/api', '80→8080', 'solid'],
+      ['shop/ingress/public', 'shop/service/api', 'shop.example.com/api, shop.example.com/v1', 'solid'],
+    ])
+    expect(validateGraph(graph)).toEqual([])
+  })
+
+  it('matches resources only within their namespace', () => {
+    const graph = parseKubernetes(`kind: List
+items:
+  - kind: Service
+    metadata: {name: web}
+    spec: {selector: {app: web}}
+  - kind: Deployment
+    metadata: {name: web, namespace: other}
+    spec: {template: {metadata: {labels: {app: web}}}}
+`)
+    expect([...graph.nodes.keys()]).toEqual(['default', 'other', 'default/service/web', 'other/deployment/web'])
+    expect(graph.edges).toEqual([])
+  })
+
+  it('names the file when a manifest is not valid YAML', () => {
+    expect.assertions(3)
+    try {
+      parseKubernetes([
+        { name: 'ok.yaml', content: 'kind: ConfigMap\nmetadata: {name: a}\n' },
+        { name: 'bad.yaml', content: 'kind: Service\nmetadata: {name: [\n' },
+      ])
+    } catch (error) {
+      expect(error).toBeInstanceOf(KubernetesParseError)
+      expect((error as KubernetesParseError).file).toBe('bad.yaml')
+      expect((error as KubernetesParseError).message).toMatch(/^bad\.yaml:\d+:\d+ /)
+    }
+  })
+
+  it('records the file each resource came from', () => {
+    const graph = parseKubernetes([{ name: 'cm.yaml', content: 'kind: ConfigMap\nmetadata: {name: a}\n' }])
+    expect(graph.nodes.get('default/configmap/a')?.metadata).toEqual({ kind: 'ConfigMap', namespace: 'default', file: 'cm.yaml' })
+  })
+})
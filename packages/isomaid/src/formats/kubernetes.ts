@@ -0,0 +1,315 @@
+/**
+ * Kubernetes manifests to Graph
+ *
+ * parseKubernetes reads one or more YAML streams (`---` separated, or
+ * `kind: List`) into a Graph:
+ *
+ *   cluster
+ *   └─ namespace (subgraph, so drill goes cluster → namespace → workload)
+ *      ├─ Ingress ──rules──▶ Service ──selector──▶ Deployment / StatefulSet
+ *      └─ ConfigMap ◀╌╌ workloads that mount or read it
+ *
+ * Resources are matched the way the cluster would: Service selectors against
+ * pod template labels, Ingress backends and ConfigMap references by name,
+ * all within one namespace. Kinds we don't draw are skipped.
+ */
+
+import type { Graph, EdgeStyle, ShapeType, SourceRange } from '../model/types'
+import { GraphBuilder } from '../model/builder'
+import type { Json5Node } from '../parser/json5'
+import { json5ToValue } from '../parser/json5'
+import { parseYamlDocuments, YamlSyntaxError } from '../parser/yaml'
+import { lineStarts, rangeAt } from '../parser/tokenizer'
+
+/**
+ * Thrown for manifests that aren't valid YAML, with the file (when named)
+ * and range of the problem
+ */
+export class KubernetesParseError extends Error {
+  readonly file?: string
+  readonly range: SourceRange
+
+  constructor(message: string, range: SourceRange, file?: string) {
+    super(`${file ? `${file}:` : ''}${range.start.line}:${range.start.column} ${message}`)
+    this.name = 'KubernetesParseError'
+    this.file = file
+    this.range = range
+  }
+}
+
+/** A manifest file, e.g. one file read from a directory */
+export interface KubernetesFile {
+  name: string
+  content: string
+}
+
+/** Kinds that become nodes, and their shapes */
+const KIND_SHAPES: Record<string, ShapeType> = {
+  Deployment: 'rect',
+  StatefulSet: 'cylinder',
+  DaemonSet: 'rect',
+  Job: 'rect',
+  CronJob: 'rect',
+  Service: 'round',
+  Ingress: 'hexagon',
+  ConfigMap: 'parallelogram',
+}
+
+const WORKLOAD_KINDS = new Set(['Deployment', 'StatefulSet', 'DaemonSet', 'Job', 'CronJob'])
+
+const DEFAULT_NAMESPACE = 'default'
+
+type Manifest = Record<string, unknown>
+
+/** A resource we draw */
+interface Resource {
+  id: string
+  kind: string
+  name: string
+  namespace: string
+  manifest: Manifest
+  range: SourceRange
+  file?: string
+}
+
+/**
+ * Parse Kubernetes YAML into a Graph: one stream, or several files
+ */
+export function parseKubernetes(input: string | KubernetesFile[]): Graph {
+  const files = typeof input === 'string' ? [{ name: undefined, content: input }] : input
+  const resources: Resource[] = []
+  const namespaces = new Map<string, Manifest | undefined>()  // Name -> its Namespace manifest, if any
+
+  for (const { name: file, content } of files) {
+    const starts = lineStarts(content)
+    let documents: Json5Node[]
+    try {
+      documents = parseYamlDocuments(content)
+    } catch (error) {
+      if (!(error instanceof YamlSyntaxError)) throw error
+      throw new KubernetesParseError(error.message, rangeAt(starts, error.offset, error.offset), file)
+    }
+
+    for (const document of documents) {
+      const range = rangeAt(starts, document.start, document.end)
+      for (const manifest of listItems(json5ToValue(document))) {
+        const kind = manifest.kind
+        const name = at(manifest, 'metadata', 'name')
+        if (typeof kind !== 'string' || typeof name !== 'string') continue
+
+        if (kind === 'Namespace') {
+          namespaces.set(name, manifest)
+          continue
+        }
+        if (!(kind in KIND_SHAPES)) continue
+
+        const namespace = stringAt(manifest, 'metadata', 'namespace') ?? DEFAULT_NAMESPACE
+        if (!namespaces.has(namespace)) namespaces.set(namespace, undefined)
+        resources.push({ id: `${namespace}/${kind.toLowerCase()}/${name}`, kind, name, namespace, manifest, range, file })
+      }
+    }
+  }
+
+  const builder = new GraphBuilder()
+  const graph = builder.build()
+  for (const [namespace, manifest] of namespaces) {
+    // Namespaces declared but empty are still part of the cluster picture
+    builder.subgraph(namespace, { metadata: { kind: 'Namespace', ...labelMetadata(manifest) } })
+  }
+  for (const resource of resources) {
+    if (!graph.nodes.has(resource.id)) addResource(builder.within(resource.namespace), resource)
+  }
+
+  const byName = new Map(resources.map(r => [`${r.namespace}/${r.kind}/${r.name}`, r]))
+  const find = (namespace: string, kind: string, name: unknown) =>
+    typeof name === 'string' ? byName.get(`${namespace}/${kind}/${name}`) : undefined
+
+  const addEdge = (from: Resource, to: Resource, label: string | undefined, style: EdgeStyle) => {
+    const existing = graph.edges.find(e => e.from === from.id && e.to === to.id)
+    if (existing) {
+      // Several rules to the same backend share one edge
+      if (label && !existing.label?.split(', ').includes(label)) {
+        existing.label = existing.label ? `${existing.label}, ${label}` : label
+      }
+      return
+    }
+    builder.edge(from.id, to.id, { label: label || undefined, style, fromArrow: 'none', toArrow: 'arrow' })
+  }
+
+  for (const resource of resources) {
+    const { manifest, namespace } = resource
+
+    if (resource.kind === 'Ingress') {
+      for (const { service, label } of ingressBackends(manifest)) {
+        const target = find(namespace, 'Service', service)
+        if (target) addEdge(resource, target, label, 'solid')
+      }
+    }
+
+    if (resource.kind === 'Service') {
+      const selector = at(manifest, 'spec', 'selector')
+      if (!isRecord(selector) || Object.keys(selector).length === 0) continue
+      const ports = servicePorts(manifest)
+      for (const workload of resources) {
+        if (workload.namespace !== namespace || !WORKLOAD_KINDS.has(workload.kind)) continue
+        const labels = at(podTemplate(workload.manifest), 'metadata', 'labels')
+        if (isRecord(labels) && Object.entries(selector).every(([key, value]) => labels[key] === value)) {
+          addEdge(resource, workload, ports, 'solid')
+        }
+      }
+    }
+
+    if (WORKLOAD_KINDS.has(resource.kind)) {
+      for (const configMap of configMapReferences(at(podTemplate(manifest), 'spec'))) {
+        const target = find(namespace, 'ConfigMap', configMap)
+        if (target) addEdge(resource, target, undefined, 'dashed')
+      }
+    }
+  }
+
+  return graph
+}
+
+/**
+ * Add a resource as a node in the builder's scope, its namespace
+ */
+function addResource(builder: GraphBuilder, resource: Resource): void {
+  const { manifest } = resource
+  const metadata: Record<string, string> = { kind: resource.kind, namespace: resource.namespace }
+  if (resource.file) metadata.file = resource.file
+
+  const images = arrayAt(podTemplate(manifest), 'spec', 'containers')
+    .map(container => stringAt(container, 'image'))
+    .filter((image): image is string => image !== undefined)
+  if (images.length > 0) metadata.image = images.join(', ')
+  const replicas = at(manifest, 'spec', 'replicas')
+  if (typeof replicas === 'number') metadata.replicas = String(replicas)
+  const serviceType = stringAt(manifest, 'spec', 'type')
+  if (resource.kind === 'Service' && serviceType) metadata.type = serviceType
+
+  builder.node(resource.id, {
+    label: resource.name,
+    shape: KIND_SHAPES[resource.kind],
+    metadata,
+    sourceRange: resource.range,
+  })
+}
+
+/**
+ * The manifests in a document: itself, or the items of a `kind: List`
+ */
+function listItems(value: unknown): Manifest[] {
+  if (!isRecord(value)) return []
+  // `kind: List`, and typed lists like `DeploymentList` from `kubectl get -o yaml`
+  if (typeof value.kind === 'string' && value.kind.endsWith('List') && Array.isArray(value.items)) {
+    return value.items.filter(isRecord)
+  }
+  return [value]
+}
+
+/**
+ * Pod template of a workload (CronJobs nest theirs in the job template)
+ */
+function podTemplate(manifest: Manifest): Manifest | undefined {
+  const template = manifest.kind === 'CronJob'
+    ? at(manifest, 'spec', 'jobTemplate', 'spec', 'template')
+    : at(manifest, 'spec', 'template')
+  return isRecord(template) ? template : undefined
+}
+
+/**
+ * Services an Ingress routes to, labelled `host/path` (networking.k8s.io/v1
+ * and the older v1beta1 `serviceName` form)
+ */
+function ingressBackends(manifest: Manifest): Array<{ service: unknown; label?: string }> {
+  const backends: Array<{ service: unknown; label?: string }> = []
+  const serviceOf = (backend: unknown) => at(backend, 'service', 'name') ?? at(backend, 'serviceName')
+
+  const defaultBackend = at(manifest, 'spec', 'defaultBackend') ?? at(manifest, 'spec', 'backend')
+  if (defaultBackend) backends.push({ service: serviceOf(defaultBackend) })
+
+  for (const rule of arrayAt(manifest, 'spec', 'rules')) {
+    const host = stringAt(rule, 'host') ?? ''
+    for (const path of arrayAt(rule, 'http', 'paths')) {
+      const route = stringAt(path, 'path') ?? ''
+      backends.push({ service: serviceOf(at(path, 'backend')), label: host + route || undefined })
+    }
+  }
+  return backends
+}
+
+/**
+ * A Service's ports as `port` or `port→targetPort`
+ */
+function servicePorts(manifest: Manifest): string | undefined {
+  const labels: string[] = []
+  for (const entry of arrayAt(manifest, 'spec', 'ports')) {
+    const port = at(entry, 'port')
+    const targetPort = at(entry, 'targetPort')
+    if (port === undefined) continue
+    labels.push(targetPort !== undefined && targetPort !== port ? `${port}→${targetPort}` : String(port))
+  }
+  return labels.length > 0 ? labels.join(', ') : undefined
+}
+
+/**
+ * ConfigMaps a pod spec reads through env, envFrom or volumes
+ */
+function configMapReferences(spec: unknown): string[] {
+  const names: string[] = []
+  const add = (name: unknown) => {
+    if (typeof name === 'string' && !names.includes(name)) names.push(name)
+  }
+
+  const containers = [...arrayAt(spec, 'initContainers'), ...arrayAt(spec, 'containers')]
+  for (const container of containers) {
+    for (const source of arrayAt(container, 'envFrom')) {
+      add(at(source, 'configMapRef', 'name'))
+    }
+    for (const env of arrayAt(container, 'env')) {
+      add(at(env, 'valueFrom', 'configMapKeyRef', 'name'))
+    }
+  }
+  for (const volume of arrayAt(spec, 'volumes')) {
+    add(at(volume, 'configMap', 'name'))
+    for (const source of arrayAt(volume, 'projected', 'sources')) {
+      add(at(source, 'configMap', 'name'))
+    }
+  }
+  return names
+}
+
+/**
+ * Namespace labels as `label.<key>` metadata
+ */
+function labelMetadata(manifest: Manifest | undefined): Record<string, string> {
+  const labels = at(manifest, 'metadata', 'labels')
+  if (!isRecord(labels)) return {}
+  return Object.fromEntries(Object.entries(labels).map(([key, value]) => [`label.${key}`, String(value)]))
+}
+
+/**
+ * Value at a path of keys, or undefined if any step is missing
+ */
+function at(value: unknown, ...path: string[]): unknown {
+  let current = value
+  for (const key of path) {
+    if (!isRecord(current)) return undefined
+    current = current[key]
+  }
+  return current
+}
+
+function stringAt(value: unknown, ...path: string[]): string | undefined {
+  const found = at(value, ...path)
+  return typeof found === 'string' ? found : undefined
+}
+
+function arrayAt(value: unknown, ...path: string[]): unknown[] {
+  const found = at(value, ...path)
+  return Array.isArray(found) ? found : []
+}
+
+function isRecord(value: unknown): value is Manifest {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import { parseTerraform, TerraformParseError } from './terraform'
+import { validateGraph } from '../model/validate'
+
+const PLAN = {
+  planned_values: {
+    root_module: {
+      resources: [
+        { address: 'aws_lb.web', mode: 'managed', type: 'aws_lb', name: 'web', values: { name: 'public-lb' } },
+        { address: 'aws_instance.app[0]', mode: 'managed', type: 'aws_instance', name: 'app', index: 0 },
+        { address: 'aws_instance.app[1]', mode: 'managed', type: 'aws_instance', name: 'app', index: 1 },
+        { address: 'data.aws_ami.base', mode: 'data', type: 'aws_ami', name: 'base' },
+      ],
+      child_modules: [{
+        address: 'module.db',
+        resources: [
+          { address: 'module.db.aws_db_instance.main', mode: 'managed', type: 'aws_db_instance', name: 'main', values: { identifier: 'orders' } },
+        ],
+      }],
+    },
+  },
+  resource_changes: [
+    { address: 'aws_instance.app[0]', change: { actions: ['create'] } },
+    { address: 'aws_lb.web', change: { actions: ['no-op'] } },
+  ],
+  configuration: {
+    root_module: {
+      resources: [
+        {
+          address: 'aws_lb.web', mode: 'managed', type: 'aws_lb', name: 'web',
+          expressions: { target: [{ instance_ids: { references: ['aws_instance.app[0].id', 'aws_instance.app[0]', 'aws_instance.app'] } }] },
+          depends_on: ['aws_instance.app'],
+        },
+        {
+          address: 'aws_instance.app', mode: 'managed', type: 'aws_instance', name: 'app',
+          count_expression: { references: ['local.size'] },
+          expressions: {
+            ami: { references: ['data.aws_ami.base.id', 'data.aws_ami.base'] },
+            db_host: { references: ['module.db.address', 'module.db'] },
+          },
+        },
+        { address: 'data.aws_ami.base', mode: 'data', type: 'aws_ami', name: 'base' },
+      ],
+      module_calls: {
+        db: {
+          source: './db',
+          depends_on: ['aws_lb.web'],
+          expressions: { size: { references: ['local.size'] } },
+          module: {
+            resources: [{ address: 'aws_db_instance.main', mode: 'managed', type: 'aws_db_instance', name: 'main' }],
+            outputs: { address: { expression: { references: ['aws_db_instance.main.address', 'aws_db_instance.main'] } } },
+          },
+        },
+      },
+    },
+  },
+}
+
+describe('parseTerraform', () => {
+  it('reads a plan into resources, modules and references', () => {
+    const graph = parseTerraform(JSON.stringify(PLAN))
+
+    expect(graph.rootNodes).toEqual(['aws_lb.web', 'aws_instance.app', 'module.db'])
+    expect(graph.nodes.get('aws_lb.web')).toMatchObject({
+      label: 'public-lb',
+      shape: 'hexagon',
+      classes: ['loadbalancer'],
+      metadata: { kind: 'resource', type: 'aws_lb', category: 'loadbalancer', provider: 'aws' },
+    })
+    expect(graph.nodes.get('aws_instance.app')?.metadata).toMatchObject({ instances: '2', actions: 'create' })
+    expect(graph.nodes.get('module.db')).toMatchObject({ isSubgraph: true, label: 'db', children: ['module.db.aws_db_instance.main'] })
+    expect(graph.nodes.get('module.db.aws_db_instance.main')).toMatchObject({ label: 'orders', shape: 'cylinder' })
+    expect(graph.classDefs.get('database')).toEqual({ fill: '#dbeafe', stroke: '#2563eb' })
+
+    // The reference wins over the explicit depends_on on the same pair
+    expect(graph.edges.map(edge => [edge.from, edge.to, edge.style])).toEqual([
+      ['aws_lb.web', 'aws_instance.app', 'solid'],
+      ['aws_instance.app', 'module.db.aws_db_instance.main', 'solid'],
+      ['module.db', 'aws_lb.web', 'dashed'],
+    ])
+    expect(validateGraph(graph)).toEqual([])
+  })
+
+  it('includes data sources and skips styles on request', () => {
+    const graph = parseTerraform(PLAN, { dataSources: true, styles: false })
+
+    expect(graph.nodes.get('data.aws_ami.base')?.metadata?.kind).toBe('data')
+    expect(graph.nodes.get('aws_lb.web')?.style).toBeUndefined()
+    expect(graph.classDefs.size).toBe(0)
+    expect(graph.edges.map(edge => [edge.from, edge.to])).toContainEqual(['aws_instance.app', 'data.aws_ami.base'])
+  })
+
+  it('follows module variables back to the caller', () => {
+    const graph = parseTerraform({
+      configuration: {
+        root_module: {
+          resources: [{ address: 'aws_vpc.main', mode: 'managed', type: 'aws_vpc', name: 'main' }],
+          module_calls: {
+            net: {
+              expressions: { vpc_id: { references: ['aws_vpc.main.id', 'aws_vpc.main'] } },
+              module: {
+                resources: [{
+                  address: 'aws_subnet.private', mode: 'managed', type: 'aws_subnet', name: 'private',
+                  expressions: { vpc_id: { references: ['var.vpc_id'] } },
+                }],
+              },
+            },
+          },
+        },
+      },
+    })
+
+    expect(graph.nodes.get('module.net.aws_subnet.private')?.label).toBe('aws_subnet.private')
+    expect(graph.edges.map(edge => [edge.from, edge.to])).toEqual([['module.net.aws_subnet.private', 'aws_vpc.main']])
+  })
+
+  it('uses state dependencies when there is no configuration', () => {
+    const graph = parseTerraform({
+      values: {
+        root_module: {
+          resources: [
+            { address: 'aws_sqs_queue.jobs', mode: 'managed', type: 'aws_sqs_queue', name: 'jobs' },
+            { address: 'aws_lambda_function.worker', mode: 'managed', type: 'aws_lambda_function', name: 'worker', depends_on: ['aws_sqs_queue.jobs'] },
+          ],
+        },
+      },
+    })
+
+    expect(graph.nodes.get('aws_sqs_queue.jobs')?.shape).toBe('parallelogram')
+    expect(graph.nodes.get('aws_lambda_function.worker')?.shape).toBe('round')
+    expect(graph.edges.map(edge => [edge.from, edge.to, edge.style])).toEqual([
+      ['aws_lambda_function.worker', 'aws_sqs_queue.jobs', 'solid'],
+    ])
+  })
+
+  it('rejects input that is not terraform show output', () => {
+    expect(() => parseTerraform('{')).toThrow(TerraformParseError)
+    expect(() => parseTerraform({ format_version: '1.0' })).toThrow(/terraform show -json/)
+  })
+})
@@ -0,0 +1,458 @@
+/**
+ * Terraform JSON to Graph
+ *
+ * parseTerraform reads `terraform show -json` output, for a state file or a
+ * saved plan, into a Graph:
+ *
+ *   root module
+ *   ├─ aws_lb.web ──▶ aws_instance.app ──▶ module.db (subgraph)
+ *   │                                      └─ aws_db_instance.main
+ *   └─ module.vpc (subgraph)
+ *      └─ aws_subnet.private ──▶ aws_vpc.main
+ *
+ * Resources become nodes (one per resource, however many `count`/`for_each`
+ * instances it has) and modules become nested subgraphs. Edges point from a
+ * resource to what it depends on: references in its configuration, followed
+ * through module inputs and outputs, and `depends_on`. Without configuration
+ * (plain state) the dependencies recorded in state are used instead.
+ *
+ * Resource types are sorted into categories (databases, load balancers, ...)
+ * that pick the shape and, optionally, a style class.
+ */
+
+import type { Graph, NodeStyle, ShapeType } from '../model/types'
+import { createEmptyGraph } from '../model/types'
+import { GraphBuilder } from '../model/builder'
+
+/**
+ * Thrown for input that isn't `terraform show -json` output
+ */
+export class TerraformParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TerraformParseError'
+  }
+}
+
+export interface TerraformParseOptions {
+  styles?: boolean       // Add a classDef per resource category and apply it (default true)
+  dataSources?: boolean  // Include `data` sources as nodes (default false)
+}
+
+const DEFAULT_OPTIONS: Required<TerraformParseOptions> = {
+  styles: true,
+  dataSources: false,
+}
+
+/** A resource type family, matched on the type name after the provider prefix */
+interface ResourceCategory {
+  name: string
+  pattern: RegExp
+  shape: ShapeType
+  style: NodeStyle
+}
+
+const RESOURCE_CATEGORIES: ResourceCategory[] = [
+  {
+    name: 'database',
+    pattern: /(?:^|_)(?:db_instance|rds_cluster(?:_instance)?|dynamodb_table|sql_database(?:_instance)?|sql_server|(?:mssql|mysql|postgresql|mariadb)_(?:server|flexible_server|database)|cosmosdb_account|redis_cache|elasticache_(?:cluster|replication_group)|memorydb_cluster|docdb_cluster|neptune_cluster|redshift_cluster|spanner_instance|bigtable_instance|redis_instance|firestore_database)$/,
+    shape: 'cylinder',
+    style: { fill: '#dbeafe', stroke: '#2563eb' },
+  },
+  {
+    name: 'storage',
+    pattern: /(?:^|_)(?:s3_bucket|storage_bucket|storage_account|storage_container|efs_file_system|ebs_volume|compute_disk|managed_disk|filestore_instance)$/,
+    shape: 'cylinder',
+    style: { fill: '#dcfce7', stroke: '#16a34a' },
+  },
+  {
+    name: 'loadbalancer',
+    pattern: /(?:^|_)(?:lb|alb|elb|application_gateway|compute_(?:global_)?forwarding_rule|compute_url_map|compute_backend_service|cloudfront_distribution|api_gateway_rest_api|apigatewayv2_api|frontdoor)$/,
+    shape: 'hexagon',
+    style: { fill: '#fef3c7', stroke: '#d97706' },
+  },
+  {
+    name: 'queue',
+    pattern: /(?:^|_)(?:sqs_queue|sns_topic|pubsub_topic|pubsub_subscription|servicebus_(?:queue|topic|namespace)|eventhub(?:_namespace)?|kinesis_stream|msk_cluster|mq_broker)$/,
+    shape: 'parallelogram',
+    style: { fill: '#fce7f3', stroke: '#db2777' },
+  },
+  {
+    name: 'function',
+    pattern: /(?:^|_)(?:lambda_function|cloudfunctions2?_function|(?:linux_|windows_)?function_app|cloud_run_(?:v2_)?service)$/,
+    shape: 'round',
+    style: { fill: '#ede9fe', stroke: '#7c3aed' },
+  },
+  {
+    name: 'compute',
+    pattern: /(?:^|_)(?:instance|compute_instance|(?:linux_|windows_)?virtual_machine|autoscaling_group|ecs_service|ecs_cluster|eks_cluster|eks_node_group|container_cluster|kubernetes_cluster|container_app|app_service|(?:linux_|windows_)?web_app)$/,
+    shape: 'rect',
+    style: { fill: '#e0f2fe', stroke: '#0284c7' },
+  },
+  {
+    name: 'network',
+    pattern: /(?:^|_)(?:vpc|subnet|subnetwork|virtual_network|security_group|network_security_group|route_table|nat_gateway|internet_gateway|compute_network|compute_firewall|network_interface|eip|route53_zone|dns_zone)$/,
+    shape: 'rect',
+    style: { fill: '#f1f5f9', stroke: '#64748b' },
+  },
+]
+
+// ---- terraform show -json shapes (only the parts we read) ----
+
+interface StateModule {
+  address?: string
+  resources?: StateResource[]
+  child_modules?: StateModule[]
+}
+
+interface StateResource {
+  address: string
+  mode: 'managed' | 'data'
+  type: string
+  name: string
+  index?: number | string
+  provider_name?: string
+  values?: Record<string, unknown>
+  depends_on?: string[]
+}
+
+interface ConfigModule {
+  resources?: ConfigResource[]
+  module_calls?: Record<string, ModuleCall>
+  outputs?: Record<string, { expression?: Expression }>
+}
+
+interface ConfigResource {
+  address: string
+  mode: 'managed' | 'data'
+  type: string
+  name: string
+  expressions?: Record<string, unknown>
+  count_expression?: Expression
+  for_each_expression?: Expression
+  depends_on?: string[]
+}
+
+interface ModuleCall {
+  source?: string
+  module?: ConfigModule
+  expressions?: Record<string, unknown>
+  depends_on?: string[]
+}
+
+interface Expression {
+  references?: string[]
+}
+
+interface ResourceChange {
+  address: string
+  change?: { actions?: string[] }
+}
+
+interface TerraformJson {
+  values?: { root_module?: StateModule }
+  planned_values?: { root_module?: StateModule }
+  prior_state?: { values?: { root_module?: StateModule } }
+  configuration?: { root_module?: ConfigModule }
+  resource_changes?: ResourceChange[]
+}
+
+/** Where a configuration module sits, for resolving its references */
+interface ModuleScope {
+  prefix: string               // Address prefix of everything in the module: '' or 'module.a.module.b.'
+  config: ConfigModule
+  call?: ModuleCall            // The call that instantiated it, for `var.` references
+  parent?: ModuleScope
+}
+
+// References that never name a resource
+const NON_RESOURCE_REFERENCE = /^(?:local|each|count|path|self|terraform)\./
+
+/**
+ * Parse `terraform show -json` output (state or plan) into a Graph
+ */
+export function parseTerraform(source: string | object, options: TerraformParseOptions = {}): Graph {
+  const opts = { ...DEFAULT_OPTIONS, ...options }
+
+  let json: TerraformJson
+  try {
+    json = (typeof source === 'string' ? JSON.parse(source) : source) as TerraformJson
+  } catch (error) {
+    throw new TerraformParseError(`Invalid JSON: ${(error as Error).message}`)
+  }
+
+  const rootModule = json.values?.root_module ?? json.planned_values?.root_module ?? json.prior_state?.values?.root_module
+  const rootConfig = json.configuration?.root_module
+  if (!rootModule && !rootConfig) {
+    throw new TerraformParseError('Expected `terraform show -json` output with `values`, `planned_values` or `configuration`')
+  }
+
+  const graph = createEmptyGraph()
+
+  // Resources as they exist (or will), or as configured when there are no values
+  if (rootModule) {
+    addStateModule(graph, rootModule, opts)
+  } else if (rootConfig) {
+    addConfigModule(graph, { prefix: '', config: rootConfig }, opts)
+  }
+
+  for (const change of json.resource_changes ?? []) {
+    const node = graph.nodes.get(resourceAddress(change.address))
+    const actions = change.change?.actions?.filter(action => action !== 'no-op')
+    if (node && actions && actions.length > 0 && !node.metadata!.actions) {
+      node.metadata!.actions = actions.join(',')
+    }
+  }
+
+  if (opts.styles) {
+    for (const node of graph.nodes.values()) {
+      const category = RESOURCE_CATEGORIES.find(c => c.name === node.metadata?.category)
+      if (!category) continue
+      graph.classDefs.set(category.name, category.style)
+      node.classes = [category.name]
+      node.style = { ...category.style }
+    }
+  }
+
+  if (rootConfig) {
+    addConfigEdges(graph, { prefix: '', config: rootConfig })
+  } else if (rootModule) {
+    addStateEdges(graph, rootModule)
+  }
+
+  return graph
+}
+
+// ============ Nodes ============
+
+function addStateModule(graph: Graph, module: StateModule, opts: Required<TerraformParseOptions>): void {
+  for (const resource of module.resources ?? []) {
+    if (resource.mode === 'data' && !opts.dataSources) continue
+    const id = resourceAddress(resource.address)
+    const existing = graph.nodes.get(id)
+    if (existing) {
+      // Another count/for_each instance of the same resource
+      existing.metadata!.instances = String(Number(existing.metadata!.instances ?? 1) + 1)
+      continue
+    }
+    addResource(graph, id, resource.type, resource.name, resource.mode, resource.values)
+  }
+  for (const child of module.child_modules ?? []) {
+    addStateModule(graph, child, opts)
+  }
+}
+
+function addConfigModule(graph: Graph, scope: ModuleScope, opts: Required<TerraformParseOptions>): void {
+  for (const resource of scope.config.resources ?? []) {
+    if (resource.mode === 'data' && !opts.dataSources) continue
+    // A resource with count or for_each stands for however many it becomes
+    addResource(graph, scope.prefix + resource.address, resource.type, resource.name, resource.mode, undefined)
+  }
+  for (const [name, call] of Object.entries(scope.config.module_calls ?? {})) {
+    ensureModule(graph, `${scope.prefix}module.${name}`)
+    if (call.module) {
+      addConfigModule(graph, { prefix: `${scope.prefix}module.${name}.`, config: call.module, call, parent: scope }, opts)
+    }
+  }
+}
+
+function addResource(
+  graph: Graph,
+  id: string,
+  type: string,
+  name: string,
+  mode: 'managed' | 'data',
+  values: Record<string, unknown> | undefined
+): void {
+  const parent = moduleOf(id)
+  if (parent) ensureModule(graph, parent)
+
+  const category = RESOURCE_CATEGORIES.find(c => c.pattern.test(type))
+  const metadata: Record<string, string> = { kind: mode === 'data' ? 'data' : 'resource', type }
+  if (category) metadata.category = category.name
+  const provider = type.split('_')[0]
+  if (provider) metadata.provider = provider
+
+  new GraphBuilder(graph).within(parent ?? null).node(id, {
+    label: displayName(values) ?? `${type}.${name}`,
+    shape: category?.shape ?? 'rect',
+    metadata,
+  })
+}
+
+/**
+ * Add the subgraph for a module address (and its parents), if not there yet
+ */
+function ensureModule(graph: Graph, address: string): void {
+  if (graph.nodes.has(address)) return
+  const parent = moduleOf(address)
+  if (parent) ensureModule(graph, parent)
+
+  new GraphBuilder(graph).within(parent ?? null).subgraph(address, {
+    label: address.slice(address.lastIndexOf('module.') + 'module.'.length),
+    metadata: { kind: 'module' },
+  })
+}
+
+/**
+ * A human name from the resource's values (`tags.Name`, `name`, ...), if it has one
+ */
+function displayName(values: Record<string, unknown> | undefined): string | undefined {
+  if (!values) return undefined
+  const tags = values.tags
+  const tagName = tags && typeof tags === 'object' ? (tags as Record<string, unknown>).Name : undefined
+  for (const candidate of [tagName, values.name, values.identifier, values.bucket, values.function_name]) {
+    if (typeof candidate === 'string' && candidate) return candidate
+  }
+  return undefined
+}
+
+// ============ Edges ============
+
+/**
+ * Edges from configuration: expression references (solid) and `depends_on` (dashed)
+ */
+function addConfigEdges(graph: Graph, scope: ModuleScope): void {
+  for (const resource of scope.config.resources ?? []) {
+    const from = scope.prefix + resource.address
+    if (!graph.nodes.has(from)) continue
+
+    const references = [
+      ...collectReferences(resource.expressions),
+      ...(resource.count_expression?.references ?? []),
+      ...(resource.for_each_expression?.references ?? []),
+    ]
+    for (const target of resolveReferences(graph, scope, references)) {
+      addEdge(graph, from, target, 'solid')
+    }
+    for (const dependency of resource.depends_on ?? []) {
+      for (const target of resolveReference(graph, scope, dependency)) {
+        addEdge(graph, from, target, 'dashed')
+      }
+    }
+  }
+
+  for (const [name, call] of Object.entries(scope.config.module_calls ?? {})) {
+    if (!call.module) continue
+    const childScope = { prefix: `${scope.prefix}module.${name}.`, config: call.module, call, parent: scope }
+    addConfigEdges(graph, childScope)
+
+    // `depends_on` on a module call applies to everything in the module
+    for (const dependency of call.depends_on ?? []) {
+      for (const target of resolveReference(graph, scope, dependency)) {
+        addEdge(graph, `${scope.prefix}module.${name}`, target, 'dashed')
+      }
+    }
+  }
+}
+
+/**
+ * Edges from the dependencies recorded in state, when there is no configuration
+ */
+function addStateEdges(graph: Graph, module: StateModule): void {
+  for (const resource of module.resources ?? []) {
+    const from = resourceAddress(resource.address)
+    if (!graph.nodes.has(from)) continue
+    for (const dependency of resource.depends_on ?? []) {
+      const target = resourceAddress(dependency)
+      if (graph.nodes.has(target)) addEdge(graph, from, target, 'solid')
+    }
+  }
+  for (const child of module.child_modules ?? []) {
+    addStateEdges(graph, child)
+  }
+}
+
+function addEdge(graph: Graph, from: string, to: string, style: 'solid' | 'dashed'): void {
+  if (from === to) return
+  const existing = graph.edges.find(e => e.from === from && e.to === to)
+  if (existing) {
+    // A reference says more than an explicit depends_on
+    if (style === 'solid') existing.style = 'solid'
+    return
+  }
+  new GraphBuilder(graph).edge(from, to, { style, fromArrow: 'none', toArrow: 'arrow' })
+}
+
+/**
+ * Node ids a list of references leads to. Terraform lists every prefix of a
+ * reference too (`module.vpc.subnet_id` and `module.vpc`), so only the most
+ * specific ones are followed
+ */
+function resolveReferences(graph: Graph, scope: ModuleScope, references: string[], seen = new Set<string>()): string[] {
+  const specific = references.filter(r => !references.some(other => other.startsWith(r) && /^[.[]/.test(other.slice(r.length))))
+  return [...new Set(specific.flatMap(r => resolveReference(graph, scope, r, seen)))]
+}
+
+/**
+ * Node ids a reference in `scope` leads to: a resource, or through a module
+ * output or input variable to the resources behind it (falling back to the
+ * module's subgraph)
+ */
+function resolveReference(graph: Graph, scope: ModuleScope, reference: string, seen = new Set<string>()): string[] {
+  const key = scope.prefix + reference
+  if (seen.has(key) || NON_RESOURCE_REFERENCE.test(reference)) return []
+  seen.add(key)
+
+  const parts = reference.replace(/\[[^\]]*\]/g, '').split('.')
+
+  if (parts[0] === 'var') {
+    // Whatever the calling module passed in for this variable
+    const expression = scope.call?.expressions?.[parts[1]]
+    if (!scope.parent) return []
+    return resolveReferences(graph, scope.parent, collectReferences(expression), seen)
+  }
+
+  if (parts[0] === 'module') {
+    const moduleId = `${scope.prefix}module.${parts[1]}`
+    const call = scope.config.module_calls?.[parts[1]]
+    const output = parts[2] ? call?.module?.outputs?.[parts[2]] : undefined
+    if (call?.module && output) {
+      const childScope = { prefix: `${moduleId}.`, config: call.module, call, parent: scope }
+      const targets = resolveReferences(graph, childScope, output.expression?.references ?? [], seen)
+      if (targets.length > 0) return targets
+    }
+    return graph.nodes.has(moduleId) ? [moduleId] : []
+  }
+
+  const address = parts[0] === 'data' ? parts.slice(0, 3).join('.') : parts.slice(0, 2).join('.')
+  const id = scope.prefix + address
+  return graph.nodes.has(id) ? [id] : []
+}
+
+/**
+ * Every `references` list in an expressions object, however deeply nested
+ * (blocks are arrays of expression objects)
+ */
+function collectReferences(value: unknown): string[] {
+  if (Array.isArray(value)) return value.flatMap(collectReferences)
+  if (!value || typeof value !== 'object') return []
+  const references: string[] = []
+  for (const [key, nested] of Object.entries(value)) {
+    if (key === 'references' && Array.isArray(nested)) {
+      references.push(...nested.filter((r): r is string => typeof r === 'string'))
+    } else {
+      references.push(...collectReferences(nested))
+    }
+  }
+  return references
+}
+
+/**
+ * Resource address without instance keys: `module.a["x"].aws_instance.web[0]` -> `module.a.aws_instance.web`
+ */
+function resourceAddress(address: string): string {
+  return address.replace(/\[[^\]]*\]/g, '')
+}
+
+/**
+ * Address of the module containing a resource or module, if not the root
+ */
+function moduleOf(address: string): string | undefined {
+  const parts = address.split('.')
+  let end = 0
+  while (parts[end] === 'module' && end + 2 <= parts.length) end += 2
+  // A module address is all module pairs; its own pair isn't its container
+  if (end === parts.length) end -= 2
+  return end > 0 ? parts.slice(0, end).join('.') : undefined
+}
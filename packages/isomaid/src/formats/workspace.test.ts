@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { scanWorkspace, WorkspaceScanError, type WorkspaceHost } from './workspace'
+import { validateGraph } from '../model/validate'
+
+/** A WorkspaceHost over an in-memory file tree */
+function memoryHost(files: Record<string, string>): WorkspaceHost {
+  return {
+    async readFile(path) {
+      return files[path]
+    },
+    async readDirectory(path) {
+      const prefix = path ? `${path}/` : ''
+      const entries = new Map<string, boolean>()
+      for (const file of Object.keys(files)) {
+        if (!file.startsWith(prefix)) continue
+        const [name, ...rest] = file.slice(prefix.length).split('/')
+        entries.set(name, rest.length > 0)
+      }
+      return [...entries].map(([name, directory]) => ({ name, directory }))
+    },
+  }
+}
+
+const WORKSPACE = {
+  'package.json': JSON.stringify({ name: 'shop', private: true }),
+  'pnpm-workspace.yaml': 'packages:\n  - "packages/*"\n  - "apps/*"\n',
+  'packages/core/package.json': JSON.stringify({ name: '@shop/core', version: '1.2.0', main: 'dist/index.js' }),
+  'packages/core/src/index.ts': "export { price } from './money/price'\nexport * from './money/types'\n",
+  'packages/core/src/money/price.ts': "import type { Money } from './types'\nexport function price(): Money { return 1 }\n",
+  'packages/core/src/money/types.ts': 'export type Money = number\n',
+  'packages/core/dist/index.js': "export * from './nothing'\n",
+  'apps/web/package.json': JSON.stringify({ name: '@shop/web', dependencies: { '@shop/core': 'workspace:*' } }),
+  'apps/web/tsconfig.json': '{ compilerOptions: { baseUrl: ".", paths: { "@/*": ["src/*"] } } }',
+  'apps/web/src/main.tsx': [
+    "import { price, type Money } from '@shop/core'",
+    "import { render } from '@/view'",
+    "// import './commented'",
+    "const text = \"import './quoted'\"",
+  ].join('\n'),
+  'apps/web/src/view.ts': 'export const render = () => {}\n',
+  'apps/web/node_modules/dep/index.js': 'module.exports = {}\n',
+}
+
+describe('scanWorkspace', () => {
+  it('draws packages, directories and resolved imports', async () => {
+    const graph = await scanWorkspace(memoryHost(WORKSPACE))
+
+    expect(graph.title).toBe('shop')
+    expect(graph.rootNodes).toEqual(['@shop/core', '@shop/web'])
+    expect(graph.nodes.get('@shop/core')).toMatchObject({
+      isSubgraph: true,
+      metadata: { kind: 'package', path: 'packages/core', version: '1.2.0' },
+      children: ['@shop/core/src/index.ts', '@shop/core/src/money'],
+    })
+    expect(graph.nodes.get('@shop/core/src/money')).toMatchObject({ isSubgraph: true, label: 'money' })
+    expect(graph.nodes.has('@shop/core/dist/index.js')).toBe(false)
+    expect(graph.nodes.get('@shop/web/src/main.tsx')).toMatchObject({
+      label: 'main.tsx',
+      parent: '@shop/web',
+      metadata: { kind: 'module', path: 'apps/web/src/main.tsx' },
+    })
+
+    // Named imports from the barrel go to the modules that define them
+    expect(graph.edges.map(edge => [edge.from, edge.to, edge.style])).toEqual([
+      ['@shop/core/src/index.ts', '@shop/core/src/money/price.ts', 'solid'],
+      ['@shop/core/src/index.ts', '@shop/core/src/money/types.ts', 'solid'],
+      ['@shop/core/src/money/price.ts', '@shop/core/src/money/types.ts', 'dashed'],
+      ['@shop/web/src/main.tsx', '@shop/core/src/money/price.ts', 'solid'],
+      ['@shop/web/src/main.tsx', '@shop/core/src/money/types.ts', 'dashed'],
+      ['@shop/web/src/main.tsx', '@shop/web/src/view.ts', 'solid'],
+    ])
+    expect(validateGraph(graph)).toEqual([])
+  })
+
+  it('leaves out type imports and filtered modules on request', async () => {
+    const graph = await scanWorkspace(memoryHost(WORKSPACE), {
+      typeImports: false,
+      filter: path => !path.endsWith('view.ts'),
+    })
+
+    expect(graph.nodes.has('@shop/web/src/view.ts')).toBe(false)
+    expect(graph.edges.every(edge => edge.style === 'solid')).toBe(true)
+    expect(graph.edges).toHaveLength(3)
+  })
+
+  it('joins packages by their dependencies without imports', async () => {
+    const graph = await scanWorkspace(memoryHost(WORKSPACE), { imports: false })
+
+    expect([...graph.nodes.values()].map(node => [node.id, node.isSubgraph])).toEqual([
+      ['@shop/core', false],
+      ['@shop/web', false],
+    ])
+    expect(graph.edges.map(edge => [edge.from, edge.to, edge.style])).toEqual([['@shop/web', '@shop/core', 'solid']])
+  })
+
+  it('reads npm workspaces from package.json', async () => {
+    const graph = await scanWorkspace(memoryHost({
+      'package.json': JSON.stringify({ workspaces: ['libs/*'] }),
+      'libs/a/package.json': JSON.stringify({ name: 'a', devDependencies: { b: '*' } }),
+      'libs/b/package.json': '{}',
+    }), { imports: false })
+
+    expect([...graph.nodes.keys()]).toEqual(['a', 'libs/b'])
+    expect(graph.edges).toEqual([])
+  })
+
+  it('reports the file that is not valid JSON', async () => {
+    const scan = scanWorkspace(memoryHost({ 'package.json': '{ "name": ' }))
+    await expect(scan).rejects.toBeInstanceOf(WorkspaceScanError)
+    await expect(scan).rejects.toThrow(/^package\.json:1:\d+ /)
+  })
+})
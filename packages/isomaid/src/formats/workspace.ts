@@ -0,0 +1,860 @@
+/**
+ * Workspace to Graph
+ *
+ * scanWorkspace reads a pnpm or npm workspace (`pnpm-workspace.yaml`, or
+ * `workspaces` in the root package.json) and the TypeScript/JavaScript
+ * import graph inside each package:
+ *
+ *   @isomaid/web (package)
+ *   └─ src/routes (directory)
+ *      └─ viewer.tsx ──▶ isomaid / src/parser / mermaid.ts
+ *
+ * Packages become subgraphs, their source directories nested subgraphs and
+ * modules nodes, so drill goes workspace → package → directory → module.
+ * Imports are resolved the way a bundler would: relative paths, tsconfig
+ * `paths` aliases, and workspace package names through their `exports` or
+ * `main` (mapped from build output back to source). A named import from a
+ * barrel that re-exports it is drawn to the module that defines it.
+ *
+ * Files are read through a WorkspaceHost, so the same scan works on a real
+ * filesystem or an in-memory one.
+ */
+
+import type { Graph, EdgeStyle, SourceRange } from '../model/types'
+import { GraphBuilder } from '../model/builder'
+import { parseJson5, json5ToValue, Json5SyntaxError } from '../parser/json5'
+import { parseYaml, YamlSyntaxError } from '../parser/yaml'
+import { lineStarts, rangeAt } from '../parser/tokenizer'
+
+/**
+ * Thrown for workspace files that can't be read as JSON or YAML, with the
+ * file and, where known, the range of the problem
+ */
+export class WorkspaceScanError extends Error {
+  readonly file: string
+  readonly range?: SourceRange
+
+  constructor(message: string, file: string, range?: SourceRange) {
+    super(`${file}${range ? `:${range.start.line}:${range.start.column}` : ''} ${message}`)
+    this.name = 'WorkspaceScanError'
+    this.file = file
+    this.range = range
+  }
+}
+
+/** A directory entry, as listed by a WorkspaceHost */
+export interface WorkspaceEntry {
+  name: string
+  directory: boolean
+}
+
+/**
+ * File access for scanWorkspace. Paths are `/`-separated and relative to
+ * the workspace root ('' is the root itself).
+ */
+export interface WorkspaceHost {
+  readFile(path: string): Promise<string | undefined>  // undefined when there is no such file
+  readDirectory(path: string): Promise<WorkspaceEntry[]>
+}
+
+export interface WorkspaceScanOptions {
+  imports?: boolean                   // Scan modules; when off, packages are nodes joined by their dependencies (default true)
+  typeImports?: boolean               // Draw type-only imports, as dashed edges (default true)
+  filter?: (path: string) => boolean  // Modules to include, by workspace-relative path
+}
+
+const DEFAULT_OPTIONS: Required<WorkspaceScanOptions> = {
+  imports: true,
+  typeImports: true,
+  filter: () => true,
+}
+
+// Never packages or sources: dependencies, build output and dot directories
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', 'out', 'coverage'])
+
+const SOURCE_FILE = /\.(?:tsx?|jsx?|[cm][jt]s)$/
+const DECLARATION_FILE = /\.d\.[cm]?ts$/
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']
+
+// package.json fields naming other packages, and whether the edge is dashed
+const DEPENDENCY_FIELDS: Array<[string, EdgeStyle]> = [
+  ['dependencies', 'solid'],
+  ['peerDependencies', 'solid'],
+  ['optionalDependencies', 'solid'],
+  ['devDependencies', 'dashed'],
+]
+
+type JsonObject = Record<string, unknown>
+
+interface WorkspacePackage {
+  name: string
+  dir: string
+  manifest: JsonObject
+  aliases: PathAlias[]
+  modules: string[]  // Workspace-relative paths
+}
+
+/** A tsconfig `paths` entry, with its targets made workspace-relative */
+interface PathAlias {
+  pattern: string    // `@/*`
+  targets: string[]  // `apps/web/src/*`
+}
+
+interface ImportRecord {
+  specifier: string
+  names?: string[]  // Names imported ('default' for a default import); undefined for the whole module
+  typeOnly: boolean
+}
+
+/** What scanning a module's source finds */
+interface ModuleSyntax {
+  imports: ImportRecord[]  // Including re-exports
+  locals: Set<string>      // Names the module declares and exports
+  reexports: Map<string, { specifier: string; name: string }>  // `export { a as b } from` → b; name '*' for `export * as b`
+  stars: string[]          // `export * from` specifiers
+}
+
+interface ModuleInfo {
+  pkg: WorkspacePackage
+  syntax: ModuleSyntax
+  resolved: Map<string, string | undefined>  // Specifier -> module path
+}
+
+/**
+ * Scan a workspace into a Graph
+ */
+export async function scanWorkspace(host: WorkspaceHost, options: WorkspaceScanOptions = {}): Promise<Graph> {
+  const opts = { ...DEFAULT_OPTIONS, ...options }
+
+  const root = await readJson(host, 'package.json')
+  const patterns = await workspacePatterns(host, root)
+  const directories = patterns.length > 0 ? await matchDirectories(host, patterns) : ['']
+
+  const packages: WorkspacePackage[] = []
+  for (const dir of directories) {
+    const manifest = dir === '' ? root : await readJson(host, joinPath(dir, 'package.json'))
+    if (!manifest) continue
+    const declared = typeof manifest.name === 'string' && manifest.name ? manifest.name : undefined
+    // Unnamed packages, and the second of two with one name, go by their directory
+    const name = declared && !packages.some(p => p.name === declared) ? declared : dir || 'root'
+    packages.push({ name, dir, manifest, aliases: [], modules: [] })
+  }
+  if (packages.length === 0) {
+    throw new WorkspaceScanError('Expected a package.json, or workspace packages that have one', 'package.json')
+  }
+
+  const builder = new GraphBuilder()
+  const graph = builder.build()
+  if (typeof root?.name === 'string') graph.title = root.name
+
+  if (!opts.imports) {
+    for (const pkg of packages) {
+      builder.node(pkg.name, { metadata: packageMetadata(pkg) })
+    }
+    addDependencyEdges(builder, packages)
+    return graph
+  }
+
+  const packageDirs = new Set(packages.map(p => p.dir))
+  const modules = new Map<string, ModuleInfo>()
+  for (const pkg of packages) {
+    pkg.aliases = await readPathAliases(host, pkg.dir)
+    for (const path of await listSources(host, pkg.dir, packageDirs)) {
+      if (!opts.filter(path)) continue
+      const source = await host.readFile(path)
+      if (source === undefined) continue
+      pkg.modules.push(path)
+      modules.set(path, { pkg, syntax: scanModule(source), resolved: new Map() })
+    }
+  }
+
+  for (const [path, info] of modules) {
+    for (const record of info.syntax.imports) {
+      if (info.resolved.has(record.specifier)) continue
+      info.resolved.set(record.specifier, resolveImport(record.specifier, path, info.pkg, packages, modules))
+    }
+  }
+
+  for (const pkg of packages) {
+    addPackage(builder, pkg)
+  }
+
+  for (const [path, info] of modules) {
+    const from = moduleId(info.pkg, path)
+    for (const record of info.syntax.imports) {
+      if (record.typeOnly && !opts.typeImports) continue
+      const target = info.resolved.get(record.specifier)
+      if (!target) continue
+      const style: EdgeStyle = record.typeOnly ? 'dashed' : 'solid'
+      const targets = record.names?.length
+        ? record.names.map(name => definingModule(modules, target, name) ?? target)
+        : [target]
+      for (const resolved of new Set(targets)) {
+        addEdge(builder, from, moduleId(modules.get(resolved)!.pkg, resolved), style)
+      }
+    }
+  }
+
+  return graph
+}
+
+// ============ Workspace ============
+
+/**
+ * Package directory globs from pnpm-workspace.yaml, or the root package.json `workspaces`
+ */
+async function workspacePatterns(host: WorkspaceHost, root: JsonObject | undefined): Promise<string[]> {
+  const file = 'pnpm-workspace.yaml'
+  const yaml = await host.readFile(file)
+  if (yaml !== undefined) {
+    let document: unknown
+    try {
+      document = json5ToValue(parseYaml(yaml))
+    } catch (error) {
+      if (!(error instanceof YamlSyntaxError)) throw error
+      const starts = lineStarts(yaml)
+      throw new WorkspaceScanError(error.message, file, rangeAt(starts, error.offset, error.offset))
+    }
+    if (isRecord(document)) return strings(document.packages)
+  }
+
+  const workspaces = root?.workspaces
+  return strings(isRecord(workspaces) ? workspaces.packages : workspaces)
+}
+
+/**
+ * Directories matching the workspace globs (`packages/*`, `apps/**`, `!apps/legacy`)
+ */
+async function matchDirectories(host: WorkspaceHost, patterns: string[]): Promise<string[]> {
+  const clean = (pattern: string) => normalizePath(pattern.replace(/\/+$/, ''))
+  const excluded = patterns.filter(p => p.startsWith('!')).map(p => globRegExp(clean(p.slice(1))))
+  const matched: string[] = []
+
+  for (const pattern of patterns.filter(p => !p.startsWith('!')).map(clean)) {
+    const segments = pattern.split('/')
+    const wildcard = segments.findIndex(segment => /[*?]/.test(segment))
+    const base = wildcard < 0 ? pattern : segments.slice(0, wildcard).join('/')
+    const depth = wildcard < 0 ? 0 : segments.includes('**') ? Infinity : segments.length - wildcard
+    const regExp = globRegExp(pattern)
+    for (const dir of await walkDirectories(host, base, depth)) {
+      if (regExp.test(dir) && !excluded.some(e => e.test(dir)) && !matched.includes(dir)) matched.push(dir)
+    }
+  }
+  return matched
+}
+
+/**
+ * `dir` and its subdirectories down to `depth` levels
+ */
+async function walkDirectories(host: WorkspaceHost, dir: string, depth: number): Promise<string[]> {
+  const found = [dir]
+  if (depth <= 0) return found
+  for (const entry of await host.readDirectory(dir)) {
+    if (!entry.directory || skipDirectory(entry.name)) continue
+    found.push(...await walkDirectories(host, joinPath(dir, entry.name), depth - 1))
+  }
+  return found
+}
+
+/**
+ * Source files of the package in `dir`, leaving out packages nested inside it
+ */
+async function listSources(host: WorkspaceHost, dir: string, packageDirs: Set<string>): Promise<string[]> {
+  const files: string[] = []
+  for (const entry of await host.readDirectory(dir)) {
+    const path = joinPath(dir, entry.name)
+    if (entry.directory) {
+      if (!skipDirectory(entry.name) && !packageDirs.has(path)) {
+        files.push(...await listSources(host, path, packageDirs))
+      }
+    } else if (SOURCE_FILE.test(entry.name) && !DECLARATION_FILE.test(entry.name)) {
+      files.push(path)
+    }
+  }
+  return files.sort()
+}
+
+function skipDirectory(name: string): boolean {
+  return name.startsWith('.') || SKIPPED_DIRECTORIES.has(name)
+}
+
+function globRegExp(pattern: string): RegExp {
+  const source = pattern.split('/').map(segment => {
+    if (segment === '**') return '.*'
+    return segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]')
+  }).join('/')
+  // `apps/**` also matches `apps` itself
+  return new RegExp(`^${source.replace(/\/\.\*$/, '(?:/.*)?')}$`)
+}
+
+/**
+ * A tsconfig.json's `paths`, resolved against its `baseUrl`
+ */
+async function readPathAliases(host: WorkspaceHost, dir: string): Promise<PathAlias[]> {
+  const tsconfig = await readJson(host, joinPath(dir, 'tsconfig.json'))
+  const compilerOptions = isRecord(tsconfig?.compilerOptions) ? tsconfig.compilerOptions : {}
+  const baseUrl = typeof compilerOptions.baseUrl === 'string' ? compilerOptions.baseUrl : '.'
+  const paths = isRecord(compilerOptions.paths) ? compilerOptions.paths : {}
+  return Object.entries(paths).map(([pattern, targets]) => ({
+    pattern,
+    targets: strings(targets).map(target => joinPath(dir, baseUrl, target)),
+  }))
+}
+
+async function readJson(host: WorkspaceHost, file: string): Promise<JsonObject | undefined> {
+  const text = await host.readFile(file)
+  if (text === undefined) return undefined
+  // JSON5 also covers the comments and trailing commas tsconfig files allow
+  let value: unknown
+  try {
+    value = json5ToValue(parseJson5(text).node)
+  } catch (error) {
+    if (!(error instanceof Json5SyntaxError)) throw error
+    const starts = lineStarts(text)
+    throw new WorkspaceScanError(error.message, file, rangeAt(starts, error.offset, error.offset))
+  }
+  if (!isRecord(value)) throw new WorkspaceScanError('Expected an object', file)
+  return value
+}
+
+// ============ Nodes and edges ============
+
+function addPackage(builder: GraphBuilder, pkg: WorkspacePackage): void {
+  if (pkg.modules.length === 0) {
+    builder.node(pkg.name, { metadata: packageMetadata(pkg) })
+    return
+  }
+  builder.subgraph(pkg.name, { metadata: packageMetadata(pkg) })
+
+  // Directories below the one all the package's modules share become subgraphs
+  const dirs = pkg.modules.map(path => relativePath(pkg.dir, dirname(path)).split('/').filter(Boolean))
+  let shared = 0
+  while (dirs.every(d => d.length > shared && d[shared] === dirs[0][shared])) shared++
+
+  for (const path of pkg.modules) {
+    const segments = relativePath(pkg.dir, dirname(path)).split('/').filter(Boolean)
+    let scope = builder.within(pkg.name)
+    for (let i = shared; i < segments.length; i++) {
+      const dir = segments.slice(0, i + 1).join('/')
+      const id = `${pkg.name}/${dir}`
+      scope.subgraph(id, { label: segments[i], metadata: { kind: 'directory', path: joinPath(pkg.dir, dir) } })
+      scope = scope.within(id)
+    }
+    scope.node(moduleId(pkg, path), { label: basename(path), metadata: { kind: 'module', path } })
+  }
+}
+
+function packageMetadata(pkg: WorkspacePackage): Record<string, string> {
+  const metadata: Record<string, string> = { kind: 'package', path: pkg.dir }
+  if (typeof pkg.manifest.version === 'string') metadata.version = pkg.manifest.version
+  return metadata
+}
+
+function moduleId(pkg: WorkspacePackage, path: string): string {
+  return `${pkg.name}/${relativePath(pkg.dir, path)}`
+}
+
+/**
+ * Package-level edges from package.json dependencies on other workspace packages
+ */
+function addDependencyEdges(builder: GraphBuilder, packages: WorkspacePackage[]): void {
+  for (const pkg of packages) {
+    for (const [field, style] of DEPENDENCY_FIELDS) {
+      const dependencies = pkg.manifest[field]
+      if (!isRecord(dependencies)) continue
+      for (const name of Object.keys(dependencies)) {
+        if (packages.some(p => p.name === name)) addEdge(builder, pkg.name, name, style)
+      }
+    }
+  }
+}
+
+function addEdge(builder: GraphBuilder, from: string, to: string, style: EdgeStyle): void {
+  if (from === to) return
+  const existing = builder.build().edges.find(e => e.from === from && e.to === to)
+  if (existing) {
+    // A value import (or runtime dependency) outweighs a type-only one
+    if (style === 'solid') existing.style = 'solid'
+    return
+  }
+  builder.edge(from, to, { style, fromArrow: 'none', toArrow: 'arrow' })
+}
+
+// ============ Resolution ============
+
+/**
+ * The module path an import specifier leads to, if it is one we scanned
+ */
+function resolveImport(
+  specifier: string,
+  from: string,
+  pkg: WorkspacePackage,
+  packages: WorkspacePackage[],
+  modules: Map<string, ModuleInfo>
+): string | undefined {
+  const candidates: string[] = []
+
+  if (specifier.startsWith('./') || specifier.startsWith('../') || specifier === '.' || specifier === '..') {
+    candidates.push(joinPath(dirname(from), specifier))
+  } else {
+    for (const alias of pkg.aliases) {
+      const star = alias.pattern.indexOf('*')
+      if (star < 0) {
+        if (specifier === alias.pattern) candidates.push(...alias.targets)
+        continue
+      }
+      const prefix = alias.pattern.slice(0, star)
+      const suffix = alias.pattern.slice(star + 1)
+      if (specifier.length < prefix.length + suffix.length) continue
+      if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix)) continue
+      const matched = specifier.slice(prefix.length, specifier.length - suffix.length)
+      candidates.push(...alias.targets.map(target => target.replace('*', matched)))
+    }
+
+    const target = packages.find(p => specifier === p.name || specifier.startsWith(`${p.name}/`))
+    if (target) {
+      candidates.push(...packageEntries(target, `.${specifier.slice(target.name.length)}`))
+    }
+  }
+
+  for (const candidate of candidates) {
+    const path = resolveFile(candidate, modules)
+    if (path) return path
+  }
+  return undefined
+}
+
+/**
+ * Files a package subpath ('.' or './x') may point to, from `exports`,
+ * `main`/`module`/`types` and the usual source locations
+ */
+function packageEntries(pkg: WorkspacePackage, subpath: string): string[] {
+  const { manifest } = pkg
+  const targets: string[] = []
+
+  const exports = manifest.exports
+  if (typeof exports === 'string' || Array.isArray(exports)) {
+    if (subpath === '.') targets.push(...leafStrings(exports))
+  } else if (isRecord(exports)) {
+    const keys = Object.keys(exports)
+    if (keys.some(key => key.startsWith('.'))) {
+      for (const key of keys) {
+        const star = key.indexOf('*')
+        if (key === subpath) {
+          targets.push(...leafStrings(exports[key]))
+        } else if (star >= 0 && subpath.startsWith(key.slice(0, star)) && subpath.endsWith(key.slice(star + 1))) {
+          const matched = subpath.slice(star, subpath.length - (key.length - star - 1))
+          targets.push(...leafStrings(exports[key]).map(target => target.replace('*', matched)))
+        }
+      }
+    } else if (subpath === '.') {
+      // Conditions straight at the top (`{ import, require }`)
+      targets.push(...leafStrings(exports))
+    }
+  }
+
+  if (subpath === '.') {
+    for (const field of ['source', 'module', 'main', 'types', 'typings']) {
+      if (typeof manifest[field] === 'string') targets.push(manifest[field])
+    }
+    targets.push('src/index', 'index')
+  } else {
+    targets.push(subpath, `src/${subpath.slice(2)}`)
+  }
+
+  // Point build output back at the source it was built from
+  return targets.flatMap(target => {
+    const path = joinPath(pkg.dir, target)
+    const relative = relativePath(pkg.dir, path)
+    const source = relative.replace(/^(?:dist|lib|build|out)\//, 'src/')
+    return source === relative ? [path] : [path, joinPath(pkg.dir, source)]
+  })
+}
+
+/**
+ * The scanned module a path refers to, trying TypeScript's extension rules:
+ * `./a.js` may be `a.ts`, `./a` may be `a.ts` or `a/index.ts`
+ */
+function resolveFile(path: string, modules: Map<string, ModuleInfo>): string | undefined {
+  const declaration = path.match(DECLARATION_FILE)
+  const base = declaration ? path.slice(0, -declaration[0].length) : path.replace(/\.[cm]?jsx?$/, '')
+  const candidates = [
+    path,
+    ...SOURCE_EXTENSIONS.map(ext => base + ext),
+    ...SOURCE_EXTENSIONS.map(ext => `${path}/index${ext}`),
+  ]
+  return candidates.find(candidate => modules.has(candidate))
+}
+
+/**
+ * The module that actually declares `name`, following re-exports from `path`
+ */
+function definingModule(
+  modules: Map<string, ModuleInfo>,
+  path: string,
+  name: string,
+  seen = new Set<string>()
+): string | undefined {
+  const key = `${path}#${name}`
+  const info = modules.get(path)
+  if (!info || seen.has(key)) return undefined
+  seen.add(key)
+
+  if (info.syntax.locals.has(name)) return path
+
+  const reexport = info.syntax.reexports.get(name)
+  if (reexport) {
+    const target = info.resolved.get(reexport.specifier)
+    if (!target) return path
+    if (reexport.name === '*') return target
+    return definingModule(modules, target, reexport.name, seen) ?? target
+  }
+
+  // `export *` never passes on a default export
+  if (name === 'default') return undefined
+  for (const specifier of info.syntax.stars) {
+    const target = info.resolved.get(specifier)
+    const found = target ? definingModule(modules, target, name, seen) : undefined
+    if (found) return found
+  }
+  return undefined
+}
+
+// ============ Module scanning ============
+
+type Token =
+  | { kind: 'name'; value: string }
+  | { kind: 'string'; value: string }
+  | { kind: 'punct'; value: string }
+
+// Keywords after which `/` starts a regular expression, not a division
+const REGEXP_KEYWORDS = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case', 'do', 'else', 'yield', 'await',
+])
+
+const DECLARATION_KEYWORDS = new Set(['function', 'class', 'const', 'let', 'var', 'interface', 'type', 'enum', 'namespace', 'module'])
+const DECLARATION_MODIFIERS = new Set(['declare', 'async', 'abstract'])
+
+/**
+ * Find a module's imports and exports. This only tokenizes (so strings,
+ * comments and template literals can't fake an import); it doesn't parse.
+ */
+function scanModule(source: string): ModuleSyntax {
+  const tokens = tokenize(source)
+  const syntax: ModuleSyntax = { imports: [], locals: new Set(), reexports: new Map(), stars: [] }
+
+  const at = (i: number) => tokens[i] as Token | undefined
+  const is = (i: number, value: string) => at(i)?.value === value && at(i)?.kind !== 'string'
+  const stringAt = (i: number) => {
+    const token = at(i)
+    return token?.kind === 'string' ? token.value : undefined
+  }
+  // Whether `from '...'` follows index i
+  const fromAt = (i: number) => is(i, 'from') && stringAt(i + 1) !== undefined
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (token.kind !== 'name' || is(i - 1, '.')) continue
+
+    if (token.value === 'require' && is(i + 1, '(') && stringAt(i + 2) !== undefined && is(i + 3, ')')) {
+      syntax.imports.push({ specifier: stringAt(i + 2)!, typeOnly: false })
+      continue
+    }
+
+    if (token.value === 'import') {
+      if (is(i + 1, '(') && stringAt(i + 2) !== undefined) {
+        // import('x'), or a type written as `typeof import('x')`
+        syntax.imports.push({ specifier: stringAt(i + 2)!, typeOnly: is(i - 1, 'typeof') })
+        continue
+      }
+      if (stringAt(i + 1) !== undefined) {
+        syntax.imports.push({ specifier: stringAt(i + 1)!, typeOnly: false })
+        continue
+      }
+
+      let j = i + 1
+      let typeOnly = false
+      if (is(j, 'type') && !fromAt(j + 1)) {
+        typeOnly = true
+        j++
+      }
+      let names: string[] | undefined = []
+      const typeFlags: boolean[] = []
+      while (j < tokens.length && !fromAt(j)) {
+        if (is(j, '{')) {
+          const list = readSpecifierList(tokens, j)
+          names?.push(...list.entries.map(e => e.name))
+          typeFlags.push(...list.entries.map(e => e.typeOnly))
+          j = list.end
+        } else if (is(j, '*')) {
+          names = undefined  // import * as ns: the whole module
+          j++
+        } else if (at(j)?.kind === 'name' && (is(j + 1, ',') || fromAt(j + 1)) && !is(j - 1, 'as')) {
+          names?.push('default')
+          typeFlags.push(typeOnly)
+          j++
+        } else if (is(j, ',') || is(j, 'as') || (at(j)?.kind === 'name' && is(j - 1, 'as'))) {
+          j++
+        } else {
+          break  // import x = require('y'), or something we don't follow
+        }
+      }
+      if (!fromAt(j)) continue
+      addImport(syntax, stringAt(j + 1)!, names, names ? typeFlags.map(flag => flag || typeOnly) : typeOnly)
+      i = j + 1
+      continue
+    }
+
+    if (token.value === 'export') {
+      let j = i + 1
+      let typeOnly = false
+      if (is(j, 'type') && (is(j + 1, '{') || is(j + 1, '*'))) {
+        typeOnly = true
+        j++
+      }
+
+      if (is(j, '*')) {
+        const alias = is(j + 1, 'as') ? at(j + 2)?.value : undefined
+        const k = alias ? j + 3 : j + 1
+        if (!fromAt(k)) continue
+        const specifier = stringAt(k + 1)!
+        syntax.imports.push({ specifier, typeOnly })
+        if (alias) {
+          syntax.reexports.set(alias, { specifier, name: '*' })
+        } else {
+          syntax.stars.push(specifier)
+        }
+        i = k + 1
+        continue
+      }
+
+      if (is(j, '{')) {
+        const list = readSpecifierList(tokens, j)
+        if (fromAt(list.end)) {
+          const specifier = stringAt(list.end + 1)!
+          for (const entry of list.entries) {
+            syntax.reexports.set(entry.alias, { specifier, name: entry.name })
+          }
+          addImport(syntax, specifier, list.entries.map(e => e.name), list.entries.map(e => e.typeOnly || typeOnly))
+          i = list.end + 1
+        } else {
+          for (const entry of list.entries) syntax.locals.add(entry.alias)
+          i = list.end - 1
+        }
+        continue
+      }
+
+      if (is(j, 'default') || is(j, '=')) {
+        syntax.locals.add('default')
+        continue
+      }
+
+      while (at(j)?.kind === 'name' && DECLARATION_MODIFIERS.has(at(j)!.value)) j++
+      if (at(j)?.kind === 'name' && DECLARATION_KEYWORDS.has(at(j)!.value)) {
+        j++
+        if (is(j, '*')) j++  // function*
+        const name = at(j)
+        if (name?.kind === 'name') syntax.locals.add(name.value)
+      }
+    }
+  }
+
+  return syntax
+}
+
+/**
+ * Record an import of `names`, split into value and type-only imports when
+ * written as `import { a, type B }`
+ */
+function addImport(syntax: ModuleSyntax, specifier: string, names: string[] | undefined, typeOnly: boolean | boolean[]): void {
+  if (!names || !Array.isArray(typeOnly)) {
+    syntax.imports.push({ specifier, names, typeOnly: typeOnly === true })
+    return
+  }
+  const values = names.filter((_, i) => !typeOnly[i])
+  const types = names.filter((_, i) => typeOnly[i])
+  if (values.length > 0 || types.length === 0) syntax.imports.push({ specifier, names: values, typeOnly: false })
+  if (types.length > 0) syntax.imports.push({ specifier, names: types, typeOnly: true })
+}
+
+/**
+ * Read `{ a, type b, c as d }` starting at the `{` token. Returns the
+ * entries and the index just past the `}`.
+ */
+function readSpecifierList(
+  tokens: Token[],
+  start: number
+): { entries: Array<{ name: string; alias: string; typeOnly: boolean }>; end: number } {
+  const entries: Array<{ name: string; alias: string; typeOnly: boolean }> = []
+  let i = start + 1
+  while (i < tokens.length && tokens[i].value !== '}') {
+    let typeOnly = false
+    if (tokens[i].value === 'type' && tokens[i + 1]?.kind !== 'punct') {
+      typeOnly = true
+      i++
+    }
+    const name = tokens[i]?.value
+    i++
+    let alias = name
+    if (tokens[i]?.value === 'as' && tokens[i + 1] && tokens[i + 1].kind !== 'punct') {
+      alias = tokens[i + 1].value
+      i += 2
+    }
+    if (name !== undefined && name !== ',') entries.push({ name, alias, typeOnly })
+    while (i < tokens.length && tokens[i].value !== ',' && tokens[i].value !== '}') i++
+    if (tokens[i]?.value === ',') i++
+  }
+  return { entries, end: i + 1 }
+}
+
+/**
+ * Split source into names, string literals and punctuation, dropping
+ * comments, template literals, regular expressions and numbers
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  const templates: number[] = []  // Open `${` braces per template literal we're inside
+  let i = 0
+
+  while (i < source.length) {
+    const ch = source[i]
+
+    if (/\s/.test(ch)) {
+      i++
+    } else if (ch === '/' && source[i + 1] === '/') {
+      const end = source.indexOf('\n', i)
+      i = end < 0 ? source.length : end
+    } else if (ch === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2)
+      i = end < 0 ? source.length : end + 2
+    } else if (ch === '\'' || ch === '"') {
+      let value = ''
+      i++
+      // A string can't span lines, which limits the damage of a stray quote (in JSX text, say)
+      while (i < source.length && source[i] !== ch && source[i] !== '\n') {
+        if (source[i] === '\\') i++
+        value += source[i] ?? ''
+        i++
+      }
+      i++
+      tokens.push({ kind: 'string', value })
+    } else if (ch === '`') {
+      i = skipTemplate(source, i + 1, templates)
+      tokens.push({ kind: 'punct', value: '`' })
+    } else if (ch === '}' && templates.length > 0 && templates[templates.length - 1] === 0) {
+      templates.pop()
+      i = skipTemplate(source, i + 1, templates)
+    } else if (ch === '/' && regExpAllowed(tokens[tokens.length - 1])) {
+      i = skipRegExp(source, i + 1)
+      tokens.push({ kind: 'punct', value: '/' })
+    } else if (/[A-Za-z_$\u0080-￿]/.test(ch)) {
+      const start = i
+      while (i < source.length && /[\w$\u0080-￿]/.test(source[i])) i++
+      tokens.push({ kind: 'name', value: source.slice(start, i) })
+    } else if (/\d/.test(ch)) {
+      while (i < source.length && /[\w.]/.test(source[i])) i++
+      tokens.push({ kind: 'punct', value: '0' })
+    } else {
+      if (templates.length > 0 && ch === '{') templates[templates.length - 1]++
+      if (templates.length > 0 && ch === '}') templates[templates.length - 1]--
+      tokens.push({ kind: 'punct', value: ch })
+      i++
+    }
+  }
+  return tokens
+}
+
+/**
+ * Skip template literal text from `i` to its closing backtick, or to a `${`
+ * (recording it in `templates`). Returns the index after.
+ */
+function skipTemplate(source: string, i: number, templates: number[]): number {
+  while (i < source.length) {
+    if (source[i] === '\\') {
+      i += 2
+    } else if (source[i] === '`') {
+      return i + 1
+    } else if (source[i] === '$' && source[i + 1] === '{') {
+      templates.push(0)
+      return i + 2
+    } else {
+      i++
+    }
+  }
+  return i
+}
+
+function skipRegExp(source: string, i: number): number {
+  let inClass = false
+  while (i < source.length && source[i] !== '\n') {
+    const ch = source[i]
+    if (ch === '\\') {
+      i += 2
+      continue
+    }
+    if (ch === '[') inClass = true
+    else if (ch === ']') inClass = false
+    else if (ch === '/' && !inClass) break
+    i++
+  }
+  i++
+  while (i < source.length && /[a-z]/i.test(source[i])) i++  // Flags
+  return i
+}
+
+function regExpAllowed(previous: Token | undefined): boolean {
+  if (!previous) return true
+  if (previous.kind === 'name') return REGEXP_KEYWORDS.has(previous.value)
+  if (previous.kind === 'string') return false
+  return !/^[)\]}0`/]$/.test(previous.value)
+}
+
+// ============ Paths and values ============
+
+/**
+ * Join paths and resolve `.` and `..` segments ('' is the workspace root)
+ */
+function joinPath(...parts: string[]): string {
+  return normalizePath(parts.filter(Boolean).join('/'))
+}
+
+function normalizePath(path: string): string {
+  const segments: string[] = []
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue
+    if (segment === '..') segments.pop()
+    else segments.push(segment)
+  }
+  return segments.join('/')
+}
+
+function relativePath(dir: string, path: string): string {
+  return dir && path.startsWith(`${dir}/`) ? path.slice(dir.length + 1) : dir === path ? '' : path
+}
+
+function dirname(path: string): string {
+  const slash = path.lastIndexOf('/')
+  return slash < 0 ? '' : path.slice(0, slash)
+}
+
+function basename(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1)
+}
+
+function isRecord(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function strings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []
+}
+
+/**
+ * Every string in an `exports` value, conditions in the order written
+ */
+function leafStrings(value: unknown): string[] {
+  if (typeof value === 'string') return [value]
+  if (Array.isArray(value)) return value.flatMap(leafStrings)
+  if (isRecord(value)) return Object.values(value).flatMap(leafStrings)
+  return []
+}
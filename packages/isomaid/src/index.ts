@@ -8,6 +8,7 @@
 // Core exports
 export * from './model'
 export * from './parser'
+export * from './formats'
 export * from './layout'
 export * from './render'
 export * from './grid'
@@ -15,12 +16,22 @@ export * from './nav/drill'
 export * from './nav/fold'
 
 // Convenience imports for main workflow
-import { parseMermaid } from './parser'
+import { parseMermaid, type ParseOptions } from './parser'
 import { layoutGraph, type LayoutOptions } from './layout'
 import { render, type RenderOptions } from './render'
 import type { Graph } from './model'
 
+/**
+ * Options for diagram(). Settings can come from several places; later ones win:
+ *
+ * 1. Built-in defaults
+ * 2. Frontmatter `config` (Mermaid config, including an `arch` block)
+ * 3. `%%{init: ...}%%` directive
+ * 4. `%%{arch: ...}%%` directive
+ * 5. These options
+ */
 export interface DiagramOptions {
+  parse?: ParseOptions
   layout?: LayoutOptions
   render?: RenderOptions
 }
@@ -32,7 +43,7 @@ export async function diagram(
   source: string,
   options: DiagramOptions = {}
 ): Promise<string> {
-  const graph = await parseMermaid(source)
+  const graph = await parseMermaid(source, options.parse)
 
   // Determine view mode from options or parsed config
   const viewMode = options.render?.viewMode ?? graph.config.view ?? 'flat'
@@ -54,9 +65,10 @@ export async function diagram(
  */
 export async function parse(
   source: string,
-  layoutOptions?: LayoutOptions
+  layoutOptions?: LayoutOptions,
+  parseOptions?: ParseOptions
 ): Promise<Graph> {
-  const graph = await parseMermaid(source)
+  const graph = await parseMermaid(source, parseOptions)
   await layoutGraph(graph, layoutOptions)
   return graph
 }
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { parseMermaid } from '../parser'
+import { layoutGraph } from './elk'
+import type { Graph } from '../model/types'
+
+async function laidOut(source: string): Promise<Graph> {
+  return layoutGraph(await parseMermaid(source))
+}
+
+/** Centre of a laid-out node */
+function centre(graph: Graph, id: string): { x: number; y: number } {
+  const node = graph.nodes.get(id)!
+  expect(node.x).toBeDefined()
+  expect(node.y).toBeDefined()
+  return { x: node.x!, y: node.y! }
+}
+
+describe('layout direction', () => {
+  // The router logs its progress
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('lays LR charts out left to right', async () => {
+    const graph = await laidOut('flowchart LR\n  A --> B --> C')
+    const [a, b, c] = ['A', 'B', 'C'].map(id => centre(graph, id))
+    expect(a.x).toBeLessThan(b.x)
+    expect(b.x).toBeLessThan(c.x)
+    expect(new Set([a.y, b.y, c.y]).size).toBe(1)
+  })
+
+  it('lays TD charts out top to bottom', async () => {
+    const graph = await laidOut('flowchart TD\n  A --> B --> C')
+    const [a, b, c] = ['A', 'B', 'C'].map(id => centre(graph, id))
+    expect(a.y).toBeLessThan(b.y)
+    expect(b.y).toBeLessThan(c.y)
+    expect(new Set([a.x, b.x, c.x]).size).toBe(1)
+  })
+
+  it('follows a subgraph direction inside a chart that flows the other way', async () => {
+    const graph = await laidOut([
+      'flowchart TB',
+      '  top --> S',
+      '  subgraph S',
+      '    direction LR',
+      '    a --> b --> c',
+      '  end',
+    ].join('\n'))
+    const [a, b, c] = ['a', 'b', 'c'].map(id => centre(graph, id))
+    expect(a.x).toBeLessThan(b.x)
+    expect(b.x).toBeLessThan(c.x)
+    expect(centre(graph, 'top').y).toBeLessThan(centre(graph, 'S').y)
+  })
+
+  it('prefers explicit options over the header direction', async () => {
+    const graph = await layoutGraph(await parseMermaid('flowchart LR\n  A --> B'), { direction: 'DOWN' })
+    expect(centre(graph, 'A').y).toBeLessThan(centre(graph, 'B').y)
+  })
+})
+
+describe('pinned ports', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('routes an unpinned edge along the flow', async () => {
+    const graph = await laidOut('flowchart LR\n  A --> B')
+    expect(graph.edges[0]).toMatchObject({ fromPort: 'R', toPort: 'L' })
+  })
+
+  it('keeps the sides an edge is pinned to', async () => {
+    const graph = await laidOut('flowchart LR\n  A:B --> B:B')
+    const [edge] = graph.edges
+    const a = graph.nodes.get('A')!
+
+    expect(edge).toMatchObject({ fromPort: 'B', toPort: 'B' })
+    expect(edge.sourcePort?.side).toBe('B')
+    expect(edge.points![0].y).toBeGreaterThan(a.y! + a.height! / 2)
+  })
+
+  it('pins a single end, leaving the other to the router', async () => {
+    const graph = await laidOut('flowchart LR\n  A:T --> B')
+    expect(graph.edges[0].fromPort).toBe('T')
+    expect(graph.edges[0].toPort).toBeDefined()
+  })
+
+  it('connects to the numbered port on a pinned side', async () => {
+    const graph = await laidOut('flowchart LR\n  A:B1 --> B\n  A --> C')
+    const bottomPorts = graph.nodes.get('A')!.ports!.filter(port => port.side === 'B')
+    expect(graph.edges[0].sourcePort).toBe(bottomPorts[1])
+  })
+})
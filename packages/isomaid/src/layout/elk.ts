@@ -6,7 +6,7 @@
  */
 
 import ELK, { ElkNode, ElkExtendedEdge } from 'elkjs/lib/elk.bundled.js'
-import type { Graph, Node, GridCoord, Port, PortSide } from '../model/types'
+import type { Graph, Node, GridCoord, Port, PortSide, FlowDirection } from '../model/types'
 import { routeEdgesOrthogonal } from './orthogonal-router'
 import { pixelToGrid, calculateLabelBounds } from '../grid'
 
@@ -21,6 +21,8 @@ export interface LayoutOptions {
   padding?: number
   /** View mode affects edge gap calculations */
   viewMode?: 'flat' | 'iso'
+  /** Keep node positions the graph already has (e.g. imported geometry) and only route edges */
+  keepPositions?: boolean
 }
 
 const DEFAULT_OPTIONS: Required<LayoutOptions> = {
@@ -29,6 +31,17 @@ const DEFAULT_OPTIONS: Required<LayoutOptions> = {
   layerSpacing: 120,
   padding: 30,
   viewMode: 'flat',
+  keepPositions: false,
+}
+
+type ElkDirection = Required<LayoutOptions>['direction']
+
+/** Mermaid flow direction to ELK direction */
+const ELK_DIRECTIONS: Record<FlowDirection, ElkDirection> = {
+  TB: 'DOWN',
+  BT: 'UP',
+  LR: 'RIGHT',
+  RL: 'LEFT',
 }
 
 /** Calculate base width for a node label */
@@ -228,6 +241,59 @@ function findLowestCommonAncestor(
   return null
 }
 
+/**
+ * Ancestor chain of a node, nearest parent first
+ */
+function getAncestors(graph: Graph, nodeId: string): string[] {
+  const ancestors: string[] = []
+  let current = graph.nodes.get(nodeId)?.parent
+  while (current) {
+    ancestors.push(current)
+    current = graph.nodes.get(current)?.parent
+  }
+  return ancestors
+}
+
+/**
+ * Place an edge relative to separately laid-out compounds.
+ *
+ * ELK can't connect nodes across separate layout runs, so the edge goes into the
+ * innermost separate compound containing both ends, and an end that sits inside
+ * a different separate compound is replaced by that compound. Returns null when
+ * both ends collapse onto the same node.
+ */
+function resolveSeparateEdge(
+  graph: Graph,
+  fromId: string,
+  toId: string,
+  separateCompounds: Set<string>
+): { containerId: string | null; source: string; target: string } | null {
+  if (separateCompounds.size === 0) {
+    return { containerId: null, source: fromId, target: toId }
+  }
+
+  const fromAncestors = getAncestors(graph, fromId)
+  const toAncestors = getAncestors(graph, toId)
+
+  const containerId = fromAncestors.find(id => separateCompounds.has(id) && toAncestors.includes(id)) ?? null
+
+  // Outermost separate compound between the node and the container
+  const proxyFor = (nodeId: string, ancestors: string[]): string => {
+    const limit = containerId ? ancestors.indexOf(containerId) : ancestors.length
+    let proxy = nodeId
+    for (const id of ancestors.slice(0, limit)) {
+      if (separateCompounds.has(id)) proxy = id
+    }
+    return proxy
+  }
+
+  const source = proxyFor(fromId, fromAncestors)
+  const target = proxyFor(toId, toAncestors)
+  if (source === target) return null
+
+  return { containerId, source, target }
+}
+
 /**
  * Convert our Graph to ELK format
  */
@@ -237,8 +303,11 @@ function graphToElk(graph: Graph, opts: Required<LayoutOptions>): ElkNode {
   // Calculate uniform width for all regular nodes (consistency across views)
   const uniformWidth = calculateUniformWidth(graph)
 
+  // Compounds whose direction differs from their parent are laid out separately
+  const separateCompounds = new Set<string>()
+
   // Helper to convert a node (and its children) to ELK format
-  function convertNode(nodeId: string): ElkNode | null {
+  function convertNode(nodeId: string, parentDirection: ElkDirection): ElkNode | null {
     if (processedNodes.has(nodeId)) return null
     processedNodes.add(nodeId)
 
@@ -273,8 +342,19 @@ function graphToElk(graph: Graph, opts: Required<LayoutOptions>): ElkNode {
         'elk.alignment': 'CENTER',
       }
 
+      // Per-subgraph `direction` statement, otherwise inherit the parent's flow
+      const layerDirection = graph.layers.get(nodeId)?.direction
+      const direction = layerDirection ? ELK_DIRECTIONS[layerDirection] : parentDirection
+      elkNode.layoutOptions['elk.direction'] = direction
+      if (direction !== parentDirection) {
+        // INCLUDE_CHILDREN lays the whole hierarchy out in a single direction,
+        // so a compound that flows differently needs its own layout run
+        elkNode.layoutOptions['elk.hierarchyHandling'] = 'SEPARATE_CHILDREN'
+        separateCompounds.add(nodeId)
+      }
+
       for (const childId of node.children) {
-        const childElk = convertNode(childId)
+        const childElk = convertNode(childId, direction)
         if (childElk) {
           elkNode.children.push(childElk)
         }
@@ -286,19 +366,41 @@ function graphToElk(graph: Graph, opts: Required<LayoutOptions>): ElkNode {
 
   // Convert root nodes
   const elkNodes: ElkNode[] = []
+  const elkNodeIndex = new Map<string, ElkNode>()
   for (const rootId of graph.rootNodes) {
-    const elkNode = convertNode(rootId)
+    const elkNode = convertNode(rootId, opts.direction)
     if (elkNode) {
       elkNodes.push(elkNode)
     }
   }
 
-  // ALL edges go at root level - ELK with INCLUDE_CHILDREN will route them
-  const allEdges: ElkExtendedEdge[] = graph.edges.map(edge => ({
-    id: `${edge.from}->${edge.to}`,
-    sources: [edge.from],
-    targets: [edge.to],
-  }))
+  function indexElkNode(elkNode: ElkNode): void {
+    elkNodeIndex.set(elkNode.id, elkNode)
+    elkNode.children?.forEach(indexElkNode)
+  }
+  elkNodes.forEach(indexElkNode)
+
+  // Edges go at root level - ELK with INCLUDE_CHILDREN will route them.
+  // Separately laid-out compounds need special placement (see resolveSeparateEdge).
+  const allEdges: ElkExtendedEdge[] = []
+  for (const edge of graph.edges) {
+    const placement = resolveSeparateEdge(graph, edge.from, edge.to, separateCompounds)
+    if (!placement) continue
+
+    const elkEdge: ElkExtendedEdge = {
+      id: `${edge.from}->${edge.to}`,
+      sources: [placement.source],
+      targets: [placement.target],
+    }
+
+    const container = placement.containerId ? elkNodeIndex.get(placement.containerId) : undefined
+    if (container) {
+      container.edges = container.edges || []
+      container.edges.push(elkEdge)
+    } else {
+      allEdges.push(elkEdge)
+    }
+  }
 
   return {
     id: 'root',
@@ -328,9 +430,6 @@ function graphToElk(graph: Graph, opts: Required<LayoutOptions>): ElkNode {
  * Apply ELK layout results back to our Graph
  */
 function applyElkLayout(graph: Graph, elkGraph: ElkNode, opts: Required<LayoutOptions>): void {
-  const cellSize = graph.config.grid.cellSize
-  const fontSize = 14 // Default font size for label bounds
-
   function applyToNode(
     elkNode: ElkNode,
     offsetX: number = 0,
@@ -344,28 +443,7 @@ function applyElkLayout(graph: Graph, elkGraph: ElkNode, opts: Required<LayoutOp
       node.y = offsetY + elkNode.y + (elkNode.height || 0) / 2
       node.width = elkNode.width
       node.height = elkNode.height
-
-      // Calculate grid coordinates
-      const gridPos = pixelToGrid(node.x, node.y, cellSize, layerId)
-      node.gridPos = gridPos
-      node.gridWidth = (node.width || 0) / cellSize
-      node.gridHeight = (node.height || 0) / cellSize
-
-      // Calculate label bounds for collision detection
-      node.labelBounds = calculateLabelBounds(node.label, gridPos, fontSize, cellSize)
-
-      // Update layer bounds for subgraphs
-      if (node.isSubgraph) {
-        const layer = graph.layers.get(elkNode.id)
-        if (layer) {
-          const halfW = (node.width || 0) / 2
-          const halfH = (node.height || 0) / 2
-          layer.bounds = {
-            min: pixelToGrid(node.x - halfW, node.y - halfH, cellSize, layerId),
-            max: pixelToGrid(node.x + halfW, node.y + halfH, cellSize, layerId),
-          }
-        }
-      }
+      applyNodeGeometry(graph, node, layerId)
     }
 
     // Recursively apply to children
@@ -388,6 +466,47 @@ function applyElkLayout(graph: Graph, elkGraph: ElkNode, opts: Required<LayoutOp
     }
   }
 
+  routeLaidOutGraph(graph, opts)
+}
+
+/**
+ * Grid position, label bounds and (for subgraphs) layer bounds from a node's pixel geometry
+ */
+function applyNodeGeometry(graph: Graph, node: Node, layerId: string): void {
+  const cellSize = graph.config.grid.cellSize
+  const fontSize = 14 // Default font size for label bounds
+  if (node.x === undefined || node.y === undefined) return
+
+  // Calculate grid coordinates
+  const gridPos = pixelToGrid(node.x, node.y, cellSize, layerId)
+  node.gridPos = gridPos
+  node.gridWidth = (node.width || 0) / cellSize
+  node.gridHeight = (node.height || 0) / cellSize
+
+  // Calculate label bounds for collision detection
+  node.labelBounds = calculateLabelBounds(node.label, gridPos, fontSize, cellSize)
+
+  // Update layer bounds for subgraphs
+  if (node.isSubgraph) {
+    const layer = graph.layers.get(node.id)
+    if (layer) {
+      const halfW = (node.width || 0) / 2
+      const halfH = (node.height || 0) / 2
+      layer.bounds = {
+        min: pixelToGrid(node.x - halfW, node.y - halfH, cellSize, layerId),
+        max: pixelToGrid(node.x + halfW, node.y + halfH, cellSize, layerId),
+      }
+    }
+  }
+}
+
+/**
+ * Generate ports and route edges once every node has its position
+ */
+function routeLaidOutGraph(graph: Graph, opts: Required<LayoutOptions>): void {
+  const cellSize = graph.config.grid.cellSize
+  const fontSize = 14 // Default font size for label bounds
+
   // Generate ports for all nodes
   // Port offset is CONSTANT across view modes - coordinates must match!
   // Set to accommodate iso depth (ISO_Z_HEIGHT = 25px) plus clearance
@@ -423,10 +542,27 @@ function applyElkLayout(graph: Graph, elkGraph: ElkNode, opts: Required<LayoutOp
 /**
  * Layout the graph using ELK
  * Mutates the graph in place, adding x, y, width, height to nodes
- * and points to edges
+ * and points to edges. With `keepPositions`, a graph whose nodes all
+ * have positions skips ELK and only gets ports and edge routes.
  */
 export async function layoutGraph(graph: Graph, options: LayoutOptions = {}): Promise<Graph> {
-  const opts = { ...DEFAULT_OPTIONS, ...options }
+  // Explicit options win over the arch directive's layout settings,
+  // which win over the direction in the flowchart header
+  const { direction: configuredDirection, ...configured } = graph.config.layout ?? {}
+  const direction = configuredDirection ?? graph.config.direction
+  const declared = direction ? { ...configured, direction: ELK_DIRECTIONS[direction] } : configured
+  const opts = { ...DEFAULT_OPTIONS, ...declared, ...options }
+
+  // Positions are only kept when every node has one; otherwise ELK lays out everything
+  const positioned = [...graph.nodes.values()].every(n => n.x !== undefined && n.y !== undefined && n.width && n.height)
+  if (opts.keepPositions && positioned) {
+    for (const node of graph.nodes.values()) {
+      applyNodeGeometry(graph, node, node.parent ?? 'root')
+    }
+    routeLaidOutGraph(graph, opts)
+    return graph
+  }
+
   const elk = new ELK()
 
   // Convert to ELK format
@@ -5,7 +5,7 @@
  * routing through label geofences. Detects edge crossings for bridge rendering.
  */
 
-import type { Graph, Node, Edge, Port, PortSide } from '../model/types'
+import type { Graph, Node, Edge, Port, PortConstraint, PortSide } from '../model/types'
 import {
   generateGeofences,
   segmentIntersectsGeofence,
@@ -37,6 +37,29 @@ function sideToPortSide(side: Side): PortSide {
   }
 }
 
+/**
+ * Convert PortSide back to our Side type
+ */
+function portSideToSide(side: PortSide): Side {
+  switch (side) {
+    case 'T': return 'top'
+    case 'B': return 'bottom'
+    case 'L': return 'left'
+    case 'R': return 'right'
+  }
+}
+
+/**
+ * Find the port a constraint pins an edge end to.
+ * Returns undefined when only the side is pinned or the index is out of range,
+ * leaving the choice of port on that side to the router.
+ */
+function getPinnedPort(node: Node, constraint: PortConstraint | undefined): Port | undefined {
+  if (!constraint || constraint.index === undefined || !node.ports) return undefined
+  const portsOnSide = node.ports.filter(p => p.side === constraint.side)
+  return portsOnSide[constraint.index]
+}
+
 /**
  * Find best available port on a specific side of a node
  * Priority order: center first, then right/top, then left/bottom
@@ -631,10 +654,12 @@ function routeSingleEdge(
   geofenceData: GeofenceData,
   fromSide: Side,
   toSide: Side,
-  routedEdges: { points: { x: number; y: number }[] }[]
+  routedEdges: { points: { x: number; y: number }[] }[],
+  fromPort?: Port,
+  toPort?: Port
 ): RouteCandidate {
-  const fromPos = getPortPosition(fromNode, fromSide, undefined, graph, geofenceData.labelGeofences)
-  const toPos = getPortPosition(toNode, toSide, undefined, graph, geofenceData.labelGeofences)
+  const fromPos = getPortPosition(fromNode, fromSide, fromPort, graph, geofenceData.labelGeofences)
+  const toPos = getPortPosition(toNode, toSide, toPort, graph, geofenceData.labelGeofences)
 
   const fromPt: ConnectionPoint = {
     x: fromPos.x,
@@ -681,6 +706,9 @@ function routeSingleEdge(
  * 2. Zero edge crossings (prefer paths that don't cross other edges)
  * 3. Shortest distance (closest port combination)
  * 4. Fewest turns (minimize path complexity)
+ *
+ * Port constraints from the source are applied before ranking, so a pinned
+ * end keeps its side even when another side would score better.
  */
 export function routeEdgesOrthogonal(
   graph: Graph,
@@ -701,13 +729,19 @@ export function routeEdgesOrthogonal(
     if (fromNode.x === undefined || fromNode.y === undefined) continue
     if (toNode.x === undefined || toNode.y === undefined) continue
 
-    // Generate ALL 16 port combination candidates
+    // Pinned ends are hard constraints: only their own side (and port) is tried
+    const fromSides = edge.fromPortConstraint ? [portSideToSide(edge.fromPortConstraint.side)] : allSides
+    const toSides = edge.toPortConstraint ? [portSideToSide(edge.toPortConstraint.side)] : allSides
+    const fromPort = getPinnedPort(fromNode, edge.fromPortConstraint)
+    const toPort = getPinnedPort(toNode, edge.toPortConstraint)
+
+    // Generate candidates for every remaining port combination (all 16 when unpinned)
     const candidates: RouteCandidate[] = []
-    for (const fromSide of allSides) {
-      for (const toSide of allSides) {
+    for (const fromSide of fromSides) {
+      for (const toSide of toSides) {
         const candidate = routeSingleEdge(
           fromNode, toNode, graph, geofenceData,
-          fromSide, toSide, routedEdges
+          fromSide, toSide, routedEdges, fromPort, toPort
         )
         candidates.push(candidate)
       }
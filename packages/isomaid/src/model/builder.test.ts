@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { GraphBuilder } from './builder'
+import { validateGraph } from './validate'
+
+describe('GraphBuilder', () => {
+  it('adds nodes at the root and updates existing ones in place', () => {
+    const graph = new GraphBuilder()
+      .node('api', { label: 'API', classes: ['hot'], style: { fill: '#f00' }, metadata: { owner: 'payments' } })
+      .node('db', { shape: 'cylinder' })
+      .node('api', { classes: ['hot', 'edge'], style: { stroke: '#00f' }, metadata: { tier: '1' } })
+      .build()
+
+    expect(graph.rootNodes).toEqual(['api', 'db'])
+    expect(graph.nodes.get('api')).toMatchObject({
+      label: 'API',
+      shape: 'rect',
+      isSubgraph: false,
+      classes: ['hot', 'edge'],
+      style: { fill: '#f00', stroke: '#00f' },
+      metadata: { owner: 'payments', tier: '1' },
+    })
+    expect(graph.nodes.get('db')).toMatchObject({ label: 'db', shape: 'cylinder', parent: undefined })
+    expect(validateGraph(graph)).toEqual([])
+  })
+
+  it('nests subgraphs with a layer each', () => {
+    const graph = new GraphBuilder()
+      .subgraph('backend', { label: 'Backend', direction: 'LR' }, backend => backend
+        .node('api')
+        .subgraph('data', data => data.node('db')))
+      .build()
+
+    expect(graph.rootNodes).toEqual(['backend'])
+    expect(graph.nodes.get('backend')).toMatchObject({ isSubgraph: true, label: 'Backend', children: ['api', 'data'] })
+    expect(graph.nodes.get('db')).toMatchObject({ parent: 'data', gridPos: { layer: 'data' } })
+    expect(graph.layers.get('backend')).toMatchObject({ parentId: 'root', direction: 'LR' })
+    expect(graph.layers.get('data')).toMatchObject({ parentId: 'backend' })
+    expect(validateGraph(graph)).toEqual([])
+  })
+
+  it('turns a leaf into a subgraph and moves it into the new scope', () => {
+    const builder = new GraphBuilder().node('cache').subgraph('backend')
+    builder.within('backend').subgraph('cache', cache => cache.node('redis'))
+    const graph = builder.build()
+
+    expect(graph.rootNodes).toEqual(['backend'])
+    expect(graph.nodes.get('backend')?.children).toEqual(['cache'])
+    expect(graph.nodes.get('cache')).toMatchObject({ isSubgraph: true, parent: 'backend', children: ['redis'] })
+    expect(graph.layers.get('cache')?.parentId).toBe('backend')
+    expect(validateGraph(graph)).toEqual([])
+  })
+
+  it('moves nodes between scopes, but never a subgraph into itself', () => {
+    const builder = new GraphBuilder()
+      .node('api')
+      .subgraph('outer', outer => outer.subgraph('inner', inner => inner.node('db')))
+    builder.within('outer').move('api')
+    builder.within('inner').move('outer')
+    builder.within(null).move('inner')
+    const graph = builder.build()
+
+    expect(graph.rootNodes).toEqual(['outer', 'inner'])
+    expect(graph.nodes.get('outer')?.children).toEqual(['api'])
+    expect(graph.nodes.get('api')).toMatchObject({ parent: 'outer', gridPos: { layer: 'outer' } })
+    expect(graph.layers.get('inner')?.parentId).toBe('root')
+    expect(validateGraph(graph)).toEqual([])
+  })
+
+  it('scopes builders with within, rejecting ids that are not subgraphs', () => {
+    const builder = new GraphBuilder().subgraph('backend').node('web')
+    expect(builder.within(null)).toBe(builder)
+
+    builder.within('backend').node('api')
+    expect(builder.build().nodes.get('api')?.parent).toBe('backend')
+    expect(() => builder.within('web')).toThrow('Cannot build inside "web": not a subgraph')
+    expect(() => builder.within('missing')).toThrow(/not a subgraph/)
+  })
+
+  it('adds edges, declaring missing ends in the scope', () => {
+    const builder = new GraphBuilder().subgraph('backend')
+    builder.within('backend')
+      .edge('api', 'db', { label: 'reads', style: 'dashed', toArrow: 'open' })
+      .edge('api', 'db', { id: 'writes', label: undefined })
+    const graph = builder.build()
+
+    expect(graph.nodes.get('backend')?.children).toEqual(['api', 'db'])
+    expect(graph.edges).toEqual([
+      { id: 'api-db-0', from: 'api', to: 'db', label: 'reads', style: 'dashed', toArrow: 'open' },
+      { id: 'writes', from: 'api', to: 'db' },
+    ])
+    expect(validateGraph(graph)).toEqual([])
+  })
+
+  it('adds to an existing graph', () => {
+    const first = new GraphBuilder().subgraph('backend', backend => backend.node('api')).build()
+    const graph = new GraphBuilder(first, 'backend').node('db').edge('api', 'db').build()
+
+    expect(graph).toBe(first)
+    expect(graph.nodes.get('backend')?.children).toEqual(['api', 'db'])
+    expect(graph.edges.map(edge => edge.id)).toEqual(['api-db-0'])
+    expect(validateGraph(graph)).toEqual([])
+  })
+})
@@ -0,0 +1,241 @@
+/**
+ * Fluent Graph construction
+ *
+ *   const graph = new GraphBuilder()
+ *     .node('API', { label: 'API Gateway' })
+ *     .subgraph('Backend', { direction: 'LR' }, b => b
+ *       .node('DB', { shape: 'cylinder' })
+ *       .node('Cache'))
+ *     .edge('API', 'DB', { style: 'dashed' })
+ *     .build()
+ *
+ * The builder keeps the redundant parts of the hierarchy in step: `parent`,
+ * the parent's `children` (or `rootNodes`), and a LayerInfo per subgraph.
+ */
+
+import type {
+  Edge, FlowDirection, Graph, LayerInfo, Node, NodeStyle, ShapeType, SourceRange,
+} from './types'
+import { createEmptyGraph } from './types'
+
+/** Node settings; those left out keep their current value (or the default for a new node) */
+export interface NodeOptions {
+  label?: string            // Defaults to the id
+  shape?: ShapeType         // Defaults to 'rect'
+  classes?: string[]        // Added to the node's existing classes
+  style?: NodeStyle         // Merged over the node's existing style
+  metadata?: Record<string, string>  // Merged over the node's existing metadata
+  sourceRange?: SourceRange
+}
+
+export interface SubgraphOptions extends Omit<NodeOptions, 'shape'> {
+  direction?: FlowDirection  // Stored on the subgraph's layer
+}
+
+/** Edge settings; the id defaults to `from-to-index` like the parser's */
+export type EdgeOptions = Partial<Pick<Edge,
+  | 'id' | 'label' | 'style' | 'fromArrow' | 'toArrow' | 'lineStyle' | 'sourceRange'
+  | 'fromPortConstraint' | 'toPortConstraint'
+>>
+
+/**
+ * Builds a Graph, adding nodes inside one subgraph (or at the root).
+ * Every builder made from another, by `within` or `subgraph`, adds to the
+ * same graph.
+ */
+export class GraphBuilder {
+  private readonly graph: Graph
+  private readonly scope: string | null
+
+  /**
+   * Start a new graph, or add to an existing one. `scope` is the subgraph
+   * new nodes go into; null (the default) is the root.
+   */
+  constructor(graph: Graph = createEmptyGraph(), scope: string | null = null) {
+    this.graph = graph
+    this.scope = scope
+  }
+
+  /**
+   * Add a node in this builder's scope, or update it if the id exists.
+   * An existing node stays where it is; see `move`.
+   */
+  node(id: string, options: NodeOptions = {}): this {
+    let node = this.graph.nodes.get(id)
+    if (!node) {
+      node = {
+        id,
+        label: id,
+        shape: 'rect',
+        isSubgraph: false,
+        parent: this.scope ?? undefined,
+        gridPos: { gx: 0, gy: 0, layer: this.scope ?? 'root' }, // Will be set by layout
+      }
+      this.graph.nodes.set(id, node)
+      this.attach(id)
+    }
+    applyNodeOptions(node, options)
+    return this
+  }
+
+  /**
+   * Add a subgraph in this builder's scope, and fill it with `build`.
+   * An existing subgraph is reopened; an existing leaf node becomes a
+   * subgraph. Either way it moves into this scope, unless that would put
+   * it inside itself.
+   */
+  subgraph(id: string, build?: (builder: GraphBuilder) => void): this
+  subgraph(id: string, options: SubgraphOptions, build?: (builder: GraphBuilder) => void): this
+  subgraph(
+    id: string,
+    optionsOrBuild: SubgraphOptions | ((builder: GraphBuilder) => void) = {},
+    build?: (builder: GraphBuilder) => void
+  ): this {
+    const options = typeof optionsOrBuild === 'function' ? {} : optionsOrBuild
+    build ??= typeof optionsOrBuild === 'function' ? optionsOrBuild : undefined
+
+    let node = this.graph.nodes.get(id)
+    if (!node) {
+      const layerId = this.scope ?? 'root'
+      node = {
+        id,
+        label: id,
+        shape: 'rect',
+        isSubgraph: true,
+        parent: this.scope ?? undefined,
+        children: [],
+        gridPos: { gx: 0, gy: 0, layer: layerId }, // Will be set by layout
+      }
+      this.graph.nodes.set(id, node)
+      this.attach(id)
+    } else {
+      node.isSubgraph = true
+      node.children ??= []
+      this.move(id)
+    }
+
+    const parentLayerId = node.parent ?? 'root'
+    const layer = this.graph.layers.get(id) ?? {
+      id,
+      parentId: parentLayerId,
+      bounds: {
+        min: { gx: 0, gy: 0, layer: parentLayerId },
+        max: { gx: 0, gy: 0, layer: parentLayerId }, // Will be set after layout
+      },
+      gridSize: this.graph.config.grid.defaultLayerSize,
+    }
+    placeLayer(layer, parentLayerId)
+    if (options.direction) layer.direction = options.direction
+    if (options.sourceRange) layer.sourceRange = options.sourceRange
+    this.graph.layers.set(id, layer)
+
+    applyNodeOptions(node, options)
+    build?.(this.within(id))
+    return this
+  }
+
+  /**
+   * Move an existing node, with everything inside it, into this builder's
+   * scope. Moving a subgraph inside itself is ignored.
+   */
+  move(id: string): this {
+    const node = this.graph.nodes.get(id)
+    if (!node || node.parent === (this.scope ?? undefined) || this.isInside(id)) return this
+
+    const layerId = this.scope ?? 'root'
+    this.detach(id)
+    node.parent = this.scope ?? undefined
+    node.gridPos = { gx: 0, gy: 0, layer: layerId }
+    this.attach(id)
+    const layer = this.graph.layers.get(id)
+    if (layer) placeLayer(layer, layerId)
+    return this
+  }
+
+  /**
+   * Add an edge. Ends that don't exist yet are added as plain nodes in
+   * this builder's scope.
+   */
+  edge(from: string, to: string, options: EdgeOptions = {}): this {
+    this.node(from).node(to)
+    const edge: Edge = {
+      id: options.id ?? `${from}-${to}-${this.graph.edges.length}`,
+      from,
+      to,
+    }
+    for (const [key, value] of Object.entries(options)) {
+      if (value !== undefined && key !== 'id') Object.assign(edge, { [key]: value })
+    }
+    this.graph.edges.push(edge)
+    return this
+  }
+
+  /**
+   * A builder adding to the same graph inside subgraph `id` (or at the root, for null)
+   */
+  within(id: string | null): GraphBuilder {
+    if (id !== null && !this.graph.nodes.get(id)?.isSubgraph) {
+      throw new Error(`Cannot build inside "${id}": not a subgraph`)
+    }
+    return id === this.scope ? this : new GraphBuilder(this.graph, id)
+  }
+
+  /**
+   * The graph built so far
+   */
+  build(): Graph {
+    return this.graph
+  }
+
+  /** List a node under this builder's scope */
+  private attach(id: string): void {
+    const siblings = this.scope === null
+      ? this.graph.rootNodes
+      : (this.graph.nodes.get(this.scope)!.children ??= [])
+    if (!siblings.includes(id)) siblings.push(id)
+  }
+
+  /** Take a node out of its current parent's children (or the root list) */
+  private detach(id: string): void {
+    const parent = this.graph.nodes.get(id)?.parent
+    const siblings = parent === undefined ? this.graph.rootNodes : this.graph.nodes.get(parent)?.children
+    const index = siblings?.indexOf(id) ?? -1
+    if (index >= 0) siblings!.splice(index, 1)
+  }
+
+  /** Whether this builder's scope is `id` or somewhere inside it */
+  private isInside(id: string): boolean {
+    const seen = new Set<string>()
+    for (let scope = this.scope; scope !== null && !seen.has(scope); scope = this.graph.nodes.get(scope)?.parent ?? null) {
+      if (scope === id) return true
+      seen.add(scope)
+    }
+    return false
+  }
+}
+
+/**
+ * Point a subgraph's layer at the layer it now sits in
+ */
+function placeLayer(layer: LayerInfo, parentLayerId: string): void {
+  if (layer.parentId === parentLayerId) return
+  layer.parentId = parentLayerId
+  layer.bounds = {
+    min: { ...layer.bounds.min, layer: parentLayerId },
+    max: { ...layer.bounds.max, layer: parentLayerId },
+  }
+}
+
+/**
+ * Apply the options given, leaving the rest of the node alone
+ */
+function applyNodeOptions(node: Node, options: NodeOptions): void {
+  if (options.label !== undefined) node.label = options.label
+  if (options.shape !== undefined) node.shape = options.shape
+  if (options.sourceRange) node.sourceRange = options.sourceRange
+  if (options.classes?.length) {
+    node.classes = [...new Set([...node.classes ?? [], ...options.classes])]
+  }
+  if (options.style) node.style = { ...node.style, ...options.style }
+  if (options.metadata) node.metadata = { ...node.metadata, ...options.metadata }
+}
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { diffGraphs } from './diff'
+import { parseMermaid } from '../parser'
+import { layoutGraph } from '../layout'
+
+const BEFORE = [
+  'flowchart LR',
+  '  subgraph backend',
+  '    api[API] --> db[(Orders)]',
+  '  end',
+  '  web[Web] -->|calls| api',
+  '  cron[Cron] --> api',
+].join('\n')
+
+/** Changes by id, for compact assertions */
+function summary(changes: Array<{ status: string; id: string; beforeId?: string; matchedBy?: string; changes: string[] }>) {
+  return changes.map(({ status, id, beforeId, matchedBy, changes }) =>
+    ({ status, id, ...(beforeId !== undefined && { beforeId, matchedBy }), changes }))
+}
+
+describe('diffGraphs', () => {
+  it('lists nothing for identical graphs', async () => {
+    expect(diffGraphs(await parseMermaid(BEFORE), await parseMermaid(BEFORE))).toEqual({ nodes: [], edges: [] })
+  })
+
+  it('reports added, removed and changed nodes', async () => {
+    const after = await parseMermaid([
+      'flowchart LR',
+      '  subgraph backend',
+      '    api[API v2] --> db[(Orders)]',
+      '  end',
+      '  web([Web]) -->|calls| api',
+      '  queue[Queue] --> api',
+      '  db --> api',
+    ].join('\n'))
+    const diff = diffGraphs(await parseMermaid(BEFORE), after)
+
+    expect(summary(diff.nodes)).toEqual([
+      { status: 'changed', id: 'api', beforeId: 'api', matchedBy: 'id', changes: ['relabelled'] },
+      { status: 'changed', id: 'web', beforeId: 'web', matchedBy: 'id', changes: ['restyled'] },
+      { status: 'added', id: 'queue', changes: [] },
+      { status: 'removed', id: 'cron', changes: [] },
+    ])
+    expect(diff.nodes[0].before?.label).toBe('API')
+    expect(diff.nodes[0].after?.label).toBe('API v2')
+    expect(summary(diff.edges)).toEqual([
+      { status: 'added', id: 'queue-api-2', changes: [] },
+      { status: 'added', id: 'db-api-3', changes: [] },
+      { status: 'removed', id: 'cron-api-2', changes: [] },
+    ])
+  })
+
+  it('pairs renamed nodes by label and follows them through edges', async () => {
+    const after = await parseMermaid([
+      'flowchart LR',
+      '  subgraph services[backend]',
+      '    api[API] ==> database[(Orders)]',
+      '  end',
+      '  web[Web] -->|calls| api',
+      '  cron[Cron] --> api',
+    ].join('\n'))
+    const diff = diffGraphs(await parseMermaid(BEFORE), after)
+
+    expect(summary(diff.nodes)).toEqual([
+      { status: 'changed', id: 'services', beforeId: 'backend', matchedBy: 'label', changes: [] },
+      { status: 'changed', id: 'database', beforeId: 'db', matchedBy: 'label', changes: [] },
+    ])
+    // The edge kept its (renamed) ends, so it changed rather than being replaced
+    expect(summary(diff.edges)).toEqual([
+      { status: 'changed', id: 'api-database-0', beforeId: 'api-db-0', matchedBy: 'ends', changes: ['restyled'] },
+    ])
+  })
+
+  it('reports nodes moved to another subgraph', async () => {
+    const after = await parseMermaid(BEFORE.replace("  cron[Cron] --> api", "  subgraph backend\n    cron[Cron]\n  end\n  cron --> api"))
+    const diff = diffGraphs(await parseMermaid(BEFORE), after)
+
+    expect(summary(diff.nodes)).toEqual([
+      { status: 'changed', id: 'cron', beforeId: 'cron', matchedBy: 'id', changes: ['reparented'] },
+    ])
+    expect(diff.edges).toEqual([])
+  })
+
+  it('matches edges by label when one end changed', async () => {
+    const after = await parseMermaid(BEFORE.replace('web[Web] -->|calls| api', 'web[Web] -->|calls| db'))
+    const diff = diffGraphs(await parseMermaid(BEFORE), after)
+
+    expect(summary(diff.edges)).toEqual([
+      { status: 'changed', id: 'web-db-1', beforeId: 'web-api-1', matchedBy: 'label', changes: ['moved'] },
+    ])
+  })
+
+  describe('on laid-out graphs', () => {
+    // Layout logs its progress
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+    })
+
+    it('reports moved nodes', async () => {
+      const before = await layoutGraph(await parseMermaid('flowchart LR\n  a --> b\n  c'))
+      const after = await layoutGraph(await parseMermaid('flowchart LR\n  a --> b\n  b --> c'))
+      const diff = diffGraphs(before, after)
+
+      expect(diff.nodes.find(change => change.id === 'c')?.changes).toContain('moved')
+      expect(diffGraphs(before, before).nodes).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,269 @@
+/**
+ * Differences between two versions of a Graph
+ *
+ * Nodes are matched by id first. Nodes left over on both sides are then
+ * paired by label, so a node renamed from `db` to `database` shows up as
+ * one changed node instead of a removal and an addition. Edges are matched
+ * by id, then by their (matched) ends, then by label where one end stayed.
+ * Whatever is left is added or removed.
+ */
+
+import type { Edge, Graph, Node } from './types'
+
+export type DiffStatus = 'added' | 'removed' | 'changed'
+
+export type NodeChangeKind =
+  | 'moved'        // Laid-out position differs (both graphs laid out)
+  | 'relabelled'
+  | 'restyled'     // Shape, style or classes differ
+  | 'reparented'   // In a different subgraph (or moved to or from the root)
+
+export type EdgeChangeKind =
+  | 'moved'        // Connects different nodes
+  | 'relabelled'
+  | 'restyled'     // Line style, linkStyle or arrows differ
+
+export interface NodeDiff {
+  status: DiffStatus
+  id: string                    // In `after`; in `before` for removals
+  beforeId?: string             // The matched node in `before`
+  matchedBy?: 'id' | 'label'
+  changes: NodeChangeKind[]     // Empty unless changed
+  before?: Node
+  after?: Node
+}
+
+export interface EdgeDiff {
+  status: DiffStatus
+  id: string                    // In `after`; in `before` for removals
+  beforeId?: string
+  matchedBy?: 'id' | 'ends' | 'label'
+  changes: EdgeChangeKind[]
+  before?: Edge
+  after?: Edge
+}
+
+/**
+ * Everything that differs; nodes and edges that didn't change aren't
+ * listed. A node matched by label is listed even if only its id changed.
+ */
+export interface GraphDiff {
+  nodes: NodeDiff[]
+  edges: EdgeDiff[]
+}
+
+// Position differences below this many pixels aren't a move
+const MOVE_TOLERANCE = 1
+
+/**
+ * Compare two graphs. `moved` is only reported for nodes when both graphs
+ * have been laid out; everything else works on parsed graphs too.
+ */
+export function diffGraphs(before: Graph, after: Graph): GraphDiff {
+  const nodeMatches = matchNodes(before, after)
+  const edgeMatches = matchEdges(before, after, nodeMatches.map)
+
+  const nodes: NodeDiff[] = []
+  for (const node of after.nodes.values()) {
+    const match = nodeMatches.byAfter.get(node.id)
+    if (!match) {
+      nodes.push({ status: 'added', id: node.id, changes: [], after: node })
+      continue
+    }
+    const old = before.nodes.get(match.id)!
+    const changes = nodeChanges(old, node, nodeMatches.map)
+    if (changes.length || match.by === 'label') {
+      nodes.push({ status: 'changed', id: node.id, beforeId: old.id, matchedBy: match.by, changes, before: old, after: node })
+    }
+  }
+  for (const node of before.nodes.values()) {
+    if (!nodeMatches.map.has(node.id)) {
+      nodes.push({ status: 'removed', id: node.id, changes: [], before: node })
+    }
+  }
+
+  const edges: EdgeDiff[] = []
+  after.edges.forEach((edge, i) => {
+    const match = edgeMatches.get(i)
+    if (!match) {
+      edges.push({ status: 'added', id: edge.id, changes: [], after: edge })
+      return
+    }
+    const old = before.edges[match.index]
+    const changes = edgeChanges(old, edge, nodeMatches.map)
+    if (changes.length) {
+      edges.push({ status: 'changed', id: edge.id, beforeId: old.id, matchedBy: match.by, changes, before: old, after: edge })
+    }
+  })
+  const matchedBefore = new Set([...edgeMatches.values()].map(match => match.index))
+  before.edges.forEach((edge, i) => {
+    if (!matchedBefore.has(i)) edges.push({ status: 'removed', id: edge.id, changes: [], before: edge })
+  })
+
+  return { nodes, edges }
+}
+
+interface NodeMatches {
+  map: Map<string, string>                                   // before id -> after id
+  byAfter: Map<string, { id: string; by: 'id' | 'label' }>   // after id -> before id
+}
+
+/**
+ * Pair nodes by id, then the rest by label: first labels that occur once
+ * on each side, then labels that are unique within their (matched) parent
+ */
+function matchNodes(before: Graph, after: Graph): NodeMatches {
+  const map = new Map<string, string>()
+  const byAfter = new Map<string, { id: string; by: 'id' | 'label' }>()
+  const pair = (from: string, to: string, by: 'id' | 'label') => {
+    map.set(from, to)
+    byAfter.set(to, { id: from, by })
+  }
+
+  for (const id of before.nodes.keys()) {
+    if (after.nodes.has(id)) pair(id, id, 'id')
+  }
+
+  const labelKey = (node: Node) => `${node.isSubgraph ? 'subgraph' : 'node'}\0${normalizeLabel(node.label)}`
+  const keys: Array<{ before: (node: Node) => string; after: (node: Node) => string }> = [
+    { before: labelKey, after: labelKey },
+    {
+      before: node => `${labelKey(node)}\0${matchedParent(node, map) ?? ''}`,
+      after: node => `${labelKey(node)}\0${node.parent ?? ''}`,
+    },
+  ]
+  for (const key of keys) {
+    const left = uniqueBy([...before.nodes.values()].filter(node => !map.has(node.id)), key.before)
+    const right = uniqueBy([...after.nodes.values()].filter(node => !byAfter.has(node.id)), key.after)
+    for (const [k, node] of left) {
+      const other = right.get(k)
+      if (other) pair(node.id, other.id, 'label')
+    }
+  }
+
+  return { map, byAfter }
+}
+
+/**
+ * Pair edges (by index in `after` -> index in `before`): same id, then same
+ * ends preferring the same label, then same label sharing one end
+ */
+function matchEdges(
+  before: Graph,
+  after: Graph,
+  nodeMap: Map<string, string>
+): Map<number, { index: number; by: 'id' | 'ends' | 'label' }> {
+  const matches = new Map<number, { index: number; by: 'id' | 'ends' | 'label' }>()
+  const used = new Set<number>()
+  const ends = (edge: Edge) => ({ from: nodeMap.get(edge.from), to: nodeMap.get(edge.to) })
+  const pair = (afterIndex: number, beforeIndex: number, by: 'id' | 'ends' | 'label') => {
+    matches.set(afterIndex, { index: beforeIndex, by })
+    used.add(beforeIndex)
+  }
+  const open = () => after.edges.map((edge, i) => ({ edge, i })).filter(({ i }) => !matches.has(i))
+  const candidates = () => before.edges.map((edge, i) => ({ edge, i })).filter(({ i }) => !used.has(i))
+
+  const beforeIds = new Map<string, number>()
+  before.edges.forEach((edge, i) => {
+    if (!beforeIds.has(edge.id)) beforeIds.set(edge.id, i)
+  })
+  after.edges.forEach((edge, i) => {
+    const index = beforeIds.get(edge.id)
+    if (index !== undefined && !used.has(index)) pair(i, index, 'id')
+  })
+
+  for (const sameLabel of [true, false]) {
+    for (const { edge, i } of open()) {
+      const found = candidates().find(({ edge: old }) => {
+        const { from, to } = ends(old)
+        return from === edge.from && to === edge.to && (!sameLabel || (old.label ?? '') === (edge.label ?? ''))
+      })
+      if (found) pair(i, found.i, 'ends')
+    }
+  }
+
+  for (const { edge, i } of open()) {
+    if (!edge.label) continue
+    const found = candidates().filter(({ edge: old }) => {
+      const { from, to } = ends(old)
+      return normalizeLabel(old.label ?? '') === normalizeLabel(edge.label!) && (from === edge.from || to === edge.to)
+    })
+    if (found.length === 1) pair(i, found[0].i, 'label')
+  }
+
+  return matches
+}
+
+function nodeChanges(before: Node, after: Node, nodeMap: Map<string, string>): NodeChangeKind[] {
+  const changes: NodeChangeKind[] = []
+  if (
+    before.x !== undefined && before.y !== undefined && after.x !== undefined && after.y !== undefined &&
+    (Math.abs(before.x - after.x) > MOVE_TOLERANCE || Math.abs(before.y - after.y) > MOVE_TOLERANCE)
+  ) {
+    changes.push('moved')
+  }
+  if (before.label !== after.label) changes.push('relabelled')
+  if (
+    before.shape !== after.shape ||
+    !sameRecord(before.style, after.style) ||
+    [...new Set(before.classes)].sort().join(' ') !== [...new Set(after.classes)].sort().join(' ')
+  ) {
+    changes.push('restyled')
+  }
+  if (matchedParent(before, nodeMap) !== (after.parent ?? undefined)) changes.push('reparented')
+  return changes
+}
+
+function edgeChanges(before: Edge, after: Edge, nodeMap: Map<string, string>): EdgeChangeKind[] {
+  const changes: EdgeChangeKind[] = []
+  if (nodeMap.get(before.from) !== after.from || nodeMap.get(before.to) !== after.to) changes.push('moved')
+  if ((before.label ?? '') !== (after.label ?? '')) changes.push('relabelled')
+  if (
+    before.style !== after.style ||
+    before.fromArrow !== after.fromArrow ||
+    before.toArrow !== after.toArrow ||
+    !sameRecord(before.lineStyle, after.lineStyle)
+  ) {
+    changes.push('restyled')
+  }
+  return changes
+}
+
+/**
+ * A `before` node's parent as an `after` id; one with no match gets an id
+ * no `after` node can have
+ */
+function matchedParent(node: Node, nodeMap: Map<string, string>): string | undefined {
+  if (node.parent == null) return undefined
+  return nodeMap.get(node.parent) ?? `?${node.parent}`
+}
+
+/**
+ * Items by key, leaving out every key that more than one item has
+ */
+function uniqueBy<T>(items: T[], key: (item: T) => string): Map<string, T> {
+  const unique = new Map<string, T>()
+  const repeated = new Set<string>()
+  for (const item of items) {
+    const k = key(item)
+    if (unique.has(k)) repeated.add(k)
+    unique.set(k, item)
+  }
+  repeated.forEach(k => unique.delete(k))
+  return unique
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * Whether two flat records hold the same values, ignoring key order and
+ * undefined values
+ */
+function sameRecord(a: object | undefined, b: object | undefined): boolean {
+  const entries = (record: object | undefined) => Object.entries(record ?? {})
+    .filter(([, value]) => value !== undefined)
+    .sort(([x], [y]) => x.localeCompare(y))
+  return JSON.stringify(entries(a)) === JSON.stringify(entries(b))
+}
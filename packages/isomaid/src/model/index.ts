@@ -1 +1,4 @@
 export * from './types'
+export * from './builder'
+export * from './validate'
+export * from './diff'
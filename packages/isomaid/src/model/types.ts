@@ -37,9 +37,32 @@ export interface ScreenCoord {
   y: number
 }
 
+/** Position in diagram source text (offset is 0-based, line and column are 1-based) */
+export interface SourcePosition {
+  offset: number
+  line: number
+  column: number
+}
+
+/** Span of diagram source text (end is exclusive) */
+export interface SourceRange {
+  start: SourcePosition
+  end: SourcePosition
+}
+
 /** Port side on a node */
 export type PortSide = 'T' | 'R' | 'B' | 'L'
 
+/**
+ * Side an edge end is pinned to in source (`API:B --> DB`), optionally down to
+ * one port. Ports on a side are numbered from 0 in the order the layout
+ * generates them: left to right on T/B, top to bottom on L/R.
+ */
+export interface PortConstraint {
+  side: PortSide
+  index?: number
+}
+
 /** Connection port on a node edge */
 export interface Port {
   coord: GridCoord     // Grid position of the port
@@ -86,13 +109,18 @@ export interface NodeStyle {
   stroke?: string
   strokeWidth?: number
   opacity?: number
+  color?: string            // Label text color
+  strokeDasharray?: string
 }
 
 export interface Node {
   id: string
   label: string
   shape: ShapeType
-  style?: NodeStyle
+  style?: NodeStyle       // Resolved from classDef/class/:::/style statements
+  classes?: string[]      // classDef names applied to this node
+  sourceRange?: SourceRange  // Declaration in the source (whole `subgraph ... end` block for subgraphs)
+  metadata?: Record<string, string>  // Extra facts from the source, e.g. an architecture-beta icon
 
   // Hierarchy
   parent?: string      // parent subgraph id
@@ -120,6 +148,15 @@ export interface Node {
 export type EdgeStyle = 'solid' | 'dashed' | 'dotted' | 'thick'
 export type ArrowType = 'arrow' | 'open' | 'circle' | 'cross' | 'none'
 
+/** Stroke overrides for an edge (from Mermaid `linkStyle`) */
+export interface EdgeLineStyle {
+  stroke?: string
+  strokeWidth?: number
+  strokeDasharray?: string
+  opacity?: number
+  color?: string            // Label text color
+}
+
 export interface Edge {
   id: string
   from: string          // source node id
@@ -130,9 +167,13 @@ export interface Edge {
   fromArrow?: ArrowType
   toArrow?: ArrowType
   style?: EdgeStyle
+  lineStyle?: EdgeLineStyle  // Resolved from linkStyle statements
+  sourceRange?: SourceRange  // `from --> to` in the source (one link of a chain)
 
   // Port constraints (our extension)
-  fromPort?: PortSide
+  fromPortConstraint?: PortConstraint  // Pinned in source; the router only searches what's left
+  toPortConstraint?: PortConstraint
+  fromPort?: PortSide  // Side the router connected each end to
   toPort?: PortSide
 
   // Port coordinate references (populated by router for unified edge rendering)
@@ -155,10 +196,35 @@ export interface Edge {
 export type ViewMode = 'flat' | 'iso'
 export type NavMode = 'drill' | 'layer' | 'fold'
 
+/** Flow direction from the flowchart header or a `direction` statement (TD is stored as TB) */
+export type FlowDirection = 'TB' | 'BT' | 'LR' | 'RL'
+
+/** Color theme for rendering */
+export type ThemeName = 'light' | 'dark'
+
+/** Per-diagram layout settings (from `layout` in the arch directive) */
+export interface LayoutConfig {
+  direction?: FlowDirection
+  nodeSpacing?: number
+  layerSpacing?: number
+  padding?: number
+}
+
+/** Per-diagram render settings (from `render` in the arch directive) */
+export interface RenderConfig {
+  theme?: ThemeName
+  showGrid?: boolean
+  showTitle?: boolean  // Draw the frontmatter title above the diagram
+  fontSize?: number
+}
+
 export interface GraphConfig {
   view: ViewMode
   nav: NavMode
   grid: GridConfig      // Grid system configuration
+  direction?: FlowDirection  // Declared root direction (layout default if unset)
+  layout?: LayoutConfig  // Overrides layout defaults; explicit LayoutOptions still win
+  render?: RenderConfig  // Overrides render defaults; explicit RenderOptions still win
 }
 
 /** Layer information for hierarchical grids */
@@ -167,14 +233,19 @@ export interface LayerInfo {
   parentId: string | null       // Parent layer ID
   bounds: GridBounds            // Bounds within parent layer
   gridSize: number              // This layer's grid size (e.g., 250)
+  direction?: FlowDirection     // Subgraph `direction` override (inherits parent if unset)
+  sourceRange?: SourceRange     // The `subgraph ... end` block in the source
 }
 
 export interface Graph {
+  title?: string        // From frontmatter
+  description?: string  // From frontmatter
   config: GraphConfig
   nodes: Map<string, Node>
   edges: Edge[]
   rootNodes: string[]           // top-level nodes (no parent)
   layers: Map<string, LayerInfo>  // Layer hierarchy
+  classDefs: Map<string, NodeStyle>  // Named styles from classDef statements
 }
 
 // ============ Navigation State ============
@@ -300,6 +371,7 @@ export function createEmptyGraph(): Graph {
         gridSize: 250,
       }],
     ]),
+    classDefs: new Map(),
   }
 }
 
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { validateGraph } from './validate'
+import { parseMermaid } from '../parser'
+
+const SOURCE = [
+  'flowchart LR',
+  '  subgraph backend',
+  '    subgraph data',
+  '      db[(Orders)]',
+  '    end',
+  '    api --> db',
+  '  end',
+  '  web --> api',
+].join('\n')
+
+describe('validateGraph', () => {
+  it('finds nothing wrong with a parsed graph', async () => {
+    expect(validateGraph(await parseMermaid(SOURCE))).toEqual([])
+  })
+
+  it('reports edges to unknown nodes', async () => {
+    const graph = await parseMermaid(SOURCE)
+    graph.edges.push({ ...graph.edges[0], id: 'lost', to: 'cache' })
+
+    expect(validateGraph(graph)).toEqual([{
+      severity: 'error',
+      code: 'dangling-edge',
+      message: 'Edge "lost" connects unknown node "cache"',
+      edgeId: 'lost',
+      nodeId: 'cache',
+    }])
+  })
+
+  it('reports a parent that does not list its child', async () => {
+    const graph = await parseMermaid(SOURCE)
+    graph.nodes.get('api')!.parent = 'data'
+
+    expect(validateGraph(graph)).toEqual([
+      {
+        severity: 'error',
+        code: 'parent-mismatch',
+        message: 'Node "api" names "data" as parent, which doesn\'t list it as a child',
+        nodeId: 'api',
+      },
+      {
+        severity: 'error',
+        code: 'parent-mismatch',
+        message: 'Subgraph "backend" lists "api" as a child, but its parent is "data"',
+        nodeId: 'api',
+      },
+    ])
+  })
+
+  it('reports ids used twice', async () => {
+    const graph = await parseMermaid(SOURCE)
+    graph.edges.push({ ...graph.edges[1] })
+    graph.nodes.set('alias', graph.nodes.get('web')!)
+
+    expect(validateGraph(graph).filter(issue => issue.code === 'duplicate-id')).toEqual([
+      {
+        severity: 'error',
+        code: 'duplicate-id',
+        message: 'Node "web" is stored under "alias" as well as its own id',
+        nodeId: 'alias',
+      },
+      {
+        severity: 'error',
+        code: 'duplicate-id',
+        message: `Edge id "${graph.edges[1].id}" is used more than once`,
+        edgeId: graph.edges[1].id,
+      },
+    ])
+  })
+
+  it('reports a parent chain that loops once', async () => {
+    const graph = await parseMermaid(SOURCE)
+    graph.nodes.get('backend')!.parent = 'data'
+
+    expect(validateGraph(graph).filter(issue => issue.code === 'parent-cycle')).toEqual([{
+      severity: 'error',
+      code: 'parent-cycle',
+      message: 'Parent chain loops: backend -> data -> backend',
+      nodeId: 'backend',
+    }])
+  })
+
+  it('warns about subgraphs with no children', async () => {
+    const graph = await parseMermaid(SOURCE)
+    const db = graph.nodes.get('db')!
+    graph.nodes.get('data')!.children = []
+    db.parent = 'backend'
+    graph.nodes.get('backend')!.children!.push('db')
+
+    expect(validateGraph(graph)).toEqual([{
+      severity: 'warning',
+      code: 'empty-layer',
+      message: 'Subgraph "data" has no children',
+      nodeId: 'data',
+      layerId: 'data',
+    }])
+  })
+
+  it('warns about edges between a subgraph and its own descendants', async () => {
+    const graph = await parseMermaid(`${SOURCE}\n  db --> backend`)
+    const edge = graph.edges[graph.edges.length - 1]
+
+    expect(validateGraph(graph)).toEqual([{
+      severity: 'warning',
+      code: 'descendant-edge',
+      message: `Edge "${edge.id}" connects subgraph "backend" to "db" inside it`,
+      edgeId: edge.id,
+    }])
+  })
+})
@@ -0,0 +1,207 @@
+/**
+ * Structural checks for a Graph
+ *
+ * The hierarchy is stored redundantly (`parent`, `children`, `rootNodes`
+ * and `layers` all describe it), so code that builds or edits a Graph can
+ * leave it saying two different things. validateGraph finds those places.
+ * It reports rather than repairs, and never throws.
+ */
+
+import type { Graph, Node } from './types'
+
+export type GraphIssueSeverity = 'error' | 'warning'
+
+export type GraphIssueCode =
+  | 'dangling-edge'       // Edge end names no node
+  | 'dangling-reference'  // parent, children, rootNodes or a layer naming no node
+  | 'duplicate-id'        // Two edges with one id, or a node stored under another node's id
+  | 'subgraph-mismatch'   // Leaf with children or a layer, or a subgraph without a layer
+  | 'parent-mismatch'     // parent, children, rootNodes and layer parents disagree
+  | 'parent-cycle'        // Node that is its own ancestor
+  | 'empty-layer'         // Subgraph with no children
+  | 'descendant-edge'     // Edge between a subgraph and something inside it
+
+export interface GraphIssue {
+  severity: GraphIssueSeverity
+  code: GraphIssueCode
+  message: string
+  nodeId?: string
+  edgeId?: string
+  layerId?: string
+}
+
+/**
+ * Check a graph's hierarchy and edges for consistency. Works on parsed and
+ * laid-out graphs alike; an empty result means the structure is sound.
+ */
+export function validateGraph(graph: Graph): GraphIssue[] {
+  const issues: GraphIssue[] = []
+  const { nodes, layers } = graph
+
+  // Ids
+  for (const [key, node] of nodes) {
+    if (node.id === key) continue
+    issues.push({
+      severity: 'error',
+      code: 'duplicate-id',
+      message: nodes.has(node.id)
+        ? `Node "${node.id}" is stored under "${key}" as well as its own id`
+        : `Node "${node.id}" is stored under "${key}"`,
+      nodeId: key,
+    })
+  }
+  const edgeIds = new Set<string>()
+  for (const edge of graph.edges) {
+    if (edgeIds.has(edge.id)) {
+      issues.push({ severity: 'error', code: 'duplicate-id', message: `Edge id "${edge.id}" is used more than once`, edgeId: edge.id })
+    }
+    edgeIds.add(edge.id)
+  }
+
+  // Leaves and subgraphs
+  for (const node of nodes.values()) {
+    if (!node.isSubgraph && node.children?.length) {
+      issues.push({ severity: 'error', code: 'subgraph-mismatch', message: `Node "${node.id}" has children but isn't a subgraph`, nodeId: node.id })
+    } else if (!node.isSubgraph && layers.has(node.id)) {
+      issues.push({ severity: 'error', code: 'subgraph-mismatch', message: `Node "${node.id}" has a layer but isn't a subgraph`, nodeId: node.id })
+    } else if (node.isSubgraph && !layers.has(node.id)) {
+      issues.push({ severity: 'error', code: 'subgraph-mismatch', message: `Subgraph "${node.id}" has no layer`, nodeId: node.id })
+    }
+  }
+
+  // Parents and children, both ways
+  for (const node of nodes.values()) {
+    if (node.parent === undefined) continue
+    const parent = nodes.get(node.parent)
+    if (!parent) {
+      issues.push({ severity: 'error', code: 'dangling-reference', message: `Node "${node.id}" has unknown parent "${node.parent}"`, nodeId: node.id })
+    } else if (!parent.children?.includes(node.id)) {
+      issues.push({ severity: 'error', code: 'parent-mismatch', message: `Node "${node.id}" names "${node.parent}" as parent, which doesn't list it as a child`, nodeId: node.id })
+    }
+  }
+  for (const node of nodes.values()) {
+    const seen = new Set<string>()
+    for (const childId of node.children ?? []) {
+      const child = nodes.get(childId)
+      if (seen.has(childId)) {
+        issues.push({ severity: 'error', code: 'parent-mismatch', message: `Subgraph "${node.id}" lists "${childId}" more than once`, nodeId: node.id })
+      } else if (!child) {
+        issues.push({ severity: 'error', code: 'dangling-reference', message: `Subgraph "${node.id}" has unknown child "${childId}"`, nodeId: node.id })
+      } else if (child.parent !== node.id) {
+        issues.push({
+          severity: 'error',
+          code: 'parent-mismatch',
+          message: `Subgraph "${node.id}" lists "${childId}" as a child, but its parent is ${child.parent ? `"${child.parent}"` : 'the root'}`,
+          nodeId: childId,
+        })
+      }
+      seen.add(childId)
+    }
+  }
+
+  // Root list
+  const roots = new Set<string>()
+  for (const id of graph.rootNodes) {
+    const node = nodes.get(id)
+    if (roots.has(id)) {
+      issues.push({ severity: 'error', code: 'parent-mismatch', message: `"${id}" is listed as a root node more than once`, nodeId: id })
+    } else if (!node) {
+      issues.push({ severity: 'error', code: 'dangling-reference', message: `Unknown root node "${id}"`, nodeId: id })
+    } else if (node.parent !== undefined) {
+      issues.push({ severity: 'error', code: 'parent-mismatch', message: `"${id}" is listed as a root node, but its parent is "${node.parent}"`, nodeId: id })
+    }
+    roots.add(id)
+  }
+  for (const node of nodes.values()) {
+    if (node.parent === undefined && !roots.has(node.id)) {
+      issues.push({ severity: 'error', code: 'parent-mismatch', message: `Node "${node.id}" has no parent but isn't listed as a root node`, nodeId: node.id })
+    }
+  }
+
+  // Layers
+  for (const layer of layers.values()) {
+    if (layer.id === 'root') continue
+    const node = nodes.get(layer.id)
+    if (!node) {
+      issues.push({ severity: 'error', code: 'dangling-reference', message: `Layer "${layer.id}" has no subgraph node`, layerId: layer.id })
+      continue
+    }
+    const expected = node.parent ?? 'root'
+    if (layer.parentId !== expected) {
+      issues.push({
+        severity: 'error',
+        code: 'parent-mismatch',
+        message: `Layer "${layer.id}" sits in layer "${layer.parentId}", but its subgraph's parent is ${node.parent ? `"${node.parent}"` : 'the root'}`,
+        layerId: layer.id,
+      })
+    }
+    if (node.isSubgraph && !node.children?.length) {
+      issues.push({ severity: 'warning', code: 'empty-layer', message: `Subgraph "${layer.id}" has no children`, nodeId: node.id, layerId: layer.id })
+    }
+  }
+
+  // Cycles, each reported once from where it's first found
+  const inCycle = new Set<string>()
+  for (const node of nodes.values()) {
+    const cycle = parentCycle(nodes, node)
+    if (!cycle || cycle.some(id => inCycle.has(id))) continue
+    cycle.forEach(id => inCycle.add(id))
+    issues.push({
+      severity: 'error',
+      code: 'parent-cycle',
+      message: `Parent chain loops: ${[...cycle, cycle[0]].join(' -> ')}`,
+      nodeId: cycle[0],
+    })
+  }
+
+  // Edges
+  for (const edge of graph.edges) {
+    const missing = [edge.from, edge.to].filter(id => !nodes.has(id))
+    for (const id of new Set(missing)) {
+      issues.push({ severity: 'error', code: 'dangling-edge', message: `Edge "${edge.id}" connects unknown node "${id}"`, edgeId: edge.id, nodeId: id })
+    }
+    if (missing.length) continue
+
+    const [outer, inner] = ancestors(nodes, edge.to).includes(edge.from) ? [edge.from, edge.to]
+      : ancestors(nodes, edge.from).includes(edge.to) ? [edge.to, edge.from]
+      : []
+    if (outer !== undefined) {
+      issues.push({
+        severity: 'warning',
+        code: 'descendant-edge',
+        message: `Edge "${edge.id}" connects subgraph "${outer}" to "${inner}" inside it`,
+        edgeId: edge.id,
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Parent ids above a node, nearest first, stopping if the chain loops
+ */
+function ancestors(nodes: Map<string, Node>, id: string): string[] {
+  const chain: string[] = []
+  let parent = nodes.get(id)?.parent
+  while (parent !== undefined && parent !== id && !chain.includes(parent)) {
+    chain.push(parent)
+    parent = nodes.get(parent)?.parent
+  }
+  return chain
+}
+
+/**
+ * The loop a node's parent chain runs into, if any, starting from where it closes
+ */
+function parentCycle(nodes: Map<string, Node>, node: Node): string[] | null {
+  const chain = [node.id]
+  let parent = node.parent
+  while (parent !== undefined && nodes.has(parent)) {
+    const index = chain.indexOf(parent)
+    if (index >= 0) return chain.slice(index)
+    chain.push(parent)
+    parent = nodes.get(parent)!.parent
+  }
+  return null
+}
@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { parseMermaid, parseMermaidWithDiagnostics } from './mermaid'
+import { validateGraph } from '../model/validate'
+import { diagram } from '..'
+
+/** Parse an architecture-beta body, failing the test on any diagnostic */
+async function parse(body: string) {
+  const { graph, diagnostics } = await parseMermaidWithDiagnostics(`architecture-beta\n${body}`)
+  expect(diagnostics).toEqual([])
+  return graph
+}
+
+describe('architecture-beta', () => {
+  it('turns groups into subgraphs with a layer each, nested with in', async () => {
+    const graph = await parse([
+      '  group cloud(cloud)[Cloud]',
+      '  group api[API] in cloud',
+      '  service server(server)[Server] in api',
+      '  service web(internet)[Web]',
+    ].join('\n'))
+
+    expect(graph.rootNodes).toEqual(['cloud', 'web'])
+    expect(graph.nodes.get('cloud')).toMatchObject({
+      isSubgraph: true,
+      label: 'Cloud',
+      children: ['api'],
+      metadata: { kind: 'group', icon: 'cloud' },
+    })
+    expect(graph.nodes.get('api')).toMatchObject({ isSubgraph: true, parent: 'cloud', children: ['server'] })
+    expect(graph.layers.get('api')?.parentId).toBe('cloud')
+    expect(graph.nodes.get('server')).toMatchObject({ parent: 'api', gridPos: { layer: 'api' } })
+    expect(validateGraph(graph)).toEqual([])
+  })
+
+  it('accepts a group declared after its members', async () => {
+    const graph = await parse('  service db(database)[DB] in api\n  group api[API]')
+    expect(graph.nodes.get('api')?.children).toEqual(['db'])
+    expect(validateGraph(graph)).toEqual([])
+  })
+
+  it.each([
+    ['service db(database)[Database]', { label: 'Database', shape: 'cylinder', metadata: { kind: 'service', icon: 'database' } }],
+    ['service store(disk)[Store]', { label: 'Store', shape: 'cylinder' }],
+    ['service app(server)', { label: 'app', shape: 'rect', metadata: { kind: 'service', icon: 'server' } }],
+    ['service s3 "🪣"[Bucket]', { label: 'Bucket', shape: 'rect', metadata: { kind: 'service', iconText: '🪣' } }],
+    ['junction hub', { label: '', shape: 'circle', metadata: { kind: 'junction' } }],
+  ])('reads %s', async (statement, expected) => {
+    const graph = await parse(`  ${statement}`)
+    expect([...graph.nodes.values()]).toEqual([expect.objectContaining(expected)])
+  })
+
+  it('turns edge sides into port constraints', async () => {
+    const graph = await parse([
+      '  service db(database)[DB]',
+      '  service server(server)[Server]',
+      '  service web(internet)[Web]',
+      '  db:R -- L:server',
+      '  server:T <--> B:web',
+      '  web : L -[requests]-> R : db',
+    ].join('\n'))
+
+    expect(graph.edges.map(({ from, to, fromArrow, toArrow, label, fromPortConstraint, toPortConstraint }) =>
+      ({ from, to, fromArrow, toArrow, label, fromPortConstraint, toPortConstraint }))).toEqual([
+      { from: 'db', to: 'server', fromArrow: 'none', toArrow: 'none', label: undefined, fromPortConstraint: { side: 'R' }, toPortConstraint: { side: 'L' } },
+      { from: 'server', to: 'web', fromArrow: 'arrow', toArrow: 'arrow', label: undefined, fromPortConstraint: { side: 'T' }, toPortConstraint: { side: 'B' } },
+      { from: 'web', to: 'db', fromArrow: 'none', toArrow: 'arrow', label: 'requests', fromPortConstraint: { side: 'L' }, toPortConstraint: { side: 'R' } },
+    ])
+  })
+
+  it('connects {group} ends to the group around the service', async () => {
+    const graph = await parse([
+      '  group api[API]',
+      '  service server[Server] in api',
+      '  service gateway[Gateway]',
+      '  server{group}:B --> T:gateway',
+    ].join('\n'))
+    expect(graph.edges).toMatchObject([{ from: 'api', to: 'gateway', fromPortConstraint: { side: 'B' } }])
+    expect(validateGraph(graph)).toEqual([])
+  })
+
+  it('ignores accessibility statements', async () => {
+    const graph = await parse('  accTitle: Services\n  accDescr: How they connect\n  service a')
+    expect([...graph.nodes.keys()]).toEqual(['a'])
+  })
+
+  it.each([
+    ['service a\n  a:R -- L:missing', 'Unknown service or junction "missing"', 'missing'],
+    ['service a in nowhere', 'Unknown group "nowhere"', 'nowhere'],
+    ['junction j\n  service a in j', '"j" is a junction, not a group', 'j'],
+    ['group g\n  service a\n  a:R -- L:g', '"g" is a group; use a service with {group} to connect to it', 'g'],
+    ['service a\n  service b\n  a{group}:R -- L:b', '"a{group}" used, but "a" is not in a group', 'a'],
+  ])('reports an unknown or unusable reference in %s', async (body, message, text) => {
+    const source = `architecture-beta\n  ${body}`
+    const { diagnostics } = await parseMermaidWithDiagnostics(source)
+    expect(diagnostics).toMatchObject([{ severity: 'error', code: 'undefined-reference', message }])
+    const { start, end } = diagnostics[0].range
+    expect(source.slice(start.offset, end.offset)).toBe(text)
+  })
+
+  it('reports both groups of an in cycle and keeps them at the root', async () => {
+    const { graph, diagnostics } = await parseMermaidWithDiagnostics('architecture-beta\n  group g1 in g2\n  group g2 in g1')
+    expect(diagnostics.map(d => d.message)).toEqual(['Group "g2" is inside "g1"', 'Group "g1" is inside "g2"'])
+    expect(graph.rootNodes).toEqual(['g1', 'g2'])
+    expect(validateGraph(graph).filter(issue => issue.severity === 'error')).toEqual([])
+  })
+
+  it('reports an id declared twice', async () => {
+    await expect(parseMermaid('architecture-beta\n  service a\n  group a')).rejects.toThrow(
+      /"a" is already declared on line 2 \[duplicate-id\]/
+    )
+  })
+
+  it('reports statements outside the grammar', async () => {
+    const { diagnostics } = await parseMermaidWithDiagnostics('architecture-beta\n  service a\n  a -> b')
+    expect(diagnostics).toMatchObject([{ code: 'unrecognized-statement', range: { start: { line: 3 } } }])
+  })
+})
+
+describe('architecture-beta diagrams', () => {
+  // Layout and rendering log their progress
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('render in flat and iso views', async () => {
+    const source = [
+      'architecture-beta',
+      '  group api(cloud)[API]',
+      '  service db(database)[Database] in api',
+      '  service server(server)[Server] in api',
+      '  db:R --> L:server',
+    ].join('\n')
+
+    for (const viewMode of ['flat', 'iso'] as const) {
+      const svg = await diagram(source, { render: { viewMode } })
+      expect(svg).toMatch(/^<svg/)
+      expect(svg).toContain('Database')
+      expect(svg).toContain('Server')
+    }
+  })
+})
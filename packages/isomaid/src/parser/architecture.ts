@@ -0,0 +1,250 @@
+/**
+ * Mermaid architecture-beta parser
+ *
+ *   architecture-beta
+ *     group api(cloud)[API]
+ *     service db(database)[Database] in api
+ *     service server(server)[Server] in api
+ *     junction hub in api
+ *     db:R -- L:server
+ *     server{group}:B --> T:gateway
+ *
+ * Maps onto the same Graph as flowcharts: groups become subgraphs with their
+ * own layers, services and junctions become nodes, and the side letter on
+ * each end of an edge becomes a port constraint. Icons are kept in node
+ * metadata (`icon`, or `iconText` for `service id "text"`), alongside the
+ * statement `kind`.
+ */
+
+import type { Graph, PortSide, ShapeType } from '../model/types'
+import { GraphBuilder } from '../model/builder'
+import type { ParseDiagnostic } from './diagnostics'
+import type { Statement, Span } from './tokenizer'
+import { statementRange } from './tokenizer'
+
+export const ARCHITECTURE_HEADER_PATTERN = /^architecture-beta$/
+
+type DeclarationKind = 'group' | 'service' | 'junction'
+
+/** A group, service or junction statement */
+interface Declaration {
+  kind: DeclarationKind
+  id: string
+  icon?: string
+  iconText?: string
+  title?: string
+  parent?: string
+  parentSpan?: Span
+  statement: Statement
+}
+
+/** One end of an edge statement */
+interface EdgeEnd {
+  id: string
+  span: Span
+  toGroup: boolean  // `id{group}` attaches to the group around the service
+  side: PortSide
+}
+
+const GROUP_PATTERN = /^group\s+([\w-]+)\s*(?:\(([^)]*)\))?\s*(?:\[([^\]]*)\])?\s*(?:in\s+([\w-]+))?$/
+const SERVICE_PATTERN = /^service\s+([\w-]+)\s*(?:\(([^)]*)\)|"([^"]*)")?\s*(?:\[([^\]]*)\])?\s*(?:in\s+([\w-]+))?$/
+const JUNCTION_PATTERN = /^junction\s+([\w-]+)\s*(?:in\s+([\w-]+))?$/
+
+// db:R -- L:server, a{group}:B <--> T:b, api:R -[calls]-> L:db
+const EDGE_PATTERN = /^([\w-]+)(\{group\})?\s*:\s*([TRBL])\s*(<?)-(?:\[([^\]]*)\])?-(>?)\s*([TRBL])\s*:\s*([\w-]+)(\{group\})?$/
+
+// Valid statements that carry nothing we model
+const IGNORED_STATEMENT_PATTERN = /^(?:accTitle|accDescr)\b/
+
+// Mermaid's built-in icons that have a matching node shape
+const ICON_SHAPES: Record<string, ShapeType> = {
+  database: 'cylinder',
+  disk: 'cylinder',
+}
+
+/**
+ * Build the graph from the statements after the `architecture-beta` header.
+ * Unreadable statements go to `reportInvalid`; declarations that clash or
+ * refer to unknown ids are reported here, as warnings when Mermaid has
+ * already validated the source.
+ */
+export function parseArchitectureStatements(
+  graph: Graph,
+  statements: Statement[],
+  starts: number[],
+  diagnostics: ParseDiagnostic[],
+  reportInvalid: (statement: Statement) => void,
+  validate: boolean
+): void {
+  const severity = validate ? 'warning' : 'error'
+  const report = (code: ParseDiagnostic['code'], message: string, statement: Statement, span?: Span) => {
+    diagnostics.push({
+      severity,
+      code,
+      message,
+      range: span ? statementRange(starts, statement, span) : statement.range,
+    })
+  }
+
+  const declarations = new Map<string, Declaration>()
+  const edges: Array<{ from: EdgeEnd; to: EdgeEnd; startMarker: string; endMarker: string; label?: string; statement: Statement }> = []
+
+  for (const statement of statements) {
+    const declaration = parseDeclaration(statement)
+    if (declaration) {
+      const previous = declarations.get(declaration.id)
+      if (previous) {
+        report('duplicate-id', `"${declaration.id}" is already declared on line ${previous.statement.range.start.line}`, statement)
+        continue
+      }
+      declarations.set(declaration.id, declaration)
+      continue
+    }
+
+    const edgeMatch = statement.text.match(EDGE_PATTERN)
+    if (edgeMatch) {
+      const [, fromId, fromGroup, fromSide, startMarker, label, endMarker, toSide, toId, toGroup] = edgeMatch
+      const toStart = statement.text.length - toId.length - (toGroup ?? '').length
+      edges.push({
+        from: { id: fromId, span: { start: 0, end: fromId.length }, toGroup: !!fromGroup, side: fromSide as PortSide },
+        to: { id: toId, span: { start: toStart, end: toStart + toId.length }, toGroup: !!toGroup, side: toSide as PortSide },
+        startMarker,
+        endMarker,
+        label: label?.trim() || undefined,
+        statement,
+      })
+      continue
+    }
+
+    if (IGNORED_STATEMENT_PATTERN.test(statement.text)) continue
+
+    reportInvalid(statement)
+  }
+
+  // Parents may be declared after their members, so hierarchy is resolved once everything is known
+  const parentOf = (declaration: Declaration): string | undefined => {
+    if (!declaration.parent) return undefined
+    const parent = declarations.get(declaration.parent)
+    if (parent?.kind === 'group' && !isAncestor(declarations, declaration.id, parent.id)) {
+      return parent.id
+    }
+
+    const message = !parent
+      ? `Unknown group "${declaration.parent}"`
+      : parent.kind !== 'group'
+        ? `"${declaration.parent}" is a ${parent.kind}, not a group`
+        : `Group "${declaration.parent}" is inside "${declaration.id}"`
+    report('undefined-reference', message, declaration.statement, declaration.parentSpan)
+    return undefined
+  }
+
+  const parents = new Map<string, string | undefined>()
+  for (const declaration of declarations.values()) {
+    parents.set(declaration.id, parentOf(declaration))
+  }
+
+  const builder = new GraphBuilder(graph)
+  for (const declaration of declarations.values()) {
+    const metadata: Record<string, string> = { kind: declaration.kind }
+    if (declaration.icon) metadata.icon = declaration.icon
+    if (declaration.iconText) metadata.iconText = declaration.iconText
+
+    const options = {
+      label: declaration.kind === 'junction' ? '' : declaration.title ?? declaration.id,
+      sourceRange: declaration.statement.range,
+      metadata,
+    }
+    if (declaration.kind === 'group') {
+      builder.subgraph(declaration.id, options)
+    } else {
+      builder.node(declaration.id, {
+        ...options,
+        shape: declaration.kind === 'junction' ? 'circle' : ICON_SHAPES[declaration.icon ?? ''] ?? 'rect',
+      })
+    }
+  }
+
+  // Into their groups in declaration order, now that every group node exists
+  for (const declaration of declarations.values()) {
+    const parent = parents.get(declaration.id)
+    if (parent) builder.within(parent).move(declaration.id)
+  }
+
+  for (const { from, to, startMarker, endMarker, label, statement } of edges) {
+    const fromId = resolveEnd(from, statement)
+    const toId = resolveEnd(to, statement)
+    if (!fromId || !toId) continue
+
+    builder.edge(fromId, toId, {
+      label,
+      style: 'solid',
+      fromArrow: startMarker ? 'arrow' : 'none',
+      toArrow: endMarker ? 'arrow' : 'none',
+      sourceRange: statement.range,
+      fromPortConstraint: { side: from.side },
+      toPortConstraint: { side: to.side },
+    })
+  }
+
+  /** The node an edge end attaches to, or undefined if it names nothing usable */
+  function resolveEnd(end: EdgeEnd, statement: Statement): string | undefined {
+    const declaration = declarations.get(end.id)
+    if (!declaration) {
+      report('undefined-reference', `Unknown service or junction "${end.id}"`, statement, end.span)
+      return undefined
+    }
+    if (declaration.kind === 'group') {
+      report('undefined-reference', `"${end.id}" is a group; use a service with {group} to connect to it`, statement, end.span)
+      return undefined
+    }
+    if (!end.toGroup) return end.id
+
+    const group = parents.get(end.id)
+    if (!group) {
+      report('undefined-reference', `"${end.id}{group}" used, but "${end.id}" is not in a group`, statement, end.span)
+      return undefined
+    }
+    return group
+  }
+}
+
+/**
+ * Parse a group, service or junction statement
+ */
+function parseDeclaration(statement: Statement): Declaration | null {
+  const { text } = statement
+  let declaration: Omit<Declaration, 'statement' | 'parentSpan'> | null = null
+
+  const groupMatch = text.match(GROUP_PATTERN)
+  const serviceMatch = text.match(SERVICE_PATTERN)
+  const junctionMatch = text.match(JUNCTION_PATTERN)
+  if (groupMatch) {
+    const [, id, icon, title, parent] = groupMatch
+    declaration = { kind: 'group', id, icon: icon?.trim() || undefined, title: title?.trim(), parent }
+  } else if (serviceMatch) {
+    const [, id, icon, iconText, title, parent] = serviceMatch
+    declaration = { kind: 'service', id, icon: icon?.trim() || undefined, iconText, title: title?.trim(), parent }
+  } else if (junctionMatch) {
+    const [, id, parent] = junctionMatch
+    declaration = { kind: 'junction', id, parent }
+  }
+  if (!declaration) return null
+
+  // `in parent` always ends the statement
+  const parentSpan = declaration.parent
+    ? { start: text.length - declaration.parent.length, end: text.length }
+    : undefined
+  return { ...declaration, statement, parentSpan }
+}
+
+/**
+ * True if `ancestorId` is `id` or contains it, following `in` declarations
+ */
+function isAncestor(declarations: Map<string, Declaration>, ancestorId: string, id: string): boolean {
+  const seen = new Set<string>()
+  for (let current: string | undefined = id; current && !seen.has(current); current = declarations.get(current)?.parent) {
+    if (current === ancestorId) return true
+    seen.add(current)
+  }
+  return false
+}
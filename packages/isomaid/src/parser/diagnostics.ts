@@ -0,0 +1,66 @@
+/**
+ * Parse diagnostics
+ *
+ * Problems found while reading diagram source, each tied to the span of
+ * source text it refers to so editors can underline it.
+ */
+
+import type { Graph, SourceRange } from '../model/types'
+
+export type DiagnosticSeverity = 'error' | 'warning'
+
+export type DiagnosticCode =
+  | 'invalid-syntax'          // Rejected by the flowchart grammar (or by Mermaid when validating)
+  | 'unrecognized-statement'  // Accepted by Mermaid (or not plainly broken) but not something we model
+  | 'unbalanced-end'          // `end` without an open subgraph
+  | 'unclosed-subgraph'       // `subgraph` without a matching `end`
+  | 'conflicting-shape'       // Node declared again with a different shape
+  | 'duplicate-id'            // architecture-beta id declared twice, or an include id already in use
+  | 'undefined-reference'     // architecture-beta edge or `in` naming something never declared, or a qualified id an include lacks
+  | 'invalid-directive'       // %%{arch}%% or %%{init}%% that can't be read, or a setting of the wrong type
+  | 'duplicate-directive'     // A second %%{arch}%% (its settings are still merged over the first)
+  | 'unknown-directive-key'   // arch setting or frontmatter key we don't recognize
+  | 'invalid-frontmatter'     // --- frontmatter --- that isn't valid YAML or is never closed
+  | 'missing-include'         // %%{include}%% of a file the loader can't find (or with no loader)
+  | 'cyclic-include'          // %%{include}%% of a file that, directly or not, includes this one
+
+export interface ParseDiagnostic {
+  severity: DiagnosticSeverity
+  code: DiagnosticCode
+  message: string
+  range: SourceRange
+}
+
+/** Graph plus everything noticed while building it */
+export interface ParseResult {
+  graph: Graph
+  diagnostics: ParseDiagnostic[]
+}
+
+/**
+ * Thrown by parseMermaid when the source has error-severity diagnostics
+ */
+export class MermaidParseError extends Error {
+  readonly diagnostics: ParseDiagnostic[]
+
+  constructor(diagnostics: ParseDiagnostic[]) {
+    super(diagnostics.filter(d => d.severity === 'error').map(formatDiagnostic).join('\n'))
+    this.name = 'MermaidParseError'
+    this.diagnostics = diagnostics
+  }
+}
+
+/**
+ * Format a diagnostic as `line:column severity message [code]`
+ */
+export function formatDiagnostic(diagnostic: ParseDiagnostic): string {
+  const { line, column } = diagnostic.range.start
+  return `${line}:${column} ${diagnostic.severity} ${diagnostic.message} [${diagnostic.code}]`
+}
+
+/**
+ * True if any diagnostic is an error
+ */
+export function hasErrors(diagnostics: ParseDiagnostic[]): boolean {
+  return diagnostics.some(d => d.severity === 'error')
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import { extractArchDirective, extractInitDirective } from './directive'
+import { lineStarts } from './tokenizer'
+import type { ParseDiagnostic } from './diagnostics'
+
+function extract(source: string, extractor = extractArchDirective) {
+  const diagnostics: ParseDiagnostic[] = []
+  const result = extractor(source, lineStarts(source), diagnostics)
+  return { ...result, diagnostics }
+}
+
+describe('extractArchDirective', () => {
+  it('reads JSON5 bodies with nested sections over several lines', () => {
+    const source = [
+      '%%{arch: {',
+      "  view: 'iso', nav: \"layer\",",
+      '  layout: {direction: "TD", nodeSpacing: 80,},',
+      "  render: {theme: 'dark', showGrid: true},",
+      '  grid: {cellSize: 32},',
+      '}}%%',
+      'flowchart LR',
+    ].join('\n')
+    const { config, cleanSource, diagnostics } = extract(source)
+
+    expect(config).toEqual({
+      view: 'iso',
+      nav: 'layer',
+      layout: { direction: 'TB', nodeSpacing: 80 },
+      render: { theme: 'dark', showGrid: true },
+      grid: { cellSize: 32 },
+    })
+    expect(diagnostics).toEqual([])
+    // Blanked rather than removed, so offsets still line up
+    expect(cleanSource).toHaveLength(source.length)
+    expect(cleanSource.trim()).toBe('flowchart LR')
+  })
+
+  it('warns about unknown keys and values of the wrong type, keeping the rest', () => {
+    const source = '%%{arch: {veiw: "iso", nav: "drill", layout: {nodeSpacing: -1, gap: 4}, grid: 8}}%%'
+    const { config, diagnostics } = extract(source)
+
+    expect(config).toEqual({ nav: 'drill', layout: {} })
+    expect(diagnostics.map(({ severity, code, message }) => ({ severity, code, message }))).toEqual([
+      { severity: 'warning', code: 'unknown-directive-key', message: 'Unknown arch directive key "veiw"' },
+      { severity: 'warning', code: 'invalid-directive', message: '"layout.nodeSpacing" must be a number >= 0' },
+      { severity: 'warning', code: 'unknown-directive-key', message: 'Unknown arch directive key "layout.gap"' },
+      { severity: 'warning', code: 'invalid-directive', message: '"grid" must be an object' },
+    ])
+    expect(diagnostics[0].range).toEqual({
+      start: { offset: 10, line: 1, column: 11 },
+      end: { offset: 14, line: 1, column: 15 },
+    })
+  })
+
+  it('reads colons and closing braces inside string values as text', () => {
+    const source = '%%{arch: {view: "iso: }%%", nav: "fold"}}%%\nflowchart LR'
+    const { config, cleanSource, diagnostics } = extract(source)
+
+    expect(config).toEqual({ nav: 'fold' })
+    expect(diagnostics).toMatchObject([{ code: 'invalid-directive', message: '"view" must be "flat" | "iso"' }])
+    expect(cleanSource.trim()).toBe('flowchart LR')
+  })
+
+  it('blanks a directive it cannot parse up to the end of its line', () => {
+    const source = '%%{arch: {view: iso}}%%\nflowchart LR'
+    const { config, cleanSource, diagnostics } = extract(source)
+
+    expect(config).toEqual({})
+    expect(cleanSource).toBe(' '.repeat(23) + '\nflowchart LR')
+    expect(diagnostics).toMatchObject([{
+      severity: 'warning',
+      code: 'invalid-directive',
+      range: { start: { line: 1, column: 17 } },
+    }])
+    expect(diagnostics[0].message).toMatch(/^Failed to parse arch directive: /)
+  })
+
+  it('rejects a body that is not an object', () => {
+    const { config, diagnostics } = extract('%%{arch: "iso"}%%')
+    expect(config).toEqual({})
+    expect(diagnostics).toMatchObject([{ code: 'invalid-directive', message: 'arch directive must be an object' }])
+  })
+
+  it('merges a second directive over the first and warns about it', () => {
+    const source = [
+      '%%{arch: {view: "iso", layout: {nodeSpacing: 40}}}%%',
+      'flowchart LR',
+      '%%{arch: {layout: {padding: 10}, render: {theme: "dark"}}}%%',
+      'A --> B',
+    ].join('\n')
+    const { config, cleanSource, diagnostics } = extract(source)
+
+    expect(config).toEqual({ view: 'iso', layout: { nodeSpacing: 40, padding: 10 }, render: { theme: 'dark' } })
+    expect(cleanSource).not.toContain('%%')
+    expect(diagnostics).toMatchObject([{
+      severity: 'warning',
+      code: 'duplicate-directive',
+      range: { start: { line: 3, column: 1 } },
+    }])
+  })
+})
+
+describe('extractInitDirective', () => {
+  it('keeps the Mermaid settings we honour and ignores the rest', () => {
+    const source = '%%{init: {"theme": "forest", "flowchart": {"rankSpacing": 60, "curve": "basis"}, "arch": {"view": "iso"}}}%%'
+    const { config, cleanSource, diagnostics } = extract(source, extractInitDirective)
+
+    expect(config).toEqual({ view: 'iso', render: { theme: 'light' }, layout: { layerSpacing: 60 } })
+    expect(diagnostics).toEqual([])
+    expect(cleanSource.trim()).toBe('')
+  })
+
+  it('warns about a setting of the wrong type', () => {
+    const { config, diagnostics } = extract('%%{init: {"flowchart": {"nodeSpacing": "wide"}}}%%', extractInitDirective)
+    expect(config).toEqual({})
+    expect(diagnostics).toMatchObject([{ code: 'invalid-directive', message: '"flowchart.nodeSpacing" must be a number >= 0' }])
+  })
+})
@@ -0,0 +1,321 @@
+/**
+ * Directive readers
+ *
+ * Reads our `%%{arch: {...}}%%` directive. The body is JSON5-style, so keys
+ * may be unquoted, strings single-quoted and objects nested:
+ *
+ *   %%{arch: {
+ *     view: 'iso',
+ *     layout: {direction: 'LR', nodeSpacing: 80},
+ *     render: {theme: 'dark'},
+ *   }}%%
+ *
+ * Also reads the parts of Mermaid's own config we can honour, from
+ * `%%{init: {...}}%%` or a frontmatter `config:` block.
+ *
+ * Unknown keys and values of the wrong type are reported as warnings and
+ * otherwise ignored, so a typo never stops a diagram from rendering.
+ */
+
+import type {
+  FlowDirection, GridConfig, LayoutConfig, NavMode, RenderConfig, ThemeName, ViewMode,
+} from '../model/types'
+import type { ParseDiagnostic } from './diagnostics'
+import type { Json5Node } from './json5'
+import { parseJson5, Json5SyntaxError } from './json5'
+import { rangeAt, blank } from './tokenizer'
+
+/** Settings read from the arch directive */
+export interface ArchDirective {
+  view?: ViewMode
+  nav?: NavMode
+  layout?: LayoutConfig
+  render?: RenderConfig
+  grid?: Partial<GridConfig>
+}
+
+/**
+ * Normalize a Mermaid direction keyword (TD is an alias for TB)
+ */
+export function normalizeDirection(direction: string): FlowDirection {
+  const upper = direction.toUpperCase()
+  return (upper === 'TD' ? 'TB' : upper) as FlowDirection
+}
+
+/** How to read one directive key */
+interface KeySpec {
+  expected: string                        // For the diagnostic when `read` rejects a value
+  read: (node: Json5Node) => unknown      // undefined means invalid
+}
+
+const oneOf = <T extends string>(...values: T[]): KeySpec => ({
+  expected: values.map(v => `"${v}"`).join(' | '),
+  read: node => node.type === 'string' && (values as string[]).includes(node.value) ? node.value : undefined,
+})
+
+const flowDirection: KeySpec = {
+  expected: '"TB" | "TD" | "BT" | "LR" | "RL"',
+  read: node => node.type === 'string' && /^(TB|TD|BT|LR|RL)$/i.test(node.value)
+    ? normalizeDirection(node.value)
+    : undefined,
+}
+
+const nonNegativeNumber: KeySpec = {
+  expected: 'a number >= 0',
+  read: node => node.type === 'number' && Number.isFinite(node.value) && node.value >= 0 ? node.value : undefined,
+}
+
+const positiveNumber: KeySpec = {
+  expected: 'a number > 0',
+  read: node => node.type === 'number' && Number.isFinite(node.value) && node.value > 0 ? node.value : undefined,
+}
+
+const boolean: KeySpec = {
+  expected: 'true or false',
+  read: node => node.type === 'boolean' ? node.value : undefined,
+}
+
+const TOP_LEVEL_KEYS: Record<string, KeySpec> = {
+  view: oneOf<ViewMode>('flat', 'iso'),
+  nav: oneOf<NavMode>('drill', 'layer', 'fold'),
+}
+
+const SECTION_KEYS: Record<'layout' | 'render' | 'grid', Record<string, KeySpec>> = {
+  layout: {
+    direction: flowDirection,
+    nodeSpacing: nonNegativeNumber,
+    layerSpacing: nonNegativeNumber,
+    padding: nonNegativeNumber,
+  },
+  render: {
+    theme: oneOf<ThemeName>('light', 'dark'),
+    showGrid: boolean,
+    showTitle: boolean,
+    fontSize: positiveNumber,
+  },
+  grid: {
+    cellSize: positiveNumber,
+  },
+}
+
+// Mermaid themes are all light apart from `dark`
+const mermaidTheme: KeySpec = {
+  expected: '"default" | "base" | "forest" | "neutral" | "dark"',
+  read: node => node.type === 'string' && /^(default|base|forest|neutral|dark)$/.test(node.value)
+    ? (node.value === 'dark' ? 'dark' : 'light')
+    : undefined,
+}
+
+/** Mermaid config keys we understand (dotted paths), and the setting each one feeds */
+const MERMAID_CONFIG_KEYS: Record<string, { section: 'layout' | 'render'; key: string; spec: KeySpec }> = {
+  'theme': { section: 'render', key: 'theme', spec: mermaidTheme },
+  'fontSize': { section: 'render', key: 'fontSize', spec: positiveNumber },
+  'flowchart.nodeSpacing': { section: 'layout', key: 'nodeSpacing', spec: nonNegativeNumber },
+  'flowchart.rankSpacing': { section: 'layout', key: 'layerSpacing', spec: nonNegativeNumber },
+  'flowchart.diagramPadding': { section: 'layout', key: 'padding', spec: nonNegativeNumber },
+}
+
+/** Records a warning about the source between two offsets */
+export type Report = (code: ParseDiagnostic['code'], message: string, start: number, end: number) => void
+
+const ARCH_DIRECTIVE_START = /%%\{\s*arch\s*:/
+const INIT_DIRECTIVE_START = /%%\{\s*(?:init|initialize)\s*:/
+
+/**
+ * Extract our custom arch directive from Mermaid source
+ * Format: %%{arch: {view: "iso", nav: "drill"}}%%
+ *
+ * The directive is blanked out rather than removed so offsets in
+ * `cleanSource` still line up with the original source. A diagram should
+ * have one; any more are warned about and merged over the first.
+ */
+export function extractArchDirective(
+  source: string,
+  starts: number[],
+  diagnostics: ParseDiagnostic[]
+): { config: ArchDirective; cleanSource: string } {
+  const first = extractDirective(source, starts, diagnostics, ARCH_DIRECTIVE_START, 'arch')
+  let config = first.body ? readArchSettings(first.body, first.report) : {}
+  let cleanSource = first.cleanSource
+
+  for (let match; (match = ARCH_DIRECTIVE_START.exec(cleanSource));) {
+    first.report('duplicate-directive', 'Another arch directive; its settings are merged over the first one\'s',
+      match.index, match.index + match[0].length)
+    const next = extractDirective(cleanSource, starts, diagnostics, ARCH_DIRECTIVE_START, 'arch')
+    if (next.body) config = mergeArchSettings(config, readArchSettings(next.body, next.report))
+    cleanSource = next.cleanSource
+  }
+
+  return { config, cleanSource }
+}
+
+/**
+ * Extract Mermaid's init directive, keeping the settings we understand
+ * Format: %%{init: {"theme": "dark", "flowchart": {"nodeSpacing": 80}}}%%
+ *
+ * Blanked out like the arch directive; Mermaid config we don't model is ignored.
+ */
+export function extractInitDirective(
+  source: string,
+  starts: number[],
+  diagnostics: ParseDiagnostic[]
+): { config: ArchDirective; cleanSource: string } {
+  const { body, cleanSource, report } = extractDirective(source, starts, diagnostics, INIT_DIRECTIVE_START, 'init')
+  return { config: body ? readMermaidConfig(body, report) : {}, cleanSource }
+}
+
+/**
+ * Merge settings from several sources, later ones taking precedence key by key
+ */
+export function mergeArchSettings(...sources: ArchDirective[]): ArchDirective {
+  const merged: ArchDirective = {}
+  for (const source of sources) {
+    if (source.view !== undefined) merged.view = source.view
+    if (source.nav !== undefined) merged.nav = source.nav
+    if (source.layout) merged.layout = { ...merged.layout, ...source.layout }
+    if (source.render) merged.render = { ...merged.render, ...source.render }
+    if (source.grid) merged.grid = { ...merged.grid, ...source.grid }
+  }
+  return merged
+}
+
+/**
+ * Find a `%%{name: ...}%%` directive and parse its JSON5 body.
+ * Returns a null body when the directive is missing or malformed.
+ */
+function extractDirective(
+  source: string,
+  starts: number[],
+  diagnostics: ParseDiagnostic[],
+  pattern: RegExp,
+  name: string
+): { body: Json5Node | null; cleanSource: string; report: Report } {
+  const report: Report = (code, message, start, end) => {
+    diagnostics.push({ severity: 'warning', code, message, range: rangeAt(starts, start, end) })
+  }
+
+  const match = pattern.exec(source)
+  if (!match) {
+    return { body: null, cleanSource: source, report }
+  }
+
+  const bodyStart = match.index + match[0].length
+  let body: Json5Node
+  let directiveEnd: number
+  try {
+    const parsed = parseJson5(source, bodyStart)
+    const close = /^\s*\}%%/.exec(source.slice(parsed.end))
+    if (!close) {
+      throw new Json5SyntaxError('Expected "}%%" to close the directive', parsed.end)
+    }
+    body = parsed.node
+    directiveEnd = parsed.end + close[0].length
+  } catch (error) {
+    if (!(error instanceof Json5SyntaxError)) throw error
+
+    // Blank out up to the end of the directive line so the rest of the source still parses
+    const lineEnd = source.indexOf('\n', match.index)
+    const end = Math.max(lineEnd < 0 ? source.length : lineEnd, Math.min(error.offset, source.length))
+    report('invalid-directive', `Failed to parse ${name} directive: ${error.message}`, error.offset, error.offset + 1)
+    return { body: null, cleanSource: blank(source, match.index, end), report }
+  }
+
+  const cleanSource = blank(source, match.index, directiveEnd)
+
+  if (body.type !== 'object') {
+    report('invalid-directive', `${name} directive must be an object`, body.start, body.end)
+    return { body: null, cleanSource, report }
+  }
+
+  return { body, cleanSource, report }
+}
+
+/**
+ * Read arch settings from a parsed object, reporting what doesn't fit.
+ * `prefix` qualifies key names in messages when the settings are nested.
+ */
+function readArchSettings(body: Json5Node, report: Report, prefix = ''): ArchDirective {
+  if (body.type !== 'object') {
+    report('invalid-directive', `"${prefix.replace(/\.$/, '')}" must be an object`, body.start, body.end)
+    return {}
+  }
+
+  const config: ArchDirective = {}
+  for (const property of body.properties) {
+    const { key, value } = property
+
+    if (key === 'layout' || key === 'render' || key === 'grid') {
+      if (value.type !== 'object') {
+        report('invalid-directive', `"${prefix}${key}" must be an object`, value.start, value.end)
+        continue
+      }
+      const section: Record<string, unknown> = {}
+      for (const entry of value.properties) {
+        const spec = SECTION_KEYS[key][entry.key]
+        if (!spec) {
+          report('unknown-directive-key', `Unknown arch directive key "${prefix}${key}.${entry.key}"`, entry.keyStart, entry.keyEnd)
+          continue
+        }
+        const read = spec.read(entry.value)
+        if (read === undefined) {
+          report('invalid-directive', `"${prefix}${key}.${entry.key}" must be ${spec.expected}`, entry.value.start, entry.value.end)
+          continue
+        }
+        section[entry.key] = read
+      }
+      Object.assign(config, { [key]: section })
+      continue
+    }
+
+    const spec = TOP_LEVEL_KEYS[key]
+    if (!spec) {
+      report('unknown-directive-key', `Unknown arch directive key "${prefix}${key}"`, property.keyStart, property.keyEnd)
+      continue
+    }
+    const read = spec.read(value)
+    if (read === undefined) {
+      report('invalid-directive', `"${prefix}${key}" must be ${spec.expected}`, value.start, value.end)
+      continue
+    }
+    Object.assign(config, { [key]: read })
+  }
+
+  return config
+}
+
+/**
+ * Read the Mermaid config settings we can honour. Unlisted Mermaid keys
+ * are valid config for Mermaid itself, so they're ignored without a warning.
+ * An `arch` key holds arch settings, as in the directive.
+ */
+export function readMermaidConfig(body: Json5Node, report: Report, prefix = ''): ArchDirective {
+  if (body.type !== 'object') {
+    report('invalid-directive', `"${prefix.replace(/\.$/, '') || 'config'}" must be an object`, body.start, body.end)
+    return {}
+  }
+
+  let config: ArchDirective = {}
+  for (const { key, value } of body.properties) {
+    const path = prefix + key
+
+    if (path === 'arch') {
+      config = mergeArchSettings(config, readArchSettings(value, report, 'arch.'))
+      continue
+    }
+    if (value.type === 'object') {
+      config = mergeArchSettings(config, readMermaidConfig(value, report, `${path}.`))
+      continue
+    }
+
+    const target = MERMAID_CONFIG_KEYS[path]
+    if (!target) continue
+    const read = target.spec.read(value)
+    if (read === undefined) {
+      report('invalid-directive', `"${path}" must be ${target.spec.expected}`, value.start, value.end)
+      continue
+    }
+    config = mergeArchSettings(config, { [target.section]: { [target.key]: read } })
+  }
+
+  return config
+}
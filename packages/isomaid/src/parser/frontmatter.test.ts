@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { extractFrontmatter } from './frontmatter'
+import { lineStarts } from './tokenizer'
+import type { ParseDiagnostic } from './diagnostics'
+
+function extract(source: string) {
+  const diagnostics: ParseDiagnostic[] = []
+  const result = extractFrontmatter(source, lineStarts(source), diagnostics)
+  return { ...result, diagnostics }
+}
+
+describe('extractFrontmatter', () => {
+  it('reads the title, description and Mermaid config', () => {
+    const source = [
+      '---',
+      'title: Checkout service',
+      'description: "Request flow: web to database"',
+      'config:',
+      '  theme: dark',
+      '  flowchart:',
+      '    nodeSpacing: 40',
+      '  arch:',
+      '    view: iso',
+      '---',
+      'flowchart TD',
+    ].join('\n')
+    const { frontmatter, cleanSource, diagnostics } = extract(source)
+
+    expect(frontmatter).toEqual({
+      title: 'Checkout service',
+      description: 'Request flow: web to database',
+      config: { view: 'iso', render: { theme: 'dark' }, layout: { nodeSpacing: 40 } },
+    })
+    expect(diagnostics).toEqual([])
+    // Blanked rather than removed, so offsets still line up
+    expect(cleanSource).toHaveLength(source.length)
+    expect(cleanSource.trim()).toBe('flowchart TD')
+  })
+
+  it('keeps a number or boolean title as written', () => {
+    const { frontmatter } = extract('---\ntitle: 2024.10\ndescription: yes\n---\nflowchart')
+    expect(frontmatter).toMatchObject({ title: '2024.10', description: 'yes' })
+  })
+
+  it('only reads a block at the start of the source', () => {
+    const source = 'flowchart LR\n---\ntitle: Late\n---'
+    const { frontmatter, cleanSource } = extract(source)
+    expect(frontmatter).toEqual({ config: {} })
+    expect(cleanSource).toBe(source)
+  })
+
+  it('warns about keys it does not know, but not about displayMode', () => {
+    const source = '---\ntitle: A\ndisplayMode: compact\ntheme: dark\n---'
+    const { frontmatter, diagnostics } = extract(source)
+
+    expect(frontmatter).toEqual({ title: 'A', config: {} })
+    expect(diagnostics).toMatchObject([{
+      severity: 'warning',
+      code: 'unknown-directive-key',
+      message: 'Unknown frontmatter key "theme"',
+      range: { start: { line: 4, column: 1 }, end: { line: 4, column: 6 } },
+    }])
+  })
+
+  it('warns about a title that is not text', () => {
+    const { frontmatter, diagnostics } = extract('---\ntitle:\n  - a\n  - b\n---')
+    expect(frontmatter.title).toBeUndefined()
+    expect(diagnostics).toMatchObject([{ code: 'invalid-frontmatter', message: '"title" must be text' }])
+  })
+
+  it('warns about a block that is never closed and leaves the source alone', () => {
+    const source = '---\ntitle: A\nflowchart LR'
+    const { frontmatter, cleanSource, diagnostics } = extract(source)
+
+    expect(frontmatter).toEqual({ config: {} })
+    expect(cleanSource).toBe(source)
+    expect(diagnostics).toMatchObject([{
+      code: 'invalid-frontmatter',
+      message: 'Frontmatter is never closed with `---`',
+      range: { start: { line: 1, column: 1 }, end: { line: 1, column: 4 } },
+    }])
+  })
+
+  it('blanks out a block it cannot read', () => {
+    const source = '---\njust some words\n---\nflowchart LR'
+    const { frontmatter, cleanSource, diagnostics } = extract(source)
+
+    expect(frontmatter).toEqual({ config: {} })
+    expect(cleanSource.trim()).toBe('flowchart LR')
+    expect(diagnostics).toMatchObject([{ severity: 'warning', code: 'invalid-frontmatter' }])
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * Frontmatter reader
+ *
+ * Mermaid diagrams may open with a YAML block:
+ *
+ *   ---
+ *   title: Checkout service
+ *   description: Request flow through the checkout backend
+ *   config:
+ *     theme: dark
+ *     arch:
+ *       view: iso
+ *   ---
+ *   flowchart TD
+ *
+ * `config` is Mermaid config, read the same way as a `%%{init}%%` directive.
+ */
+
+import type { ParseDiagnostic } from './diagnostics'
+import type { ArchDirective, Report } from './directive'
+import { readMermaidConfig } from './directive'
+import { parseYaml, YamlSyntaxError } from './yaml'
+import type { Json5Node } from './json5'
+import { rangeAt, blank } from './tokenizer'
+
+/** What a frontmatter block holds */
+export interface Frontmatter {
+  title?: string
+  description?: string
+  config: ArchDirective
+}
+
+// Opening fence: first thing in the source, blank lines aside
+const OPEN_PATTERN = /^\s*---[ \t]*\r?\n/
+const CLOSE_PATTERN = /^---[ \t]*\r?$/m
+
+// Keys Mermaid accepts that carry nothing for us
+const IGNORED_KEYS = new Set(['displayMode'])
+
+/**
+ * Extract a leading frontmatter block. Like directives, it is blanked out
+ * rather than removed so offsets in `cleanSource` still line up.
+ */
+export function extractFrontmatter(
+  source: string,
+  starts: number[],
+  diagnostics: ParseDiagnostic[]
+): { frontmatter: Frontmatter; cleanSource: string } {
+  const frontmatter: Frontmatter = { config: {} }
+  const open = OPEN_PATTERN.exec(source)
+  if (!open) {
+    return { frontmatter, cleanSource: source }
+  }
+
+  const report: Report = (code, message, start, end) => {
+    diagnostics.push({ severity: 'warning', code, message, range: rangeAt(starts, start, end) })
+  }
+
+  const bodyStart = open[0].length
+  const close = CLOSE_PATTERN.exec(source.slice(bodyStart))
+  if (!close) {
+    const fenceStart = open[0].indexOf('---')
+    report('invalid-frontmatter', 'Frontmatter is never closed with `---`', fenceStart, fenceStart + 3)
+    return { frontmatter, cleanSource: source }
+  }
+
+  const bodyEnd = bodyStart + close.index
+  const cleanSource = blank(source, 0, bodyEnd + close[0].length)
+
+  let body: Json5Node
+  try {
+    body = parseYaml(source, bodyStart, bodyEnd)
+  } catch (error) {
+    if (!(error instanceof YamlSyntaxError)) throw error
+    report('invalid-frontmatter', `Failed to parse frontmatter: ${error.message}`, error.offset, error.offset + 1)
+    return { frontmatter, cleanSource }
+  }
+
+  if (body.type !== 'object') {
+    report('invalid-frontmatter', 'Frontmatter must be a mapping of keys to values', body.start, body.end)
+    return { frontmatter, cleanSource }
+  }
+
+  for (const { key, keyStart, keyEnd, value } of body.properties) {
+    if (key === 'title' || key === 'description') {
+      const text = scalarText(source, value)
+      if (text === undefined) {
+        report('invalid-frontmatter', `"${key}" must be text`, value.start, value.end)
+        continue
+      }
+      frontmatter[key] = text
+    } else if (key === 'config') {
+      frontmatter.config = readMermaidConfig(value, report)
+    } else if (!IGNORED_KEYS.has(key)) {
+      report('unknown-directive-key', `Unknown frontmatter key "${key}"`, keyStart, keyEnd)
+    }
+  }
+
+  return { frontmatter, cleanSource }
+}
+
+/**
+ * Text of a scalar; YAML reads `title: 2024` as a number, but it's still a title
+ */
+function scalarText(source: string, node: Json5Node): string | undefined {
+  if (node.type === 'string') return node.value.trim()
+  if (node.type === 'number' || node.type === 'boolean') {
+    return source.slice(node.start, node.end)
+  }
+  return undefined
+}
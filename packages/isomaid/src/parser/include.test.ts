@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest'
+import { extractIncludeDirectives, normalizePath, resolveIncludePath } from './include'
+import { parseMermaidWithDiagnostics } from './mermaid'
+import { lineStarts } from './tokenizer'
+import type { ParseDiagnostic } from './diagnostics'
+
+const BACKEND = `---
+title: Backend services
+---
+flowchart TB
+    subgraph data
+        db[(Orders)]
+    end
+    api --> db
+`
+
+/** A loader over an in-memory set of files */
+const loader = (files: Record<string, string>) => (path: string) => files[path]
+
+describe('extractIncludeDirectives', () => {
+  it('reads paths, ids and labels, blanking the directives out', () => {
+    const source = 'flowchart LR\n  %%{include: "./parts/backend-v2.mmd"}%%\n  %%{include: \'db.mmd\' as Store["Data store"]}%%\n'
+    const diagnostics: ParseDiagnostic[] = []
+    const { includes, cleanSource } = extractIncludeDirectives(source, lineStarts(source), diagnostics)
+
+    expect(includes.map(({ path, id, label }) => ({ path, id, label }))).toEqual([
+      { path: './parts/backend-v2.mmd', id: 'backend-v2', label: undefined },
+      { path: 'db.mmd', id: 'Store', label: 'Data store' },
+    ])
+    expect(cleanSource).toHaveLength(source.length)
+    expect(cleanSource.trim()).toBe('flowchart LR')
+    expect(diagnostics).toEqual([])
+  })
+
+  it('reports malformed directives and empty paths', () => {
+    const source = '%%{include: backend.mmd}%%\n%%{include: ""}%%\n'
+    const diagnostics: ParseDiagnostic[] = []
+    const { includes } = extractIncludeDirectives(source, lineStarts(source), diagnostics)
+
+    expect(includes).toEqual([])
+    expect(diagnostics.map(d => [d.code, d.message, d.range.start.line])).toEqual([
+      ['invalid-directive', 'Expected %%{include: "path" as Id}%%', 1],
+      ['invalid-directive', 'Include path is empty', 2],
+    ])
+  })
+})
+
+describe('resolveIncludePath', () => {
+  it('resolves against the including file', () => {
+    expect(resolveIncludePath('docs/views/main.mmd', './backend.mmd')).toBe('docs/views/backend.mmd')
+    expect(resolveIncludePath('docs/views/main.mmd', '../shared/db.mmd')).toBe('docs/shared/db.mmd')
+    expect(resolveIncludePath('docs/main.mmd', '/abs/db.mmd')).toBe('/abs/db.mmd')
+    expect(resolveIncludePath(undefined, './db.mmd')).toBe('db.mmd')
+  })
+
+  it('keeps leading .. segments', () => {
+    expect(normalizePath('../a/./b/../c')).toBe('../a/c')
+    expect(normalizePath('a/../../b')).toBe('../b')
+  })
+})
+
+describe('includes in parseMermaid', () => {
+  it('merges the included flowchart as a qualified subgraph', async () => {
+    const { graph, diagnostics } = await parseMermaidWithDiagnostics([
+      'flowchart LR',
+      '    Client --> Backend.api',
+      '    %%{include: "./backend.mmd" as Backend}%%',
+      '    Backend.db --> Reports',
+      '    linkStyle 1 stroke:red',
+    ].join('\n'), { loader: loader({ 'views/backend.mmd': BACKEND }), path: 'views/main.mmd' })
+
+    expect(diagnostics).toEqual([])
+    expect(graph.nodes.get('Backend')).toMatchObject({
+      isSubgraph: true,
+      label: 'Backend services',
+      children: ['Backend.data', 'Backend.api'],
+    })
+    expect(graph.nodes.get('Backend.db')).toMatchObject({ shape: 'cylinder', label: 'Orders', parent: 'Backend.data' })
+    // The placeholder made by the edge above the directive gives way to the included node
+    expect(graph.nodes.get('Backend.api')?.parent).toBe('Backend')
+    expect(graph.rootNodes).toEqual(['Client', 'Backend', 'Reports'])
+    expect(graph.layers.get('Backend')?.direction).toBe('TB')
+    expect(graph.layers.get('Backend.data')?.parentId).toBe('Backend')
+
+    // linkStyle counts the including diagram's own edges; the include's come after
+    expect(graph.edges.map(edge => [edge.from, edge.to, edge.lineStyle])).toEqual([
+      ['Client', 'Backend.api', undefined],
+      ['Backend.db', 'Reports', { stroke: 'red' }],
+      ['Backend.api', 'Backend.db', undefined],
+    ])
+  })
+
+  it('brings the included classDefs along, renaming ones that clash', async () => {
+    const styled = [
+      'flowchart LR',
+      '    classDef default fill:#eee',
+      '    classDef hot fill:#f00',
+      '    classDef db stroke:#00f',
+      '    api:::hot --> orders:::db',
+    ].join('\n')
+    const { graph, diagnostics } = await parseMermaidWithDiagnostics([
+      'flowchart LR',
+      '    classDef hot fill:#f80',
+      '    classDef db stroke:#00f',
+      '    %%{include: "styled.mmd" as S}%%',
+      '    x:::hot',
+    ].join('\n'), { loader: loader({ 'styled.mmd': styled }) })
+
+    expect(diagnostics).toEqual([])
+    expect([...graph.classDefs]).toEqual([
+      ['hot', { fill: '#f80' }],
+      ['db', { stroke: '#00f' }],
+      ['S_hot', { fill: '#f00' }],
+    ])
+    expect(graph.nodes.get('S.api')).toMatchObject({ classes: ['S_hot'], style: { fill: '#f00' } })
+    expect(graph.nodes.get('S.orders')).toMatchObject({ classes: ['db'], style: { fill: '#eee', stroke: '#00f' } })
+    expect(graph.nodes.get('x')).toMatchObject({ classes: ['hot'], style: { fill: '#f80' } })
+  })
+
+  it('warns about qualified references the include does not define', async () => {
+    const { diagnostics } = await parseMermaidWithDiagnostics(
+      'flowchart LR\n    %%{include: "backend.mmd" as B}%%\n    x --> B.cache\n',
+      { loader: loader({ 'backend.mmd': BACKEND }) }
+    )
+
+    expect(diagnostics.map(d => [d.code, d.message])).toEqual([
+      ['undefined-reference', '"B.cache" is not defined in backend.mmd'],
+    ])
+  })
+
+  it('reports missing files, loader errors and cycles at the directive', async () => {
+    const files: Record<string, string> = {
+      'a.mmd': 'flowchart LR\n    %%{include: "b.mmd"}%%\n',
+      'b.mmd': 'flowchart LR\n    %%{include: "a.mmd"}%%\n',
+    }
+    const { diagnostics } = await parseMermaidWithDiagnostics([
+      'flowchart LR',
+      '    %%{include: "gone.mmd"}%%',
+      '    %%{include: "locked.mmd"}%%',
+      '    %%{include: "b.mmd"}%%',
+    ].join('\n'), {
+      path: 'a.mmd',
+      loader: path => {
+        if (path === 'locked.mmd') throw new Error('permission denied')
+        return files[path]
+      },
+    })
+
+    expect(diagnostics.map(d => [d.code, d.message, d.range.start.line])).toEqual([
+      ['missing-include', "Can't include gone.mmd: gone.mmd was not found", 2],
+      ['missing-include', "Can't include locked.mmd: permission denied", 3],
+      ['cyclic-include', 'b.mmd:2:5 Include cycle: a.mmd -> b.mmd -> a.mmd', 4],
+    ])
+  })
+
+  it('reports includes without a loader', async () => {
+    const { diagnostics } = await parseMermaidWithDiagnostics('flowchart LR\n    %%{include: "x.mmd"}%%\n')
+    expect(diagnostics.map(d => d.message)).toEqual(["Can't include x.mmd: no loader was given"])
+  })
+})
@@ -0,0 +1,254 @@
+/**
+ * Include directives
+ *
+ * `%%{include: "./backend.mmd" as Backend}%%` pulls another flowchart into
+ * the diagram as a subgraph. Its nodes keep their ids behind the include's,
+ * so the including diagram can connect to them:
+ *
+ *   flowchart LR
+ *       %%{include: "./backend.mmd" as Backend["Backend services"]}%%
+ *       Client --> Backend.api
+ *
+ * Files are read through a loader the caller supplies, so the parser stays
+ * free of any file system.
+ */
+
+import type { Edge, Graph, Node, NodeStyle, SourceRange } from '../model/types'
+import type { ParseDiagnostic } from './diagnostics'
+import { GraphBuilder } from '../model/builder'
+import { rangeAt, blank } from './tokenizer'
+
+/**
+ * Reads an included file. `path` is resolved against the including file's
+ * path; undefined (or a rejection) means the file doesn't exist.
+ */
+export type IncludeLoader = (path: string) => Promise<string | undefined> | string | undefined
+
+/** An include directive found in the source */
+export interface IncludeDirective {
+  path: string          // As written
+  id: string            // Subgraph id, from `as Id` or the file name
+  label?: string        // From `as Id["Label"]`
+  offset: number        // Where the directive starts
+  range: SourceRange
+}
+
+const INCLUDE_DIRECTIVE_START = /%%\{\s*include\s*:/g
+const INCLUDE_DIRECTIVE = /%%\{\s*include\s*:\s*(?:"([^"\n]*)"|'([^'\n]*)')(?:\s+as\s+([\w-]+)(?:\["([^"\n]*)"\])?)?\s*\}%%/y
+
+/**
+ * Find every include directive, blanking each out of the source so offsets
+ * in `cleanSource` still line up. Malformed ones are reported and skipped.
+ */
+export function extractIncludeDirectives(
+  source: string,
+  starts: number[],
+  diagnostics: ParseDiagnostic[]
+): { includes: IncludeDirective[]; cleanSource: string } {
+  const includes: IncludeDirective[] = []
+  let cleanSource = source
+
+  for (const start of source.matchAll(INCLUDE_DIRECTIVE_START)) {
+    const offset = start.index!
+    INCLUDE_DIRECTIVE.lastIndex = offset
+    const match = INCLUDE_DIRECTIVE.exec(source)
+    if (!match) {
+      const lineEnd = source.indexOf('\n', offset)
+      const end = lineEnd < 0 ? source.length : lineEnd
+      diagnostics.push({
+        severity: 'warning',
+        code: 'invalid-directive',
+        message: 'Expected %%{include: "path" as Id}%%',
+        range: rangeAt(starts, offset, end),
+      })
+      cleanSource = blank(cleanSource, offset, end)
+      continue
+    }
+
+    const [text, doubleQuoted, singleQuoted, id, label] = match
+    const path = doubleQuoted ?? singleQuoted
+    const end = offset + text.length
+    cleanSource = blank(cleanSource, offset, end)
+    if (!path.trim()) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'invalid-directive',
+        message: 'Include path is empty',
+        range: rangeAt(starts, offset, end),
+      })
+      continue
+    }
+
+    const include: IncludeDirective = {
+      path,
+      id: id ?? fileId(path),
+      offset,
+      range: rangeAt(starts, offset, end),
+    }
+    if (label) include.label = label
+    includes.push(include)
+  }
+
+  return { includes, cleanSource }
+}
+
+/**
+ * Resolve an include path against the path of the file it appears in.
+ * Paths are `/`-separated; `.` and `..` segments are folded away.
+ */
+export function resolveIncludePath(from: string | undefined, path: string): string {
+  const base = from && !path.startsWith('/') ? from.slice(0, from.lastIndexOf('/') + 1) : ''
+  return normalizePath(base + path)
+}
+
+/**
+ * Fold `.` and `..` segments out of a path. Leading `..` that can't be
+ * folded are kept, so relative paths stay relative.
+ */
+export function normalizePath(path: string): string {
+  const segments: string[] = []
+  for (const segment of path.split('/')) {
+    if (segment === '.' || (segment === '' && segments.length > 0)) continue
+    if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..' && segments[segments.length - 1] !== '') {
+      segments.pop()
+    } else {
+      segments.push(segment)
+    }
+  }
+  return segments.join('/')
+}
+
+/**
+ * Re-anchor a diagnostic from an included file onto the directive that
+ * included it, keeping its own position in the message
+ */
+export function includedDiagnostic(diagnostic: ParseDiagnostic, path: string, include: IncludeDirective): ParseDiagnostic {
+  const { line, column } = diagnostic.range.start
+  return {
+    ...diagnostic,
+    message: `${path}:${line}:${column} ${diagnostic.message}`,
+    range: include.range,
+  }
+}
+
+/** What merging an included graph added */
+export interface MergedInclude {
+  ids: Set<string>  // Every node id added, the include's subgraph among them
+  edges: Edge[]     // The include's edges, qualified but not yet added to the graph
+}
+
+/**
+ * Add an included graph to `graph` as the subgraph `include.id`, under
+ * `parent`. Node and layer ids are qualified by the include id, and
+ * everything points back at the directive. Nodes that so far were only
+ * referenced (`placeholder`) give way to the included ones; edges are
+ * returned for the caller to add, so `linkStyle` indices in the including
+ * diagram keep counting its own edges.
+ *
+ * The include's classDefs join the graph's, renamed `Id_name` where the
+ * name already means something else. Its `default` stays behind: that
+ * styling is already in the included nodes' styles, and here it would
+ * restyle the whole diagram.
+ */
+export function mergeInclude(
+  graph: Graph,
+  included: Graph,
+  include: IncludeDirective,
+  parent: string | null,
+  placeholder: (id: string) => boolean
+): MergedInclude {
+  const { id, range } = include
+  const qualify = (local: string) => `${id}.${local}`
+  const ids = new Set<string>([id])
+
+  const take = (nodeId: string) => {
+    if (graph.nodes.has(nodeId) && placeholder(nodeId)) detach(graph, nodeId)
+  }
+
+  // A placeholder for the include id itself becomes the subgraph, wherever it was
+  new GraphBuilder(graph).within(parent).subgraph(id, {
+    label: include.label || included.title || id,
+    direction: included.config.direction,
+    sourceRange: range,
+  })
+  graph.nodes.get(id)!.children = included.rootNodes.map(qualify)
+
+  for (const layer of included.layers.values()) {
+    if (layer.id === 'root') continue
+    const layerParent = !layer.parentId || layer.parentId === 'root' ? id : qualify(layer.parentId)
+    graph.layers.set(qualify(layer.id), {
+      ...layer,
+      id: qualify(layer.id),
+      parentId: layerParent,
+      bounds: {
+        min: { ...layer.bounds.min, layer: layerParent },
+        max: { ...layer.bounds.max, layer: layerParent },
+      },
+      sourceRange: range,
+    })
+  }
+
+  const classNames = new Map<string, string>()
+  for (const [name, style] of included.classDefs) {
+    if (name === 'default') continue
+    const existing = graph.classDefs.get(name)
+    const merged = !existing || sameStyle(existing, style) ? name : `${id}_${name}`
+    graph.classDefs.set(merged, { ...style })
+    classNames.set(name, merged)
+  }
+
+  for (const node of included.nodes.values()) {
+    const nodeId = qualify(node.id)
+    take(nodeId)
+    const nodeParent = node.parent ? qualify(node.parent) : id
+    const copy: Node = {
+      ...node,
+      id: nodeId,
+      parent: nodeParent,
+      sourceRange: range,
+      gridPos: { gx: 0, gy: 0, layer: nodeParent }, // Will be set by layout
+    }
+    if (node.children) copy.children = node.children.map(qualify)
+    if (node.classes) copy.classes = node.classes.map(name => classNames.get(name) ?? name)
+    graph.nodes.set(nodeId, copy)
+    ids.add(nodeId)
+  }
+
+  const edges = included.edges.map(edge => ({
+    ...edge,
+    from: qualify(edge.from),
+    to: qualify(edge.to),
+    sourceRange: range,
+  }))
+
+  return { ids, edges }
+}
+
+/**
+ * Default subgraph id for an include without `as`: the file name
+ * without its extension, made into a valid id
+ */
+function fileId(path: string): string {
+  const name = path.slice(path.lastIndexOf('/') + 1).replace(/\.[^.]*$/, '')
+  return name.replace(/[^\w-]/g, '_') || 'include'
+}
+
+/**
+ * Whether two classDefs set the same declarations, in any order
+ */
+function sameStyle(a: NodeStyle, b: NodeStyle): boolean {
+  const entries = (style: NodeStyle) => Object.entries(style)
+    .filter(([, value]) => value !== undefined)
+    .sort(([x], [y]) => x.localeCompare(y))
+  return JSON.stringify(entries(a)) === JSON.stringify(entries(b))
+}
+
+/**
+ * Take a node out of its parent's children (or the root list) before it's replaced
+ */
+function detach(graph: Graph, id: string): void {
+  const node = graph.nodes.get(id)
+  const siblings = node?.parent ? graph.nodes.get(node.parent)?.children : graph.rootNodes
+  const index = siblings?.indexOf(id) ?? -1
+  if (index >= 0) siblings!.splice(index, 1)
+}
@@ -1 +1,5 @@
-export { parseMermaid, default } from './mermaid'
+export { parseMermaid, parseMermaidWithDiagnostics, default, type ParseOptions } from './mermaid'
+export { printMermaid, formatMermaid, type PrintOptions } from './printer'
+export { type IncludeLoader } from './include'
+export { extractWikilinks, replaceWikilinks, type Wikilink } from './wikilinks'
+export * from './diagnostics'
@@ -0,0 +1,259 @@
+/**
+ * JSON5-style value parser for directives
+ *
+ * Accepts what people write inside `%%{...}%%` by hand: unquoted keys,
+ * single or double quoted strings, trailing commas, comments, hex numbers
+ * and a leading `+`. Every node keeps its offsets in the input so callers
+ * can point diagnostics at a key or value.
+ */
+
+interface Json5NodeBase {
+  start: number
+  end: number  // Exclusive
+}
+
+export interface Json5Property {
+  key: string
+  keyStart: number
+  keyEnd: number
+  value: Json5Node
+}
+
+export type Json5Node =
+  | (Json5NodeBase & { type: 'object'; properties: Json5Property[] })
+  | (Json5NodeBase & { type: 'array'; items: Json5Node[] })
+  | (Json5NodeBase & { type: 'string'; value: string })
+  | (Json5NodeBase & { type: 'number'; value: number })
+  | (Json5NodeBase & { type: 'boolean'; value: boolean })
+  | (Json5NodeBase & { type: 'null' })
+
+/**
+ * Thrown for malformed input, with the offset where parsing stopped
+ */
+export class Json5SyntaxError extends Error {
+  readonly offset: number
+
+  constructor(message: string, offset: number) {
+    super(message)
+    this.name = 'Json5SyntaxError'
+    this.offset = offset
+  }
+}
+
+/**
+ * Parse one JSON5 value starting at `start`. Returns the value and the
+ * offset just past it; anything after the value is left for the caller.
+ */
+export function parseJson5(text: string, start = 0): { node: Json5Node; end: number } {
+  const cursor = { text, pos: start }
+  skipTrivia(cursor)
+  const node = parseValue(cursor)
+  return { node, end: cursor.pos }
+}
+
+/**
+ * Convert a parsed node into a plain JavaScript value
+ */
+export function json5ToValue(node: Json5Node): unknown {
+  switch (node.type) {
+    case 'object':
+      return Object.fromEntries(node.properties.map(p => [p.key, json5ToValue(p.value)]))
+    case 'array':
+      return node.items.map(json5ToValue)
+    case 'null':
+      return null
+    default:
+      return node.value
+  }
+}
+
+interface Cursor {
+  text: string
+  pos: number
+}
+
+const IDENTIFIER_START = /[A-Za-z_$]/
+const IDENTIFIER_PART = /[\w$]/
+
+function parseValue(cursor: Cursor): Json5Node {
+  const ch = cursor.text[cursor.pos]
+  const start = cursor.pos
+
+  if (ch === '{') return parseObject(cursor)
+  if (ch === '[') return parseArray(cursor)
+  if (ch === '"' || ch === "'") {
+    return { type: 'string', value: parseString(cursor), start, end: cursor.pos }
+  }
+  if (ch !== undefined && /[-+.\d]/.test(ch)) return parseNumber(cursor)
+
+  const word = readIdentifier(cursor)
+  switch (word) {
+    case 'true':
+    case 'false':
+      return { type: 'boolean', value: word === 'true', start, end: cursor.pos }
+    case 'null':
+      return { type: 'null', start, end: cursor.pos }
+    case 'Infinity':
+    case 'NaN':
+      return { type: 'number', value: Number(word), start, end: cursor.pos }
+  }
+
+  throw new Json5SyntaxError(
+    ch === undefined ? 'Unexpected end of input' : `Unexpected "${word || ch}"`,
+    start
+  )
+}
+
+function parseObject(cursor: Cursor): Json5Node {
+  const start = cursor.pos
+  const properties: Json5Property[] = []
+  cursor.pos++ // {
+
+  for (;;) {
+    skipTrivia(cursor)
+    if (cursor.text[cursor.pos] === '}') break
+
+    const keyStart = cursor.pos
+    const quote = cursor.text[cursor.pos]
+    const key = quote === '"' || quote === "'" ? parseString(cursor) : readIdentifier(cursor)
+    if (!key && cursor.pos === keyStart) {
+      throw new Json5SyntaxError('Expected a property name', keyStart)
+    }
+    const keyEnd = cursor.pos
+
+    skipTrivia(cursor)
+    expect(cursor, ':')
+    skipTrivia(cursor)
+    properties.push({ key, keyStart, keyEnd, value: parseValue(cursor) })
+
+    skipTrivia(cursor)
+    if (cursor.text[cursor.pos] === ',') {
+      cursor.pos++
+      continue
+    }
+    if (cursor.text[cursor.pos] !== '}') {
+      throw new Json5SyntaxError('Expected "," or "}"', cursor.pos)
+    }
+  }
+
+  cursor.pos++ // }
+  return { type: 'object', properties, start, end: cursor.pos }
+}
+
+function parseArray(cursor: Cursor): Json5Node {
+  const start = cursor.pos
+  const items: Json5Node[] = []
+  cursor.pos++ // [
+
+  for (;;) {
+    skipTrivia(cursor)
+    if (cursor.text[cursor.pos] === ']') break
+
+    items.push(parseValue(cursor))
+
+    skipTrivia(cursor)
+    if (cursor.text[cursor.pos] === ',') {
+      cursor.pos++
+      continue
+    }
+    if (cursor.text[cursor.pos] !== ']') {
+      throw new Json5SyntaxError('Expected "," or "]"', cursor.pos)
+    }
+  }
+
+  cursor.pos++ // ]
+  return { type: 'array', items, start, end: cursor.pos }
+}
+
+const ESCAPES: Record<string, string> = {
+  b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v', 0: '\0',
+}
+
+function parseString(cursor: Cursor): string {
+  const quote = cursor.text[cursor.pos]
+  const start = cursor.pos
+  let value = ''
+  cursor.pos++
+
+  while (cursor.pos < cursor.text.length) {
+    const ch = cursor.text[cursor.pos++]
+    if (ch === quote) return value
+    if (ch === '\n') break
+    if (ch !== '\\') {
+      value += ch
+      continue
+    }
+
+    const escaped = cursor.text[cursor.pos++]
+    if (escaped === 'u' || escaped === 'x') {
+      const length = escaped === 'u' ? 4 : 2
+      const hex = cursor.text.slice(cursor.pos, cursor.pos + length)
+      if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(hex)) {
+        throw new Json5SyntaxError('Invalid escape sequence', cursor.pos - 2)
+      }
+      value += String.fromCharCode(parseInt(hex, 16))
+      cursor.pos += length
+    } else if (escaped === '\n') {
+      // Line continuation
+    } else {
+      value += ESCAPES[escaped] ?? escaped
+    }
+  }
+
+  throw new Json5SyntaxError('Unterminated string', start)
+}
+
+function parseNumber(cursor: Cursor): Json5Node {
+  const start = cursor.pos
+  const match = cursor.text
+    .slice(cursor.pos)
+    .match(/^[-+]?(?:0[xX][0-9a-fA-F]+|Infinity|NaN|(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/)
+  if (!match) {
+    throw new Json5SyntaxError('Invalid number', start)
+  }
+
+  cursor.pos += match[0].length
+  const literal = match[0]
+  const sign = literal.startsWith('-') ? -1 : 1
+  const unsigned = literal.replace(/^[-+]/, '')
+  const value = /^0[xX]/.test(unsigned) ? sign * parseInt(unsigned, 16) : sign * Number(unsigned)
+  return { type: 'number', value, start, end: cursor.pos }
+}
+
+function readIdentifier(cursor: Cursor): string {
+  const start = cursor.pos
+  if (!IDENTIFIER_START.test(cursor.text[cursor.pos] ?? '')) return ''
+  cursor.pos++
+  while (cursor.pos < cursor.text.length && IDENTIFIER_PART.test(cursor.text[cursor.pos])) {
+    cursor.pos++
+  }
+  return cursor.text.slice(start, cursor.pos)
+}
+
+function expect(cursor: Cursor, ch: string): void {
+  if (cursor.text[cursor.pos] !== ch) {
+    throw new Json5SyntaxError(`Expected "${ch}"`, cursor.pos)
+  }
+  cursor.pos++
+}
+
+/**
+ * Skip whitespace and // or /* *\/ comments
+ */
+function skipTrivia(cursor: Cursor): void {
+  for (;;) {
+    const rest = cursor.text.slice(cursor.pos, cursor.pos + 2)
+    if (/^\s/.test(rest)) {
+      cursor.pos++
+    } else if (rest === '//') {
+      const newline = cursor.text.indexOf('\n', cursor.pos)
+      cursor.pos = newline < 0 ? cursor.text.length : newline
+    } else if (rest === '/*') {
+      const close = cursor.text.indexOf('*/', cursor.pos + 2)
+      if (close < 0) throw new Json5SyntaxError('Unterminated comment', cursor.pos)
+      cursor.pos = close + 2
+    } else {
+      return
+    }
+  }
+}
@@ -0,0 +1,479 @@
+import { describe, expect, it } from 'vitest'
+import { parseMermaid, parseMermaidWithDiagnostics } from './mermaid'
+import { MermaidParseError, formatDiagnostic } from './diagnostics'
+import type { SourceRange } from '../model/types'
+
+/** Parse a flowchart body, failing the test on any diagnostic */
+async function parse(body: string) {
+  const { graph, diagnostics } = await parseMermaidWithDiagnostics(`flowchart LR\n${body}`)
+  expect(diagnostics).toEqual([])
+  return graph
+}
+
+/** Source text a range covers */
+function textAt(source: string, range: SourceRange | undefined) {
+  expect(range).toBeDefined()
+  return source.slice(range!.start.offset, range!.end.offset)
+}
+
+/** Nodes and edges without source ranges, for comparing two parses */
+function shapeOf(graph: Awaited<ReturnType<typeof parse>>) {
+  return {
+    nodes: [...graph.nodes.values()].map(({ id, label, shape, parent }) => ({ id, label, shape, parent })),
+    edges: graph.edges.map(({ sourceRange, ...edge }) => edge),
+  }
+}
+
+describe('edge statements', () => {
+  it('reads a chain as one edge per link', async () => {
+    const graph = await parse('  A --> B --> C -.-> D')
+    expect(graph.edges.map(edge => [edge.id, edge.from, edge.to, edge.style])).toEqual([
+      ['A-B-0', 'A', 'B', 'solid'],
+      ['B-C-1', 'B', 'C', 'solid'],
+      ['C-D-2', 'C', 'D', 'dotted'],
+    ])
+    expect(graph.rootNodes).toEqual(['A', 'B', 'C', 'D'])
+  })
+
+  it('fans out and in across & groups', async () => {
+    const graph = await parse('  A & B --> C & D --> E')
+    expect(graph.edges.map(edge => [edge.from, edge.to])).toEqual([
+      ['A', 'C'], ['A', 'D'], ['B', 'C'], ['B', 'D'],
+      ['C', 'E'], ['D', 'E'],
+    ])
+  })
+
+  it('declares nodes inside edges as separate statements would', async () => {
+    const inline = await parse('  A[Auth] -->|token| B[(DB)] --> C{{Cache}} & D([Queue])')
+    const separate = await parse([
+      '  A[Auth]',
+      '  B[(DB)]',
+      '  C{{Cache}}',
+      '  D([Queue])',
+      '  A -->|token| B',
+      '  B --> C & D',
+    ].join('\n'))
+
+    expect(shapeOf(inline)).toEqual(shapeOf(separate))
+    expect(inline.nodes.get('B')).toMatchObject({ label: 'DB', shape: 'cylinder' })
+  })
+
+  it('keeps the first declaration of a node referenced again in a chain', async () => {
+    const graph = await parse('  A[Auth] --> B\n  B --> A')
+    expect(graph.nodes.get('A')?.label).toBe('Auth')
+    expect(graph.edges).toHaveLength(2)
+  })
+})
+
+describe('link operators', () => {
+  it.each([
+    ['A --> B', 'solid', 'none', 'arrow'],
+    ['A --- B', 'solid', 'none', 'none'],
+    ['A ----> B', 'solid', 'none', 'arrow'],
+    ['A -.-> B', 'dotted', 'none', 'arrow'],
+    ['A -.- B', 'dotted', 'none', 'none'],
+    ['A ==> B', 'thick', 'none', 'arrow'],
+    ['A === B', 'thick', 'none', 'none'],
+    ['A --o B', 'solid', 'none', 'circle'],
+    ['A --x B', 'solid', 'none', 'cross'],
+    ['A <--> B', 'solid', 'arrow', 'arrow'],
+    ['A o--o B', 'solid', 'circle', 'circle'],
+    ['A x--x B', 'solid', 'cross', 'cross'],
+    ['A <-.-> B', 'dotted', 'arrow', 'arrow'],
+    ['A <==> B', 'thick', 'arrow', 'arrow'],
+  ])('maps %s', async (statement, style, fromArrow, toArrow) => {
+    const graph = await parse(`  ${statement}`)
+    expect(graph.edges).toMatchObject([{ from: 'A', to: 'B', style, fromArrow, toArrow }])
+  })
+
+  it.each([
+    ['A -- text --> B', 'solid', 'arrow'],
+    ['A -- text --- B', 'solid', 'none'],
+    ['A -. text .-> B', 'dotted', 'arrow'],
+    ['A == text ==> B', 'thick', 'arrow'],
+    ['A <-- text --> B', 'solid', 'arrow'],
+    ['A -->|text| B', 'solid', 'arrow'],
+  ])('reads the label of %s', async (statement, style, toArrow) => {
+    const graph = await parse(`  ${statement}`)
+    expect(graph.edges).toMatchObject([{ from: 'A', to: 'B', label: 'text', style, toArrow }])
+  })
+})
+
+describe('node shapes', () => {
+  it.each([
+    ['A[Label]', 'rect'],
+    ['A(Label)', 'round'],
+    ['A([Label])', 'stadium'],
+    ['A[[Label]]', 'subroutine'],
+    ['A[(Label)]', 'cylinder'],
+    ['A((Label))', 'circle'],
+    ['A(((Label)))', 'circle'],
+    ['A{Label}', 'diamond'],
+    ['A{{Label}}', 'hexagon'],
+    ['A[/Label/]', 'parallelogram'],
+    ['A[\\Label\\]', 'parallelogram'],
+    ['A[/Label\\]', 'trapezoid'],
+    ['A[\\Label/]', 'trapezoid'],
+    ['A>Label]', 'trapezoid'],
+  ])('reads %s as a %s', async (statement, shape) => {
+    const graph = await parse(`  ${statement}`)
+    expect(graph.nodes.get('A')).toMatchObject({ label: 'Label', shape })
+  })
+
+  it.each([
+    ['cyl', 'cylinder'],
+    ['circle', 'circle'],
+    ['hex', 'hexagon'],
+    ['diam', 'diamond'],
+    ['stadium', 'stadium'],
+    ['lean-r', 'parallelogram'],
+    ['trap-t', 'trapezoid'],
+    ['fr-rect', 'subroutine'],
+    ['rounded', 'round'],
+    ['unheard-of', 'rect'],
+  ])('maps @{ shape: %s } to %s', async (name, shape) => {
+    const graph = await parse(`  A@{ shape: ${name}, label: "Label" }`)
+    expect(graph.nodes.get('A')).toMatchObject({ label: 'Label', shape })
+  })
+
+  it('labels a node with its id when shape data has no label', async () => {
+    const graph = await parse('  A --> B\n  A@{ shape: cyl }')
+    expect(graph.nodes.get('A')).toMatchObject({ label: 'A', shape: 'cylinder' })
+  })
+
+  it('warns when a node is given a different shape', async () => {
+    const { graph, diagnostics } = await parseMermaidWithDiagnostics('flowchart LR\n  A[(DB)]\n  A{{DB}}')
+    expect(diagnostics).toMatchObject([{ severity: 'warning', code: 'conflicting-shape', range: { start: { line: 3 } } }])
+    expect(graph.nodes.get('A')?.shape).toBe('hexagon')
+  })
+})
+
+describe('subgraph statements', () => {
+  it('reads ids with dashes whole', async () => {
+    const graph = await parse('  subgraph one-two\n    a\n  end')
+    expect(graph.nodes.get('one-two')).toMatchObject({ isSubgraph: true, label: 'one-two', children: ['a'] })
+    expect(graph.nodes.has('one')).toBe(false)
+  })
+
+  it.each([
+    ['subgraph A [Title]', 'Title'],
+    ['subgraph A[Title]', 'Title'],
+    ['subgraph A ["Quoted title"]', 'Quoted title'],
+    ['subgraph A["Quoted title"]', 'Quoted title'],
+  ])('reads the label of %s', async (statement, label) => {
+    const graph = await parse(`  ${statement}\n    a\n  end`)
+    expect(graph.nodes.get('A')).toMatchObject({ isSubgraph: true, label, children: ['a'] })
+  })
+
+  it('gives a title-only subgraph a generated id', async () => {
+    const graph = await parse('  subgraph "Just a title"\n    a\n  end\n  subgraph Other words\n    b\n  end')
+    expect(graph.nodes.get('subGraph0')).toMatchObject({ isSubgraph: true, label: 'Just a title', children: ['a'] })
+    expect(graph.nodes.get('subGraph1')).toMatchObject({ isSubgraph: true, label: 'Other words', children: ['b'] })
+  })
+
+  it('uses a one-word quoted title as the id', async () => {
+    const graph = await parse('  subgraph "Backend"\n    a\n  end')
+    expect(graph.nodes.get('Backend')).toMatchObject({ isSubgraph: true, label: 'Backend' })
+  })
+
+  it('does not reuse an id that is taken', async () => {
+    const graph = await parse('  subGraph0 --> x\n  subgraph "A title"\n    a\n  end')
+    expect(graph.nodes.get('subGraph0')?.isSubgraph).toBe(false)
+    expect(graph.nodes.get('subGraph1')).toMatchObject({ isSubgraph: true, label: 'A title' })
+  })
+})
+
+describe('directions', () => {
+  it.each([
+    ['flowchart TD', 'TB'],
+    ['flowchart TB', 'TB'],
+    ['graph LR', 'LR'],
+    ['flowchart rl', 'RL'],
+    ['graph BT', 'BT'],
+  ])('reads the direction of %s', async (header, direction) => {
+    const graph = await parseMermaid(`${header}\n  A --> B`)
+    expect(graph.config.direction).toBe(direction)
+  })
+
+  it('leaves the direction unset when the header has none', async () => {
+    const graph = await parseMermaid('flowchart\n  A --> B')
+    expect(graph.config.direction).toBeUndefined()
+  })
+
+  it('gives a subgraph its own direction without changing the chart', async () => {
+    const graph = await parse('  subgraph outer\n    direction TD\n    subgraph inner\n      direction RL\n      a --> b\n    end\n  end')
+    expect(graph.config.direction).toBe('LR')
+    expect(graph.layers.get('outer')?.direction).toBe('TB')
+    expect(graph.layers.get('inner')?.direction).toBe('RL')
+  })
+
+  it('applies a direction statement at the root to the whole chart', async () => {
+    const graph = await parse('  direction BT\n  subgraph S\n    a\n  end')
+    expect(graph.config.direction).toBe('BT')
+    expect(graph.layers.get('S')?.direction).toBeUndefined()
+  })
+})
+
+describe('invisible links', () => {
+  it('declares the nodes of A ~~~ B without an edge', async () => {
+    const graph = await parse('  A[Start] ~~~ B\n  A --> C')
+    expect(graph.nodes.get('A')?.label).toBe('Start')
+    expect(graph.nodes.has('B')).toBe(true)
+    expect(graph.edges.map(edge => [edge.from, edge.to])).toEqual([['A', 'C']])
+  })
+
+  it('still counts them for linkStyle', async () => {
+    const graph = await parse('  A ~~~ B\n  A --> C\n  linkStyle 1 stroke:red')
+    expect(graph.edges[0].lineStyle).toEqual({ stroke: 'red' })
+  })
+})
+
+describe('parseMermaid', () => {
+  it('rejects statements outside the grammar', async () => {
+    await expect(parseMermaid('flowchart LR\n  A --> B[unclosed')).rejects.toThrow(/Unclosed bracket/)
+  })
+
+  it('only warns about statements it does not model', async () => {
+    const { graph, diagnostics } = await parseMermaidWithDiagnostics('flowchart LR\n  A --> B\n  foo bar baz')
+    expect(diagnostics).toMatchObject([{ severity: 'warning', code: 'unrecognized-statement' }])
+    expect(graph.edges).toHaveLength(1)
+    await expect(parseMermaid('flowchart LR\n  foo bar baz')).resolves.toBeDefined()
+  })
+})
+
+describe('diagnostics', () => {
+  it('places each problem at its statement', async () => {
+    const source = [
+      'flowchart LR',
+      '  A[(DB)] --> B',
+      '  end',
+      '  A --> B[unclosed',
+      '  A{{DB}}',
+      '  subgraph S',
+      '    C',
+    ].join('\n')
+    const { diagnostics } = await parseMermaidWithDiagnostics(source)
+
+    expect(diagnostics.map(({ severity, code, range }) => ({ severity, code, text: textAt(source, range) }))).toEqual([
+      { severity: 'warning', code: 'unbalanced-end', text: 'end' },
+      { severity: 'error', code: 'invalid-syntax', text: 'A --> B[unclosed' },
+      { severity: 'warning', code: 'conflicting-shape', text: 'A{{DB}}' },
+      { severity: 'warning', code: 'unclosed-subgraph', text: 'subgraph S' },
+    ])
+    expect(diagnostics[1].range).toEqual({
+      start: { offset: 37, line: 4, column: 3 },
+      end: { offset: 53, line: 4, column: 19 },
+    })
+  })
+
+  it('counts columns from the start of the line', async () => {
+    const { diagnostics } = await parseMermaidWithDiagnostics('flowchart LR\n\tA --> B; foo bar baz')
+    expect(diagnostics).toMatchObject([{ code: 'unrecognized-statement', range: { start: { line: 2, column: 11 } } }])
+  })
+
+  it('throws the errors from parseMermaid with the diagnostics attached', async () => {
+    const error = await parseMermaid('flowchart LR\n  end\n  A --> B[unclosed').catch(e => e)
+    expect(error).toBeInstanceOf(MermaidParseError)
+    expect(error.message).toBe('3:3 error Unclosed bracket in: A --> B[unclosed [invalid-syntax]')
+    expect(error.diagnostics.map(formatDiagnostic)).toEqual([
+      '2:3 warning `end` without a matching `subgraph` [unbalanced-end]',
+      '3:3 error Unclosed bracket in: A --> B[unclosed [invalid-syntax]',
+    ])
+  })
+
+  it('reports a missing header as an error', async () => {
+    const { diagnostics } = await parseMermaidWithDiagnostics('A --> B')
+    expect(diagnostics).toMatchObject([{ severity: 'error', code: 'invalid-syntax', range: { start: { line: 1, column: 1 } } }])
+  })
+})
+
+describe('source ranges', () => {
+  const source = [
+    'flowchart LR',
+    '  A --> B[Billing] --> C',
+    '  subgraph S [Store]',
+    '    direction TB',
+    '    D[(DB)]',
+    '  end',
+    '  B --> D',
+  ].join('\n')
+
+  it('spans the declaration of each node, preferring one with a label or shape', async () => {
+    const graph = await parseMermaid(source)
+    expect(textAt(source, graph.nodes.get('A')?.sourceRange)).toBe('A')
+    expect(textAt(source, graph.nodes.get('B')?.sourceRange)).toBe('B[Billing]')
+    expect(textAt(source, graph.nodes.get('D')?.sourceRange)).toBe('D[(DB)]')
+    expect(graph.nodes.get('B')?.sourceRange).toEqual({
+      start: { offset: 21, line: 2, column: 9 },
+      end: { offset: 31, line: 2, column: 19 },
+    })
+  })
+
+  it('spans one link of a chain per edge', async () => {
+    const graph = await parseMermaid(source)
+    expect(graph.edges.map(edge => textAt(source, edge.sourceRange))).toEqual([
+      'A --> B[Billing]',
+      'B[Billing] --> C',
+      'B --> D',
+    ])
+  })
+
+  it('spans the whole subgraph block on its node and layer', async () => {
+    const graph = await parseMermaid(source)
+    expect(textAt(source, graph.nodes.get('S')?.sourceRange)).toBe('subgraph S [Store]\n    direction TB\n    D[(DB)]\n  end')
+    expect(graph.layers.get('S')?.sourceRange).toEqual(graph.nodes.get('S')?.sourceRange)
+    expect(graph.layers.get('root')?.sourceRange).toBeUndefined()
+  })
+
+  it('ends an unclosed subgraph at the last statement', async () => {
+    const unclosed = 'flowchart LR\n  subgraph S\n    A --> B'
+    const { graph } = await parseMermaidWithDiagnostics(unclosed)
+    expect(textAt(unclosed, graph.layers.get('S')?.sourceRange)).toBe('subgraph S\n    A --> B')
+  })
+})
+
+describe('port constraints', () => {
+  it('pins both ends of API:R --> DB:L', async () => {
+    const graph = await parse('  API:R --> DB[(DB)]:L')
+    expect(graph.edges).toEqual([expect.objectContaining({
+      from: 'API',
+      to: 'DB',
+      fromPortConstraint: { side: 'R' },
+      toPortConstraint: { side: 'L' },
+    })])
+    expect(graph.nodes.get('DB')).toMatchObject({ label: 'DB', shape: 'cylinder' })
+    expect(graph.nodes.has('API:R')).toBe(false)
+  })
+
+  it('reads a port index after the side', async () => {
+    const graph = await parse('  A:B1 --> B\n  A:B12 --> C')
+    expect(graph.edges.map(edge => edge.fromPortConstraint)).toEqual([{ side: 'B', index: 1 }, { side: 'B', index: 12 }])
+    expect(graph.edges.map(edge => edge.toPortConstraint)).toEqual([undefined, undefined])
+  })
+
+  it('pins only the & member that names a side', async () => {
+    const graph = await parse('  A:B & C --> D:T')
+    expect(graph.edges.map(edge => [edge.from, edge.fromPortConstraint, edge.toPortConstraint])).toEqual([
+      ['A', { side: 'B' }, { side: 'T' }],
+      ['C', undefined, { side: 'T' }],
+    ])
+  })
+
+  it('leaves the suffix out of the node source range', async () => {
+    const source = 'flowchart LR\n  API:R --> DB'
+    const graph = await parseMermaid(source)
+    expect(textAt(source, graph.nodes.get('API')?.sourceRange)).toBe('API')
+  })
+
+  it('rejects a port on a node statement', async () => {
+    const { diagnostics } = await parseMermaidWithDiagnostics('flowchart LR\n  A:B')
+    expect(diagnostics).toMatchObject([{
+      severity: 'error',
+      code: 'invalid-syntax',
+      message: 'Port constraints only apply to edge ends: A:B',
+    }])
+  })
+})
+
+describe('settings precedence', () => {
+  const source = [
+    '---',
+    'title: Checkout',
+    'config:',
+    '  theme: dark',
+    '  fontSize: 12',
+    '  flowchart:',
+    '    nodeSpacing: 10',
+    '    rankSpacing: 10',
+    '    diagramPadding: 10',
+    '---',
+    "%%{init: {'theme': 'neutral', 'flowchart': {'nodeSpacing': 20, 'rankSpacing': 20}}}%%",
+    "%%{arch: {view: 'iso', layout: {nodeSpacing: 30}}}%%",
+    'flowchart LR',
+    '  A --> B',
+  ].join('\n')
+
+  it('merges frontmatter, then init, then arch, key by key', async () => {
+    const { graph, diagnostics } = await parseMermaidWithDiagnostics(source)
+
+    expect(diagnostics).toEqual([])
+    expect(graph.title).toBe('Checkout')
+    expect(graph.config).toMatchObject({
+      view: 'iso',
+      nav: 'drill',
+      direction: 'LR',
+      layout: { nodeSpacing: 30, layerSpacing: 20, padding: 10 },
+      render: { theme: 'light', fontSize: 12 },
+    })
+  })
+
+  it('still parses the diagram after the settings', async () => {
+    const graph = await parseMermaid(source)
+    expect(graph.edges).toMatchObject([{ from: 'A', to: 'B' }])
+    expect(graph.nodes.get('A')?.sourceRange?.start.line).toBe(14)
+  })
+})
+
+describe('link forms', () => {
+  it('keeps a | inside a quoted edge label', async () => {
+    const graph = await parse('  A -->|"a | b"| B')
+    expect(graph.edges).toMatchObject([{ from: 'A', to: 'B', label: 'a | b' }])
+  })
+
+  it.each([
+    ['A --text--> B', 'solid'],
+    ['A -.text.-> B', 'dotted'],
+    ['A ==text==> B', 'thick'],
+  ])('reads the text link %s without spaces', async (statement, style) => {
+    const graph = await parse(`  ${statement}`)
+    expect(graph.edges).toMatchObject([{ from: 'A', to: 'B', label: 'text', style }])
+  })
+
+  it('still reads --o and --x as end markers', async () => {
+    const graph = await parse('  A --o B\n  C --x D')
+    expect(graph.edges).toMatchObject([
+      { from: 'A', to: 'B', toArrow: 'circle' },
+      { from: 'C', to: 'D', toArrow: 'cross' },
+    ])
+    expect(graph.edges.some(edge => edge.label)).toBe(false)
+  })
+
+  it('reads ids in any script', async () => {
+    const graph = await parse('  Ü --> B\n  style Ü fill:#f00')
+    expect(graph.edges).toMatchObject([{ from: 'Ü', to: 'B' }])
+    expect(graph.nodes.get('Ü')?.style?.fill).toBe('#f00')
+  })
+
+  it('takes the edge id from A e1@--> B', async () => {
+    const graph = await parse('  A e1@--> B\n  e1@{ animate: true }')
+    expect(graph.edges).toMatchObject([{ id: 'e1', from: 'A', to: 'B' }])
+    expect(graph.nodes.has('e1')).toBe(false)
+  })
+
+  it('gives a fanned-out edge id to the first edge only', async () => {
+    const graph = await parse('  A & B e1@--> C')
+    expect(graph.edges.map(edge => edge.id)).toEqual(['e1', 'B-C-1'])
+  })
+})
+
+describe('markdown strings', () => {
+  it('unwraps node and edge labels the same way', async () => {
+    const graph = await parse([
+      '  A["`**bold** node`"] -->|"`**bold** edge`"| B@{ shape: cyl, label: "`*db*`" }',
+      '  B -- "`text link`" --> C',
+      '  subgraph S ["`Group`"]',
+      '    C',
+      '  end',
+    ].join('\n'))
+    expect(graph.nodes.get('A')?.label).toBe('**bold** node')
+    expect(graph.nodes.get('B')?.label).toBe('*db*')
+    expect(graph.nodes.get('S')?.label).toBe('Group')
+    expect(graph.edges.map(edge => edge.label)).toEqual(['**bold** edge', 'text link'])
+  })
+
+  it('leaves backticks in unquoted labels alone', async () => {
+    const graph = await parse('  A[`code`] -->|`x`| B')
+    expect(graph.nodes.get('A')?.label).toBe('`code`')
+    expect(graph.edges[0].label).toBe('`x`')
+  })
+})
@@ -1,54 +1,73 @@
 /**
  * Mermaid parser for arch-explorer
  *
- * Parses Mermaid flowchart syntax and converts to our internal Graph model.
- * Also extracts our custom %%{arch: ...}%% directives.
+ * Parses Mermaid flowchart syntax and converts to our internal Graph model
+ * (architecture-beta diagrams are handed to architecture.ts).
+ * Also reads frontmatter, Mermaid's %%{init: ...}%% and our custom
+ * %%{arch: ...}%% and %%{include: ...}%% directives.
+ *
+ * The parser is self-contained and DOM-free. Mermaid itself is only loaded
+ * (lazily) when validation is requested, since it needs a browser runtime.
  */
 
-import mermaid from 'mermaid'
-import type { Graph, GraphConfig, Node, Edge, ShapeType, ViewMode, NavMode, LayerInfo } from '../model/types'
+import type {
+  Graph, Node, EdgeStyle, EdgeLineStyle, ArrowType, ShapeType, NodeStyle, SourceRange,
+  PortConstraint, PortSide,
+} from '../model/types'
 import { createEmptyGraph, DEFAULT_GRID_CONFIG } from '../model/types'
+import { GraphBuilder } from '../model/builder'
+import type { ParseDiagnostic, ParseResult } from './diagnostics'
+import { MermaidParseError, hasErrors } from './diagnostics'
+import type { Statement, Span } from './tokenizer'
+import { splitSource, lineStarts, rangeAt, lineRange, statementRange, blank } from './tokenizer'
+import { extractArchDirective, extractInitDirective, mergeArchSettings, normalizeDirection } from './directive'
+import { extractFrontmatter } from './frontmatter'
+import { parseArchitectureStatements, ARCHITECTURE_HEADER_PATTERN } from './architecture'
+import type { IncludeDirective, IncludeLoader, MergedInclude } from './include'
+import {
+  extractIncludeDirectives, resolveIncludePath, normalizePath, includedDiagnostic, mergeInclude,
+} from './include'
 
-// Initialize mermaid (don't auto-render, we just want parsing)
-mermaid.initialize({
-  startOnLoad: false,
-  securityLevel: 'loose',
-})
+export interface ParseOptions {
+  /**
+   * Also run the source through Mermaid's own parser (default false).
+   * Requires the optional `mermaid` peer dependency and a DOM (browser or jsdom).
+   * Mermaid's verdict then decides syntax errors, and statements our grammar
+   * doesn't cover are reported as warnings instead.
+   */
+  validate?: boolean
 
-/**
- * Extract our custom arch directive from Mermaid source
- * Format: %%{arch: {view: "iso", nav: "drill"}}%%
- */
-function extractArchDirective(source: string): { config: Partial<GraphConfig>; cleanSource: string } {
-  const archPattern = /%%\{arch:\s*(\{[^}]+\})\s*\}%%/
-  const match = source.match(archPattern)
+  /**
+   * Reads the files named by `%%{include: "path" as Id}%%`. Without one,
+   * includes are reported as missing.
+   */
+  loader?: IncludeLoader
 
-  if (!match) {
-    return { config: {}, cleanSource: source }
-  }
+  /** Path of the source being parsed, which relative include paths start from */
+  path?: string
+}
 
-  try {
-    const configStr = match[1]
-    // Parse the JSON-like config (handle unquoted keys)
-    const normalized = configStr
-      .replace(/(\w+):/g, '"$1":')
-      .replace(/'/g, '"')
-    const parsed = JSON.parse(normalized)
+type Mermaid = typeof import('mermaid').default
 
-    const config: Partial<GraphConfig> = {}
-    if (parsed.view === 'iso' || parsed.view === 'flat') {
-      config.view = parsed.view as ViewMode
-    }
-    if (parsed.nav === 'drill' || parsed.nav === 'layer' || parsed.nav === 'fold') {
-      config.nav = parsed.nav as NavMode
-    }
+let mermaidLoader: Promise<Mermaid> | null = null
 
-    const cleanSource = source.replace(archPattern, '').trim()
-    return { config, cleanSource }
-  } catch {
-    console.warn('Failed to parse arch directive:', match[1])
-    return { config: {}, cleanSource: source }
-  }
+/**
+ * Import and initialize mermaid once, on first validation
+ */
+function loadMermaid(): Promise<Mermaid> {
+  mermaidLoader ??= import('mermaid').then(({ default: mermaid }) => {
+    // Don't auto-render, we just want parsing
+    mermaid.initialize({
+      startOnLoad: false,
+      securityLevel: 'loose',
+    })
+    return mermaid
+  })
+  // Allow a retry if the import failed
+  mermaidLoader.catch(() => {
+    mermaidLoader = null
+  })
+  return mermaidLoader
 }
 
 /**
@@ -75,215 +94,1181 @@ function mapShape(mermaidShape: string | undefined): ShapeType {
     'lean_right': 'parallelogram',
     'lean_left': 'parallelogram',
     'database': 'cylinder',
+    // Mermaid v11 `@{ shape: ... }` names and aliases
+    'rounded': 'round',
+    'event': 'round',
+    'terminal': 'stadium',
+    'pill': 'stadium',
+    'subproc': 'subroutine',
+    'subprocess': 'subroutine',
+    'fr-rect': 'subroutine',
+    'framed-rectangle': 'subroutine',
+    'cyl': 'cylinder',
+    'db': 'cylinder',
+    'das': 'cylinder',
+    'h-cyl': 'cylinder',
+    'lin-cyl': 'cylinder',
+    'disk': 'cylinder',
+    'circ': 'circle',
+    'sm-circ': 'circle',
+    'small-circle': 'circle',
+    'dbl-circ': 'circle',
+    'double-circle': 'circle',
+    'fr-circ': 'circle',
+    'diam': 'diamond',
+    'decision': 'diamond',
+    'question': 'diamond',
+    'hex': 'hexagon',
+    'prepare': 'hexagon',
+    'lean-r': 'parallelogram',
+    'lean-right': 'parallelogram',
+    'lean-l': 'parallelogram',
+    'lean-left': 'parallelogram',
+    'in-out': 'parallelogram',
+    'out-in': 'parallelogram',
+    'trap-b': 'trapezoid',
+    'trap-t': 'trapezoid',
+    'priority': 'trapezoid',
+    'manual': 'trapezoid',
+    'inv-trapezoid': 'trapezoid',
+    'asymmetric': 'trapezoid',
+    'process': 'rect',
+    'proc': 'rect',
   }
 
   return shapeMap[mermaidShape.toLowerCase()] || 'rect'
 }
 
 /**
- * Parse Mermaid source into our Graph model
+ * Mermaid bracket pairs in match order: longer/more specific openers first,
+ * so `((x))` is a circle rather than a round node containing `(x)`.
+ */
+const BRACKET_SHAPES: Array<{ open: string; close: string; shape: ShapeType }> = [
+  { open: '(((', close: ')))', shape: 'circle' },   // double circle
+  { open: '((', close: '))', shape: 'circle' },
+  { open: '([', close: '])', shape: 'stadium' },
+  { open: '[[', close: ']]', shape: 'subroutine' },
+  { open: '[(', close: ')]', shape: 'cylinder' },
+  { open: '{{', close: '}}', shape: 'hexagon' },
+  { open: '[/', close: '/]', shape: mapShape('lean_right') },
+  { open: '[\\', close: '\\]', shape: mapShape('lean_left') },
+  { open: '[/', close: '\\]', shape: 'trapezoid' },
+  { open: '[\\', close: '/]', shape: 'trapezoid' }, // inverted trapezoid
+  { open: '>', close: ']', shape: mapShape('odd') },
+  { open: '[', close: ']', shape: 'rect' },
+  { open: '(', close: ')', shape: 'round' },
+  { open: '{', close: '}', shape: 'diamond' },
+]
+
+/**
+ * Parse Mermaid source into our Graph model.
+ * Throws a MermaidParseError if the source has errors; warnings are dropped.
+ */
+export async function parseMermaid(source: string, options: ParseOptions = {}): Promise<Graph> {
+  const { graph, diagnostics } = await parseMermaidWithDiagnostics(source, options)
+  if (hasErrors(diagnostics)) {
+    throw new MermaidParseError(diagnostics)
+  }
+  return graph
+}
+
+/**
+ * Parse Mermaid source, collecting problems instead of throwing.
+ * The graph is built on a best-effort basis even when there are errors.
+ */
+export async function parseMermaidWithDiagnostics(
+  source: string,
+  options: ParseOptions = {}
+): Promise<ParseResult> {
+  return parseSource(source, options, options.path ? [normalizePath(options.path)] : [])
+}
+
+/**
+ * Parse one file. `chain` holds the paths of the files including it
+ * (itself last), for spotting include cycles.
  */
-export async function parseMermaid(source: string): Promise<Graph> {
+async function parseSource(source: string, options: ParseOptions, chain: string[]): Promise<ParseResult> {
   const graph = createEmptyGraph()
+  const diagnostics: ParseDiagnostic[] = []
+  const starts = lineStarts(source)
 
-  // Extract our custom directive
-  const { config, cleanSource } = extractArchDirective(source)
+  // Settings, lowest precedence first: frontmatter config, %%{init}%%, %%{arch}%%.
+  // Each is blanked out of the source before the next is looked for.
+  const { frontmatter, cleanSource: withoutFrontmatter } = extractFrontmatter(source, starts, diagnostics)
+  const init = extractInitDirective(withoutFrontmatter, starts, diagnostics)
+  const arch = extractArchDirective(init.cleanSource, starts, diagnostics)
+  const config = mergeArchSettings(frontmatter.config, init.config, arch.config)
+  const { includes, cleanSource } = extractIncludeDirectives(arch.cleanSource, starts, diagnostics)
+
+  if (frontmatter.title) graph.title = frontmatter.title
+  if (frontmatter.description) graph.description = frontmatter.description
   graph.config = {
     view: config.view || 'flat',
     nav: config.nav || 'drill',
-    grid: { ...DEFAULT_GRID_CONFIG },
+    grid: { ...DEFAULT_GRID_CONFIG, ...config.grid },
   }
+  if (config.layout) graph.config.layout = config.layout
+  if (config.render) graph.config.render = config.render
 
-  // Validate with Mermaid
-  try {
-    const parseResult = await mermaid.parse(cleanSource)
-    if (!parseResult) {
-      throw new Error('Failed to parse Mermaid diagram')
+  // Mermaid's diagnostics go ahead of ours; it runs last so port constraints can be hidden from it
+  const validationIndex = diagnostics.length
+  // Port constraint suffixes (`:B`, `:R1`), which Mermaid doesn't know
+  const portRanges: SourceRange[] = []
+
+  // Mermaid doesn't expose a clean AST API, so we parse the flowchart subset ourselves
+  const statements = splitSource(cleanSource, starts)
+
+  // Statements our grammar rejects are errors when they're plainly broken (and Mermaid
+  // hasn't already ruled on syntax); anything else may be Mermaid we don't model
+  const reportInvalid = (statement: Statement) => {
+    const problem = options.validate ? undefined : describeInvalidStatement(statement.text)
+    diagnostics.push(problem
+      ? {
+          severity: 'error',
+          code: 'invalid-syntax',
+          message: problem,
+          range: statement.range,
+        }
+      : {
+          severity: 'warning',
+          code: 'unrecognized-statement',
+          message: `Unrecognized statement: ${statement.text}`,
+          range: statement.range,
+        })
+  }
+
+  // architecture-beta diagrams share the settings, validation and result, but not the grammar
+  if (statements[0] && ARCHITECTURE_HEADER_PATTERN.test(statements[0].text)) {
+    for (const include of includes) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'invalid-directive',
+        message: 'Includes are only supported in flowcharts',
+        range: include.range,
+      })
     }
-  } catch (error) {
-    console.error('Mermaid parse error:', error)
-    throw error
+    parseArchitectureStatements(graph, statements.slice(1), starts, diagnostics, reportInvalid, !!options.validate)
+    if (options.validate) {
+      diagnostics.splice(validationIndex, 0, ...await validateWithMermaid(source, cleanSource, starts))
+    }
+    return { graph, diagnostics }
   }
 
-  // Mermaid doesn't expose a clean AST API, so we need to parse the syntax ourselves
-  // for the flowchart subset. This is a simplified parser for flowchart TD/LR syntax.
-  const lines = cleanSource.split('\n').map(l => l.trim()).filter(l => l && !l.startsWith('%%'))
+  // The diagram type header must come first: flowchart TD / graph LR
+  const header = statements[0]?.text.match(/^(?:flowchart|graph)(?:\s+(TD|TB|LR|RL|BT))?$/i)
+  if (header) {
+    if (header[1]) {
+      graph.config.direction = normalizeDirection(header[1])
+    }
+    statements.shift()
+  } else if (!options.validate) {
+    diagnostics.push({
+      severity: 'error',
+      code: 'invalid-syntax',
+      message: 'Expected a `flowchart`, `graph` or `architecture-beta` header',
+      range: statements[0]?.range ?? rangeAt(starts, 0, 0),
+    })
+  }
 
+  const builder = new GraphBuilder(graph)
   let currentSubgraph: string | null = null
   const subgraphStack: string[] = []
+  // Open subgraph statements, for reporting a missing `end`
+  const openSubgraphs: Statement[] = []
+  // Shapes given explicitly so far, for reporting conflicting redefinitions
+  const declaredShapes = new Map<string, { shape: ShapeType; statement: Statement }>()
 
-  for (const line of lines) {
-    // Skip flowchart declaration
-    if (line.match(/^flowchart\s+(TD|TB|LR|RL|BT)/i)) {
-      continue
-    }
+  // Styling statements can precede the nodes and edges they refer to,
+  // so they are collected here and resolved after the whole source is read
+  const pendingClasses: Array<{ id: string; className: string }> = []
+  const inlineStyles = new Map<string, NodeStyle>()
+  const linkStyles = new Map<number | 'default', EdgeLineStyle>()
+  // linkStyle numbers every link, invisible ones included; this is each edge's number
+  const linkNumbers: number[] = []
+  let linkCount = 0
+  // Ids given to links (`A e1@--> B`), whose `e1@{ ... }` data isn't a node
+  const edgeIds = new Set<string>()
 
-    // Subgraph start: subgraph ID["Label"]
-    const subgraphMatch = line.match(/^subgraph\s+(\w+)(?:\["([^"]+)"\])?/)
-    if (subgraphMatch) {
-      const [, id, label] = subgraphMatch
-      const parentLayerId = currentSubgraph || 'root'
-
-      const node: Node = {
-        id,
-        label: label || id,
-        shape: 'rect',
-        isSubgraph: true,
-        parent: currentSubgraph || undefined,
-        children: [],
-        // Grid position will be set by layout, but initialize layer
-        gridPos: { gx: 0, gy: 0, layer: parentLayerId },
+  let generatedSubgraphs = 0
+  const generatedSubgraphId = () => {
+    let id: string
+    do id = `subGraph${generatedSubgraphs++}`
+    while (graph.nodes.has(id))
+    return id
+  }
+
+  // Nodes whose sourceRange points at a definition (label or shape) rather than a bare reference
+  const definedNodes = new Set<string>()
+
+  // Included files are read up front; each is merged where its directive sits
+  const pendingIncludes = await loadIncludes(includes, options, chain, diagnostics)
+  const mergedIncludes: Array<{ include: IncludeDirective; path: string; merged: MergedInclude }> = []
+  const mergeIncludesBefore = (offset: number) => {
+    while (pendingIncludes.length && pendingIncludes[0].include.offset < offset) {
+      const { include, path, graph: included, diagnostics: problems } = pendingIncludes.shift()!
+      const existing = graph.nodes.get(include.id)
+      if (existing && (existing.isSubgraph || definedNodes.has(include.id))) {
+        diagnostics.push({
+          severity: 'error',
+          code: 'duplicate-id',
+          message: `Can't include ${include.path} as "${include.id}": the id is already in use`,
+          range: include.range,
+        })
+        continue
       }
-      graph.nodes.set(id, node)
-
-      // Create a layer for this subgraph
-      const layerInfo: LayerInfo = {
-        id,
-        parentId: parentLayerId,
-        bounds: {
-          min: { gx: 0, gy: 0, layer: parentLayerId },
-          max: { gx: 0, gy: 0, layer: parentLayerId }, // Will be set after layout
-        },
-        gridSize: graph.config.grid.defaultLayerSize,
+      diagnostics.push(...problems)
+      const merged = mergeInclude(graph, included, include, currentSubgraph,
+        id => !definedNodes.has(id) && !graph.nodes.get(id)?.isSubgraph)
+      for (const id of merged.ids) {
+        definedNodes.add(id)
+        const style = graph.nodes.get(id)!.style
+        // The include's own styling sits under any the including diagram gives
+        if (style) inlineStyles.set(id, { ...style, ...inlineStyles.get(id) })
       }
-      graph.layers.set(id, layerInfo)
-
-      if (currentSubgraph) {
-        subgraphStack.push(currentSubgraph)
-        const parent = graph.nodes.get(currentSubgraph)
-        if (parent) {
-          parent.children = parent.children || []
-          parent.children.push(id)
-        }
+      mergedIncludes.push({ include, path, merged })
+    }
+  }
+
+  const declare = (ref: LocatedRef, statement: Statement): string => {
+    if (ref.shape !== undefined) {
+      const previous = declaredShapes.get(ref.id)
+      if (previous && previous.shape !== ref.shape) {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'conflicting-shape',
+          message: `Node "${ref.id}" redeclared as ${ref.shape}, ` +
+            `was ${previous.shape} on line ${previous.statement.range.start.line}`,
+          range: statement.range,
+        })
+      }
+      declaredShapes.set(ref.id, { shape: ref.shape, statement })
+    }
+
+    const { id } = ref
+    builder.within(currentSubgraph).node(id, {
+      label: ref.label,
+      shape: ref.shape,
+      classes: ref.className !== undefined ? [ref.className] : undefined,
+    })
+    const node = graph.nodes.get(id)!
+    const isDefinition = ref.label !== undefined || ref.shape !== undefined
+    if (!node.isSubgraph && (!node.sourceRange || (isDefinition && !definedNodes.has(id)))) {
+      node.sourceRange = statementRange(starts, statement, ref.span)
+    }
+    if (isDefinition) definedNodes.add(id)
+    return id
+  }
+
+  // A subgraph's range covers its whole block, from `subgraph` to `end`
+  const closeSubgraph = (id: string | null, open: Statement, close: Statement) => {
+    if (!id) return
+    const range = { start: open.range.start, end: close.range.end }
+    const node = graph.nodes.get(id)
+    const layer = graph.layers.get(id)
+    if (node) node.sourceRange = range
+    if (layer) layer.sourceRange = range
+  }
+
+  for (const statement of statements) {
+    const line = statement.text
+    mergeIncludesBefore(statement.range.start.offset)
+
+    // Direction statement: applies to the enclosing subgraph, or the whole chart at root
+    const directionMatch = line.match(/^direction\s+(TD|TB|LR|RL|BT)$/i)
+    if (directionMatch) {
+      const direction = normalizeDirection(directionMatch[1])
+      const layer = currentSubgraph ? graph.layers.get(currentSubgraph) : undefined
+      if (layer) {
+        layer.direction = direction
       } else {
-        graph.rootNodes.push(id)
+        graph.config.direction = direction
       }
+      continue
+    }
+
+    // Subgraph start: subgraph ID, subgraph ID[Label], subgraph ID ["Label"], subgraph "Title"
+    const subgraphMatch = line.match(SUBGRAPH_PATTERN)
+    if (subgraphMatch) {
+      const [, idText, bracketLabel, titleText] = subgraphMatch
+      const title = titleText !== undefined ? labelText(titleText) : undefined
+      // Like Mermaid, a title that can't be an id gets a generated one
+      const id = idText ?? (/^[\w-]+$/.test(title!) ? title! : generatedSubgraphId())
+      const label = bracketLabel !== undefined ? labelText(bracketLabel.trim()) : title
+      builder.within(currentSubgraph).subgraph(id, { label })
+      if (currentSubgraph) subgraphStack.push(currentSubgraph)
 
       currentSubgraph = id
+      openSubgraphs.push(statement)
       continue
     }
 
     // Subgraph end
     if (line === 'end') {
+      const open = openSubgraphs.pop()
+      if (open) {
+        closeSubgraph(currentSubgraph, open, statement)
+      } else {
+        diagnostics.push({
+          severity: 'warning',
+          code: 'unbalanced-end',
+          message: '`end` without a matching `subgraph`',
+          range: statement.range,
+        })
+      }
       currentSubgraph = subgraphStack.pop() || null
       continue
     }
 
-    // Edge: A --> B or A -->|label| B
-    const edgeMatch = line.match(/^(\w+)\s*(-->|---|-\.\->|==>)\s*(?:\|([^|]+)\|)?\s*(\w+)/)
-    if (edgeMatch) {
-      const [, from, , label, to] = edgeMatch
+    // Class definition: classDef name1,name2 fill:#f9f,stroke:#333
+    const classDefMatch = line.match(/^classDef\s+([\w-]+(?:\s*,\s*[\w-]+)*)\s+(.+)$/)
+    if (classDefMatch) {
+      const style = parseStyleDeclarations(classDefMatch[2])
+      for (const name of splitList(classDefMatch[1])) {
+        graph.classDefs.set(name, { ...graph.classDefs.get(name), ...style })
+      }
+      continue
+    }
+
+    // Class assignment: class A,B name
+    const classMatch = line.match(/^class\s+([\p{L}\p{N}_.-]+(?:\s*,\s*[\p{L}\p{N}_.-]+)*)\s+([\w-]+)$/u)
+    if (classMatch) {
+      for (const id of splitList(classMatch[1])) {
+        pendingClasses.push({ id, className: classMatch[2] })
+      }
+      continue
+    }
 
-      // Ensure nodes exist
-      ensureNode(graph, from, currentSubgraph)
-      ensureNode(graph, to, currentSubgraph)
+    // Inline node style: style A fill:#f9f,stroke:#333
+    const styleMatch = line.match(/^style\s+([\p{L}\p{N}_.-]+)\s+(.+)$/u)
+    if (styleMatch) {
+      const [, id, declarations] = styleMatch
+      inlineStyles.set(id, { ...inlineStyles.get(id), ...parseStyleDeclarations(declarations) })
+      continue
+    }
 
-      const edge: Edge = {
-        id: `${from}-${to}-${graph.edges.length}`,
-        from,
-        to,
-        label: label || undefined,
-        toArrow: 'arrow',
+    // Edge style by declaration index: linkStyle 0,2 stroke:red / linkStyle default ...
+    const linkStyleMatch = line.match(/^linkStyle\s+(default|\d+(?:\s*,\s*\d+)*)\s+(.+)$/)
+    if (linkStyleMatch) {
+      const style = toEdgeLineStyle(parseStyleDeclarations(linkStyleMatch[2]))
+      const targets = linkStyleMatch[1] === 'default'
+        ? ['default' as const]
+        : splitList(linkStyleMatch[1]).map(Number)
+      for (const target of targets) {
+        linkStyles.set(target, { ...linkStyles.get(target), ...style })
       }
-      graph.edges.push(edge)
       continue
     }
 
-    // Node definition: A[Label] or A[(Database)] or A{Decision}
-    const nodeMatch = line.match(/^(\w+)([\[\(\{<])([^\]\)\}>]+)([\]\)\}>])/)
-    if (nodeMatch) {
-      const [, id, openBracket, label, closeBracket] = nodeMatch
-      const shape = detectShape(openBracket, closeBracket, label)
+    // Edge statement: A --> B, A --> B --> C, A & B -->|label| C[Label]
+    const chain = parseEdgeChain(line)
+    if (chain) {
+      const groups = chain.groups.map(group =>
+        group.map(ref => declare(ref, statement))
+      )
+      for (const ref of chain.groups.flat()) {
+        if (ref.portSpan) portRanges.push(statementRange(starts, statement, ref.portSpan))
+      }
 
-      const existingNode = graph.nodes.get(id)
-      if (existingNode) {
-        existingNode.label = label.replace(/^\(|\)$/g, '') // Clean cylinder syntax
-        existingNode.shape = shape
-      } else {
-        const layerId = currentSubgraph || 'root'
-        const node: Node = {
-          id,
-          label: label.replace(/^\(|\)$/g, ''),
-          shape,
-          isSubgraph: false,
-          parent: currentSubgraph || undefined,
-          gridPos: { gx: 0, gy: 0, layer: layerId }, // Will be set by layout
-        }
-        graph.nodes.set(id, node)
-
-        if (currentSubgraph) {
-          const parent = graph.nodes.get(currentSubgraph)
-          if (parent) {
-            parent.children = parent.children || []
-            if (!parent.children.includes(id)) {
-              parent.children.push(id)
-            }
+      for (let i = 0; i < chain.links.length; i++) {
+        const link = chain.links[i]
+        const sourceRange = statementRange(starts, statement, {
+          start: chain.groups[i][0].span.start,
+          end: chain.groups[i + 1][chain.groups[i + 1].length - 1].span.end,
+        })
+        for (const [fromIndex, from] of groups[i].entries()) {
+          for (const [toIndex, to] of groups[i + 1].entries()) {
+            const linkNumber = linkCount++
+            if (link.id) edgeIds.add(link.id)
+            // `~~~` only places its nodes; there's no edge to draw
+            if (isInvisibleLink(link)) continue
+            linkNumbers.push(linkNumber)
+            builder.edge(from, to, {
+              // An id fanned out to several edges stays with the first
+              id: link.id && !graph.edges.some(edge => edge.id === link.id) ? link.id : undefined,
+              label: link.label,
+              style: linkStyle(link),
+              fromArrow: markerToArrow(link.startMarker),
+              toArrow: markerToArrow(link.endMarker),
+              sourceRange,
+              fromPortConstraint: chain.groups[i][fromIndex].port,
+              toPortConstraint: chain.groups[i + 1][toIndex].port,
+            })
           }
-        } else if (!graph.rootNodes.includes(id)) {
-          graph.rootNodes.push(id)
         }
       }
+      continue
+    }
+
+    // Edge data: e1@{ animate: true } is about how the edge moves, which we don't model
+    const edgeDataMatch = line.match(/^([\w-]+)@\{[\s\S]*\}$/)
+    if (edgeDataMatch && edgeIds.has(edgeDataMatch[1])) continue
+
+    // Node definition: A[Label], A[(Database)], A{{Hexagon}}, A@{ shape: cyl }, optionally A & B
+    const refs = parseNodeGroup(line)
+    if (refs) {
+      for (const ref of refs) {
+        declare(ref, statement)
+      }
+      continue
     }
+
+    // Valid Mermaid that has no place in the graph model
+    if (IGNORED_STATEMENT_PATTERN.test(line)) continue
+
+    reportInvalid(statement)
   }
 
-  return graph
+  mergeIncludesBefore(Infinity)
+
+  // Unclosed subgraphs run to the end of the source
+  const lastStatement = statements[statements.length - 1]
+  for (let i = openSubgraphs.length - 1; i >= 0; i--) {
+    closeSubgraph(currentSubgraph, openSubgraphs[i], lastStatement)
+    currentSubgraph = subgraphStack.pop() || null
+  }
+
+  for (const statement of openSubgraphs) {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'unclosed-subgraph',
+      message: 'Subgraph is never closed with `end`',
+      range: statement.range,
+    })
+  }
+
+  for (const { id, className } of pendingClasses) {
+    const node = graph.nodes.get(id)
+    if (node) addClass(node, className)
+  }
+  resolveStyles(graph, inlineStyles, linkStyles, linkNumbers)
+
+  for (const { include, path, merged } of mergedIncludes) {
+    for (const edge of merged.edges) {
+      graph.edges.push({ ...edge, id: `${edge.from}-${edge.to}-${graph.edges.length}` })
+    }
+    // Qualified references that the include doesn't define
+    const prefix = `${include.id}.`
+    for (const node of graph.nodes.values()) {
+      if (!node.id.startsWith(prefix) || merged.ids.has(node.id)) continue
+      diagnostics.push({
+        severity: 'warning',
+        code: 'undefined-reference',
+        message: `"${node.id}" is not defined in ${path}`,
+        range: node.sourceRange ?? rangeAt(starts, 0, 0),
+      })
+    }
+  }
+
+  if (options.validate) {
+    const validatedSource = portRanges.reduce(
+      (text, range) => blank(text, range.start.offset, range.end.offset),
+      cleanSource
+    )
+    diagnostics.splice(validationIndex, 0, ...await validateWithMermaid(source, validatedSource, starts))
+  }
+
+  return { graph, diagnostics }
+}
+
+/** An included file, read and parsed */
+interface LoadedInclude {
+  include: IncludeDirective
+  path: string  // Resolved
+  graph: Graph
+  diagnostics: ParseDiagnostic[]  // From inside the file, placed at the directive
+}
+
+/**
+ * Read and parse the files a source includes, in source order. A file
+ * that can't be read, or that includes itself somewhere down the chain, is
+ * reported and skipped.
+ */
+async function loadIncludes(
+  includes: IncludeDirective[],
+  options: ParseOptions,
+  chain: string[],
+  diagnostics: ParseDiagnostic[]
+): Promise<LoadedInclude[]> {
+  const loaded: LoadedInclude[] = []
+  for (const include of includes) {
+    const path = resolveIncludePath(options.path, include.path)
+    const missing = (reason: string) => diagnostics.push({
+      severity: 'error',
+      code: 'missing-include',
+      message: `Can't include ${include.path}: ${reason}`,
+      range: include.range,
+    })
+
+    if (chain.includes(path)) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'cyclic-include',
+        message: `Include cycle: ${[...chain.slice(chain.indexOf(path)), path].join(' -> ')}`,
+        range: include.range,
+      })
+      continue
+    }
+    if (!options.loader) {
+      missing('no loader was given')
+      continue
+    }
+
+    let source: string | undefined
+    try {
+      source = await options.loader(path)
+    } catch (error) {
+      missing(error instanceof Error ? error.message : String(error))
+      continue
+    }
+    if (source === undefined) {
+      missing(`${path} was not found`)
+      continue
+    }
+
+    const result = await parseSource(source, { ...options, path }, [...chain, path])
+    loaded.push({
+      include,
+      path,
+      graph: result.graph,
+      diagnostics: result.diagnostics.map(diagnostic => includedDiagnostic(diagnostic, path, include)),
+    })
+  }
+  return loaded
+}
+
+/** A node reference inside a statement, with its optional inline declaration */
+interface NodeRef {
+  id: string
+  label?: string
+  shape?: ShapeType
+  className?: string  // From A:::className
+  port?: PortConstraint  // From A:B or A:B1 (edge statements only)
+}
+
+/** The parts of a Jison parse error that locate the problem */
+interface JisonErrorHash {
+  text?: string  // Matched text of the offending token
+  line?: number  // 0-based
+  loc?: { first_line: number; last_line: number; first_column: number; last_column: number }
+}
+
+/** The parts of a Langium parse result (architecture-beta and other newer diagrams) that locate the problem */
+interface LangiumParseResult {
+  lexerErrors?: Array<{ line?: number; column?: number; length: number }>  // 1-based
+  parserErrors?: Array<{ token: { image: string; startLine?: number; startColumn?: number; endColumn?: number } }>
+}
+
+// subgraph ID, subgraph ID[Label] or ID ["Label"], or subgraph "Title" / subgraph Title words
+const SUBGRAPH_PATTERN = /^subgraph\s+(?:([\w-]+)\s*(?:\[\s*("[^"]*"|[^\]"]*)\s*\])?|("[^"]*"|[^"\[\]]+?))\s*$/
+
+// Mermaid statements that are valid but carry nothing we model
+const IGNORED_STATEMENT_PATTERN = /^(?:click|accTitle|accDescr|href|callback)\b/
+
+/** A node reference with where it appears in its statement */
+interface LocatedRef extends NodeRef {
+  span: Span       // The reference itself, without any port suffix
+  portSpan?: Span  // The `:B1` port suffix
+}
+
+/** A link operator between two node groups */
+interface LinkToken {
+  startMarker: string  // '<', 'o', 'x' or '' (arrowhead at the source end)
+  body: string         // '--', '---', '==', '-.-' etc. (line style)
+  endMarker: string    // '>', 'o', 'x' or '' (arrowhead at the target end)
+  label?: string
+  id?: string          // From `A e1@--> B`
+}
+
+/** An edge statement split into node groups joined by links (groups.length === links.length + 1) */
+interface EdgeChain {
+  groups: LocatedRef[][]
+  links: LinkToken[]
+}
+
+// Link operator, optionally followed by a |label| (quoted, it may hold `|`): -->, ---, ==>, -.->, <-->, o--o, --x, ~~~
+const LINK_PATTERN = /\s*([<ox]?)(-{2,}|={2,}|-\.+-|~{3,})([>ox]?)(?:\s*\|("[^"]*"|[^|]*)\|)?\s*/y
+
+// Opening half of a text link: -- text -->, --text-->, == text ==>, -. text .->
+// (but not the start of a plain link like -->, --- or --o)
+const TEXT_LINK_START_PATTERN = /\s*([<ox]?)(--|==|-\.)(?:\s+|(?![-=.>~]|[ox](?![\p{L}\p{N}_])))/yu
+
+// An edge id ahead of its link: A e1@--> B
+const EDGE_ID_PATTERN = /\s+([\w-]+)@(?=[<ox]?[-=~])/y
+
+// Closing half of a text link, keyed by the opening token
+const TEXT_LINK_END_PATTERNS: Record<string, RegExp> = {
+  '--': /\s*(-{2,})([>ox]?)\s*/g,
+  '==': /\s*(={2,})([>ox]?)\s*/g,
+  '-.': /\s*(\.+-)([>ox]?)\s*/g,
+}
+
+/**
+ * Map a link body onto the edge line style: == is thick, -.- is dotted
+ */
+function linkStyle(link: LinkToken): EdgeStyle {
+  if (link.body.startsWith('=')) return 'thick'
+  if (link.body.includes('.')) return 'dotted'
+  return 'solid'
+}
+
+/**
+ * Whether a link is Mermaid's invisible `~~~`, which positions nodes without drawing an edge
+ */
+function isInvisibleLink(link: LinkToken): boolean {
+  return link.body.startsWith('~')
+}
+
+/**
+ * Map a link end marker onto an arrowhead: < and > are arrows, o is a circle, x a cross
+ */
+function markerToArrow(marker: string): ArrowType {
+  switch (marker) {
+    case '<':
+    case '>':
+      return 'arrow'
+    case 'o':
+      return 'circle'
+    case 'x':
+      return 'cross'
+    default:
+      return 'none'
+  }
+}
+
+/**
+ * Run the source through mermaid.parse, converting a rejection into a diagnostic
+ */
+async function validateWithMermaid(
+  source: string,
+  cleanSource: string,
+  starts: number[]
+): Promise<ParseDiagnostic[]> {
+  let mermaid: Mermaid
+  try {
+    mermaid = await loadMermaid()
+  } catch (error) {
+    return [{
+      severity: 'error',
+      code: 'invalid-syntax',
+      message: `Mermaid validation unavailable: ${error instanceof Error ? error.message : String(error)}`,
+      range: rangeAt(starts, 0, 0),
+    }]
+  }
+
+  try {
+    const parseResult = await mermaid.parse(cleanSource.trim())
+    if (!parseResult) {
+      throw new Error('Failed to parse Mermaid diagram')
+    }
+    return []
+  } catch (error) {
+    // Mermaid reports lines relative to the trimmed source
+    const leading = cleanSource.slice(0, cleanSource.length - cleanSource.trimStart().length)
+    const lineOffset = leading.split('\n').length - 1
+    return [syntaxDiagnostic(error, source, starts, lineOffset)]
+  }
 }
 
 /**
- * Detect shape from Mermaid bracket syntax
+ * Explain why a statement doesn't fit the flowchart grammar, if it's
+ * plainly broken rather than just something we don't read
  */
-function detectShape(open: string, close: string, content: string): ShapeType {
-  // [(text)] = cylinder (database)
-  if (open === '[' && content.startsWith('(') && content.endsWith(')')) {
-    return 'cylinder'
+function describeInvalidStatement(text: string): string | undefined {
+  if ((text.match(/"/g) || []).length % 2 !== 0) {
+    return `Unclosed quote in: ${text}`
   }
-  // [text] = rect
-  if (open === '[' && close === ']') {
-    return 'rect'
+
+  let depth = 0
+  for (const ch of text.replace(/"[^"]*"/g, '')) {
+    if ('[({'.includes(ch)) depth++
+    else if (')]}'.includes(ch)) depth--
+    if (depth < 0) return `Unexpected "${ch}" in: ${text}`
   }
-  // (text) = round rect (stadium)
-  if (open === '(' && close === ')') {
-    return 'round'
+  if (depth > 0) return `Unclosed bracket in: ${text}`
+
+  if (/^(?:[<ox]?(?:--|==|-\.))/.test(text)) return `Link has no source node: ${text}`
+  if (/(?:--|==|\.-)[>ox]?$/.test(text)) return `Link has no target node: ${text}`
+  if (/^subgraph\b/.test(text)) return `Expected a subgraph id: ${text}`
+  if (PORT_SUFFIX_PATTERN.test(text)) return `Port constraints only apply to edge ends: ${text}`
+
+  return undefined
+}
+
+/**
+ * Convert an error thrown by mermaid.parse into a diagnostic. Jison parser errors
+ * carry the offending token's location; anything else is pinned to the first line.
+ */
+function syntaxDiagnostic(
+  error: unknown,
+  source: string,
+  starts: number[],
+  lineOffset: number
+): ParseDiagnostic {
+  const message = error instanceof Error ? error.message : String(error)
+  const hash = (error as { hash?: JisonErrorHash } | null)?.hash
+
+  const langium = (error as { result?: LangiumParseResult } | null)?.result
+  const langiumResult = langium && langiumDiagnostic(langium, source, starts, lineOffset)
+  if (langiumResult) return langiumResult
+
+  let range = lineRange(source, starts, hash?.line !== undefined ? hash.line + lineOffset : lineOffset)
+  if (hash?.loc) {
+    const first = hash.loc.first_line - 1 + lineOffset
+    const last = hash.loc.last_line - 1 + lineOffset
+    if (first >= 0 && last < starts.length) {
+      const start = Math.min(starts[first] + hash.loc.first_column, source.length)
+      const end = Math.min(starts[last] + hash.loc.last_column, source.length)
+      range = rangeAt(starts, start, Math.max(start, end))
+    }
   }
-  // {text} = diamond
-  if (open === '{' && close === '}') {
-    return 'diamond'
+
+  // Narrow the range to the offending text (the location often includes leading whitespace)
+  const text = source.slice(range.start.offset, range.end.offset)
+  const token = hash?.text?.trim()
+  const lineEnd = lineRange(source, starts, range.end.line - 1).end.offset
+  const tokenIndex = token ? source.slice(range.start.offset, lineEnd).indexOf(token) : -1
+  if (token && tokenIndex >= 0) {
+    const start = range.start.offset + tokenIndex
+    range = rangeAt(starts, start, start + token.length)
+  } else if (text.trim()) {
+    const start = range.start.offset + text.length - text.trimStart().length
+    range = rangeAt(starts, start, start + text.trim().length)
   }
-  // <text> = not standard, but treat as rect
-  if (open === '<' && close === '>') {
-    return 'rect'
+
+  // Jison messages embed a source excerpt and every acceptable token;
+  // the offending token is enough to point at the problem
+  const summary = token
+    ? `Unexpected "${token}"`
+    : message.split('\n').find(Boolean) || 'Invalid syntax'
+
+  return { severity: 'error', code: 'invalid-syntax', message: summary, range }
+}
+
+/**
+ * Try to match a link operator, with or without an edge id, at `pos`
+ */
+function matchLink(line: string, pos: number): { link: LinkToken; end: number } | null {
+  EDGE_ID_PATTERN.lastIndex = pos
+  const edgeId = EDGE_ID_PATTERN.exec(line)
+  if (edgeId) {
+    const match = matchLinkOperator(line, EDGE_ID_PATTERN.lastIndex, true)
+    return match && { link: { ...match.link, id: edgeId[1] }, end: match.end }
   }
-  return 'rect'
+  return matchLinkOperator(line, pos, pos > 0 && /\s/.test(line[pos - 1]))
 }
 
 /**
- * Ensure a node exists in the graph (create placeholder if needed)
+ * Match a link operator at `pos`. A leading o/x marker only counts after
+ * whitespace (`allowMarker`), so node ids ending in o or x are not split.
  */
-function ensureNode(graph: Graph, id: string, currentSubgraph: string | null): void {
-  if (graph.nodes.has(id)) return
-
-  const layerId = currentSubgraph || 'root'
-  const node: Node = {
-    id,
-    label: id,
-    shape: 'rect',
-    isSubgraph: false,
-    parent: currentSubgraph || undefined,
-    gridPos: { gx: 0, gy: 0, layer: layerId }, // Will be set by layout
-  }
-  graph.nodes.set(id, node)
-
-  if (currentSubgraph) {
-    const parent = graph.nodes.get(currentSubgraph)
-    if (parent) {
-      parent.children = parent.children || []
-      if (!parent.children.includes(id)) {
-        parent.children.push(id)
+function matchLinkOperator(line: string, pos: number, allowMarker: boolean): { link: LinkToken; end: number } | null {
+  TEXT_LINK_START_PATTERN.lastIndex = pos
+  const textStart = TEXT_LINK_START_PATTERN.exec(line)
+  if (textStart && (allowMarker || !textStart[1])) {
+    const endPattern = TEXT_LINK_END_PATTERNS[textStart[2]]
+    endPattern.lastIndex = TEXT_LINK_START_PATTERN.lastIndex
+    const textEnd = endPattern.exec(line)
+    if (textEnd) {
+      const label = line.slice(TEXT_LINK_START_PATTERN.lastIndex, textEnd.index).trim()
+      const body = textStart[2] === '-.' ? `-${textEnd[1]}` : textEnd[1]
+      return {
+        link: {
+          startMarker: textStart[1],
+          body,
+          endMarker: textEnd[2],
+          label: labelText(label) || undefined,
+        },
+        end: endPattern.lastIndex,
       }
     }
-  } else if (!graph.rootNodes.includes(id)) {
-    graph.rootNodes.push(id)
   }
+
+  LINK_PATTERN.lastIndex = pos
+  const match = LINK_PATTERN.exec(line)
+  if (!match || (match[1] && !allowMarker)) return null
+
+  const [, startMarker, body, endMarker, label] = match
+  // A bare `--`/`==` is only valid as the opening of a text link
+  if ((body === '--' || body === '==') && !startMarker && !endMarker) return null
+
+  return {
+    link: {
+      startMarker,
+      body,
+      endMarker,
+      label: label !== undefined ? labelText(label.trim()) || undefined : undefined,
+    },
+    end: LINK_PATTERN.lastIndex,
+  }
+}
+
+/**
+ * Locate the first lexer or parser error from a Langium-based Mermaid parser
+ */
+function langiumDiagnostic(
+  result: LangiumParseResult,
+  source: string,
+  starts: number[],
+  lineOffset: number
+): ParseDiagnostic | null {
+  const token = result.parserErrors?.[0]?.token
+  const lexerError = result.lexerErrors?.[0]
+
+  let location: { line: number; column: number; length: number } | null = null
+  if (token && Number.isFinite(token.startLine) && Number.isFinite(token.startColumn)) {
+    const length = token.image.trim() ? (token.endColumn ?? token.startColumn!) - token.startColumn! + 1 : 0
+    location = { line: token.startLine!, column: token.startColumn!, length }
+  } else if (lexerError && Number.isFinite(lexerError.line) && Number.isFinite(lexerError.column)) {
+    location = { line: lexerError.line!, column: lexerError.column!, length: lexerError.length }
+  }
+
+  const lineIndex = location ? location.line - 1 + lineOffset : -1
+  if (!location || lineIndex < 0 || lineIndex >= starts.length) return null
+
+  const start = Math.min(starts[lineIndex] + location.column - 1, source.length)
+  const end = Math.min(start + location.length, source.length)
+  const text = source.slice(start, end).trim()
+  return {
+    severity: 'error',
+    code: 'invalid-syntax',
+    message: text ? `Unexpected "${text}"` : 'Unexpected end of line',
+    range: rangeAt(starts, start, end),
+  }
+}
+
+/**
+ * Split an edge statement into node groups and links.
+ * Returns null if the statement contains no link.
+ */
+function parseEdgeChain(line: string): EdgeChain | null {
+  const segments: Array<{ text: string; start: number }> = []
+  const links: LinkToken[] = []
+  let depth = 0
+  let inQuote = false
+  let current = ''
+  let segmentStart = 0
+  let pos = 0
+
+  while (pos < line.length) {
+    const ch = line[pos]
+
+    if (inQuote) {
+      if (ch === '"') inQuote = false
+      current += ch
+      pos++
+      continue
+    }
+
+    if (depth === 0) {
+      const linkMatch = matchLink(line, pos)
+      if (linkMatch) {
+        segments.push({ text: current, start: segmentStart })
+        links.push(linkMatch.link)
+        current = ''
+        pos = linkMatch.end
+        segmentStart = pos
+        continue
+      }
+    }
+
+    if (ch === '"') inQuote = true
+    else if ('[({'.includes(ch)) depth++
+    else if (')]}'.includes(ch)) depth = Math.max(0, depth - 1)
+    // `>` opens the asymmetric shape when it directly follows a node id: A>label]
+    else if (ch === '>' && depth === 0 && /[\p{L}\p{N}_-]$/u.test(current)) depth++
+
+    current += ch
+    pos++
+  }
+  segments.push({ text: current, start: segmentStart })
+
+  if (links.length === 0) return null
+
+  const groups: LocatedRef[][] = []
+  for (const segment of segments) {
+    const refs = parseNodeGroup(segment.text, segment.start, true)
+    if (!refs) return null
+    groups.push(refs)
+  }
+
+  return { groups, links }
+}
+
+// Port constraint after a node reference in an edge: API:R, DB:B1 (but not the class shorthand A:::R)
+const PORT_SUFFIX_PATTERN = /(?<!:):([TRBL])(\d*)$/
+
+/**
+ * Parse `A & B[Label] & C` into node references.
+ * Spans are relative to the statement, `offset` being where `text` starts in it.
+ * With `allowPorts`, each reference may end in a port constraint (`A:R & B:L`).
+ */
+function parseNodeGroup(text: string, offset = 0, allowPorts = false): LocatedRef[] | null {
+  if (!text.trim()) return null
+
+  const parts: Span[] = []
+  let depth = 0
+  let inQuote = false
+  let start = 0
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (ch === '"') inQuote = !inQuote
+    if (inQuote) continue
+    if ('[({'.includes(ch)) depth++
+    else if (')]}'.includes(ch)) depth = Math.max(0, depth - 1)
+    else if (ch === '&' && depth === 0) {
+      parts.push({ start, end: i })
+      start = i + 1
+    }
+  }
+  parts.push({ start, end: text.length })
+
+  const refs: LocatedRef[] = []
+  for (const part of parts) {
+    const raw = text.slice(part.start, part.end)
+    const refStart = offset + part.start + raw.length - raw.trimStart().length
+    let refText = raw.trim()
+
+    const portMatch = allowPorts ? refText.match(PORT_SUFFIX_PATTERN) : null
+    let port: PortConstraint | undefined
+    let portSpan: Span | undefined
+    if (portMatch) {
+      port = { side: portMatch[1] as PortSide }
+      if (portMatch[2]) port.index = Number(portMatch[2])
+      portSpan = { start: refStart + portMatch.index!, end: refStart + refText.length }
+      refText = refText.slice(0, portMatch.index).trimEnd()
+    }
+
+    const ref = parseNodeRef(refText)
+    if (!ref) return null
+    const span = { start: refStart, end: refStart + refText.length }
+    refs.push(port ? { ...ref, port, span, portSpan } : { ...ref, span })
+  }
+  return refs
+}
+
+/**
+ * Parse a single node reference: `A`, `A[Label]`, `A((Circle))`, `A@{ shape: cyl, label: "DB" }`,
+ * each optionally followed by `:::className`
+ */
+function parseNodeRef(text: string): NodeRef | null {
+  // Trailing class shorthand: A:::name or A[Label]:::name
+  const classMatch = text.match(/:::([\w-]+)$/)
+  if (classMatch) {
+    const ref = parseNodeRef(text.slice(0, classMatch.index).trim())
+    return ref ? { ...ref, className: classMatch[1] } : null
+  }
+
+  // Ids may be any letters (`Ü`); dots qualify one by the include it comes from: Backend.api
+  const idMatch = text.match(/^([\p{L}\p{N}_-]+(?:\.[\p{L}\p{N}_-]+)*)\s*/u)
+  if (!idMatch) return null
+
+  const id = idMatch[1]
+  const rest = text.slice(idMatch[0].length)
+  if (!rest) return { id }
+
+  // Mermaid v11 shape data: A@{ shape: cyl, label: "Database" }
+  const shapeDataMatch = rest.match(/^@\{([\s\S]*)\}$/)
+  if (shapeDataMatch) {
+    const props = parseShapeData(shapeDataMatch[1])
+    return {
+      id,
+      label: props.label !== undefined ? decodeEntities(unwrapMarkdown(props.label)) : undefined,
+      shape: props.shape !== undefined ? mapShape(props.shape) : undefined,
+    }
+  }
+
+  for (const { open, close, shape } of BRACKET_SHAPES) {
+    if (rest.length >= open.length + close.length && rest.startsWith(open) && rest.endsWith(close)) {
+      const content = rest.slice(open.length, rest.length - close.length)
+      return { id, label: labelText(content.trim()), shape }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Parse the body of `@{ ... }` shape data into key/value pairs
+ */
+function parseShapeData(body: string): Record<string, string> {
+  const props: Record<string, string> = {}
+  const propPattern = /(\w+)\s*:\s*(?:"([^"]*)"|'([^']*)'|([^,\n]+))/g
+
+  for (const match of body.matchAll(propPattern)) {
+    const [, key, doubleQuoted, singleQuoted, bare] = match
+    props[key] = doubleQuoted ?? singleQuoted ?? bare.trim()
+  }
+
+  return props
+}
+
+/**
+ * Read label text as written in the source: surrounding double quotes
+ * stripped, a markdown string ("`**bold**`") unwrapped and entity codes decoded
+ */
+function labelText(text: string): string {
+  const quoted = /^"[\s\S]*"$/.test(text)
+  const content = unquote(text)
+  return decodeEntities(quoted ? unwrapMarkdown(content) : content)
+}
+
+/**
+ * The text of a markdown string, without its backticks. Formatting marks
+ * stay in the label; the renderer draws labels as plain text.
+ */
+function unwrapMarkdown(text: string): string {
+  return text.replace(/^`([\s\S]*)`$/, '$1')
+}
+
+/**
+ * Strip surrounding double quotes from a label
+ */
+function unquote(text: string): string {
+  return text.replace(/^"(.*)"$/s, '$1')
+}
+
+// The named entity codes labels use; anything else is left as written
+const NAMED_ENTITIES: Record<string, string> = {
+  quot: '"',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  apos: "'",
+  nbsp: '\u00a0',
+}
+
+/**
+ * Decode Mermaid entity codes: `#quot;`, `#amp;` and numeric `#124;`
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/#(\w+);/g, (code, name: string) => {
+    if (/^\d+$/.test(name)) {
+      const point = Number(name)
+      return point <= 0x10ffff ? String.fromCodePoint(point) : code
+    }
+    return NAMED_ENTITIES[name] ?? code
+  })
+}
+
+/**
+ * Attach a classDef name to a node (once)
+ */
+function addClass(node: Node, className: string): void {
+  node.classes = node.classes || []
+  if (!node.classes.includes(className)) {
+    node.classes.push(className)
+  }
+}
+
+/**
+ * Split a comma-separated id list: `A, B,C`
+ */
+function splitList(text: string): string[] {
+  return text.split(',').map(item => item.trim()).filter(Boolean)
+}
+
+// Values a style declaration may hold; anything else is dropped, since
+// styles end up in SVG attributes
+const COLOR_VALUE = /^(?:#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})|[a-z]+|(?:rgba?|hsla?)\([\d\s.,%/+-]*\))$/i
+const LENGTH_VALUE = /^\d*\.?\d+(?:px)?$/
+const NUMBER_VALUE = /^\d*\.?\d+$/
+const DASH_VALUE = /^(?:none|\d*\.?\d+(?:px)?(?:(?:\s*,\s*|\s+)\d*\.?\d+(?:px)?)*)$/
+
+/**
+ * Parse CSS-like Mermaid style declarations: `fill:#f9f,stroke:#333,stroke-width:4px`
+ * Commas inside parentheses (rgb(...)) don't split declarations. Values that
+ * aren't a color, length or dash pattern as the property expects are ignored.
+ */
+function parseStyleDeclarations(text: string): NodeStyle {
+  const style: NodeStyle = {}
+  const declarations: string[] = []
+  let depth = 0
+  let current = ''
+
+  for (const ch of text.replace(/;$/, '')) {
+    if (ch === '(') depth++
+    else if (ch === ')') depth = Math.max(0, depth - 1)
+    else if (ch === ',' && depth === 0) {
+      declarations.push(current)
+      current = ''
+      continue
+    }
+    current += ch
+  }
+  declarations.push(current)
+
+  for (const declaration of declarations) {
+    const colon = declaration.indexOf(':')
+    if (colon < 0) continue
+    const key = declaration.slice(0, colon).trim().toLowerCase()
+    const value = declaration.slice(colon + 1).trim()
+    if (!value) continue
+
+    switch (key) {
+      case 'fill':
+        if (COLOR_VALUE.test(value)) style.fill = value
+        break
+      case 'stroke':
+        if (COLOR_VALUE.test(value)) style.stroke = value
+        break
+      case 'stroke-width':
+        if (LENGTH_VALUE.test(value)) style.strokeWidth = parseFloat(value)
+        break
+      case 'opacity':
+        if (NUMBER_VALUE.test(value)) style.opacity = parseFloat(value)
+        break
+      case 'color':
+        if (COLOR_VALUE.test(value)) style.color = value
+        break
+      case 'stroke-dasharray':
+        if (DASH_VALUE.test(value)) style.strokeDasharray = value.replace(/\s*,\s*|\s+/g, ',')
+        break
+    }
+  }
+
+  return style
+}
+
+/**
+ * Keep only the declarations that apply to edges (fill is meaningless on a line)
+ */
+function toEdgeLineStyle(style: NodeStyle): EdgeLineStyle {
+  const { fill: _fill, ...lineStyle } = style
+  return lineStyle
+}
+
+/**
+ * Resolve classDef/class/style/linkStyle statements onto nodes and edges.
+ * Precedence: `classDef default` < assigned classes (in order) < `style` statement.
+ */
+function resolveStyles(
+  graph: Graph,
+  inlineStyles: Map<string, NodeStyle>,
+  linkStyles: Map<number | 'default', EdgeLineStyle>,
+  linkNumbers: number[]
+): void {
+  const defaultStyle = graph.classDefs.get('default')
+
+  for (const node of graph.nodes.values()) {
+    const classStyles = (node.classes || [])
+      .map(name => graph.classDefs.get(name))
+      .filter((style): style is NodeStyle => style !== undefined)
+    const inline = inlineStyles.get(node.id)
+
+    // The default class applies to plain nodes, not subgraph containers
+    const base = node.isSubgraph ? undefined : defaultStyle
+    if (!base && classStyles.length === 0 && !inline) continue
+
+    node.style = Object.assign({}, base, ...classStyles, inline)
+  }
+
+  const defaultLineStyle = linkStyles.get('default')
+  graph.edges.forEach((edge, index) => {
+    const indexed = linkStyles.get(linkNumbers[index] ?? index)
+    if (!defaultLineStyle && !indexed) return
+    edge.lineStyle = { ...defaultLineStyle, ...indexed }
+  })
 }
 
 export default parseMermaid
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { parseMermaid } from './mermaid'
+import { formatMermaid, printMermaid } from './printer'
+
+const SOURCE = `flowchart LR
+    o["pipe | x"] -->|"say #quot;hi#quot;"| q[plain]
+    r["hash #quot; kept"] -- "a | b" --> o
+    subgraph S["The #quot;core#quot;"]
+        n(#9829; love)
+    end
+`
+
+describe('printMermaid', () => {
+  it('prints labels the parser reads back verbatim', async () => {
+    const graph = await parseMermaid(SOURCE)
+    expect(graph.nodes.get('o')?.label).toBe('pipe | x')
+    expect(graph.nodes.get('r')?.label).toBe('hash " kept')
+    expect(graph.nodes.get('S')?.label).toBe('The "core"')
+    expect(graph.nodes.get('n')?.label).toBe('♥ love')
+    expect(graph.edges.map(edge => edge.label)).toEqual(['say "hi"', 'a | b'])
+
+    const reparsed = await parseMermaid(printMermaid(graph))
+    for (const node of graph.nodes.values()) {
+      expect(reparsed.nodes.get(node.id)?.label).toBe(node.label)
+    }
+    expect(reparsed.edges.map(edge => edge.label)).toEqual(graph.edges.map(edge => edge.label))
+  })
+
+  it('keeps a literal entity code literal', async () => {
+    const graph = await parseMermaid('flowchart LR\n    a["#35;quot; stays"]')
+    expect(graph.nodes.get('a')?.label).toBe('#quot; stays')
+
+    const reparsed = await parseMermaid(printMermaid(graph))
+    expect(reparsed.nodes.get('a')?.label).toBe('#quot; stays')
+  })
+
+  it('keeps backticks that are part of a label', async () => {
+    const graph = await parseMermaid('flowchart LR\n    a[`code`] -->|`x`| b["`*md*`"]')
+    expect(graph.nodes.get('a')?.label).toBe('`code`')
+    expect(graph.nodes.get('b')?.label).toBe('*md*')
+
+    const reparsed = await parseMermaid(printMermaid(graph))
+    expect(reparsed.nodes.get('a')?.label).toBe('`code`')
+    expect(reparsed.nodes.get('b')?.label).toBe('*md*')
+    expect(reparsed.edges[0].label).toBe('`x`')
+
+    const once = await formatMermaid('flowchart LR\n    a[`code`]')
+    expect(await formatMermaid(once)).toBe(once)
+  })
+})
+
+describe('formatMermaid', () => {
+  it('is idempotent', async () => {
+    const once = await formatMermaid(SOURCE)
+    expect(await formatMermaid(once)).toBe(once)
+  })
+})
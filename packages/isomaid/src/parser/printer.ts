@@ -0,0 +1,324 @@
+/**
+ * Mermaid printer for arch-explorer
+ *
+ * Turns a Graph back into canonical Mermaid flowchart text - the inverse of
+ * parseMermaid. Output layout is fixed so formatting a file twice is a no-op:
+ *
+ *   ---                   (title and description, if any)
+ *   %%{arch: ...}%%       (only non-default settings)
+ *   flowchart <dir>
+ *   classDef ...          (in definition order)
+ *   nodes and subgraphs   (hierarchy order, subgraph blocks indented)
+ *   edges                 (declaration order, so linkStyle indices hold)
+ *   class / style / linkStyle
+ *
+ * Settings read from frontmatter `config` or `%%{init}%%` come out in the
+ * arch directive, which is where the parser ends up keeping them.
+ */
+
+import type {
+  Graph, Node, Edge, NodeStyle, EdgeLineStyle, ShapeType, EdgeStyle, ArrowType, PortConstraint,
+} from '../model/types'
+import { DEFAULT_GRID_CONFIG } from '../model/types'
+import { parseMermaid } from './mermaid'
+
+export interface PrintOptions {
+  indent?: string  // Indentation per nesting level (default 4 spaces)
+}
+
+const DEFAULT_OPTIONS: Required<PrintOptions> = {
+  indent: '    ',
+}
+
+/** Bracket pair written for each shape */
+const SHAPE_BRACKETS: Record<ShapeType, [string, string]> = {
+  rect: ['[', ']'],
+  round: ['(', ')'],
+  stadium: ['([', '])'],
+  cylinder: ['[(', ')]'],
+  circle: ['((', '))'],
+  diamond: ['{', '}'],
+  hexagon: ['{{', '}}'],
+  parallelogram: ['[/', '/]'],
+  trapezoid: ['[/', '\\]'],
+  subroutine: ['[[', ']]'],
+}
+
+/**
+ * Print a Graph as Mermaid flowchart source
+ */
+export function printMermaid(graph: Graph, options: PrintOptions = {}): string {
+  const { indent } = { ...DEFAULT_OPTIONS, ...options }
+  const lines: string[] = []
+
+  if (graph.title || graph.description) {
+    lines.push('---')
+    if (graph.title) lines.push(`title: ${printYamlText(graph.title)}`)
+    if (graph.description) lines.push(`description: ${printYamlText(graph.description)}`)
+    lines.push('---')
+  }
+
+  const directive = printArchDirective(graph)
+  if (directive) lines.push(directive)
+
+  const direction = graph.config.direction
+  lines.push(direction ? `flowchart ${direction === 'TB' ? 'TD' : direction}` : 'flowchart')
+
+  for (const [name, style] of graph.classDefs) {
+    const declarations = printStyleDeclarations(style)
+    if (declarations) lines.push(`${indent}classDef ${name} ${declarations}`)
+  }
+
+  // Nodes, nested under their subgraphs
+  const printed = new Set<string>()
+  const printNode = (id: string, depth: number) => {
+    const node = graph.nodes.get(id)
+    if (!node || printed.has(id)) return
+    printed.add(id)
+
+    const pad = indent.repeat(depth)
+    if (!node.isSubgraph) {
+      lines.push(pad + printNodeRef(node))
+      return
+    }
+
+    lines.push(`${pad}subgraph ${printSubgraphHeader(node)}`)
+    const layerDirection = graph.layers.get(id)?.direction
+    if (layerDirection) {
+      // `direction` statements only accept TB, not the TD header alias
+      lines.push(`${pad}${indent}direction ${layerDirection}`)
+    }
+    for (const childId of node.children || []) {
+      printNode(childId, depth + 1)
+    }
+    lines.push(`${pad}end`)
+  }
+
+  for (const id of graph.rootNodes) {
+    printNode(id, 1)
+  }
+  // Nodes missing from rootNodes/children still need declaring somewhere
+  for (const node of graph.nodes.values()) {
+    if (!node.parent) printNode(node.id, 1)
+  }
+
+  for (const edge of graph.edges) {
+    const from = edge.from + printPortConstraint(edge.fromPortConstraint)
+    const to = edge.to + printPortConstraint(edge.toPortConstraint)
+    lines.push(`${indent}${from} ${printLink(edge)} ${to}`)
+  }
+
+  lines.push(...printClassAssignments(graph).map(line => indent + line))
+  lines.push(...printInlineStyles(graph).map(line => indent + line))
+  lines.push(...printLinkStyles(graph).map(line => indent + line))
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Parse and re-print Mermaid source in canonical form
+ */
+export async function formatMermaid(source: string, options: PrintOptions = {}): Promise<string> {
+  const graph = await parseMermaid(source)
+  return printMermaid(graph, options)
+}
+
+/**
+ * Print the arch directive with the settings that differ from parser defaults
+ */
+function printArchDirective(graph: Graph): string | null {
+  const { config } = graph
+  const settings: Record<string, unknown> = {}
+  if (config.view !== 'flat') settings.view = config.view
+  if (config.nav !== 'drill') settings.nav = config.nav
+  if (config.layout && Object.keys(config.layout).length > 0) settings.layout = config.layout
+  if (config.render && Object.keys(config.render).length > 0) settings.render = config.render
+  if (config.grid.cellSize !== DEFAULT_GRID_CONFIG.cellSize) settings.grid = { cellSize: config.grid.cellSize }
+
+  return Object.keys(settings).length > 0 ? `%%{arch: ${printDirectiveValue(settings)}}%%` : null
+}
+
+/**
+ * Print a directive value with unquoted keys: {view: "iso", layout: {nodeSpacing: 80}}
+ */
+function printDirectiveValue(value: unknown): string {
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined)
+    return `{${entries.map(([key, v]) => `${key}: ${printDirectiveValue(v)}`).join(', ')}}`
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Print a frontmatter string, double-quoted (JSON-style) unless it reads back as plain text
+ */
+function printYamlText(text: string): string {
+  if (/^[A-Za-z][\w .,()/'-]*$/.test(text) && !/^(?:true|false|null|yes|no)$/i.test(text)) return text
+  return JSON.stringify(text)
+}
+
+/**
+ * Print a node declaration: `A`, `A[Label]`, `DB[(Database)]`
+ */
+function printNodeRef(node: Node): string {
+  if (node.shape === 'rect' && node.label === node.id) return node.id
+
+  const [open, close] = SHAPE_BRACKETS[node.shape] || SHAPE_BRACKETS.rect
+  return `${node.id}${open}${printText(node.label)}${close}`
+}
+
+/**
+ * Print a subgraph header: `S` or `S["Label"]`
+ */
+function printSubgraphHeader(node: Node): string {
+  if (node.label === node.id) return node.id
+  return `${node.id}["${escapeText(node.label)}"]`
+}
+
+/**
+ * Quote text when it holds characters that would end the surrounding
+ * bracket or be read as syntax
+ */
+function printText(text: string): string {
+  if (/^[\w][\w .,'!?-]*$/.test(text)) return text
+  return `"${escapeText(text)}"`
+}
+
+/**
+ * Mermaid has no escapes inside quotes, only entity codes. A `#` that
+ * would read back as the start of one is written as a code too, and so are
+ * backticks, which would make a quoted label a markdown string.
+ */
+function escapeText(text: string): string {
+  return text.replace(/#(?=\w+;)/g, '#35;').replace(/"/g, '#quot;').replace(/\|/g, '#124;').replace(/`/g, '#96;')
+}
+
+/**
+ * Print a port constraint suffix: `:B`, `:R1`, or nothing when unpinned
+ */
+function printPortConstraint(constraint: PortConstraint | undefined): string {
+  if (!constraint) return ''
+  return `:${constraint.side}${constraint.index ?? ''}`
+}
+
+/**
+ * Print the link operator and label for an edge: `-->`, `-.->|label|`, `<==>`, `o--o`
+ */
+function printLink(edge: Edge): string {
+  const start = arrowToMarker(edge.fromArrow ?? 'none', '<')
+  const end = arrowToMarker(edge.toArrow ?? 'arrow', '>')
+  const body = linkBody(edge.style ?? 'solid', end !== '')
+  const label = edge.label ? `|${printText(edge.label)}|` : ''
+  return `${start}${body}${end}${label}`
+}
+
+/**
+ * Line body for an edge style. Without an end marker the solid and thick
+ * bodies need a third character (`---`, `===`) to read as a link.
+ */
+function linkBody(style: EdgeStyle, hasEnd: boolean): string {
+  switch (style) {
+    case 'thick':
+      return hasEnd ? '==' : '==='
+    case 'dotted':
+    case 'dashed':  // Mermaid has no separate dashed link
+      return '-.-'
+    default:
+      return hasEnd ? '--' : '---'
+  }
+}
+
+/**
+ * Map an arrowhead onto a link marker (`arrow` is written as `<` or `>` depending on the end)
+ */
+function arrowToMarker(arrow: ArrowType, arrowMarker: string): string {
+  switch (arrow) {
+    case 'arrow':
+    case 'open':
+      return arrowMarker
+    case 'circle':
+      return 'o'
+    case 'cross':
+      return 'x'
+    default:
+      return ''
+  }
+}
+
+/**
+ * Print CSS-like declarations for classDef/style/linkStyle
+ */
+function printStyleDeclarations(style: NodeStyle | EdgeLineStyle): string {
+  const declarations: string[] = []
+  if ('fill' in style && style.fill !== undefined) declarations.push(`fill:${style.fill}`)
+  if (style.stroke !== undefined) declarations.push(`stroke:${style.stroke}`)
+  if (style.strokeWidth !== undefined) declarations.push(`stroke-width:${style.strokeWidth}px`)
+  if (style.opacity !== undefined) declarations.push(`opacity:${style.opacity}`)
+  if (style.color !== undefined) declarations.push(`color:${style.color}`)
+  if (style.strokeDasharray !== undefined) {
+    // Commas separate declarations, so dash lengths are space-separated in source
+    declarations.push(`stroke-dasharray:${style.strokeDasharray.replace(/,/g, ' ')}`)
+  }
+  return declarations.join(',')
+}
+
+/**
+ * Print `class A,B name` statements, grouping nodes per class in first-use order
+ */
+function printClassAssignments(graph: Graph): string[] {
+  const members = new Map<string, string[]>()
+  for (const node of graph.nodes.values()) {
+    for (const className of node.classes || []) {
+      const ids = members.get(className) || []
+      ids.push(node.id)
+      members.set(className, ids)
+    }
+  }
+  return [...members].map(([className, ids]) => `class ${ids.join(',')} ${className}`)
+}
+
+/**
+ * Print `style` statements for whatever a node's resolved style has beyond
+ * what its classes already give it
+ */
+function printInlineStyles(graph: Graph): string[] {
+  const lines: string[] = []
+  const defaultStyle = graph.classDefs.get('default')
+
+  for (const node of graph.nodes.values()) {
+    if (!node.style) continue
+
+    const fromClasses: NodeStyle = Object.assign(
+      {},
+      node.isSubgraph ? undefined : defaultStyle,
+      ...(node.classes || []).map(name => graph.classDefs.get(name))
+    )
+    const inline: NodeStyle = {}
+    for (const key of Object.keys(node.style) as Array<keyof NodeStyle>) {
+      if (node.style[key] !== fromClasses[key]) {
+        Object.assign(inline, { [key]: node.style[key] })
+      }
+    }
+
+    const declarations = printStyleDeclarations(inline)
+    if (declarations) lines.push(`style ${node.id} ${declarations}`)
+  }
+
+  return lines
+}
+
+/**
+ * Print `linkStyle` statements, grouping edges that share a style
+ */
+function printLinkStyles(graph: Graph): string[] {
+  const groups = new Map<string, number[]>()
+  graph.edges.forEach((edge, index) => {
+    if (!edge.lineStyle) return
+    const declarations = printStyleDeclarations(edge.lineStyle)
+    if (!declarations) return
+    const indices = groups.get(declarations) || []
+    indices.push(index)
+    groups.set(declarations, indices)
+  })
+  return [...groups].map(([declarations, indices]) => `linkStyle ${indices.join(',')} ${declarations}`)
+}
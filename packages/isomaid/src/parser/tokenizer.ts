@@ -0,0 +1,132 @@
+/**
+ * Flowchart tokenizer
+ *
+ * Splits diagram source into statements (one per line, or several joined
+ * by `;`) and keeps track of where each one sits in the source, so the
+ * parser can report positions without depending on Mermaid.
+ */
+
+import type { SourcePosition, SourceRange } from '../model/types'
+
+/** A statement of source text with its location */
+export interface Statement {
+  text: string
+  range: SourceRange
+}
+
+/** Start/end offsets within a statement's text */
+export interface Span {
+  start: number
+  end: number
+}
+
+/**
+ * Split source into statements: one per line, or several on a line joined by `;`.
+ * Blank lines and `%%` comments are skipped.
+ */
+export function splitSource(source: string, starts: number[]): Statement[] {
+  const statements: Statement[] = []
+
+  source.split('\n').forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith('%%')) return
+
+    for (const { start, end } of splitStatements(line)) {
+      const offset = starts[index]
+      statements.push({
+        text: line.slice(start, end),
+        range: rangeAt(starts, offset + start, offset + end),
+      })
+    }
+  })
+
+  return statements
+}
+
+/**
+ * Find `;` separated statements in a line (ignoring `;` inside quotes and brackets).
+ * Returns the trimmed extent of each statement.
+ */
+function splitStatements(line: string): Array<{ start: number; end: number }> {
+  const statements: Array<{ start: number; end: number }> = []
+  let depth = 0
+  let inQuote = false
+  let start = 0
+
+  const push = (end: number) => {
+    const text = line.slice(start, end)
+    const trimmedStart = start + text.length - text.trimStart().length
+    const trimmedEnd = start + text.trimEnd().length
+    if (trimmedEnd > trimmedStart) statements.push({ start: trimmedStart, end: trimmedEnd })
+  }
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]
+    if (ch === '"') inQuote = !inQuote
+    if (inQuote) continue
+    if ('[({'.includes(ch)) depth++
+    else if (')]}'.includes(ch)) depth = Math.max(0, depth - 1)
+    else if (ch === ';' && depth === 0) {
+      push(i)
+      start = i + 1
+    }
+  }
+
+  push(line.length)
+  return statements
+}
+
+/**
+ * Offsets at which each line of the source starts
+ */
+export function lineStarts(source: string): number[] {
+  const starts = [0]
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') starts.push(i + 1)
+  }
+  return starts
+}
+
+/**
+ * Convert an offset into a line/column position
+ */
+export function positionAt(starts: number[], offset: number): SourcePosition {
+  let low = 0
+  let high = starts.length - 1
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (starts[mid] <= offset) low = mid
+    else high = mid - 1
+  }
+  return { offset, line: low + 1, column: offset - starts[low] + 1 }
+}
+
+/**
+ * Range of a span within a statement
+ */
+export function statementRange(starts: number[], statement: Statement, span: Span): SourceRange {
+  const offset = statement.range.start.offset
+  return rangeAt(starts, offset + span.start, offset + span.end)
+}
+
+/**
+ * Build a source range from start/end offsets
+ */
+export function rangeAt(starts: number[], start: number, end: number): SourceRange {
+  return { start: positionAt(starts, start), end: positionAt(starts, end) }
+}
+
+/**
+ * Range covering a whole line (0-based index, clamped to the source)
+ */
+export function lineRange(source: string, starts: number[], index: number): SourceRange {
+  const line = Math.min(Math.max(index, 0), starts.length - 1)
+  const end = line + 1 < starts.length ? starts[line + 1] - 1 : source.length
+  return rangeAt(starts, starts[line], end)
+}
+
+/**
+ * Replace a span of source with spaces, keeping newlines so positions don't move
+ */
+export function blank(source: string, start: number, end: number): string {
+  return source.slice(0, start) + source.slice(start, end).replace(/[^\n]/g, ' ') + source.slice(end)
+}
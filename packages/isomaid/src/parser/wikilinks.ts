@@ -0,0 +1,93 @@
+/**
+ * [[Wikilinks]]
+ *
+ * `[[Name]]` names a component, `[[Name|Label]]` names it with a different
+ * label. In Mermaid a wikilink stands where a node id would:
+ *
+ *   flowchart TD
+ *       [[Auth]] --> [[API]]
+ *       [[UserDB]][(User Database)]
+ *       helper[validate request] --> [[API|API Gateway]]
+ *
+ * Bracketed nodes are shared components, plain ids stay local to the diagram.
+ * `id[[text]]` is still Mermaid's subroutine shape, not a link.
+ */
+
+/** A `[[...]]` in some text */
+export interface Wikilink {
+  target: string  // Name linked to
+  label?: string  // Text after `|`
+  start: number
+  end: number     // Exclusive
+}
+
+const WIKILINK_PATTERN = /\[\[([^[\]|\n]+?)(?:\|([^[\]\n]+?))?\]\]/g
+
+/**
+ * Find wikilinks in text. With `mermaid`, only those standing in for node ids:
+ * not subroutine shapes, and not inside labels or quotes.
+ */
+export function extractWikilinks(text: string, mermaid = false): Wikilink[] {
+  const links: Wikilink[] = []
+  for (const match of text.matchAll(WIKILINK_PATTERN)) {
+    const start = match.index!
+    if (mermaid && !atNodePosition(text, start)) continue
+    const link: Wikilink = { target: match[1].trim(), start, end: start + match[0].length }
+    if (match[2]?.trim()) link.label = match[2].trim()
+    links.push(link)
+  }
+  return links
+}
+
+/**
+ * Swap each wikilink in Mermaid source for a plain node id the flowchart
+ * grammar accepts (`__link0`, `__link1`, ...), one per distinct `identity`
+ * (the target name unless given). Returns the source and, per node id, the
+ * identity and first link. A `|Label` becomes the node's label unless a
+ * shape follows. Replacements are padded to the length of the link where
+ * they're shorter, so positions later on the line stay put.
+ */
+export function replaceWikilinks(
+  source: string,
+  identity: (link: Wikilink) => string = link => link.target
+): { source: string; links: Map<string, { identity: string; link: Wikilink }> } {
+  const links = new Map<string, { identity: string; link: Wikilink }>()
+  const ids = new Map<string, string>()  // Identity -> node id
+  let result = ''
+  let last = 0
+  for (const link of extractWikilinks(source, true)) {
+    const key = identity(link)
+    let id = ids.get(key)
+    if (!id) {
+      id = `__link${ids.size}`
+      ids.set(key, id)
+      links.set(id, { identity: key, link })
+    }
+    const shapeFollows = /^(?:[[({]|@\{)/.test(source.slice(link.end))
+    const replacement = link.label && !shapeFollows ? `${id}["${link.label.replace(/"/g, "'")}"]` : id
+    result += source.slice(last, link.start) + replacement.padEnd(link.end - link.start)
+    last = link.end
+  }
+  return { source: result + source.slice(last), links }
+}
+
+/**
+ * Whether `[[` at `index` is where a node id could start: not straight after
+ * an id (a subroutine shape), and not inside brackets, quotes or an edge
+ * label (`-->|text|`) on its line
+ */
+function atNodePosition(text: string, index: number): boolean {
+  if (/[\w-]/.test(text[index - 1] ?? '')) return false
+  let depth = 0
+  let inQuote = false
+  let inLabel = false
+  for (let i = text.lastIndexOf('\n', index - 1) + 1; i < index; i++) {
+    const ch = text[i]
+    if (ch === '"') inQuote = !inQuote
+    if (inQuote) continue
+    if ('[({'.includes(ch)) depth++
+    else if (')]}'.includes(ch)) depth = Math.max(0, depth - 1)
+    else if (ch === '|' && depth === 0) inLabel = !inLabel
+  }
+  return depth === 0 && !inQuote && !inLabel
+}
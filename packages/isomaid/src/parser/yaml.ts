@@ -0,0 +1,502 @@
+/**
+ * YAML subset parser for frontmatter and config files
+ *
+ * Covers what Mermaid frontmatter and files like docker-compose.yml use in
+ * practice: nested block mappings, block sequences, plain and quoted
+ * scalars, `|` and `>` block scalars, `#` comments, single-line flow
+ * collections (`{direction: LR}`), anchors, aliases and `<<` merge keys.
+ * Tags are skipped; parseYamlDocuments splits `---` separated documents.
+ *
+ * Nodes have the same shape as the JSON5 parser's, offsets included, so
+ * directive readers and diagnostics work the same on either.
+ */
+
+import type { Json5Node, Json5Property } from './json5'
+
+/**
+ * Thrown for malformed or unsupported input, with the offset of the problem
+ */
+export class YamlSyntaxError extends Error {
+  readonly offset: number
+
+  constructor(message: string, offset: number) {
+    super(message)
+    this.name = 'YamlSyntaxError'
+    this.offset = offset
+  }
+}
+
+/**
+ * Parse the YAML document between `start` and `end` of `text`.
+ * An empty document is an empty mapping.
+ */
+export function parseYaml(text: string, start = 0, end = text.length): Json5Node {
+  const lines = readLines(text, start, end)
+  const state: State = { text, end, lines, index: 0, anchors: new Map() }
+
+  if (lines.length === 0) {
+    return { type: 'object', properties: [], start, end: start }
+  }
+
+  const node = parseBlock(state, lines[0].indent)
+  const extra = state.lines[state.index]
+  if (extra) {
+    throw new YamlSyntaxError('Unexpected indentation', extra.offset + extra.indent)
+  }
+  return node
+}
+
+/**
+ * Parse every `---` separated document in `text`, skipping empty ones
+ */
+export function parseYamlDocuments(text: string): Json5Node[] {
+  const documents: Json5Node[] = []
+  const separator = /^(?:---|\.\.\.)[ \t]*(?:#.*)?$|^%.*$/gm
+  let start = 0
+  for (let match = separator.exec(text); ; match = separator.exec(text)) {
+    const end = match ? match.index : text.length
+    if (text.slice(start, end).split('\n').some(line => stripComment(line).trim())) {
+      documents.push(parseYaml(text, start, end))
+    }
+    if (!match) break
+    start = match.index + match[0].length
+  }
+  return documents
+}
+
+/** A non-blank, non-comment line */
+interface Line {
+  offset: number   // Where the line starts in the text
+  end: number      // Where the line ends (before the newline)
+  indent: number   // Columns of leading spaces
+  content: string  // Text after the indent, without a trailing comment
+}
+
+interface State {
+  text: string
+  end: number  // End of the document
+  lines: Line[]
+  index: number
+  anchors: Map<string, Json5Node>  // `&name` values, for `*name` aliases
+}
+
+const BLOCK_SCALAR_PATTERN = /^([|>])([-+]?)$/
+
+// `&anchor` and `!tag` properties before a value
+const NODE_PROPERTY_PATTERN = /^(?:&([^\s,[\]{}]+)|![^\s,[\]{}]*)(?:[ ]+|$)/
+
+const ALIAS_PATTERN = /^\*([^\s,[\]{}]+)/
+
+function readLines(text: string, start: number, end: number): Line[] {
+  const lines: Line[] = []
+  let offset = start
+
+  while (offset < end) {
+    const newline = text.indexOf('\n', offset)
+    const lineEnd = newline < 0 || newline > end ? end : newline
+    const raw = text.slice(offset, lineEnd).replace(/\r$/, '')
+
+    const indent = raw.length - raw.replace(/^ +/, '').length
+    if (raw[indent] === '\t') {
+      throw new YamlSyntaxError('Tabs are not allowed for indentation', offset + indent)
+    }
+    const content = stripComment(raw.slice(indent)).trimEnd()
+    if (content) {
+      lines.push({ offset, end: offset + raw.length, indent, content })
+    }
+
+    offset = lineEnd + 1
+  }
+
+  return lines
+}
+
+/**
+ * Drop a `#` comment, ignoring `#` inside quotes or not preceded by whitespace
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++
+      else if (ch === quote) quote = null
+    } else if ((ch === '"' || ch === "'") && (i === 0 || /[\s:[{,-]/.test(text[i - 1]))) {
+      quote = ch
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i)
+    }
+  }
+  return text
+}
+
+/**
+ * Parse the mapping, sequence or scalar whose lines start at `indent`
+ */
+function parseBlock(state: State, indent: number): Json5Node {
+  const line = state.lines[state.index]
+  if (isSequenceItem(line.content)) return parseSequence(state, indent)
+  if (matchKey(line.content)) return parseMapping(state, indent)
+
+  state.index++
+  return parseInline(state, line.offset + line.indent, line.content)
+}
+
+function parseMapping(state: State, indent: number): Json5Node {
+  const first = state.lines[state.index]
+  const properties: Json5Property[] = []
+  const merged = new Set<string>()  // Keys from `<<` that an explicit key may still override
+  let end = first.offset
+
+  for (let line = state.lines[state.index]; line && line.indent === indent; line = state.lines[state.index]) {
+    const key = matchKey(line.content)
+    const lineStart = line.offset + line.indent
+    if (!key) {
+      throw new YamlSyntaxError('Expected "key: value"', lineStart)
+    }
+
+    state.index++
+    const valueStart = lineStart + key.valueOffset
+    const rest = line.content.slice(key.valueOffset)
+    const value = parseValue(state, indent, rest, valueStart, line)
+    end = value.end
+
+    if (key.name === '<<' && !key.quoted) {
+      for (const property of mergeSources(value, valueStart)) {
+        if (properties.some(p => p.key === property.key)) continue
+        properties.push(property)
+        merged.add(property.key)
+      }
+      continue
+    }
+
+    const existing = properties.findIndex(p => p.key === key.name)
+    if (existing >= 0 && !merged.has(key.name)) {
+      throw new YamlSyntaxError(`Duplicate key "${key.name}"`, lineStart)
+    }
+    const property = { key: key.name, keyStart: lineStart, keyEnd: lineStart + key.length, value }
+    if (existing >= 0) {
+      properties[existing] = property
+      merged.delete(key.name)
+    } else {
+      properties.push(property)
+    }
+  }
+
+  return { type: 'object', properties, start: first.offset + first.indent, end }
+}
+
+/**
+ * Properties merged in by `<<: *base` or `<<: [*a, *b]` (earlier sources win)
+ */
+function mergeSources(value: Json5Node, offset: number): Json5Property[] {
+  const sources = value.type === 'array' ? value.items : [value]
+  const properties: Json5Property[] = []
+  for (const source of sources) {
+    if (source.type !== 'object') {
+      throw new YamlSyntaxError('"<<" needs a mapping or a list of mappings', offset)
+    }
+    for (const property of source.properties) {
+      if (!properties.some(p => p.key === property.key)) properties.push(property)
+    }
+  }
+  return properties
+}
+
+function parseSequence(state: State, indent: number): Json5Node {
+  const first = state.lines[state.index]
+  const items: Json5Node[] = []
+  let end = first.offset
+
+  for (let line = state.lines[state.index]; line && line.indent === indent; line = state.lines[state.index]) {
+    // A sequence at its key's indent ends at the next key
+    if (!isSequenceItem(line.content)) break
+
+    const rest = line.content.slice(1).trimStart()
+    const restColumn = line.content.length - rest.length
+    let item: Json5Node
+    if (rest && (matchKey(rest) || isSequenceItem(rest))) {
+      // `- key: value` starts a nested block at the column after the dash
+      state.lines[state.index] = { ...line, indent: line.indent + restColumn, content: rest }
+      item = parseBlock(state, line.indent + restColumn)
+    } else {
+      state.index++
+      item = parseValue(state, indent, rest, line.offset + line.indent + restColumn, line)
+    }
+    items.push(item)
+    end = item.end
+  }
+
+  return { type: 'array', items, start: first.offset + first.indent, end }
+}
+
+/**
+ * Parse the value after `key:` or `-`: inline on the same line, a block
+ * scalar, or a nested block on the following lines
+ */
+function parseValue(state: State, indent: number, rest: string, start: number, line: Line): Json5Node {
+  const property = rest.match(NODE_PROPERTY_PATTERN)
+  if (property) {
+    const value = parseValue(state, indent, rest.slice(property[0].length), start + property[0].length, line)
+    if (property[1]) state.anchors.set(property[1], value)
+    return value
+  }
+
+  const blockScalar = rest.match(BLOCK_SCALAR_PATTERN)
+  if (blockScalar) {
+    return parseBlockScalar(state, indent, blockScalar[1] === '>', blockScalar[2], start)
+  }
+  if (rest) {
+    return parseInline(state, start, rest)
+  }
+
+  const next = state.lines[state.index]
+  // A sequence may sit at the same indent as its key
+  if (next && (next.indent > indent || (next.indent === indent && isSequenceItem(next.content)))) {
+    return parseBlock(state, next.indent)
+  }
+  return { type: 'null', start: line.end, end: line.end }
+}
+
+/**
+ * Read a `|` (literal) or `>` (folded) block scalar from the raw source
+ * lines following its header
+ */
+function parseBlockScalar(state: State, indent: number, folded: boolean, chomp: string, start: number): Json5Node {
+  const { text, end: documentEnd } = state
+  const headerLine = state.lines[state.index - 1]
+  const rawLines: string[] = []
+  let offset = headerLine.end + 1
+  let end = headerLine.end
+  let contentIndent = -1
+
+  // Consume raw lines (blank ones included) while they are indented past the key
+  while (offset <= documentEnd) {
+    const newline = text.indexOf('\n', offset)
+    const lineEnd = newline < 0 || newline > documentEnd ? documentEnd : newline
+    const raw = text.slice(offset, lineEnd).replace(/\r$/, '')
+    const lineIndent = raw.length - raw.replace(/^ +/, '').length
+
+    if (raw.trim()) {
+      if (lineIndent <= indent) break
+      if (contentIndent < 0) contentIndent = lineIndent
+      if (lineIndent < contentIndent) break
+      end = offset + raw.length
+    }
+    rawLines.push(raw.trim() ? raw.slice(contentIndent) : '')
+    offset = lineEnd + 1
+  }
+
+  // Skip the structured lines the block scalar covered
+  while (state.lines[state.index] && state.lines[state.index].offset < end) {
+    state.index++
+  }
+
+  // Trailing blank lines belong to the next key, not the scalar
+  while (rawLines.length > 0 && rawLines[rawLines.length - 1] === '') {
+    rawLines.pop()
+  }
+
+  let value = folded
+    ? rawLines.reduce((acc, line, i) => {
+        if (i === 0) return line
+        if (line === '' || acc.endsWith('\n')) return acc + '\n' + line
+        return acc + ' ' + line
+      }, '')
+    : rawLines.join('\n')
+  if (chomp !== '-' && value) value += '\n'
+
+  return { type: 'string', value, start, end }
+}
+
+/**
+ * Parse a scalar or flow collection written on one line
+ */
+function parseInline(state: State, start: number, content: string): Json5Node {
+  const end = start + content.length
+
+  if (ALIAS_PATTERN.test(content)) {
+    const cursor = { text: content, pos: 0, base: start, anchors: state.anchors }
+    const node = readAlias(cursor)
+    skipSpaces(cursor)
+    if (cursor.pos < content.length) {
+      throw new YamlSyntaxError('Unexpected text after alias', start + cursor.pos)
+    }
+    return node
+  }
+
+  if (content.startsWith('{') || content.startsWith('[')) {
+    const cursor = { text: content, pos: 0, base: start, anchors: state.anchors }
+    const node = parseFlow(cursor)
+    skipSpaces(cursor)
+    if (cursor.pos < content.length) {
+      throw new YamlSyntaxError('Unexpected text after flow collection', start + cursor.pos)
+    }
+    return node
+  }
+
+  if (content.startsWith('"') || content.startsWith("'")) {
+    const quoted = readQuoted(content, 0, start)
+    if (quoted.end !== content.length) {
+      throw new YamlSyntaxError('Unexpected text after quoted string', start + quoted.end)
+    }
+    return { type: 'string', value: quoted.value, start, end }
+  }
+
+  return plainScalar(content, start, end)
+}
+
+interface FlowCursor {
+  text: string
+  pos: number
+  base: number  // Offset of text[0] in the document
+  anchors: Map<string, Json5Node>
+}
+
+/**
+ * Resolve `*name` to the value anchored with `&name`
+ */
+function readAlias(cursor: FlowCursor): Json5Node {
+  const match = cursor.text.slice(cursor.pos).match(ALIAS_PATTERN)!
+  const node = cursor.anchors.get(match[1])
+  if (!node) {
+    throw new YamlSyntaxError(`Unknown alias "*${match[1]}"`, cursor.base + cursor.pos)
+  }
+  cursor.pos += match[0].length
+  return node
+}
+
+/**
+ * Parse a flow collection or scalar: {a: 1, b: [x, 'y']}
+ */
+function parseFlow(cursor: FlowCursor): Json5Node {
+  skipSpaces(cursor)
+  const { text, base } = cursor
+  const start = cursor.pos
+  const ch = text[start]
+
+  if (ch === '{' || ch === '[') {
+    const close = ch === '{' ? '}' : ']'
+    const properties: Json5Property[] = []
+    const items: Json5Node[] = []
+    cursor.pos++
+
+    for (;;) {
+      skipSpaces(cursor)
+      if (text[cursor.pos] === close) break
+
+      if (ch === '{') {
+        const keyStart = cursor.pos
+        const key = parseFlow(cursor)
+        if (key.type === 'object' || key.type === 'array') {
+          throw new YamlSyntaxError('Expected a key', base + keyStart)
+        }
+        skipSpaces(cursor)
+        if (text[cursor.pos] !== ':') {
+          throw new YamlSyntaxError('Expected ":"', base + cursor.pos)
+        }
+        cursor.pos++
+        properties.push({
+          key: key.type === 'null' ? '' : String(key.value),
+          keyStart: key.start,
+          keyEnd: key.end,
+          value: parseFlow(cursor),
+        })
+      } else {
+        items.push(parseFlow(cursor))
+      }
+
+      skipSpaces(cursor)
+      if (text[cursor.pos] === ',') {
+        cursor.pos++
+        continue
+      }
+      if (text[cursor.pos] !== close) {
+        throw new YamlSyntaxError(`Expected "," or "${close}"`, base + cursor.pos)
+      }
+    }
+
+    cursor.pos++
+    return ch === '{'
+      ? { type: 'object', properties, start: base + start, end: base + cursor.pos }
+      : { type: 'array', items, start: base + start, end: base + cursor.pos }
+  }
+
+  if (ch === '*') return readAlias(cursor)
+
+  if (ch === '"' || ch === "'") {
+    const quoted = readQuoted(text, start, base)
+    cursor.pos = quoted.end
+    return { type: 'string', value: quoted.value, start: base + start, end: base + cursor.pos }
+  }
+
+  // Plain scalar: runs to a flow indicator or `: `
+  const match = text.slice(start).match(/^(?:[^,:{}[\]]|:(?![\s,{}[\]]|$))*/)!
+  const value = match[0].trimEnd()
+  if (!value) {
+    throw new YamlSyntaxError(ch === undefined ? 'Unexpected end of line' : `Unexpected "${ch}"`, base + start)
+  }
+  cursor.pos = start + value.length
+  return plainScalar(value, base + start, base + cursor.pos)
+}
+
+function skipSpaces(cursor: FlowCursor): void {
+  while (cursor.text[cursor.pos] === ' ') cursor.pos++
+}
+
+/**
+ * Read a double-quoted (JSON escapes) or single-quoted (`''` escape) string
+ * starting at `start`. Returns its value and the index just past it.
+ */
+function readQuoted(text: string, start: number, base: number): { value: string; end: number } {
+  const pattern = text[start] === '"' ? /"(?:[^"\\]|\\.)*"/y : /'(?:[^']|'')*'/y
+  pattern.lastIndex = start
+  const match = pattern.exec(text)
+  if (!match) {
+    throw new YamlSyntaxError('Unterminated string', base + start)
+  }
+
+  const raw = match[0]
+  if (raw.startsWith("'")) {
+    return { value: raw.slice(1, -1).replace(/''/g, "'"), end: start + raw.length }
+  }
+  try {
+    return { value: JSON.parse(raw) as string, end: start + raw.length }
+  } catch {
+    throw new YamlSyntaxError('Invalid escape sequence', base + start)
+  }
+}
+
+/**
+ * Resolve a plain scalar to null, a boolean, a number or a string
+ */
+function plainScalar(content: string, start: number, end: number): Json5Node {
+  if (/^(?:~|null|Null|NULL)$/.test(content)) return { type: 'null', start, end }
+  if (/^(?:true|True|TRUE)$/.test(content)) return { type: 'boolean', value: true, start, end }
+  if (/^(?:false|False|FALSE)$/.test(content)) return { type: 'boolean', value: false, start, end }
+  if (/^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?$/.test(content)) {
+    return { type: 'number', value: Number(content), start, end }
+  }
+  if (/^0x[0-9a-fA-F]+$/.test(content)) {
+    return { type: 'number', value: parseInt(content, 16), start, end }
+  }
+  return { type: 'string', value: content, start, end }
+}
+
+function isSequenceItem(content: string): boolean {
+  return content === '-' || content.startsWith('- ')
+}
+
+/**
+ * Match `key:` at the start of a line. `valueOffset` is where the value starts.
+ */
+function matchKey(content: string): { name: string; length: number; valueOffset: number; quoted: boolean } | null {
+  const match = content.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#{}[\],:-][^:]*?|-[^\s:][^:]*?)[ ]*:(?:[ ]+|$)/)
+  if (!match) return null
+
+  const raw = match[1]
+  const name = raw.startsWith('"')
+    ? JSON.parse(raw) as string
+    : raw.startsWith("'") ? raw.slice(1, -1).replace(/''/g, "'") : raw
+  return { name, length: raw.length, valueOffset: match[0].length, quoted: raw !== name }
+}
@@ -402,23 +402,57 @@ export function isoGrid(
   return `<g class="iso-grid">${lines.join('\n')}</g>`
 }
 
+/** Common CSS named colors accepted in classDef/style fills */
+const NAMED_COLORS: Record<string, string> = {
+  black: '000000', white: 'ffffff', red: 'ff0000', green: '008000', blue: '0000ff',
+  yellow: 'ffff00', orange: 'ffa500', purple: '800080', pink: 'ffc0cb', brown: 'a52a2a',
+  gray: '808080', grey: '808080', silver: 'c0c0c0', maroon: '800000', olive: '808000',
+  lime: '00ff00', aqua: '00ffff', cyan: '00ffff', teal: '008080', navy: '000080',
+  fuchsia: 'ff00ff', magenta: 'ff00ff', gold: 'ffd700', coral: 'ff7f50', salmon: 'fa8072',
+  tomato: 'ff6347', khaki: 'f0e68c', violet: 'ee82ee', indigo: '4b0082', crimson: 'dc143c',
+  beige: 'f5f5dc', ivory: 'fffff0', lavender: 'e6e6fa', tan: 'd2b48c', turquoise: '40e0d0',
+  lightblue: 'add8e6', lightgreen: '90ee90', lightgray: 'd3d3d3', lightgrey: 'd3d3d3',
+  lightyellow: 'ffffe0', lightpink: 'ffb6c1', darkblue: '00008b', darkgreen: '006400',
+  darkred: '8b0000', darkgray: 'a9a9a9', darkgrey: 'a9a9a9', darkorange: 'ff8c00',
+  skyblue: '87ceeb', steelblue: '4682b4', slategray: '708090', slategrey: '708090',
+}
+
 /**
- * Adjust color brightness for face shading
+ * Parse a CSS color (#rgb, #rrggbb, #rrggbbaa, rgb()/rgba() or a common name) into RGB
  */
-export function adjustColor(hexColor: string, percent: number): string {
-  let hex = hexColor.replace('#', '')
-  if (hex.length === 3) {
+function parseColor(color: string): { r: number; g: number; b: number } | null {
+  const value = color.trim().toLowerCase()
+
+  const rgbMatch = value.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/)
+  if (rgbMatch) {
+    return { r: Number(rgbMatch[1]), g: Number(rgbMatch[2]), b: Number(rgbMatch[3]) }
+  }
+
+  let hex = NAMED_COLORS[value] ?? value.replace('#', '')
+  if (hex.length === 3 || hex.length === 4) {
     hex = hex[0] + hex[0] + hex[1] + hex[1] + hex[2] + hex[2]
   }
+  if (!/^[0-9a-f]{6}([0-9a-f]{2})?$/.test(hex)) return null
 
-  const r = parseInt(hex.substring(0, 2), 16)
-  const g = parseInt(hex.substring(2, 4), 16)
-  const b = parseInt(hex.substring(4, 6), 16)
+  return {
+    r: parseInt(hex.substring(0, 2), 16),
+    g: parseInt(hex.substring(2, 4), 16),
+    b: parseInt(hex.substring(4, 6), 16),
+  }
+}
+
+/**
+ * Adjust color brightness for face shading
+ * Accepts any color parseColor understands; unknown colors are returned unchanged
+ */
+export function adjustColor(color: string, percent: number): string {
+  const rgb = parseColor(color)
+  if (!rgb) return color
 
   const adjust = (c: number) => {
     const adjusted = c + (c * percent) / 100
     return Math.min(255, Math.max(0, Math.round(adjusted)))
   }
 
-  return `#${adjust(r).toString(16).padStart(2, '0')}${adjust(g).toString(16).padStart(2, '0')}${adjust(b).toString(16).padStart(2, '0')}`
+  return `#${adjust(rgb.r).toString(16).padStart(2, '0')}${adjust(rgb.g).toString(16).padStart(2, '0')}${adjust(rgb.b).toString(16).padStart(2, '0')}`
 }
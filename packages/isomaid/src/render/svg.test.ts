@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { parseMermaid } from '../parser'
+import { layoutGraph } from '../layout'
+import { renderToSvg } from './svg'
+import { diffGraphs } from '../model/diff'
+import type { Graph } from '../model/types'
+import { diagram } from '..'
+
+async function laidOut(source: string): Promise<Graph> {
+  return layoutGraph(await parseMermaid(source))
+}
+
+describe('style values in SVG', () => {
+  // The renderer logs every node it draws
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('drops declarations that would break out of an attribute', async () => {
+    const graph = await parseMermaid([
+      'flowchart LR',
+      '  A --> B',
+      '  style A fill:red" onmouseover="alert(1),stroke:#333',
+      '  linkStyle 0 stroke:blue" onclick="x(),stroke-width:3px',
+    ].join('\n'))
+
+    expect(graph.nodes.get('A')!.style).toEqual({ stroke: '#333' })
+    expect(graph.edges[0].lineStyle).toEqual({ strokeWidth: 3 })
+  })
+
+  it('keeps valid colors, lengths and dash patterns', async () => {
+    const graph = await parseMermaid([
+      'flowchart LR',
+      '  A',
+      '  style A fill:rgb(255, 0, 0),stroke:#f9f,stroke-width:4px,stroke-dasharray:5 5,opacity:0.5,color:white',
+    ].join('\n'))
+
+    expect(graph.nodes.get('A')!.style).toEqual({
+      fill: 'rgb(255, 0, 0)',
+      stroke: '#f9f',
+      strokeWidth: 4,
+      strokeDasharray: '5,5',
+      opacity: 0.5,
+      color: 'white',
+    })
+  })
+
+  it.each(['flat', 'iso'] as const)('escapes style attributes in %s mode', async viewMode => {
+    const graph = await laidOut('flowchart LR\n  A --> B')
+    const injected = 'red" onmouseover="alert(1)'
+    graph.nodes.get('A')!.style = { fill: injected, stroke: injected, color: injected, strokeDasharray: injected }
+    graph.edges[0].lineStyle = { stroke: injected, strokeDasharray: injected, color: injected }
+
+    const svg = renderToSvg(graph, { viewMode, fontFamily: injected })
+
+    expect(svg).not.toContain('" onmouseover=')
+    expect(svg).toContain('red&quot; onmouseover=&quot;alert(1)')
+  })
+})
+
+describe('edge ends', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it.each([
+    ['flat', 'edge-arrow'],
+    ['iso', 'iso-arrow'],
+  ] as const)('draws a marker at each end in %s mode', async (viewMode, arrowClass) => {
+    const graph = await laidOut('flowchart LR\n  A <--> B\n  C o--x D\n  E --- F')
+    const svg = renderToSvg(graph, { viewMode })
+
+    const ends = (from: string) => {
+      const edge = svg.slice(svg.indexOf(`data-from="${from}"`))
+      return edge.slice(0, edge.indexOf('data-from=', 1)).match(new RegExp(`class="${arrowClass}[^"]*"`, 'g'))
+    }
+    expect(ends('A')).toEqual([`class="${arrowClass} arrow-start"`, `class="${arrowClass}"`])
+    expect(ends('C')).toEqual([`class="${arrowClass} arrow-start arrow-circle"`, `class="${arrowClass} arrow-cross"`])
+    expect(ends('E')).toBeNull()
+  })
+
+  it('dashes dotted and dashed edges, not solid ones', async () => {
+    const graph = await laidOut('flowchart LR\n  A --> B\n  C -.-> D\n  E ==> F')
+    graph.edges[0].style = 'dashed'
+    const svg = renderToSvg(graph)
+
+    const dashes = [...svg.matchAll(/class="edge"[\s\S]*?stroke-dasharray="([^"]*)"[\s\S]*?stroke-linecap="([^"]*)"/g)]
+      .map(match => [match[1], match[2]])
+    expect(dashes).toEqual([['11,8.25', 'butt'], ['0.1,9.9', 'round'], ['', 'butt']])
+  })
+})
+
+describe('diff overlay', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it.each(['flat', 'iso'] as const)('marks added, changed and removed items in %s mode', async viewMode => {
+    const before = await laidOut('flowchart LR\n  api[API] --> db\n  cron --> api')
+    const after = await laidOut('flowchart LR\n  api[API v2] --> database[db]\n  queue --> api')
+    const svg = renderToSvg(after, { viewMode, diff: diffGraphs(before, after) })
+
+    expect(svg).toContain('<g class="diff-overlay">')
+    expect(svg).toMatch(/class="diff diff-changed" data-id="api" data-changes="[^"]*\brelabelled\b/)
+    expect(svg).toMatch(/class="diff diff-changed" data-id="database" data-before-id="db"/)
+    expect(svg).toMatch(/class="diff diff-added" data-id="queue"/)
+    expect(svg).toMatch(/class="diff diff-added" data-id="queue-api-1"/)
+    // Ghosts of what was removed, node and edge
+    expect(svg).toMatch(/class="diff diff-removed" data-id="cron"/)
+    expect(svg).toMatch(/class="diff diff-removed" data-id="cron-api-1"/)
+  })
+
+  it('draws nothing extra without a diff', async () => {
+    const graph = await laidOut('flowchart LR\n  a --> b')
+    expect(renderToSvg(graph)).not.toContain('class="diff ')
+  })
+})
+
+describe('frontmatter in SVG', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  const source = [
+    '---',
+    'title: Checkout & payments',
+    'description: Request flow',
+    'config:',
+    '  theme: dark',
+    '---',
+    'flowchart LR',
+    '  A --> B',
+  ].join('\n')
+
+  it('draws the title as a heading and names the SVG after it', async () => {
+    const svg = renderToSvg(await laidOut(source))
+    expect(svg).toContain('<title>Checkout &amp; payments</title><desc>Request flow</desc>')
+    expect(svg).toMatch(/<text class="diagram-title"[^>]*>Checkout &amp; payments<\/text>/)
+  })
+
+  it('leaves the heading out with showTitle: false', async () => {
+    const svg = renderToSvg(await laidOut(source), { showTitle: false })
+    expect(svg).not.toContain('diagram-title')
+    expect(svg).toContain('<title>Checkout &amp; payments</title>')
+  })
+
+  it('lets diagram() options override the frontmatter config', async () => {
+    expect(await diagram(source)).toContain('#1e293b')
+    expect(await diagram(source, { render: { theme: 'light' } })).not.toContain('#1e293b')
+  })
+})
@@ -10,7 +10,8 @@
  * - Isometric grid floor for spatial context
  */
 
-import type { Graph, Node, Edge, ViewMode } from '../model/types'
+import type { Graph, Node, Edge, ViewMode, ArrowType, ThemeName } from '../model/types'
+import type { GraphDiff, NodeDiff, EdgeDiff } from '../model/diff'
 import { getShape, type ShapeResult } from './shapes'
 import { getIsoShape, isoGrid, isoProject, isoDepth, adjustColor } from './iso-shapes'
 import { getGraphBounds } from '../layout'
@@ -30,12 +31,18 @@ export interface RenderOptions {
   edgeStroke?: string
   /** Subgraph fill color */
   subgraphFill?: string
+  /** Color theme - sets the colors above unless they are given explicitly */
+  theme?: ThemeName
+  /** Node label color (empty: #333 in flat view, #666 in iso) */
+  textColor?: string
   /** Font family */
   fontFamily?: string
   /** Font size */
   fontSize?: number
   /** Show grid in isometric mode */
   showGrid?: boolean
+  /** Draw the graph title (from frontmatter) as a heading */
+  showTitle?: boolean
   /** Show port indicators on nodes */
   showPorts?: boolean
   /** Show geofence zones around nodes */
@@ -46,6 +53,8 @@ export interface RenderOptions {
   showPortCoords?: boolean
   /** Show draggable waypoint handles on edges (for edit mode) */
   showWaypointHandles?: boolean
+  /** Overlay this diff (from diffGraphs, with the rendered graph as `after`) */
+  diff?: GraphDiff | null
 }
 
 const DEFAULT_OPTIONS: Required<RenderOptions> = {
@@ -55,14 +64,37 @@ const DEFAULT_OPTIONS: Required<RenderOptions> = {
   nodeStroke: '#333333',
   edgeStroke: '#666666',
   subgraphFill: '#f5f5f5',
+  theme: 'light',
+  textColor: '',
   fontFamily: 'system-ui, sans-serif',
   fontSize: 14,
   showGrid: true,
+  showTitle: true,
   showPorts: false,
   showGeofences: false,
   showEdgeCoords: false,
   showPortCoords: false,
   showWaypointHandles: false,
+  diff: null,
+}
+
+// Colors each theme applies underneath explicit options
+const THEME_COLORS: Record<ThemeName, Partial<RenderOptions>> = {
+  light: {},
+  dark: {
+    nodeFill: '#1e293b',
+    nodeStroke: '#94a3b8',
+    edgeStroke: '#94a3b8',
+    subgraphFill: '#0f172a',
+    textColor: '#e2e8f0',
+  },
+}
+
+// Diff overlay colors
+const DIFF_COLORS = {
+  added: '#16a34a',
+  removed: '#dc2626',
+  changed: '#f59e0b',
 }
 
 // Z-height for isometric node extrusion
@@ -99,7 +131,7 @@ function hashCode(str: string): number {
 function shapeToSvg(shape: ShapeResult, extraAttrs: Record<string, string> = {}): string {
   const allAttrs = { ...shape.attrs, ...extraAttrs }
   const attrStr = Object.entries(allAttrs)
-    .map(([k, v]) => `${k}="${v}"`)
+    .map(([k, v]) => `${k}="${escapeAttr(v)}"`)
     .join(' ')
 
   if (shape.children && shape.children.length > 0) {
@@ -537,6 +569,36 @@ function renderIsoLabelGeofence(labelGeofence: { labelId: string; bounds: { left
   </g>`
 }
 
+/**
+ * Resolve fill/stroke/opacity for a node from its style, falling back to render options.
+ * Expanded subgraphs default to a muted palette color with no stroke at 70% opacity.
+ */
+function getNodeColors(
+  node: Node,
+  opts: Required<RenderOptions>,
+  isExpandedSubgraph: boolean
+): { fill: string; stroke: string; strokeWidth: number; opacity: number } {
+  const style = node.style
+
+  if (isExpandedSubgraph) {
+    // Pick a color based on node ID for consistency
+    const colorIndex = Math.abs(hashCode(node.id)) % SUBGRAPH_COLORS.length
+    return {
+      fill: style?.fill || SUBGRAPH_COLORS[colorIndex],
+      stroke: style?.stroke || 'none',
+      strokeWidth: style?.stroke ? (style.strokeWidth ?? 1.5) : 0,
+      opacity: style?.opacity ?? 0.7,
+    }
+  }
+
+  return {
+    fill: style?.fill || opts.nodeFill,
+    stroke: style?.stroke || opts.nodeStroke,
+    strokeWidth: style?.strokeWidth ?? 1.5,
+    opacity: style?.opacity ?? 1,
+  }
+}
+
 /**
  * Render a node in flat mode
  */
@@ -564,26 +626,20 @@ function renderFlatNode(node: Node, opts: Required<RenderOptions>, edges: Edge[]
   // For expanded subgraphs: use colorful muted colors, no stroke, 80% opacity, rounded corners
   const isExpandedSubgraph = renderNode.isSubgraph && !isCollapsedSubgraph
 
-  let fill = renderNode.style?.fill || opts.nodeFill
-  let stroke = renderNode.style?.stroke || opts.nodeStroke
-  let opacity = renderNode.style?.opacity ?? 1
-
-  if (isExpandedSubgraph) {
-    // Pick a color based on node ID for consistency
-    const colorIndex = Math.abs(hashCode(node.id)) % SUBGRAPH_COLORS.length
-    fill = SUBGRAPH_COLORS[colorIndex]
-    stroke = 'none'
-    opacity = 0.7
-  }
+  const { fill, stroke, strokeWidth, opacity } = getNodeColors(renderNode, opts, isExpandedSubgraph)
+  const textColor = renderNode.style?.color ?? (opts.textColor || '#333')
 
   const shape = getShape(renderNode)
-  const shapeAttrs = {
+  const shapeAttrs: Record<string, string> = {
     fill,
     stroke,
-    'stroke-width': isExpandedSubgraph ? '0' : String(renderNode.style?.strokeWidth ?? 1.5),
+    'stroke-width': String(strokeWidth),
     rx: isExpandedSubgraph ? '4' : String(shape.attrs.rx || '0'),
     ry: isExpandedSubgraph ? '4' : String(shape.attrs.ry || '0'),
   }
+  if (renderNode.style?.strokeDasharray) {
+    shapeAttrs['stroke-dasharray'] = renderNode.style.strokeDasharray
+  }
 
   const shapeSvg = shapeToSvg(shape, shapeAttrs)
 
@@ -599,9 +655,9 @@ function renderFlatNode(node: Node, opts: Required<RenderOptions>, edges: Edge[]
       y="${textOffsetY}"
       text-anchor="middle"
       dominant-baseline="central"
-      font-family="${opts.fontFamily}"
+      font-family="${escapeAttr(opts.fontFamily)}"
       font-size="${opts.fontSize}"
-      fill="#333"
+      fill="${escapeAttr(textColor)}"
       font-weight="600"
     >${escapeHtml(renderNode.label)}</text>`
   } else {
@@ -610,9 +666,9 @@ function renderFlatNode(node: Node, opts: Required<RenderOptions>, edges: Edge[]
       y="0"
       text-anchor="middle"
       dominant-baseline="central"
-      font-family="${opts.fontFamily}"
+      font-family="${escapeAttr(opts.fontFamily)}"
       font-size="${opts.fontSize}"
-      fill="#333"
+      fill="${escapeAttr(textColor)}"
     >${escapeHtml(renderNode.label)}</text>`
   }
 
@@ -634,7 +690,7 @@ function renderFlatNode(node: Node, opts: Required<RenderOptions>, edges: Edge[]
     class="node ${node.isSubgraph ? 'subgraph' : ''} ${isCollapsedSubgraph ? 'collapsed' : ''}"
     data-id="${node.id}"
     transform="translate(${renderNode.x}, ${renderNode.y})"
-    opacity="${opacity}"
+    opacity="${escapeAttr(opacity)}"
   >
     ${shapeSvg}
     ${textSvg}
@@ -673,17 +729,12 @@ function renderIsoNode(node: Node, opts: Required<RenderOptions>, edges: Edge[])
   // For expanded subgraphs: use colorful muted colors, no stroke, 80% opacity
   const isExpandedSubgraph = renderNode.isSubgraph && !isCollapsedSubgraph
 
-  let fill = renderNode.style?.fill || opts.nodeFill
-  let stroke = renderNode.style?.stroke || opts.nodeStroke
-  let opacity = renderNode.style?.opacity ?? 1
+  const { fill, opacity } = getNodeColors(renderNode, opts, isExpandedSubgraph)
+  const textColor = renderNode.style?.color ?? (opts.textColor || '#666')
 
-  if (isExpandedSubgraph) {
-    // Pick a color based on node ID for consistency
-    const colorIndex = Math.abs(hashCode(node.id)) % SUBGRAPH_COLORS.length
-    fill = SUBGRAPH_COLORS[colorIndex]
-    stroke = 'none'
-    opacity = 0.7
-  }
+  // Faces are unstroked unless the node has an explicit stroke style
+  const faceStroke = renderNode.style?.stroke ?? 'none'
+  const faceStrokeWidth = renderNode.style?.stroke ? (renderNode.style.strokeWidth ?? 1) : 0
 
   // Get isometric shape - subgraphs render as flat platforms, collapsed subgraphs as 3D boxes
   const isoShape = getIsoShape(renderNode, isSubgraph)
@@ -697,9 +748,9 @@ function renderIsoNode(node: Node, opts: Required<RenderOptions>, edges: Edge[])
       const faceFill = adjustColor(fill, face.colorOffset)
       return `<polygon
         points="${face.points}"
-        fill="${faceFill}"
-        stroke="none"
-        stroke-width="0"
+        fill="${escapeAttr(faceFill)}"
+        stroke="${escapeAttr(faceStroke)}"
+        stroke-width="${escapeAttr(faceStrokeWidth)}"
         class="iso-face iso-${face.type}"
       />`
     })
@@ -728,9 +779,9 @@ function renderIsoNode(node: Node, opts: Required<RenderOptions>, edges: Edge[])
       y="0"
       text-anchor="middle"
       dominant-baseline="central"
-      font-family="${opts.fontFamily}"
+      font-family="${escapeAttr(opts.fontFamily)}"
       font-size="${opts.fontSize}"
-      fill="#666"
+      fill="${escapeAttr(textColor)}"
       font-weight="700"
       transform="${isoMatrix}"
     >${escapeHtml(renderNode.label)}</text>`
@@ -743,9 +794,9 @@ function renderIsoNode(node: Node, opts: Required<RenderOptions>, edges: Edge[])
       y="0"
       text-anchor="middle"
       dominant-baseline="central"
-      font-family="${opts.fontFamily}"
+      font-family="${escapeAttr(opts.fontFamily)}"
       font-size="${opts.fontSize}"
-      fill="#666"
+      fill="${escapeAttr(textColor)}"
       font-weight="700"
       transform="${isoMatrix}"
     >${escapeHtml(renderNode.label)}</text>`
@@ -769,7 +820,7 @@ function renderIsoNode(node: Node, opts: Required<RenderOptions>, edges: Edge[])
     class="node iso-node ${node.isSubgraph ? 'subgraph' : ''} ${isCollapsedSubgraph ? 'collapsed' : ''}"
     data-id="${node.id}"
     transform="translate(0, 0)"
-    opacity="${opacity}"
+    opacity="${escapeAttr(opacity)}"
   >
     ${facesSvg}
     ${textSvg}
@@ -780,16 +831,165 @@ function renderIsoNode(node: Node, opts: Required<RenderOptions>, edges: Edge[])
 }
 
 /**
- * Get edge style properties (stroke dash, width)
+ * Get edge style properties (color, stroke dash, width, line cap), applying linkStyle overrides
+ * Dash lengths scale with the stroke width so patterns stay readable on thick edges
  */
-function getEdgeStyle(edge: Edge): { strokeDasharray: string; strokeWidth: number } {
+function getEdgeStyle(
+  edge: Edge,
+  opts: Required<RenderOptions>
+): { stroke: string; strokeDasharray: string; strokeWidth: number; strokeLinecap: string; opacity: number; labelColor: string } {
+  const lineStyle = edge.lineStyle
+  const strokeWidth = lineStyle?.strokeWidth ?? (edge.style === 'thick' ? 7 : 5.5)
+
   let strokeDasharray = ''
-  if (edge.style === 'dashed') strokeDasharray = '5,5'
-  else if (edge.style === 'dotted') strokeDasharray = '2,2'
+  let strokeLinecap = 'butt'
+  if (edge.style === 'dashed') {
+    strokeDasharray = `${strokeWidth * 2},${strokeWidth * 1.5}`
+  } else if (edge.style === 'dotted') {
+    // Near-zero dashes with round caps render as dots
+    strokeDasharray = `0.1,${strokeWidth * 1.8}`
+    strokeLinecap = 'round'
+  }
+  // An explicit linkStyle dash pattern wins over the operator's pattern
+  if (lineStyle?.strokeDasharray) {
+    strokeDasharray = lineStyle.strokeDasharray
+    strokeLinecap = 'butt'
+  }
 
-  const strokeWidth = edge.style === 'thick' ? 7 : 5.5
+  return {
+    stroke: lineStyle?.stroke || opts.edgeStroke,
+    strokeDasharray,
+    strokeWidth,
+    strokeLinecap,
+    opacity: lineStyle?.opacity ?? 1,
+    labelColor: lineStyle?.color ?? '#666',
+  }
+}
 
-  return { strokeDasharray, strokeWidth }
+type Point = { x: number; y: number }
+
+/**
+ * Render an arrowhead of the given type with its tip at `tip`, pointing away from `from`.
+ * Works in flat coordinates (iso edges apply the matrix to the whole group).
+ *
+ * Returns the SVG plus the point where the edge line should stop so it
+ * doesn't poke through the marker.
+ */
+function renderArrowhead(
+  type: ArrowType,
+  tip: Point,
+  from: Point,
+  size: { length: number; width: number },
+  color: string,
+  className: string
+): { svg: string; base: Point } {
+  const dx = tip.x - from.x
+  const dy = tip.y - from.y
+  const len = Math.sqrt(dx * dx + dy * dy)
+
+  if (type === 'none' || len === 0) {
+    return { svg: '', base: tip }
+  }
+
+  // Direction along the edge and perpendicular for marker width
+  const nx = dx / len
+  const ny = dy / len
+  const px = -ny
+  const py = nx
+
+  switch (type) {
+    case 'circle': {
+      const r = size.width
+      const center = { x: tip.x - nx * r, y: tip.y - ny * r }
+      return {
+        svg: `<circle
+        cx="${center.x}"
+        cy="${center.y}"
+        r="${r}"
+        fill="${escapeAttr(color)}"
+        class="${className} arrow-circle"
+      />`,
+        base: center,
+      }
+    }
+
+    case 'cross': {
+      const half = size.width
+      const center = { x: tip.x - nx * half, y: tip.y - ny * half }
+      // Two strokes at ±45° to the edge direction
+      const ax = (nx + px) * half * 0.7
+      const ay = (ny + py) * half * 0.7
+      const bx = (nx - px) * half * 0.7
+      const by = (ny - py) * half * 0.7
+      return {
+        svg: `<path
+        d="M ${center.x - ax} ${center.y - ay} L ${center.x + ax} ${center.y + ay} M ${center.x - bx} ${center.y - by} L ${center.x + bx} ${center.y + by}"
+        stroke="${escapeAttr(color)}"
+        stroke-width="2.5"
+        fill="none"
+        class="${className} arrow-cross"
+      />`,
+        base: center,
+      }
+    }
+
+    case 'open': {
+      // Unfilled chevron, the line runs all the way to the tip
+      const left = { x: tip.x - nx * size.length + px * size.width, y: tip.y - ny * size.length + py * size.width }
+      const right = { x: tip.x - nx * size.length - px * size.width, y: tip.y - ny * size.length - py * size.width }
+      return {
+        svg: `<polyline
+        points="${left.x},${left.y} ${tip.x},${tip.y} ${right.x},${right.y}"
+        stroke="${escapeAttr(color)}"
+        stroke-width="2.5"
+        fill="none"
+        class="${className} arrow-open"
+      />`,
+        base: tip,
+      }
+    }
+
+    case 'arrow':
+    default: {
+      // Shorten path to make room for the filled triangle
+      const base = { x: tip.x - nx * size.length, y: tip.y - ny * size.length }
+      const left = { x: base.x + px * size.width, y: base.y + py * size.width }
+      const right = { x: base.x - px * size.width, y: base.y - py * size.width }
+      return {
+        svg: `<polygon
+        points="${tip.x},${tip.y} ${left.x},${left.y} ${right.x},${right.y}"
+        fill="${escapeAttr(color)}"
+        class="${className}"
+      />`,
+        base,
+      }
+    }
+  }
+}
+
+/**
+ * Render the markers at both ends of an edge and shorten the path to meet them.
+ * Missing arrow types default to an arrowhead at the target only.
+ */
+function renderEdgeEnds(
+  edge: Edge,
+  points: Point[],
+  size: { length: number; width: number },
+  color: string,
+  className: string
+): { pathPoints: Point[]; arrowSvg: string } {
+  if (points.length < 2) {
+    return { pathPoints: points, arrowSvg: '' }
+  }
+
+  const last = points.length - 1
+  const end = renderArrowhead(edge.toArrow ?? 'arrow', points[last], points[last - 1], size, color, className)
+  const start = renderArrowhead(edge.fromArrow ?? 'none', points[0], points[1], size, color, `${className} arrow-start`)
+
+  return {
+    pathPoints: [start.base, ...points.slice(1, -1), end.base],
+    arrowSvg: start.svg + end.svg,
+  }
 }
 
 /**
@@ -803,12 +1003,10 @@ function renderFlatEdge(edge: Edge, opts: Required<RenderOptions>, edgeLabel?: s
     return ''
   }
 
-  const { strokeDasharray, strokeWidth } = getEdgeStyle(edge)
-  const hasArrow = edge.toArrow !== 'none'
+  const { stroke, strokeDasharray, strokeWidth, strokeLinecap, opacity, labelColor } = getEdgeStyle(edge, opts)
 
   // Arrow dimensions
-  const arrowLen = 10
-  const arrowWidth = 5
+  const arrowSize = { length: 10, width: 5 }
 
   // Extend path with close port coordinates for unified rendering
   // In flat mode: always use close (green) ports at both ends
@@ -830,53 +1028,8 @@ function renderFlatEdge(edge: Edge, opts: Required<RenderOptions>, edgeLabel?: s
     ]
   }
 
-  // Calculate path and arrow
-  let pathPoints = extendedPoints
-  let arrowSvg = ''
-
-  if (hasArrow && extendedPoints.length >= 2) {
-    const lastPt = extendedPoints[extendedPoints.length - 1]
-    const prevPt = extendedPoints[extendedPoints.length - 2]
-
-    // Calculate direction
-    const dx = lastPt.x - prevPt.x
-    const dy = lastPt.y - prevPt.y
-    const len = Math.sqrt(dx * dx + dy * dy)
-
-    if (len > 0) {
-      // Normalize direction
-      const nx = dx / len
-      const ny = dy / len
-
-      // Shorten path to make room for arrowhead
-      const shortenedLast = {
-        x: lastPt.x - nx * arrowLen,
-        y: lastPt.y - ny * arrowLen
-      }
-      pathPoints = [...extendedPoints.slice(0, -1), shortenedLast]
-
-      // Perpendicular for arrow width
-      const px = -ny
-      const py = nx
-
-      // Arrow triangle points
-      const tip = lastPt
-      const left = {
-        x: lastPt.x - nx * arrowLen + px * arrowWidth,
-        y: lastPt.y - ny * arrowLen + py * arrowWidth
-      }
-      const right = {
-        x: lastPt.x - nx * arrowLen - px * arrowWidth,
-        y: lastPt.y - ny * arrowLen - py * arrowWidth
-      }
-
-      arrowSvg = `<polygon
-        points="${tip.x},${tip.y} ${left.x},${left.y} ${right.x},${right.y}"
-        fill="${opts.edgeStroke}"
-        class="edge-arrow"
-      />`
-    }
-  }
+  // Calculate path and arrowheads at both ends
+  const { pathPoints, arrowSvg } = renderEdgeEnds(edge, extendedPoints, arrowSize, stroke, 'edge-arrow')
 
   const pathD = pathPoints
     .map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`)
@@ -888,9 +1041,10 @@ function renderFlatEdge(edge: Edge, opts: Required<RenderOptions>, edgeLabel?: s
     data-to="${edge.to}"
     d="${pathD}"
     fill="none"
-    stroke="${opts.edgeStroke}"
-    stroke-width="${strokeWidth}"
-    stroke-dasharray="${strokeDasharray}"
+    stroke="${escapeAttr(stroke)}"
+    stroke-width="${escapeAttr(strokeWidth)}"
+    stroke-dasharray="${escapeAttr(strokeDasharray)}"
+    stroke-linecap="${escapeAttr(strokeLinecap)}"
   />`
 
   svg += arrowSvg
@@ -905,8 +1059,8 @@ function renderFlatEdge(edge: Edge, opts: Required<RenderOptions>, edgeLabel?: s
         d="M ${crossing.x - bridgeRadius} ${crossing.y}
            A ${bridgeRadius} ${bridgeRadius} 0 0 1 ${crossing.x + bridgeRadius} ${crossing.y}"
         fill="none"
-        stroke="${opts.edgeStroke}"
-        stroke-width="${strokeWidth}"
+        stroke="${escapeAttr(stroke)}"
+        stroke-width="${escapeAttr(strokeWidth)}"
       />`
       // White background to "erase" the line underneath
       svg += `<line
@@ -929,13 +1083,13 @@ function renderFlatEdge(edge: Edge, opts: Required<RenderOptions>, edgeLabel?: s
       x="${midPoint.x}"
       y="${midPoint.y - 8}"
       text-anchor="middle"
-      font-family="${opts.fontFamily}"
+      font-family="${escapeAttr(opts.fontFamily)}"
       font-size="${opts.fontSize - 2}"
-      fill="${edgeLabel ? '#e44' : '#666'}"
+      fill="${edgeLabel ? '#e44' : escapeAttr(labelColor)}"
     >${escapeHtml(labelToShow)}</text>`
   }
 
-  return svg
+  return opacity < 1 ? `<g opacity="${escapeAttr(opacity)}">${svg}</g>` : svg
 }
 
 /**
@@ -975,10 +1129,10 @@ function renderIsoEdge(
   const sin30 = 0.5
   const isoMatrix = `matrix(${cos30}, ${sin30}, ${-cos30}, ${sin30}, 0, 0)`
 
+  const { stroke, strokeDasharray, strokeWidth, strokeLinecap, opacity, labelColor } = getEdgeStyle(edge, opts)
+
   // Arrow dimensions
-  const arrowLen = 12
-  const arrowWidth = 5
-  const hasArrow = edge.toArrow !== 'none'
+  const arrowSize = { length: 12, width: 5 }
 
   // Check if source/target are expanded subgraphs (flat) vs 3D blocks
   const sourceIsFlat = isExpandedSubgraph(nodes, edge.from)
@@ -1021,69 +1175,24 @@ function renderIsoEdge(
     }
   }
 
-  // Calculate shortened path if there's an arrowhead
-  let pathPoints = extendedPoints
-  let arrowSvg = ''
-
-  if (hasArrow && extendedPoints.length >= 2) {
-    const lastFlat = extendedPoints[extendedPoints.length - 1]
-    const prevFlat = extendedPoints[extendedPoints.length - 2]
-
-    // Calculate direction in flat 2D space
-    const dx = lastFlat.x - prevFlat.x
-    const dy = lastFlat.y - prevFlat.y
-    const len = Math.sqrt(dx * dx + dy * dy)
-
-    if (len > 0) {
-      // Normalize direction
-      const nx = dx / len
-      const ny = dy / len
-
-      // Shorten the last point to stop at arrow base
-      const shortenedLast = {
-        x: lastFlat.x - nx * arrowLen,
-        y: lastFlat.y - ny * arrowLen
-      }
-      pathPoints = [...extendedPoints.slice(0, -1), shortenedLast]
-
-      // Perpendicular (for arrow base width)
-      const px = -ny
-      const py = nx
-
-      // Arrow triangle vertices in flat space
-      const tipX = lastFlat.x
-      const tipY = lastFlat.y
-      const baseCenterX = lastFlat.x - nx * arrowLen
-      const baseCenterY = lastFlat.y - ny * arrowLen
-      const leftX = baseCenterX + px * arrowWidth
-      const leftY = baseCenterY + py * arrowWidth
-      const rightX = baseCenterX - px * arrowWidth
-      const rightY = baseCenterY - py * arrowWidth
-
-      arrowSvg = `<polygon
-        points="${tipX},${tipY} ${leftX},${leftY} ${rightX},${rightY}"
-        fill="${opts.edgeStroke}"
-        class="iso-arrow"
-      />`
-    }
-  }
+  // Calculate shortened path and arrowheads at both ends
+  const { pathPoints, arrowSvg } = renderEdgeEnds(edge, extendedPoints, arrowSize, stroke, 'iso-arrow')
 
   // Create path from flat coordinates
   const pathD = pathPoints
     .map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`)
     .join(' ')
 
-  const { strokeDasharray, strokeWidth } = getEdgeStyle(edge)
-
   let edgeContent = `<path
     class="edge iso-edge"
     data-from="${edge.from}"
     data-to="${edge.to}"
     d="${pathD}"
     fill="none"
-    stroke="${opts.edgeStroke}"
-    stroke-width="${strokeWidth}"
-    stroke-dasharray="${strokeDasharray}"
+    stroke="${escapeAttr(stroke)}"
+    stroke-width="${escapeAttr(strokeWidth)}"
+    stroke-dasharray="${escapeAttr(strokeDasharray)}"
+    stroke-linecap="${escapeAttr(strokeLinecap)}"
   />`
 
   // Draw bridge/hop indicators at crossings in flat space
@@ -1110,8 +1219,8 @@ function renderIsoEdge(
         class="edge-bridge iso-bridge"
         d="M ${leftX} ${centerY} Q ${crossing.x} ${peakY} ${rightX} ${centerY}"
         fill="none"
-        stroke="${opts.edgeStroke}"
-        stroke-width="${strokeWidth}"
+        stroke="${escapeAttr(stroke)}"
+        stroke-width="${escapeAttr(strokeWidth)}"
       />`
     }
   }
@@ -1127,14 +1236,15 @@ function renderIsoEdge(
       x="${midPoint.x}"
       y="${midPoint.y - 8}"
       text-anchor="middle"
-      font-family="${opts.fontFamily}"
+      font-family="${escapeAttr(opts.fontFamily)}"
       font-size="${opts.fontSize - 2}"
-      fill="${edgeLabel ? '#e44' : '#666'}"
+      fill="${edgeLabel ? '#e44' : escapeAttr(labelColor)}"
     >${escapeHtml(labelToShow)}</text>`
   }
 
   // Wrap everything in a group with isometric transform
-  return `<g transform="${isoMatrix}">${edgeContent}</g>`
+  const opacityAttr = opacity < 1 ? ` opacity="${escapeAttr(opacity)}"` : ''
+  return `<g transform="${isoMatrix}"${opacityAttr}>${edgeContent}</g>`
 }
 
 /**
@@ -1452,11 +1562,161 @@ function getIsoBounds(graph: Graph): { minX: number; minY: number; maxX: number;
   return { minX, minY, maxX, maxY }
 }
 
+/**
+ * The graph plus the ghosts of a diff's removed nodes and edges, so the
+ * bounds leave room for them
+ */
+function withDiffGhosts(graph: Graph, diff: GraphDiff | null): Graph {
+  if (!diff) return graph
+
+  const nodes = new Map(graph.nodes)
+  const edges = [...graph.edges]
+  for (const change of diff.nodes) {
+    if (change.status === 'removed' && change.before) nodes.set(`diff:${change.id}`, change.before)
+  }
+  for (const change of diff.edges) {
+    if (change.status === 'removed' && change.before) edges.push(change.before)
+  }
+  return { ...graph, nodes, edges }
+}
+
+/**
+ * Diff overlay over the rendered (`after`) graph: outlines around added and
+ * changed nodes, strokes over added and changed edges, and red ghosts of
+ * removed ones where they were in `before`. A node that only moved isn't
+ * highlighted, since a new layout moves most of them.
+ */
+function renderDiffOverlay(graph: Graph, opts: Required<RenderOptions>, iso: boolean): string {
+  if (!opts.diff) return ''
+
+  const highlighted = (change: NodeDiff) =>
+    change.status !== 'changed' || change.matchedBy === 'label' || change.changes.some(kind => kind !== 'moved')
+
+  const ghostEdges = opts.diff.edges
+    .filter(change => change.status === 'removed' && change.before)
+    .map(change => renderDiffEdge(change, change.before!, DIFF_COLORS.removed, iso))
+  const ghostNodes = opts.diff.nodes
+    .filter(change => change.status === 'removed' && change.before)
+    .map(change => renderDiffGhost(change, change.before!, opts, iso))
+  const edges = opts.diff.edges
+    .filter(change => change.status !== 'removed')
+    .map(change => {
+      const edge = graph.edges.find(e => e.id === change.id)
+      return edge ? renderDiffEdge(change, edge, DIFF_COLORS[change.status], iso) : ''
+    })
+  const outlines = opts.diff.nodes
+    .filter(change => change.status !== 'removed' && highlighted(change))
+    .map(change => {
+      const node = graph.nodes.get(change.id) as (Node & { _hidden?: boolean }) | undefined
+      return node && !node._hidden ? renderDiffOutline(change, node, graph, iso) : ''
+    })
+
+  return [...ghostEdges, ...ghostNodes, ...edges, ...outlines].join('\n')
+}
+
+/**
+ * Class and data attributes shared by every overlay element
+ */
+function diffAttrs(change: NodeDiff | EdgeDiff): string {
+  const beforeId = change.beforeId && change.beforeId !== change.id ? ` data-before-id="${escapeHtml(change.beforeId)}"` : ''
+  return `class="diff diff-${change.status}" data-id="${escapeHtml(change.id)}"${beforeId} data-changes="${change.changes.join(' ')}"`
+}
+
+/**
+ * Outline an added or changed node in the rendered graph
+ */
+function renderDiffOutline(change: NodeDiff, node: Node, graph: Graph, iso: boolean): string {
+  if (node.x === undefined || node.y === undefined) return ''
+  const color = change.status === 'added' ? DIFF_COLORS.added : DIFF_COLORS.changed
+
+  if (iso) {
+    const faces = getIsoShape(node, isExpandedSubgraph(graph.nodes, node.id)).faces
+      .map(face => `<polygon points="${face.points}" fill="none" stroke="${color}" stroke-width="2.5" stroke-linejoin="round" />`)
+      .join('\n')
+    return `<g ${diffAttrs(change)}>${faces}</g>`
+  }
+
+  const shape = shapeToSvg(getShape(node), { fill: 'none', stroke: color, 'stroke-width': '3' })
+  return `<g ${diffAttrs(change)} transform="translate(${node.x}, ${node.y})">${shape}</g>`
+}
+
+/**
+ * Ghost of a removed node, where it was in `before`
+ */
+function renderDiffGhost(change: NodeDiff, node: Node, opts: Required<RenderOptions>, iso: boolean): string {
+  if (node.x === undefined || node.y === undefined) return ''
+  const color = DIFF_COLORS.removed
+  const paint: Record<string, string> = {
+    fill: color,
+    'fill-opacity': '0.12',
+    stroke: color,
+    'stroke-width': '2',
+    'stroke-dasharray': '6 4',
+  }
+  const paintAttrs = Object.entries(paint).map(([k, v]) => `${k}="${v}"`).join(' ')
+  const text = (x: number, y: number) => `<text
+      x="${x}"
+      y="${y}"
+      text-anchor="middle"
+      dominant-baseline="central"
+      font-family="${escapeAttr(opts.fontFamily)}"
+      font-size="${opts.fontSize}"
+      fill="${color}"
+      text-decoration="line-through"
+    >${escapeHtml(node.label)}</text>`
+
+  if (iso) {
+    const faces = [...getIsoShape(node, node.isSubgraph).faces]
+      .sort((a, b) => a.depth - b.depth)
+      .map(face => `<polygon points="${face.points}" ${paintAttrs} />`)
+      .join('\n')
+    const labelAt = isoProject(node.x, node.y, node.isSubgraph ? 0 : ISO_Z_HEIGHT)
+    return `<g ${diffAttrs(change)}>${faces}${text(labelAt.sx, labelAt.sy)}</g>`
+  }
+
+  const labelY = node.isSubgraph ? (node.height || 40) / 2 - 16 : 0
+  return `<g ${diffAttrs(change)} transform="translate(${node.x}, ${node.y})">${shapeToSvg(getShape(node), paint)}${text(0, labelY)}</g>`
+}
+
+/**
+ * Colored stroke along an edge: over an added or changed edge, or dashed
+ * where a removed one ran in `before`
+ */
+function renderDiffEdge(change: EdgeDiff, edge: Edge, color: string, iso: boolean): string {
+  if (!edge.points || edge.points.length < 2) return ''
+
+  const points = [...edge.points]
+  if (edge.sourcePort?.closeX !== undefined && edge.sourcePort.closeY !== undefined) {
+    points.unshift({ x: edge.sourcePort.closeX, y: edge.sourcePort.closeY })
+  }
+  if (edge.targetPort?.closeX !== undefined && edge.targetPort.closeY !== undefined) {
+    points.push({ x: edge.targetPort.closeX, y: edge.targetPort.closeY })
+  }
+  const d = points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ')
+  const dash = change.status === 'removed' ? ' stroke-dasharray="8 5"' : ''
+  const path = `<path d="${d}" fill="none" stroke="${color}" stroke-width="5" stroke-opacity="0.6" stroke-linecap="round" stroke-linejoin="round"${dash} />`
+
+  if (iso) {
+    const isoMatrix = 'matrix(0.866, 0.5, -0.866, 0.5, 0, 0)'
+    return `<g ${diffAttrs(change)} transform="${isoMatrix}">${path}</g>`
+  }
+  return `<g ${diffAttrs(change)}>${path}</g>`
+}
+
 /**
  * Render complete graph to SVG string
  */
 export function renderToSvg(graph: Graph, options: RenderOptions = {}): string {
-  const opts = { ...DEFAULT_OPTIONS, ...options }
+  // Explicit options > arch directive render settings > theme colors > defaults
+  const configured = graph.config.render ?? {}
+  const theme = options.theme ?? configured.theme ?? DEFAULT_OPTIONS.theme
+  const opts: Required<RenderOptions> = {
+    ...DEFAULT_OPTIONS,
+    ...THEME_COLORS[theme],
+    ...configured,
+    ...options,
+    theme,
+  }
 
   console.log(`[RENDER] viewMode=${opts.viewMode}, using ${opts.viewMode === 'iso' ? 'renderIsoSvg' : 'renderFlatSvg'}`)
 
@@ -1508,13 +1768,14 @@ function generateEdgeLabels(graph: Graph): Map<Edge, string> {
  * Render flat (2D) SVG
  */
 function renderFlatSvg(graph: Graph, opts: Required<RenderOptions>): string {
-  const bounds = getGraphBounds(graph)
+  const bounds = getGraphBounds(withDiffGhosts(graph, opts.diff))
 
   const width = bounds.width + opts.padding * 2
-  const height = bounds.height + opts.padding * 2
+  const heading = renderTitle(graph, opts, width)
+  const height = bounds.height + opts.padding * 2 + heading.height
 
   const offsetX = -bounds.x + opts.padding
-  const offsetY = -bounds.y + opts.padding
+  const offsetY = -bounds.y + opts.padding + heading.height
 
   const subgraphs: Node[] = []
   const regularNodes: Node[] = []
@@ -1552,6 +1813,7 @@ function renderFlatSvg(graph: Graph, opts: Required<RenderOptions>): string {
   const subgraphsSvg = subgraphs.map(n => renderFlatNode(n, opts, graph.edges)).join('\n')
   const edgesSvg = graph.edges.map(e => renderFlatEdge(e, opts)).join('\n')
   const nodesSvg = regularNodes.map(n => renderFlatNode(n, opts, graph.edges)).join('\n')
+  const diffSvg = renderDiffOverlay(graph, opts, false)
 
   // Generate debug coordinates if enabled
   const edgeCoordsSvg = opts.showEdgeCoords
@@ -1584,6 +1846,7 @@ function renderFlatSvg(graph: Graph, opts: Required<RenderOptions>): string {
     data-view-mode="flat"
     data-edit-mode="${opts.showWaypointHandles}"
   >
+    ${renderAccessibleText(graph)}
     <defs>
       ${editModeStyles}
       <marker
@@ -1594,10 +1857,11 @@ function renderFlatSvg(graph: Graph, opts: Required<RenderOptions>): string {
         refY="3.5"
         orient="auto"
       >
-        <polygon points="0 0, 10 3.5, 0 7" fill="${opts.edgeStroke}" />
+        <polygon points="0 0, 10 3.5, 0 7" fill="${escapeAttr(opts.edgeStroke)}" />
       </marker>
       ${geofencePatternDef}
     </defs>
+    ${heading.svg}
     <g transform="translate(${offsetX}, ${offsetY})">
       ${gridSvg}
       <g class="subgraphs">${subgraphsSvg}</g>
@@ -1605,6 +1869,7 @@ function renderFlatSvg(graph: Graph, opts: Required<RenderOptions>): string {
       <g class="label-geofences">${labelGeofencesSvg}</g>
       <g class="edges">${edgesSvg}</g>
       <g class="nodes">${nodesSvg}</g>
+      <g class="diff-overlay">${diffSvg}</g>
       <g class="edge-coords">${edgeCoordsSvg}</g>
       <g class="port-coords">${portCoordsSvg}</g>
       <g class="segment-hit-areas">${segmentHitAreasSvg}</g>
@@ -1617,16 +1882,17 @@ function renderFlatSvg(graph: Graph, opts: Required<RenderOptions>): string {
  * Render isometric (3D) SVG
  */
 function renderIsoSvg(graph: Graph, opts: Required<RenderOptions>): string {
-  const flatBounds = getGraphBounds(graph)
-  const isoBounds = getIsoBounds(graph)
+  const flatBounds = getGraphBounds(withDiffGhosts(graph, opts.diff))
+  const isoBounds = getIsoBounds(withDiffGhosts(graph, opts.diff))
 
   // Add padding to isometric bounds
   const padding = opts.padding * 2
   const width = (isoBounds.maxX - isoBounds.minX) + padding * 2
-  const height = (isoBounds.maxY - isoBounds.minY) + padding * 2
+  const heading = renderTitle(graph, opts, width)
+  const height = (isoBounds.maxY - isoBounds.minY) + padding * 2 + heading.height
 
   const offsetX = -isoBounds.minX + padding
-  const offsetY = -isoBounds.minY + padding
+  const offsetY = -isoBounds.minY + padding + heading.height
 
   // Collect nodes and sort by depth for proper layering
   // In isometric view, nodes with higher (x + y) should be rendered later (in front)
@@ -1676,6 +1942,7 @@ function renderIsoSvg(graph: Graph, opts: Required<RenderOptions>): string {
   const subgraphsSvg = subgraphs.map(n => renderIsoNode(n, opts, graph.edges)).join('\n')
   const edgesSvg = graph.edges.map(e => renderIsoEdge(e, opts, graph.nodes)).join('\n')
   const nodesSvg = regularNodes.map(n => renderIsoNode(n, opts, graph.edges)).join('\n')
+  const diffSvg = renderDiffOverlay(graph, opts, true)
 
   // Generate debug coordinates if enabled
   const edgeCoordsSvg = opts.showEdgeCoords
@@ -1708,10 +1975,12 @@ function renderIsoSvg(graph: Graph, opts: Required<RenderOptions>): string {
     data-view-mode="iso"
     data-edit-mode="${opts.showWaypointHandles}"
   >
+    ${renderAccessibleText(graph)}
     <defs>
       ${editModeStyles}
       ${geofencePatternDef}
     </defs>
+    ${heading.svg}
     <g transform="translate(${offsetX}, ${offsetY})">
       ${gridSvg}
       <g class="subgraphs">${subgraphsSvg}</g>
@@ -1719,6 +1988,7 @@ function renderIsoSvg(graph: Graph, opts: Required<RenderOptions>): string {
       <g class="label-geofences">${labelGeofencesSvg}</g>
       <g class="edges">${edgesSvg}</g>
       <g class="nodes">${nodesSvg}</g>
+      <g class="diff-overlay">${diffSvg}</g>
       <g class="edge-coords">${edgeCoordsSvg}</g>
       <g class="port-coords">${portCoordsSvg}</g>
       <g class="segment-hit-areas">${segmentHitAreasSvg}</g>
@@ -1727,6 +1997,32 @@ function renderIsoSvg(graph: Graph, opts: Required<RenderOptions>): string {
   </svg>`
 }
 
+/**
+ * Heading for the graph title, centered above the diagram.
+ * Returns the SVG and the height it adds on top.
+ */
+function renderTitle(graph: Graph, opts: Required<RenderOptions>, width: number): { svg: string; height: number } {
+  if (!graph.title || !opts.showTitle) return { svg: '', height: 0 }
+
+  const fontSize = Math.round(opts.fontSize * 1.4)
+  const height = fontSize + opts.padding / 2
+  const color = opts.textColor || '#333'
+  const svg = `<text class="diagram-title" x="${width / 2}" y="${opts.padding / 2 + fontSize}"
+      text-anchor="middle" font-family="${escapeAttr(opts.fontFamily)}" font-size="${fontSize}"
+      font-weight="600" fill="${escapeAttr(color)}">${escapeHtml(graph.title)}</text>`
+
+  return { svg, height }
+}
+
+/**
+ * <title> and <desc> for screen readers, from the graph's frontmatter
+ */
+function renderAccessibleText(graph: Graph): string {
+  const title = graph.title ? `<title>${escapeHtml(graph.title)}</title>` : ''
+  const desc = graph.description ? `<desc>${escapeHtml(graph.description)}</desc>` : ''
+  return title + desc
+}
+
 /**
  * Escape HTML special characters
  */
@@ -1738,6 +2034,14 @@ function escapeHtml(text: string): string {
     .replace(/"/g, '&quot;')
 }
 
+/**
+ * Escape a value for use inside a double-quoted attribute. Colors and
+ * dash patterns come from diagram source, so they're never written raw.
+ */
+function escapeAttr(value: string | number): string {
+  return escapeHtml(String(value))
+}
+
 /**
  * Main render function - returns SVG string
  */